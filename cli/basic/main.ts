@@ -5,15 +5,20 @@
  * Usage:
  *   ./main.ts [--url http://localhost:3001] <agent-path> append <json-event>
  *   ./main.ts [--url http://localhost:3001] <agent-path> stream [--live]
+ *   ./main.ts [--url http://localhost:3001] <agent-path> export > archive.ndjson
+ *   ./main.ts [--url http://localhost:3001] <agent-path> import <file> [--remap]
  *
  * Examples:
  *   ./main.ts my-agent append '{"type": "hello", "message": "world"}'
  *   ./main.ts my-agent stream --live
  */
 
+import { randomUUID } from "node:crypto";
+import { readFileSync } from "node:fs";
 import { stderr, stdout } from "node:process";
 
 const DEFAULT_URL = "http://localhost:3001";
+const MAX_APPEND_ATTEMPTS = 3;
 
 function printUsage() {
   console.error(`
@@ -22,21 +27,28 @@ Basic CLI - Interact with the event stream server
 Usage:
   ./main.ts [--url URL] <agent-path> append <json-event>
   ./main.ts [--url URL] <agent-path> stream [--live] [--offset OFFSET]
+  ./main.ts [--url URL] <agent-path> export
+  ./main.ts [--url URL] <agent-path> import <file> [--remap]
 
 Options:
   --url URL        Server URL (default: ${DEFAULT_URL})
   --live           Keep connection open for live updates (SSE)
   --offset OFFSET  Start reading from this offset (default: -1 for beginning)
+  --remap          Give imported events new offsets after the stream's head
+                   (without it, importing into a non-empty stream is refused)
 
 Commands:
   append <json>    Append a JSON event to the stream
   stream           Subscribe to events from the stream
+  export           Write the stream's events to stdout as NDJSON
+  import <file>    Store events from an export (- for stdin), keeping createdAt
 
 Examples:
   ./main.ts my-agent append '{"type": "message", "text": "hello"}'
   ./main.ts my-agent stream
   ./main.ts my-agent stream --live --offset -1
   ./main.ts --url http://example.com:3001 my-agent stream --live
+  ./main.ts my-agent export | ./main.ts --url http://example.com:3001 my-agent import -
 `);
 }
 
@@ -63,23 +75,29 @@ async function appendEvent(baseUrl: string, agentPath: string, jsonData: string)
     process.exit(1);
   }
 
-  try {
-    const res = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(parsed),
-    });
-    if (!res.ok) {
-      stderr.write(`Error: ${res.status} ${res.statusText}\n`);
-      process.exit(1);
-    }
-    console.log(`✓ Event appended to ${agentPath}`);
-  } catch (error) {
-    if (error instanceof Error) {
-      stderr.write(`Error appending: ${error.message}\n`);
+  // Retries reuse the same key so the server stores the event at most once
+  const idempotencyKey = randomUUID();
+
+  for (let attempt = 1; attempt <= MAX_APPEND_ATTEMPTS; attempt++) {
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Idempotency-Key": idempotencyKey },
+        body: JSON.stringify(parsed),
+      });
+      if (!res.ok) {
+        stderr.write(`Error: ${res.status} ${res.statusText}\n`);
+        process.exit(1);
+      }
+      console.log(`✓ Event appended to ${agentPath}`);
+      return;
+    } catch (error) {
+      if (error instanceof Error) {
+        stderr.write(`Error appending (attempt ${attempt}): ${error.message}\n`);
+      }
     }
-    process.exit(1);
   }
+  process.exit(1);
 }
 
 async function streamEvents(
@@ -155,6 +173,63 @@ async function streamEvents(
   }
 }
 
+async function exportEvents(baseUrl: string, agentPath: string) {
+  const url = new URL(buildStreamUrl(baseUrl, agentPath));
+  url.searchParams.set("format", "ndjson");
+
+  try {
+    const res = await fetch(url.toString());
+    if (!res.ok) {
+      stderr.write(`Error: ${res.status} ${res.statusText}\n`);
+      process.exit(1);
+    }
+    stdout.write(await res.text());
+  } catch (error) {
+    if (error instanceof Error) {
+      stderr.write(`Error exporting: ${error.message}\n`);
+    }
+    process.exit(1);
+  }
+}
+
+async function importEvents(baseUrl: string, agentPath: string, file: string, remap: boolean) {
+  const url = new URL(`${buildStreamUrl(baseUrl, agentPath)}:import`);
+  if (remap) {
+    url.searchParams.set("remap", "true");
+  }
+
+  let archive: string;
+  try {
+    archive = readFileSync(file === "-" ? 0 : file, "utf-8");
+  } catch (error) {
+    stderr.write(`Error reading ${file}: ${error instanceof Error ? error.message : error}\n`);
+    process.exit(1);
+  }
+
+  try {
+    const res = await fetch(url.toString(), {
+      method: "POST",
+      headers: { "Content-Type": "application/x-ndjson" },
+      body: archive,
+    });
+    const body = (await res.json()) as { imported?: number; error?: string };
+    if (res.status === 409) {
+      stderr.write(`Error: ${agentPath} already has events (use --remap to append)\n`);
+      process.exit(1);
+    }
+    if (!res.ok) {
+      stderr.write(`Error: ${res.status} ${body.error ?? res.statusText}\n`);
+      process.exit(1);
+    }
+    console.log(`✓ Imported ${body.imported} events to ${agentPath}`);
+  } catch (error) {
+    if (error instanceof Error) {
+      stderr.write(`Error importing: ${error.message}\n`);
+    }
+    process.exit(1);
+  }
+}
+
 async function main() {
   const args = process.argv.slice(2);
 
@@ -223,8 +298,34 @@ async function main() {
       break;
     }
 
+    case "export":
+      await exportEvents(baseUrl, agentPath);
+      break;
+
+    case "import": {
+      const file = args[i++];
+      if (!file) {
+        stderr.write("Error: Missing archive file\n");
+        process.exit(1);
+      }
+      let remap = false;
+      while (i < args.length) {
+        if (args[i] === "--remap") {
+          remap = true;
+          i++;
+        } else {
+          stderr.write(`Error: Unknown option "${args[i]}"\n`);
+          process.exit(1);
+        }
+      }
+      await importEvents(baseUrl, agentPath, file, remap);
+      break;
+    }
+
     default:
-      stderr.write(`Error: Unknown command "${command}". Use "append" or "stream".\n`);
+      stderr.write(
+        `Error: Unknown command "${command}". Use "append", "stream", "export" or "import".\n`,
+      );
       printUsage();
       process.exit(1);
   }
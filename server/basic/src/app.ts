@@ -2,13 +2,27 @@
  * Basic Event Stream Server - Hono App
  *
  * Simple HTTP API for event streams:
- * - POST /agents/:path - Append event (auto-creates stream)
+ * - GET /agents?prefix=/pi/&after=/pi/a&limit=100 - List stream summaries
+ * - POST /agents/:path - Append event (auto-creates stream). A repeated Idempotency-Key
+ *   header returns the event first stored with it instead of appending again
  * - GET /agents/:path - Read events as SSE stream (closes after last event)
  * - GET /agents/:path?live=sse - Read events as SSE stream (keeps connection open)
+ * - DELETE /agents/:path - Delete stream (live readers get a tombstone and close)
+ * - POST /agents/:path:truncate?before=OFFSET - Remove events before OFFSET
+ * - GET /agents/:path?types=a,b&excludeTypes=c - Only/except these event types
+ *   (an entry ending in `*` matches by prefix, e.g. `iterate:codemode:*`)
+ * - GET /agents/:path?format=ndjson - Export events, one JSON object per line
+ * - POST /agents/:path:import?remap=true - Import an export (refused if the stream has
+ *   events, unless remap gives them new offsets)
+ * - POST /agents/:path:fork?at=OFFSET&to=/other - Start an empty stream with a
+ *   forked-from event and copies of this stream's events up to OFFSET
+ * - PUT /blobs - Store the request body, returns { blobRef, mimeType, size }
+ * - GET /blobs/:hash - Read a stored blob
  */
 import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { streamSSE } from "hono/streaming";
+import { BlobStore } from "./blobs.js";
 import { EventStore, type StoredEvent } from "./store.js";
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -17,6 +31,12 @@ import { EventStore, type StoredEvent } from "./store.js";
 
 export interface AppConfig {
   store: EventStore;
+  blobs: BlobStore;
+}
+
+interface TypeFilter {
+  types: string[];
+  excludeTypes: string[];
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -24,7 +44,7 @@ export interface AppConfig {
 // ─────────────────────────────────────────────────────────────────────────────
 
 export function createApp(config: AppConfig): Hono {
-  const { store } = config;
+  const { store, blobs } = config;
   const app = new Hono();
 
   // CORS for browser access
@@ -33,6 +53,61 @@ export function createApp(config: AppConfig): Hono {
   // Health check
   app.get("/", (c) => c.text("OK"));
 
+  // ─────────────────────────────────────────────────────────────────────────────
+  // GET /agents - List streams (paged by path)
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  app.get("/agents", (c) => {
+    const prefix = c.req.query("prefix");
+    const after = c.req.query("after");
+    const limit = Number(c.req.query("limit") ?? "100");
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+      return c.json({ error: "'limit' must be an integer between 1 and 1000" }, 400);
+    }
+
+    const matching = store
+      .listStreamSummaries()
+      .filter((summary) => prefix === undefined || summary.path.startsWith(prefix))
+      .filter((summary) => after === undefined || summary.path > after);
+    const streams = matching.slice(0, limit);
+
+    return c.json({
+      streams,
+      // Pass as `after` to fetch the next page; absent on the last page
+      ...(matching.length > limit && { nextCursor: streams[streams.length - 1].path }),
+    });
+  });
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // PUT /blobs - Store bytes referenced from events (e.g. recorded audio)
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  app.put("/blobs", async (c) => {
+    const bytes = new Uint8Array(await c.req.arrayBuffer());
+    const mimeType = c.req.header("content-type") ?? "application/octet-stream";
+    return c.json(blobs.put(bytes, mimeType), 200);
+  });
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // GET /blobs/:hash - Read a blob (content never changes, so it caches forever)
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  app.get("/blobs/:hash", (c) => {
+    const hash = c.req.param("hash");
+    if (!BlobStore.isHash(hash)) {
+      return c.json({ error: "Invalid blob hash" }, 400);
+    }
+    const blob = blobs.get(hash);
+    if (!blob) {
+      return c.json({ error: "Blob not found" }, 404);
+    }
+    return c.body(blob.bytes, 200, {
+      "Content-Type": blob.mimeType,
+      "Cache-Control": "public, max-age=31536000, immutable",
+    });
+  });
+
   // ─────────────────────────────────────────────────────────────────────────────
   // POST /agents/* - Append event
   // ─────────────────────────────────────────────────────────────────────────────
@@ -40,6 +115,53 @@ export function createApp(config: AppConfig): Hono {
   app.post("/agents/:path{.+}", async (c) => {
     const agentPath = "/" + c.req.param("path");
 
+    if (agentPath.endsWith(":import")) {
+      const parsed = parseArchive(await c.req.text());
+      if ("error" in parsed) {
+        return c.json(parsed, 400);
+      }
+      const target = agentPath.slice(0, -":import".length);
+      const imported = store.importEvents(target, parsed.events, {
+        remap: c.req.query("remap") === "true",
+      });
+      if (!imported) {
+        return c.json(
+          { error: "Stream not empty", headOffset: store.getCurrentOffset(target) },
+          409,
+        );
+      }
+      return c.json({ imported: imported.length, headOffset: store.getCurrentOffset(target) }, 200);
+    }
+
+    if (agentPath.endsWith(":fork")) {
+      const at = c.req.query("at");
+      const to = c.req.query("to");
+      if (!at || !to) {
+        return c.json({ error: "Missing 'at' or 'to' query parameter" }, 400);
+      }
+      const target = to.startsWith("/") ? to : "/" + to;
+      const forked = store.forkStream(agentPath.slice(0, -":fork".length), at, target);
+      if (!forked) {
+        return c.json(
+          { error: "Stream not empty", headOffset: store.getCurrentOffset(target) },
+          409,
+        );
+      }
+      return c.json(
+        { path: target, copied: forked.length - 1, headOffset: store.getCurrentOffset(target) },
+        200,
+      );
+    }
+
+    if (agentPath.endsWith(":truncate")) {
+      const before = c.req.query("before");
+      if (!before) {
+        return c.json({ error: "Missing 'before' query parameter" }, 400);
+      }
+      const removed = store.truncateStream(agentPath.slice(0, -":truncate".length), before);
+      return c.json({ removed }, 200);
+    }
+
     let eventData: unknown;
     try {
       eventData = await c.req.json();
@@ -52,9 +174,18 @@ export function createApp(config: AppConfig): Hono {
       (eventData as Record<string, unknown>).createdAt = new Date().toISOString();
     }
 
-    const result = store.append(agentPath, eventData);
+    const result = store.append(agentPath, eventData, c.req.header("idempotency-key") || undefined);
+
+    return c.json({ ok: true, offset: result.offset, duplicate: result.duplicate }, 200);
+  });
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // DELETE /agents/* - Delete stream
+  // ─────────────────────────────────────────────────────────────────────────────
 
-    return c.json({ ok: true, offset: result.offset }, 200);
+  app.delete("/agents/:path{.+}", (c) => {
+    const removed = store.deleteStream("/" + c.req.param("path"));
+    return c.json({ removed }, 200);
   });
 
   // ─────────────────────────────────────────────────────────────────────────────
@@ -65,6 +196,10 @@ export function createApp(config: AppConfig): Hono {
     const agentPath = "/" + c.req.param("path");
     const offset = c.req.query("offset") ?? "-1";
     const live = c.req.query("live");
+    const filter: TypeFilter = {
+      types: listQuery(c.req.queries("types")),
+      excludeTypes: listQuery(c.req.queries("excludeTypes")),
+    };
 
     // Validate live parameter
     if (live !== undefined && live !== "sse") {
@@ -84,17 +219,30 @@ export function createApp(config: AppConfig): Hono {
     // Ensure stream exists (auto-create)
     store.getOrCreate(agentPath);
 
+    // Export: history only, one event per line, in the format POST :import takes
+    if (c.req.query("format") === "ndjson") {
+      const { events } = store.read(agentPath, offset);
+      const lines = events
+        .filter((event) => matchesTypeFilter(event, filter))
+        .map((event) => JSON.stringify(eventWithOffset(event)) + "\n");
+      return c.body(lines.join(""), 200, { "Content-Type": "application/x-ndjson" });
+    }
+
     // Always return SSE stream
     return streamSSE(c, async (stream) => {
       let currentOffset = offset;
+      const generation = store.getGeneration(agentPath);
 
       // Send all existing events first
       const { events } = store.read(agentPath, currentOffset);
       for (const event of events) {
-        await stream.writeSSE({
-          event: "data",
-          data: JSON.stringify(eventWithOffset(event)),
-        });
+        // Filtered-out events still advance the cursor
+        if (matchesTypeFilter(event, filter)) {
+          await stream.writeSSE({
+            event: "data",
+            data: JSON.stringify(eventWithOffset(event)),
+          });
+        }
         currentOffset = event.offset;
       }
 
@@ -114,13 +262,28 @@ export function createApp(config: AppConfig): Hono {
       while (true) {
         const hasNew = await store.waitForEvents(agentPath, currentOffset, TIMEOUT_MS);
 
+        // Deleted or truncated: send a tombstone and close so the client reconnects
+        if (store.getGeneration(agentPath) !== generation) {
+          await stream.writeSSE({
+            event: "data",
+            data: JSON.stringify({
+              type: "iterate:stream:tombstone",
+              payload: { reason: store.has(agentPath) ? "truncated" : "deleted" },
+              offset: currentOffset,
+            }),
+          });
+          return;
+        }
+
         if (hasNew) {
           const { events: newEvents } = store.read(agentPath, currentOffset);
           for (const event of newEvents) {
-            await stream.writeSSE({
-              event: "data",
-              data: JSON.stringify(eventWithOffset(event)),
-            });
+            if (matchesTypeFilter(event, filter)) {
+              await stream.writeSSE({
+                event: "data",
+                data: JSON.stringify(eventWithOffset(event)),
+              });
+            }
             currentOffset = event.offset;
           }
         }
@@ -132,6 +295,29 @@ export function createApp(config: AppConfig): Hono {
   return app;
 }
 
+/**
+ * Flatten repeated and comma-separated query values (?types=a,b&types=c)
+ */
+function listQuery(values: string[] | undefined): string[] {
+  return (values ?? [])
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+}
+
+/**
+ * Check an event's type against include/exclude lists (`*` suffix = prefix match)
+ */
+function matchesTypeFilter(event: StoredEvent, filter: TypeFilter): boolean {
+  const type = (event.data as Record<string, unknown> | null)?.type;
+  const typeString = typeof type === "string" ? type : "";
+  const matches = (entry: string) =>
+    entry.endsWith("*") ? typeString.startsWith(entry.slice(0, -1)) : typeString === entry;
+
+  if (filter.types.length > 0 && !filter.types.some(matches)) return false;
+  return !filter.excludeTypes.some(matches);
+}
+
 /**
  * Convert stored event to output format with offset included
  */
@@ -143,8 +329,44 @@ function eventWithOffset(event: StoredEvent): unknown {
   };
 }
 
+/**
+ * Parse an export back into stored events. Each line's offset and createdAt are kept;
+ * offsets must increase.
+ */
+function parseArchive(text: string): { events: StoredEvent[] } | { error: string; line: number } {
+  const events: StoredEvent[] = [];
+  for (const [index, raw] of text.split("\n").entries()) {
+    const line = index + 1;
+    if (raw.trim() === "") continue;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return { error: "Invalid JSON", line };
+    }
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      return { error: "Expected an event object", line };
+    }
+
+    const { offset, ...data } = parsed as Record<string, unknown>;
+    if (typeof offset !== "string") {
+      return { error: "Missing offset", line };
+    }
+    const previous = events[events.length - 1];
+    if (previous && offset <= previous.offset) {
+      return { error: `Offset ${offset} does not follow ${previous.offset}`, line };
+    }
+    const createdAt =
+      typeof data.createdAt === "string" ? data.createdAt : new Date().toISOString();
+    events.push({ offset, createdAt, data: { ...data, createdAt } });
+  }
+  return { events };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Exports
 // ─────────────────────────────────────────────────────────────────────────────
 
 export { EventStore } from "./store.js";
+export { BlobStore, type BlobRef } from "./blobs.js";
@@ -0,0 +1,80 @@
+/**
+ * Content-addressed Blob Store
+ *
+ * Keeps bytes too large for event payloads (e.g. recorded audio) on disk,
+ * named by their SHA-256:
+ *   2cf24d… → .iterate/blobs/2c/2cf24d… (media type in 2cf24d….type)
+ * Events carry { blobRef, mimeType, size } instead of the bytes.
+ */
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface BlobRef {
+  blobRef: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface StoredBlob {
+  bytes: Uint8Array<ArrayBuffer>;
+  /** Media type the bytes were first stored as */
+  mimeType: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Store
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class BlobStore {
+  private dataDir: string;
+
+  constructor(dataDir: string) {
+    this.dataDir = dataDir;
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+  }
+
+  /** Whether a string is a well-formed blob hash (lowercase hex SHA-256) */
+  static isHash(hash: string): boolean {
+    return /^[0-9a-f]{64}$/.test(hash);
+  }
+
+  private getFilePath(hash: string): string {
+    return path.join(this.dataDir, hash.slice(0, 2), hash);
+  }
+
+  /**
+   * Store bytes, returning a reference to them.
+   * Written to a temp file and renamed, so readers never see a partial blob
+   * (the media type is written first, so it's always there for them).
+   */
+  put(bytes: Uint8Array, mimeType: string): BlobRef {
+    const hash = crypto.createHash("sha256").update(bytes).digest("hex");
+    const filePath = this.getFilePath(hash);
+    if (!fs.existsSync(filePath)) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(`${filePath}.type`, mimeType);
+      const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+      fs.writeFileSync(tempPath, bytes);
+      fs.renameSync(tempPath, filePath);
+    }
+    return { blobRef: hash, mimeType, size: bytes.length };
+  }
+
+  /** Bytes stored under a hash with their media type, or null if unknown */
+  get(hash: string): StoredBlob | null {
+    if (!BlobStore.isHash(hash)) return null;
+    const filePath = this.getFilePath(hash);
+    if (!fs.existsSync(filePath)) return null;
+    return {
+      bytes: fs.readFileSync(filePath),
+      mimeType: fs.readFileSync(`${filePath}.type`, "utf8"),
+    };
+  }
+}
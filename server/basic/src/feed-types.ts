@@ -26,6 +26,8 @@ export interface MessageFeedItem {
   timestamp: number;
   /** Base64 audio data for playback (PCM s16le, 48kHz for Grok, or recorded user audio) */
   audioData?: string;
+  /** Recorded user audio in the blob store (PCM s16le, 48kHz), fetched on playback */
+  audioBlob?: { url: string; size: number };
 }
 
 export interface EventFeedItem {
@@ -6,7 +6,7 @@
 import * as path from "node:path";
 import { fileURLToPath } from "node:url";
 import { serve } from "@hono/node-server";
-import { createApp, EventStore } from "./app.js";
+import { BlobStore, createApp, EventStore } from "./app.js";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Configuration
@@ -16,6 +16,7 @@ const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const PORT = parseInt(process.env.PORT ?? "3001", 10);
 const HOST = process.env.HOST ?? "127.0.0.1";
 const DATA_DIR = process.env.DATA_DIR ?? path.resolve(__dirname, "../.iterate/agents");
+const BLOB_DIR = process.env.BLOB_DIR ?? path.resolve(__dirname, "../.iterate/blobs");
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Main
@@ -26,7 +27,8 @@ async function main() {
   console.log(`[Server] Data directory: ${DATA_DIR}`);
 
   const store = new EventStore(DATA_DIR);
-  const app = createApp({ store });
+  const blobs = new BlobStore(BLOB_DIR);
+  const app = createApp({ store, blobs });
 
   serve(
     {
@@ -42,6 +44,8 @@ Endpoints:
   GET  /agents/:path              - Stream all events (SSE), then close
   GET  /agents/:path?offset=X     - Stream events from offset (SSE), then close
   GET  /agents/:path?live=sse     - Stream events (SSE), keep connection open
+  PUT  /blobs                     - Store bytes, returns { blobRef, mimeType, size }
+  GET  /blobs/:hash               - Read stored bytes
 
 Examples:
   # Post an event
@@ -17,6 +17,8 @@ export interface StoredEvent {
   offset: string;
   createdAt: string;
   data: unknown;
+  /** Idempotency-Key the event was appended with - another append with it stores nothing */
+  idempotencyKey?: string;
 }
 
 export interface StreamData {
@@ -25,9 +27,20 @@ export interface StreamData {
   events: StoredEvent[];
 }
 
+export interface StreamSummary {
+  path: string;
+  eventCount: number;
+  headOffset: string;
+  firstCreatedAt: string;
+  lastCreatedAt: string;
+  lastEventType: string | null;
+}
+
 export interface AppendResult {
   offset: string;
   event: StoredEvent;
+  /** The idempotency key was already used - `event` is the one stored then */
+  duplicate: boolean;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -38,6 +51,8 @@ export class EventStore {
   private dataDir: string;
   private streams = new Map<string, StreamData>();
   private waiters = new Map<string, Array<{ resolve: () => void; offset: string }>>();
+  // Bumped when a stream is deleted or truncated, so live readers know to stop
+  private generations = new Map<string, number>();
 
   constructor(dataDir: string) {
     this.dataDir = dataDir;
@@ -169,10 +184,16 @@ export class EventStore {
   }
 
   /**
-   * Append an event to a stream
+   * Append an event to a stream. With an idempotency key already stored on one of the
+   * stream's events, nothing is appended and that event is returned instead.
    */
-  append(agentPath: string, eventData: unknown): AppendResult {
+  append(agentPath: string, eventData: unknown, idempotencyKey?: string): AppendResult {
     const stream = this.getOrCreate(agentPath);
+    if (idempotencyKey !== undefined) {
+      const existing = stream.events.find((e) => e.idempotencyKey === idempotencyKey);
+      if (existing) return { offset: existing.offset, event: existing, duplicate: true };
+    }
+
     const offset = this.generateOffset(stream.events.length);
     const createdAt = new Date().toISOString();
 
@@ -180,23 +201,77 @@ export class EventStore {
       offset,
       createdAt,
       data: eventData,
+      ...(idempotencyKey !== undefined && { idempotencyKey }),
     };
 
     stream.events.push(event);
     this.saveStream(agentPath, stream);
+    this.notify(agentPath, offset);
 
-    // Notify waiters
-    const waiters = this.waiters.get(agentPath) ?? [];
-    const toNotify = waiters.filter((w) => w.offset < offset);
-    for (const waiter of toNotify) {
-      waiter.resolve();
-    }
-    this.waiters.set(
-      agentPath,
-      waiters.filter((w) => !toNotify.includes(w)),
-    );
+    return { offset, event, duplicate: false };
+  }
+
+  /**
+   * Store exported events (from GET ?format=ndjson), keeping their createdAt and data
+   * (including any trace). Events keep their offsets too, so the stream must be empty -
+   * returns null otherwise. With `remap`, they get fresh offsets after the head instead, and
+   * events with an idempotency key the stream already holds are skipped.
+   */
+  importEvents(
+    agentPath: string,
+    events: StoredEvent[],
+    options: { remap?: boolean } = {},
+  ): StoredEvent[] | null {
+    const stream = this.getOrCreate(agentPath);
+    if (stream.events.length > 0 && !options.remap) return null;
+    if (events.length === 0) return [];
+
+    // Remapped events land after the stream's own, so a key it already holds (or one repeated
+    // earlier in the import) is skipped like a retried append
+    const keys = new Set(stream.events.map((e) => e.idempotencyKey));
+    const imported = options.remap
+      ? events
+          .filter((event) => {
+            if (event.idempotencyKey === undefined) return true;
+            if (keys.has(event.idempotencyKey)) return false;
+            keys.add(event.idempotencyKey);
+            return true;
+          })
+          .map((event, i) => ({
+            ...event,
+            offset: this.generateOffset(stream.events.length + i),
+          }))
+      : events;
+    if (imported.length === 0) return [];
+
+    stream.events.push(...imported);
+    this.saveStream(agentPath, stream);
+    this.notify(agentPath, imported[imported.length - 1].offset);
+
+    return imported;
+  }
 
-    return { offset, event };
+  /**
+   * Start `target` with an `iterate:stream:forked-from` event followed by copies of
+   * `source`'s events up to and including offset `at`, which it counts in `copied`. Copies get
+   * fresh offsets but keep createdAt and data. The target must be empty - returns null
+   * otherwise.
+   */
+  forkStream(source: string, at: string, target: string): StoredEvent[] | null {
+    if ((this.streams.get(target)?.events.length ?? 0) > 0) return null;
+
+    const createdAt = new Date().toISOString();
+    const copies = (this.streams.get(source)?.events ?? []).filter((e) => e.offset <= at);
+    const forkedFrom = {
+      type: "iterate:stream:forked-from",
+      payload: { source, at, copied: copies.length },
+      createdAt,
+    };
+    const events = [{ createdAt, data: forkedFrom }, ...copies];
+    return this.importEvents(
+      target,
+      events.map((event, i) => ({ ...event, offset: this.generateOffset(i) })),
+    );
   }
 
   /**
@@ -264,4 +339,95 @@ export class EventStore {
   listStreams(): string[] {
     return Array.from(this.streams.keys());
   }
+
+  /**
+   * Summaries of non-empty streams, ordered by path
+   */
+  listStreamSummaries(): StreamSummary[] {
+    const summaries: StreamSummary[] = [];
+    for (const [agentPath, stream] of this.streams) {
+      const first = stream.events[0];
+      const last = stream.events[stream.events.length - 1];
+      if (!first || !last) continue;
+
+      const type = (last.data as Record<string, unknown> | null)?.type;
+      summaries.push({
+        path: agentPath,
+        eventCount: stream.events.length,
+        headOffset: last.offset,
+        firstCreatedAt: first.createdAt,
+        lastCreatedAt: last.createdAt,
+        lastEventType: typeof type === "string" ? type : null,
+      });
+    }
+    return summaries.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  }
+
+  /**
+   * Generation of a stream - changes whenever it is deleted or truncated
+   */
+  getGeneration(agentPath: string): number {
+    return this.generations.get(agentPath) ?? 0;
+  }
+
+  /**
+   * Delete a stream and its file. Returns the number of events removed.
+   */
+  deleteStream(agentPath: string): number {
+    const stream = this.streams.get(agentPath);
+    if (!stream) return 0;
+
+    this.streams.delete(agentPath);
+    const filePath = this.getFilePath(agentPath);
+    if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+    console.log(`[Store] Deleted stream: ${agentPath}`);
+
+    this.invalidate(agentPath);
+    return stream.events.length;
+  }
+
+  /**
+   * Remove events with offset < before. The head event is always kept so offsets keep
+   * increasing. Returns the number of events removed.
+   */
+  truncateStream(agentPath: string, before: string): number {
+    const stream = this.streams.get(agentPath);
+    if (!stream) return 0;
+
+    const head = stream.events[stream.events.length - 1];
+    const kept = stream.events.filter((e) => e.offset >= before || e === head);
+    const removed = stream.events.length - kept.length;
+    if (removed === 0) return 0;
+
+    stream.events = kept;
+    this.saveStream(agentPath, stream);
+    this.invalidate(agentPath);
+    return removed;
+  }
+
+  /**
+   * Wake live readers waiting for events before `offset`
+   */
+  private notify(agentPath: string, offset: string): void {
+    const waiters = this.waiters.get(agentPath) ?? [];
+    const toNotify = waiters.filter((w) => w.offset < offset);
+    for (const waiter of toNotify) {
+      waiter.resolve();
+    }
+    this.waiters.set(
+      agentPath,
+      waiters.filter((w) => !toNotify.includes(w)),
+    );
+  }
+
+  /**
+   * Bump the generation and wake every live reader of a stream
+   */
+  private invalidate(agentPath: string): void {
+    this.generations.set(agentPath, this.getGeneration(agentPath) + 1);
+    for (const waiter of this.waiters.get(agentPath) ?? []) {
+      waiter.resolve();
+    }
+    this.waiters.delete(agentPath);
+  }
 }
@@ -0,0 +1,78 @@
+/**
+ * NDJSON archives of stream history - one Schema-encoded Event per line
+ *
+ * Lines keep each event's path, offset, createdAt and trace, so an archive can be imported
+ * into another store (or converted between storage backends) without losing them.
+ */
+import { HttpServerResponse } from "@effect/platform";
+import { Effect, Either, ParseResult, Schema, Stream } from "effect";
+
+import { Event, Offset, StreamPath } from "./domain.js";
+
+export const contentType = "application/x-ndjson";
+
+/** An archive line is not an encoded Event, or offsets within a path don't increase */
+export class ArchiveError extends Schema.TaggedError<ArchiveError>()("ArchiveError", {
+  line: Schema.Number,
+  message: Schema.String,
+}) {}
+
+/**
+ * Encode an Event as one archive line (with trailing newline)
+ */
+export const encodeLine = (event: Event): string =>
+  JSON.stringify(Schema.encodeSync(Event)(event)) + "\n";
+
+const decodeEvent = Schema.decodeUnknownEither(Event);
+
+/**
+ * Decode an archive. Blank lines are skipped; line numbers in errors are 1-based.
+ */
+export const decode = (text: string): Effect.Effect<ReadonlyArray<Event>, ArchiveError> =>
+  Effect.gen(function* () {
+    const events: Event[] = [];
+    const heads = new Map<StreamPath, Offset>();
+    for (const [index, raw] of text.split("\n").entries()) {
+      const line = index + 1;
+      if (raw.trim() === "") continue;
+
+      const json = yield* Effect.try({
+        try: () => JSON.parse(raw) as unknown,
+        catch: () => new ArchiveError({ line, message: "Invalid JSON" }),
+      });
+      const decoded = decodeEvent(json);
+      if (Either.isLeft(decoded)) {
+        return yield* new ArchiveError({
+          line,
+          message: ParseResult.TreeFormatter.formatErrorSync(decoded.left),
+        });
+      }
+
+      const event = decoded.right;
+      const head = heads.get(event.path);
+      if (head !== undefined && !Offset.gt(event.offset, head)) {
+        return yield* new ArchiveError({
+          line,
+          message: `Offset ${event.offset} does not follow ${head} on ${event.path}`,
+        });
+      }
+      heads.set(event.path, event.offset);
+      events.push(event);
+    }
+    return events;
+  });
+
+/**
+ * Source paths of an archive's events, in order of first appearance
+ */
+export const paths = (events: ReadonlyArray<Event>): ReadonlyArray<StreamPath> => [
+  ...new Set(events.map((event) => event.path)),
+];
+
+/**
+ * Create an NDJSON response from a stream of events
+ */
+export const response = <E>(events: Stream.Stream<Event, E>) =>
+  HttpServerResponse.stream(Stream.encodeText(Stream.map(events, encodeLine)), {
+    contentType,
+  });
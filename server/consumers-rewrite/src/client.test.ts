@@ -3,19 +3,21 @@
  */
 import { NodeHttpServer } from "@effect/platform-node";
 import { describe, expect, it } from "@effect/vitest";
-import { Effect, Layer, Scope } from "effect";
+import { Effect, Layer, Scope, Stream } from "effect";
 
-import { EventInput, EventType, StreamPath } from "./domain.js";
+import { EventInput, EventType, PathPattern, StreamPath } from "./domain.js";
 import { AppLive } from "./server.js";
+import * as BlobStore from "./services/blob-store/index.js";
 import * as StreamClient from "./services/stream-client/index.js";
 import * as StreamManager from "./services/stream-manager/index.js";
 import * as StreamStorage from "./services/stream-storage/index.js";
-import { subscribeClient } from "./testing.js";
+import { makeSubscription, subscribeClient } from "./testing.js";
 
 const testLayer = Layer.merge(
   AppLive.pipe(
     Layer.provide(StreamManager.liveLayer),
     Layer.provide(StreamStorage.inMemoryLayer),
+    Layer.provide(BlobStore.inMemoryLayer),
     Layer.provide(NodeHttpServer.layerTest),
   ),
   StreamClient.liveLayer({ baseUrl: "" }).pipe(Layer.provide(NodeHttpServer.layerTest)),
@@ -50,6 +52,35 @@ describe("StreamClient", () => {
     }),
   );
 
+  test(
+    "append returns the stored event",
+    Effect.gen(function* () {
+      const client = yield* StreamClient.StreamClient;
+      const path = StreamPath.make("test/append-result");
+
+      yield* client.append({
+        path,
+        event: EventInput.make({ type: EventType.make("test"), payload: { n: 1 } }),
+      });
+      const stored = yield* client.append({
+        path,
+        event: EventInput.make({ type: EventType.make("test"), payload: { n: 2 } }),
+      });
+
+      expect(stored.path).toBe(path);
+      expect(stored.offset).toBe("0000000000000001");
+      expect(stored.payload).toEqual({ n: 2 });
+
+      // The returned offset is a valid resume point
+      const { take } = yield* subscribeClient(path, { after: stored.offset });
+      yield* client.append({
+        path,
+        event: EventInput.make({ type: EventType.make("test"), payload: { n: 3 } }),
+      });
+      expect((yield* take).payload).toEqual({ n: 3 });
+    }),
+  );
+
   test(
     "multiple events in sequence",
     Effect.gen(function* () {
@@ -102,4 +133,29 @@ describe("StreamClient", () => {
       expect(resultB).toBe("timeout");
     }),
   );
+
+  test(
+    "subscribe with a pattern receives events from matching paths",
+    Effect.gen(function* () {
+      const client = yield* StreamClient.StreamClient;
+      const queue = yield* Stream.toQueue(
+        client.subscribe({ pattern: PathPattern.make("test/glob/*"), live: true }),
+      );
+      const { take } = makeSubscription(queue);
+      yield* Effect.sleep("10 millis");
+
+      yield* client.append({
+        path: StreamPath.make("test/other"),
+        event: EventInput.make({ type: EventType.make("test"), payload: { n: 1 } }),
+      });
+      yield* client.append({
+        path: StreamPath.make("test/glob/a"),
+        event: EventInput.make({ type: EventType.make("test"), payload: { n: 2 } }),
+      });
+
+      const event = yield* take;
+      expect(event.path).toBe("test/glob/a");
+      expect(event.payload).toEqual({ n: 2 });
+    }),
+  );
 });
@@ -7,18 +7,42 @@
  *   tsx src/debug-cli.ts events --last 20
  *   tsx src/debug-cli.ts chat "Hello" --mode queue
  *   tsx src/debug-cli.ts db paths
+ *   tsx src/debug-cli.ts export --path 'team-a/**' > team-a.ndjson
+ *   tsx src/debug-cli.ts import --store yaml:.data/streams team-a.ndjson
+ *
+ * Convert between storage backends by piping an export into an import:
+ *   tsx src/debug-cli.ts export --store yaml:.data/streams | \
+ *     tsx src/debug-cli.ts import --store sqlite:.data/streams.db -
  */
 import { Args, Command, Options } from "@effect/cli";
 import { Reactivity } from "@effect/experimental";
-import { FetchHttpClient } from "@effect/platform";
+import { FetchHttpClient, FileSystem, HttpClient, HttpClientResponse } from "@effect/platform";
 import { NodeContext, NodeRuntime } from "@effect/platform-node";
 import * as SqlError from "@effect/sql/SqlError";
 import { SqliteClient } from "@effect/sql-sqlite-node";
-import { Chunk, Console, Context, Duration, Effect, Layer, Option, Stream } from "effect";
-
-import { StreamPath } from "./domain.js";
-import { CancelRequestEvent, ConfigSetEvent, UserMessageEvent } from "./events.js";
+import {
+  Chunk,
+  Console,
+  Context,
+  Duration,
+  Effect,
+  Layer,
+  Logger,
+  LogLevel,
+  Option,
+  Stream,
+} from "effect";
+
+import * as Archive from "./archive.js";
+import { EventInput, EventType, PathPattern, Payload, StreamPath, Version } from "./domain.js";
+import { CancelRequestEvent, ConfigSetEvent, EventRegistry, UserMessageEvent } from "./events.js";
+// Registers the processors' event schemas, so their older payloads can be migrated
+import "./processors/codemode/events.js";
+import "./processors/llm-loop/events.js";
+import { UsageReport, UsageTotals } from "./processors/llm-loop/index.js";
 import * as StreamClient from "./services/stream-client/index.js";
+import * as StreamManager from "./services/stream-manager/index.js";
+import * as StreamStorage from "./services/stream-storage/index.js";
 import type { EventRow } from "./services/stream-storage/index.js";
 
 // -------------------------------------------------------------------------------------
@@ -121,8 +145,16 @@ function shortType(type: string): string {
   return type.replace("iterate:", "").replace(":called", "").replace("llm-loop:", "");
 }
 
+// Payloads are shown migrated to the current version of their event type (as stored if
+// migration fails)
 function parsePayload(row: EventRow): Record<string, unknown> {
-  return JSON.parse(row.payload) as Record<string, unknown>;
+  const event = EventInput.make({
+    type: EventType.make(row.type),
+    payload: JSON.parse(row.payload) as Payload,
+    version: Version.make(row.version),
+  });
+  return Effect.runSync(EventRegistry.upcast(event).pipe(Effect.orElseSucceed(() => event)))
+    .payload;
 }
 
 const displayConversation = (events: readonly EventRow[]) =>
@@ -339,6 +371,114 @@ const dbCommand = Command.make("db").pipe(
   Command.withSubcommands([dbPathsCommand]),
 );
 
+// -------------------------------------------------------------------------------------
+// Archive Commands (offline - any storage)
+// -------------------------------------------------------------------------------------
+
+// sqlite:<file>, yaml:<dir> (the fileSystemLayer format) or a postgres:// URL
+const storeLayer = (store: string) => {
+  if (store.startsWith("sqlite:")) return StreamStorage.sqliteLayer(store.slice("sqlite:".length));
+  if (store.startsWith("yaml:")) {
+    return StreamStorage.fileSystemLayer(store.slice("yaml:".length)).pipe(
+      Layer.provide(NodeContext.layer),
+    );
+  }
+  if (store.startsWith("postgres://")) return StreamStorage.postgresLayer(store);
+  return Layer.die(`Unknown store "${store}", expected sqlite:<file>, yaml:<dir> or postgres://`);
+};
+
+const storeOption = Options.text("store").pipe(
+  Options.withAlias("s"),
+  Options.withDescription("Storage to read or write: sqlite:<file>, yaml:<dir> or postgres://"),
+  Options.withDefault(`sqlite:${DB_FILE}`),
+);
+
+const exportCommand = Command.make(
+  "export",
+  {
+    store: storeOption,
+    path: Options.text("path").pipe(
+      Options.withAlias("p"),
+      Options.withDescription("Stream path or glob (e.g., team-a/**)"),
+      Options.withDefault("**"),
+    ),
+  },
+  ({ store, path }) =>
+    Effect.gen(function* () {
+      const manager = yield* StreamManager.StreamManager;
+      const events = PathPattern.isPattern(path)
+        ? manager.read({ pattern: PathPattern.make(path) })
+        : manager.read({ path: StreamPath.make(path) });
+      const count = yield* events.pipe(
+        Stream.runFoldEffect(0, (count, event) =>
+          Effect.sync(() => process.stdout.write(Archive.encodeLine(event))).pipe(
+            Effect.as(count + 1),
+          ),
+        ),
+      );
+      yield* Console.error(`Exported ${count} events`);
+    }).pipe(
+      Effect.provide(StreamManager.liveLayer.pipe(Layer.provide(storeLayer(store)))),
+      // stdout carries the archive
+      Logger.withMinimumLogLevel(LogLevel.None),
+    ),
+).pipe(Command.withDescription("Write stream history as NDJSON to stdout"));
+
+const importCommand = Command.make(
+  "import",
+  {
+    file: Args.text({ name: "file" }).pipe(Args.withDescription("NDJSON archive, - for stdin")),
+    store: storeOption,
+    path: Options.text("path").pipe(
+      Options.withAlias("p"),
+      Options.withDescription("Target path (default: each event's own path)"),
+      Options.optional,
+    ),
+    remap: Options.boolean("remap").pipe(
+      Options.withDescription("Renumber offsets after the target's head instead of refusing"),
+    ),
+  },
+  ({ file, store, path, remap }) =>
+    Effect.gen(function* () {
+      const fs = yield* FileSystem.FileSystem;
+      const events = yield* Archive.decode(
+        yield* fs.readFileString(file === "-" ? "/dev/stdin" : file),
+      );
+      const manager = yield* StreamManager.StreamManager;
+
+      const targets = Option.match(path, {
+        onNone: () =>
+          Archive.paths(events).map((source) => ({
+            path: source,
+            events: events.filter((event) => event.path === source),
+          })),
+        onSome: (target) => [{ path: StreamPath.make(target), events }],
+      });
+      if (!remap && Option.isSome(path) && Archive.paths(events).length > 1) {
+        return yield* Console.error("Archive holds several paths, pass --remap to merge them");
+      }
+
+      for (const target of targets) {
+        const stored = yield* manager
+          .importAll({ ...target, remap })
+          .pipe(
+            Effect.catchTag("StreamNotEmptyError", (error) =>
+              Console.error(
+                `Skipped ${error.path}: not empty (head ${error.headOffset}), pass --remap to append`,
+              ).pipe(Effect.as([])),
+            ),
+          );
+        if (stored.length > 0)
+          yield* Console.log(`Imported ${stored.length} events to ${target.path}`);
+      }
+    }).pipe(
+      Effect.provide(StreamManager.liveLayer.pipe(Layer.provide(storeLayer(store)))),
+      Effect.catchTag("ArchiveError", (error) =>
+        Console.error(`Invalid archive at line ${error.line}: ${error.message}`),
+      ),
+    ),
+).pipe(Command.withDescription("Store an NDJSON archive, keeping createdAt and trace"));
+
 // -------------------------------------------------------------------------------------
 // Interactive Commands (require server)
 // -------------------------------------------------------------------------------------
@@ -434,14 +574,63 @@ const chatCommand = Command.make(
     }).pipe(Effect.provide(ClientLive)),
 ).pipe(Command.withDescription("Send message and wait for response (with quiescence detection)"));
 
-const configCommand = Command.make("config", { path: pathOption }, ({ path }) =>
-  Effect.gen(function* () {
-    const streamPath = StreamPath.make(path);
-    const client = yield* StreamClient.StreamClient;
-    yield* client.append({ path: streamPath, event: ConfigSetEvent.make({ model: "openai" }) });
-    yield* Console.log("Enabled openai model");
-  }).pipe(Effect.provide(ClientLive)),
-).pipe(Command.withDescription("Enable openai model for path"));
+const configCommand = Command.make(
+  "config",
+  {
+    path: pathOption,
+    provider: Options.choice("provider", ["openai", "anthropic", "openai-compatible"]).pipe(
+      Options.withDescription("Model provider (default: the server's)"),
+      Options.optional,
+    ),
+    modelId: Options.text("model").pipe(
+      Options.withDescription("Provider's model id, e.g. claude-sonnet-4-5"),
+      Options.optional,
+    ),
+    baseUrl: Options.text("base-url").pipe(
+      Options.withDescription("Server of the openai-compatible provider"),
+      Options.optional,
+    ),
+    temperature: Options.float("temperature").pipe(Options.optional),
+    reasoningEffort: Options.choice("reasoning-effort", [
+      "none",
+      "minimal",
+      "low",
+      "medium",
+      "high",
+    ]).pipe(Options.optional),
+    maxTokens: Options.integer("max-tokens").pipe(Options.optional),
+  },
+  ({ path, provider, modelId, baseUrl, temperature, reasoningEffort, maxTokens }) =>
+    Effect.gen(function* () {
+      const streamPath = StreamPath.make(path);
+      const client = yield* StreamClient.StreamClient;
+      // Omitted options are left out, so the server's default fills them in
+      const modelConfig = {
+        ...Option.match(provider, { onNone: () => ({}), onSome: (provider) => ({ provider }) }),
+        ...Option.match(modelId, { onNone: () => ({}), onSome: (modelId) => ({ modelId }) }),
+        ...Option.match(baseUrl, { onNone: () => ({}), onSome: (baseUrl) => ({ baseUrl }) }),
+        ...Option.match(temperature, {
+          onNone: () => ({}),
+          onSome: (temperature) => ({ temperature }),
+        }),
+        ...Option.match(reasoningEffort, {
+          onNone: () => ({}),
+          onSome: (reasoningEffort) => ({ reasoningEffort }),
+        }),
+        ...Option.match(maxTokens, { onNone: () => ({}), onSome: (maxTokens) => ({ maxTokens }) }),
+      };
+      yield* client.append({
+        path: streamPath,
+        event: ConfigSetEvent.make({ model: "openai", ...modelConfig }),
+      });
+      const settings = Object.entries(modelConfig).map(([key, value]) => `${key}=${value}`);
+      yield* Console.log(
+        settings.length > 0
+          ? `Enabled openai model with ${settings.join(" ")}`
+          : "Enabled openai model",
+      );
+    }).pipe(Effect.provide(ClientLive)),
+).pipe(Command.withDescription("Enable the LLM loop for path, optionally picking its model"));
 
 const stopCommand = Command.make("stop", { path: pathOption }, ({ path }) =>
   Effect.gen(function* () {
@@ -506,6 +695,29 @@ const stressCommand = Command.make("stress", { path: pathOption }, ({ path }) =>
   }).pipe(Effect.provide(ClientLive)),
 ).pipe(Command.withDescription("Run stress test of all interjection modes"));
 
+const formatUsage = (label: string, usage: UsageTotals) => {
+  const cost =
+    usage.unpricedRequests > 0
+      ? `$${usage.costUsd.toFixed(4)} (+${usage.unpricedRequests} unpriced)`
+      : `$${usage.costUsd.toFixed(4)}`;
+  return `${label.padEnd(32)} ${String(usage.requests).padStart(5)} req  in=${usage.inputTokens} out=${usage.outputTokens} reasoning=${usage.reasoningTokens} cached=${usage.cachedInputTokens}  ${cost}`;
+};
+
+const usageCommand = Command.make("usage", { path: pathOption }, ({ path }) =>
+  Effect.gen(function* () {
+    const client = yield* HttpClient.HttpClient;
+    const report = yield* client
+      .get(`${BASE_URL}/agents/${path}:usage`)
+      .pipe(Effect.flatMap(HttpClientResponse.schemaBodyJson(UsageReport)), Effect.scoped);
+
+    const paths = Object.keys(report.byPath).sort();
+    for (const key of paths) yield* Console.log(formatUsage(key, report.byPath[key]!));
+    yield* Console.log(formatUsage("total", report.total));
+  }).pipe(Effect.provide(FetchHttpClient.layer)),
+).pipe(
+  Command.withDescription("Show LLM token usage and estimated cost for a path and paths below it"),
+);
+
 // -------------------------------------------------------------------------------------
 // Root Command
 // -------------------------------------------------------------------------------------
@@ -518,8 +730,11 @@ const app = Command.make("debug-cli").pipe(
     requestsCommand,
     searchCommand,
     dbCommand,
+    exportCommand,
+    importCommand,
     chatCommand,
     configCommand,
+    usageCommand,
     stopCommand,
     stressCommand,
   ]),
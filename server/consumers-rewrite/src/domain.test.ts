@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 
-import { Offset } from "./domain.js";
+import { Offset, PathPattern, StreamPath } from "./domain.js";
 
 describe("Offset comparisons", () => {
   // Zero-padded offsets like the storage produces
@@ -78,3 +78,32 @@ describe("Offset comparisons", () => {
     });
   });
 });
+
+describe("PathPattern matching", () => {
+  const matches = (pattern: string, path: string) =>
+    PathPattern.matcher(PathPattern.make(pattern))(StreamPath.make(path));
+
+  it("* matches within a single segment", () => {
+    expect(matches("team-a/*", "team-a/bot")).toBe(true);
+    expect(matches("team-a/*", "team-a/bot/inbox")).toBe(false);
+    expect(matches("team-*/bot", "team-b/bot")).toBe(true);
+  });
+
+  it("** matches across segments", () => {
+    expect(matches("team-a/**", "team-a/bot")).toBe(true);
+    expect(matches("team-a/**", "team-a/bot/inbox")).toBe(true);
+    expect(matches("team-a/**", "team-b/bot")).toBe(false);
+    expect(matches("**/inbox", "inbox")).toBe(true);
+    expect(matches("**/inbox", "team-a/bot/inbox")).toBe(true);
+  });
+
+  it("treats other characters literally", () => {
+    expect(matches("a.b/*", "a.b/c")).toBe(true);
+    expect(matches("a.b/*", "axb/c")).toBe(false);
+  });
+
+  it("isPattern detects glob syntax", () => {
+    expect(PathPattern.isPattern("team-a/**")).toBe(true);
+    expect(PathPattern.isPattern("team-a/bot")).toBe(false);
+  });
+});
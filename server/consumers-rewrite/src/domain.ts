@@ -25,14 +25,106 @@ const OffsetExtensions = {
   lt: (a: Offset_, b: Offset_): boolean => a < b,
   /** a <= b */
   lte: (a: Offset_, b: Offset_): boolean => a <= b,
+  /** Format a position in a stream as an Offset */
+  fromNumber: (n: number): Offset_ => Offset_.make(n.toString().padStart(16, "0")),
 };
 
 export const Offset = Object.assign(Offset_, OffsetExtensions);
 export type Offset = Offset_;
 
+const GlobalOffset_ = Schema.String.pipe(Schema.brand("GlobalOffset"));
+type GlobalOffset_ = typeof GlobalOffset_.Type;
+
+/**
+ * Storage-assigned position across all paths (totally ordered, zero-padded like Offset).
+ * Used as the resume cursor for "all paths" subscriptions.
+ */
+export const GlobalOffset = Object.assign(GlobalOffset_, {
+  /** Format a sequence number as a GlobalOffset */
+  fromNumber: (n: number): GlobalOffset_ => GlobalOffset_.make(n.toString().padStart(16, "0")),
+  /** Parse a GlobalOffset back to its sequence number */
+  toNumber: (offset: GlobalOffset_): number => parseInt(offset, 10),
+});
+export type GlobalOffset = GlobalOffset_;
+
+/** Compile a path glob: `*` matches within one segment, `**` across segments */
+const patternToRegExp = (pattern: string): RegExp => {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    if (char !== "*") {
+      source += char.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+    } else if (pattern[i + 1] !== "*") {
+      source += "[^/]*";
+    } else if (pattern[i + 2] === "/") {
+      // "**/" matches zero or more whole segments
+      source += "(?:.*/)?";
+      i += 2;
+    } else {
+      source += ".*";
+      i += 1;
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const PathPattern_ = Schema.String.pipe(Schema.brand("PathPattern"));
+type PathPattern_ = typeof PathPattern_.Type;
+
+/**
+ * Glob over stream paths, e.g. `team-a/**` (any depth) or `team-a/*` (direct children).
+ * Used to subscribe to every matching stream, including ones created later.
+ */
+export const PathPattern = Object.assign(PathPattern_, {
+  /** Whether a raw path contains glob syntax (and so names a set of streams) */
+  isPattern: (raw: string): boolean => raw.includes("*"),
+  /** Build a predicate testing stream paths against the pattern */
+  matcher: (pattern: PathPattern_): ((path: StreamPath) => boolean) => {
+    const regExp = patternToRegExp(pattern);
+    return (path) => regExp.test(path);
+  },
+});
+export type PathPattern = PathPattern_;
+
 export const EventType = Schema.String.pipe(Schema.brand("EventType"));
 export type EventType = typeof EventType.Type;
 
+const EventTypeFilter_ = Schema.Struct({
+  types: Schema.optional(Schema.Array(Schema.String)),
+  excludeTypes: Schema.optional(Schema.Array(Schema.String)),
+});
+type EventTypeFilter_ = typeof EventTypeFilter_.Type;
+
+/** The prefix an entry matches by, if it ends in `*` (e.g. `iterate:codemode:*`) */
+const typePrefix = (entry: string): string | undefined =>
+  entry.endsWith("*") ? entry.slice(0, -1) : undefined;
+
+const typeMatches = (entry: string, type: string): boolean => {
+  const prefix = typePrefix(entry);
+  return prefix === undefined ? type === entry : type.startsWith(prefix);
+};
+
+/**
+ * Which event types a read or subscription returns. `types` keeps only matching events,
+ * `excludeTypes` then drops matching ones. Entries ending in `*` match by prefix.
+ */
+export const EventTypeFilter = Object.assign(EventTypeFilter_, {
+  typePrefix,
+  /** Whether the filter lets every event through */
+  isEmpty: (filter: EventTypeFilter_ | undefined): boolean =>
+    (filter?.types === undefined || filter.types.length === 0) &&
+    (filter?.excludeTypes === undefined || filter.excludeTypes.length === 0),
+  /** Build a predicate testing event types against the filter */
+  matcher:
+    (filter: EventTypeFilter_ | undefined): ((type: string) => boolean) =>
+    (type) =>
+      (filter?.types === undefined ||
+        filter.types.length === 0 ||
+        filter.types.some((entry) => typeMatches(entry, type))) &&
+      !(filter?.excludeTypes ?? []).some((entry) => typeMatches(entry, type)),
+});
+export type EventTypeFilter = EventTypeFilter_;
+
 // Accept string or number, coerce to string
 const VersionFromInput = Schema.Union(
   Schema.String,
@@ -44,9 +136,27 @@ const VersionFromInput = Schema.Union(
 export const Version = VersionFromInput.pipe(Schema.brand("Version"));
 export type Version = typeof Version.Type;
 
+/** Client-chosen key that makes retried appends return the originally stored event */
+export const IdempotencyKey = Schema.String.pipe(Schema.brand("IdempotencyKey"));
+export type IdempotencyKey = typeof IdempotencyKey.Type;
+
 export const Payload = Schema.Record({ key: Schema.String, value: Schema.Unknown });
 export type Payload = typeof Payload.Type;
 
+/** SHA-256 of a blob's bytes in lowercase hex, which is also its address in the blob store */
+export const BlobHash = Schema.String.pipe(
+  Schema.pattern(/^[0-9a-f]{64}$/),
+  Schema.brand("BlobHash"),
+);
+export type BlobHash = typeof BlobHash.Type;
+
+/** Payload fields of an event that points at bytes in the blob store instead of carrying them */
+export class BlobRef extends Schema.Class<BlobRef>("BlobRef")({
+  blobRef: BlobHash,
+  mimeType: Schema.String,
+  size: Schema.NonNegativeInt,
+}) {}
+
 // -------------------------------------------------------------------------------------
 // EventInput (base) -> Event (extended with offset + createdAt)
 // -------------------------------------------------------------------------------------
@@ -56,6 +166,7 @@ export class EventInput extends Schema.Class<EventInput>("EventInput")({
   type: EventType,
   payload: Payload,
   version: Schema.optionalWith(Version, { default: () => Version.make("1") }),
+  idempotencyKey: Schema.optional(IdempotencyKey),
 }) {}
 
 /** Full event with path, offset and createdAt assigned by storage */
@@ -64,4 +175,51 @@ export class Event extends EventInput.extend<Event>("Event")({
   offset: Offset,
   createdAt: Schema.DateTimeUtc,
   trace: TraceContext,
+  /** Assigned by storage on append (absent until persisted) */
+  globalOffset: Schema.optional(GlobalOffset),
+}) {}
+
+// -------------------------------------------------------------------------------------
+// Stream metadata (listing)
+// -------------------------------------------------------------------------------------
+
+/** Summary of one non-empty stream, as returned by stream listings */
+export class StreamMetadata extends Schema.Class<StreamMetadata>("StreamMetadata")({
+  path: StreamPath,
+  eventCount: Schema.Number,
+  headOffset: Offset,
+  firstCreatedAt: Schema.DateTimeUtc,
+  lastCreatedAt: Schema.DateTimeUtc,
+  lastEventType: EventType,
+}) {
+  /** Summarize a stream's events (in offset order); undefined for an empty stream */
+  static fromEvents(events: ReadonlyArray<Event>): StreamMetadata | undefined {
+    const first = events[0];
+    const last = events[events.length - 1];
+    if (first === undefined || last === undefined) return undefined;
+    return new StreamMetadata({
+      path: last.path,
+      eventCount: events.length,
+      headOffset: last.offset,
+      firstCreatedAt: first.createdAt,
+      lastCreatedAt: last.createdAt,
+      lastEventType: last.type,
+    });
+  }
+}
+
+// -------------------------------------------------------------------------------------
+// Snapshots
+// -------------------------------------------------------------------------------------
+
+/** Schema-encoded state folded from a stream's events up to and including `offset` */
+export class Snapshot extends Schema.Class<Snapshot>("Snapshot")({
+  path: StreamPath,
+  /** Who owns the state, e.g. a processor name - one snapshot is kept per path and key */
+  key: Schema.String,
+  /** State schema version; readers ignore snapshots written with another version */
+  version: Schema.Number,
+  offset: Offset,
+  state: Schema.Unknown,
+  createdAt: Schema.DateTimeUtc,
 }) {}
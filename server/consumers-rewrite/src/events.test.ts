@@ -1,8 +1,15 @@
 import { Effect, Option, Schema } from "effect";
 import { describe, expect, it } from "vitest";
-import { EventInput, EventType, Offset, Payload } from "./domain.js";
-import { ConfigSetEvent, EventSchema, UserMessageEvent } from "./events.js";
+import { EventInput, EventType, Offset, Payload, Version } from "./domain.js";
+import {
+  ConfigSetEvent,
+  EventRegistry,
+  EventSchema,
+  UserAudioEvent,
+  UserMessageEvent,
+} from "./events.js";
 import { RequestEndedEvent, ResponseSseEvent } from "./processors/llm-loop/events.js";
+import { hashBytes } from "./services/blob-store/index.js";
 
 describe("EventSchema", () => {
   // ---------------------------------------------------------------------------
@@ -252,3 +259,128 @@ describe("EventSchema", () => {
     });
   });
 });
+
+describe("EventSchema versioning", () => {
+  // v1 { text } -> v2 { content } -> v3 { content, mode }
+  const NoteEvent = EventSchema.make(
+    "test:versioned:note",
+    { content: Schema.String, mode: Schema.Literal("draft", "final") },
+    {
+      version: 3,
+      upcasters: {
+        1: ({ text, ...rest }) => ({ ...rest, content: text }),
+        2: (payload) => ({ ...payload, mode: "final" }),
+      },
+    },
+  );
+  const atVersion = (version: string, payload: Payload) =>
+    EventInput.make({ type: NoteEvent.type, payload, version: Version.make(version) });
+
+  it("stamps the current version on new events", () => {
+    expect(NoteEvent.make({ content: "hi", mode: "draft" }).version).toBe("3");
+    expect(UserMessageEvent.make({ content: "hi" }).version).toBe("1");
+  });
+
+  it("decode, decodeOption and is migrate older payloads", async () => {
+    const v1 = atVersion("1", { text: "hi" });
+    const v2 = atVersion("2", { content: "hi" });
+
+    expect(await Effect.runPromise(NoteEvent.decode(v1))).toEqual({ content: "hi", mode: "final" });
+    expect(NoteEvent.decodeOption(v2)).toEqual(Option.some({ content: "hi", mode: "final" }));
+    expect(NoteEvent.is(v1)).toBe(true);
+    expect(NoteEvent.is(atVersion("1", { content: "not v1" }))).toBe(false);
+  });
+
+  it("upcast returns the event at the current version", async () => {
+    const upcast = await Effect.runPromise(NoteEvent.upcast(atVersion("1", { text: "hi" })));
+    expect(upcast.version).toBe("3");
+    expect(upcast.payload).toEqual({ content: "hi", mode: "final" });
+
+    const viaRegistry = await Effect.runPromise(
+      EventRegistry.upcast(atVersion("2", { content: "x" })),
+    );
+    expect(viaRegistry.payload).toEqual({ content: "x", mode: "final" });
+  });
+
+  it("decodes version 1 audio events, inline or already uploaded", async () => {
+    const audio = (payload: Payload) =>
+      EventInput.make({ type: UserAudioEvent.type, payload, version: Version.make("1") });
+    const blob = { blobRef: "a".repeat(64), mimeType: "audio/pcm;rate=48000", size: 4 };
+
+    // Inline bytes become a ref to them, which the server stores when it takes the event in
+    expect(await Effect.runPromise(UserAudioEvent.decode(audio({ audio: "AQIDBA==" })))).toEqual({
+      blobRef: hashBytes(new Uint8Array([1, 2, 3, 4])),
+      mimeType: "audio/pcm;rate=48000",
+      size: 4,
+    });
+    expect(await Effect.runPromise(UserAudioEvent.decode(audio(blob)))).toEqual(blob);
+  });
+
+  it("fails with EventMigrationError when a payload can't be migrated", async () => {
+    const newer = await Effect.runPromise(Effect.flip(NoteEvent.decode(atVersion("4", {}))));
+    expect(newer).toMatchObject({ _tag: "EventMigrationError", fromVersion: "4", toVersion: "3" });
+
+    const Throwing = EventSchema.make(
+      "test:versioned:throwing",
+      {},
+      {
+        version: 2,
+        upcasters: {
+          1: () => {
+            throw new Error("boom");
+          },
+        },
+      },
+    );
+    const error = await Effect.runPromise(
+      Effect.flip(Throwing.upcast(EventInput.make({ type: Throwing.type, payload: {} }))),
+    );
+    expect(error._tag).toBe("EventMigrationError");
+    expect(error.message).toContain("boom");
+  });
+
+  it("requires an upcaster for every older version", () => {
+    expect(() => EventSchema.make("test:versioned:gap", {}, { version: 2 })).toThrow(
+      /missing an upcaster from version 1/,
+    );
+  });
+});
+
+describe("EventRegistry", () => {
+  it("registers every EventSchema by type", () => {
+    expect(EventRegistry.isRegistered(ConfigSetEvent.typeString)).toBe(true);
+    expect(EventRegistry.isRegistered(ResponseSseEvent.typeString)).toBe(true);
+    expect(EventRegistry.types()).toContain("iterate:agent:action:send-user-message:called");
+    expect(EventRegistry.isRegistered("never:defined")).toBe(false);
+  });
+
+  it("validates payloads of registered types with structured issues", async () => {
+    const valid = ConfigSetEvent.make({ model: "openai" });
+    await Effect.runPromise(EventRegistry.validate(valid));
+
+    const invalid = EventInput.make({
+      type: ConfigSetEvent.type,
+      payload: { model: "claude" },
+    });
+    const error = await Effect.runPromise(Effect.flip(EventRegistry.validate(invalid)));
+    expect(error.reason).toBe("invalid-payload");
+    expect(error.issues.length).toBeGreaterThan(0);
+    expect(error.issues.every((issue) => issue.path[0] === "model")).toBe(true);
+  });
+
+  it("passes unknown types unless strict", async () => {
+    const event = EventInput.make({ type: EventType.make("never:defined"), payload: {} });
+    await Effect.runPromise(EventRegistry.validate(event));
+
+    const error = await Effect.runPromise(
+      Effect.flip(EventRegistry.validate(event, { strict: true })),
+    );
+    expect(error.reason).toBe("unknown-type");
+  });
+
+  it("describes payloads as JSON Schema", () => {
+    const schema = Option.getOrThrow(EventRegistry.jsonSchema(UserMessageEvent.typeString));
+    expect(schema).toMatchObject({ type: "object", required: ["content"] });
+    expect(Option.isNone(EventRegistry.jsonSchema("never:defined"))).toBe(true);
+  });
+});
@@ -1,8 +1,24 @@
 /**
  * Typed event schemas for creating and parsing events with compile-time safety
+ *
+ * Every `EventSchema.make` also registers the schema in `EventRegistry`, which the server
+ * uses to validate appended events and to publish JSON Schemas for them.
  */
-import { Effect, Option, ParseResult, Schema } from "effect";
-import { Event, EventInput, EventType } from "./domain.js";
+import { Buffer } from "node:buffer";
+
+import { Effect, JSONSchema, Option, ParseResult, Schema } from "effect";
+import {
+  BlobHash,
+  Event,
+  EventInput,
+  EventType,
+  Offset,
+  PathPattern,
+  Payload,
+  StreamPath,
+  Version,
+} from "./domain.js";
+import { hashBytes } from "./services/blob-store/service.js";
 
 // -------------------------------------------------------------------------------------
 // EventSchema
@@ -14,24 +30,58 @@ type TypedEventInput<Type extends string, P> = EventInput & {
   readonly payload: P;
 };
 
+/** Rewrites a payload stored at one version into the shape of the next */
+export type Upcaster = (payload: Payload) => Payload;
+
+/** An older payload could not be migrated to the current version of its event type */
+export class EventMigrationError extends Schema.TaggedError<EventMigrationError>()(
+  "EventMigrationError",
+  {
+    type: EventType,
+    fromVersion: Schema.String,
+    toVersion: Schema.String,
+    message: Schema.String,
+  },
+) {}
+
 interface EventSchema<Type extends string, P> {
   readonly type: EventType;
   readonly typeString: Type;
+  /** Current payload version - `make` stamps it, older events are upcast to it */
+  readonly version: number;
   /** Phantom type for extracting the event type: `type MyEvent = typeof MyEvent.Type` */
   readonly Type: TypedEventInput<Type, P>;
   readonly make: {} extends P
     ? (payload?: P) => TypedEventInput<Type, P>
     : (payload: P) => TypedEventInput<Type, P>;
+  /** The event with its payload migrated to the current version */
+  readonly upcast: <E extends EventInput | Event>(
+    event: E,
+  ) => Effect.Effect<E, EventMigrationError>;
   readonly decodeOption: (event: EventInput | Event) => Option.Option<P>;
-  readonly decode: (event: EventInput | Event) => Effect.Effect<P, ParseResult.ParseError>;
-  /** Type guard that includes the discriminant for proper narrowing, preserving Event vs EventInput */
+  readonly decode: (
+    event: EventInput | Event,
+  ) => Effect.Effect<P, ParseResult.ParseError | EventMigrationError>;
+  /**
+   * Type guard that includes the discriminant for proper narrowing, preserving Event vs EventInput.
+   * An older version matches if its migrated payload does - events read through an
+   * EventStream are already migrated, so their payload has the current shape.
+   */
   readonly is: <E extends EventInput | Event>(event: E) => event is E & { type: Type; payload: P };
 }
 
 export const EventSchema = {
+  /**
+   * Define an event type. When a payload shape changes, bump `version` and add an upcaster
+   * keyed by each older version N that turns an N payload into an N+1 payload.
+   */
   make: <Type extends string, Fields extends Schema.Struct.Fields>(
     type: Type,
     fields: Fields,
+    options?: {
+      readonly version?: number;
+      readonly upcasters?: Readonly<Record<number, Upcaster>>;
+    },
   ): EventSchema<Type, Schema.Struct.Type<Fields>> => {
     const eventType = EventType.make(type);
     const payloadSchema = Schema.Struct(fields) as unknown as Schema.Schema<
@@ -42,18 +92,71 @@ export const EventSchema = {
     const decodePayload = Schema.decodeUnknown(payloadSchema);
     const isPayload = Schema.is(payloadSchema);
 
+    const version = options?.version ?? 1;
+    const upcasters = options?.upcasters ?? {};
+    for (let from = 1; from < version; from++) {
+      if (upcasters[from] === undefined) {
+        throw new Error(`EventSchema "${type}" is missing an upcaster from version ${from}`);
+      }
+    }
+    const currentVersion = Version.make(String(version));
+
+    const migrate = (event: EventInput | Event) =>
+      Effect.suspend(() => {
+        if (event.version === currentVersion) return Effect.succeed(event.payload);
+        const fail = (message: string) =>
+          EventMigrationError.make({
+            type: eventType,
+            fromVersion: event.version,
+            toVersion: currentVersion,
+            message,
+          });
+        const from = Number(event.version);
+        if (!Number.isInteger(from) || from < 1) return fail("Unrecognized version");
+        if (from > version) return fail("Version is newer than this schema");
+        return Effect.try({
+          try: () => {
+            let payload = event.payload;
+            for (let n = from; n < version; n++) payload = upcasters[n]!(payload);
+            return payload;
+          },
+          catch: (error) => fail(`Upcaster failed: ${String(error)}`),
+        });
+      });
+
+    const upcast = <E extends EventInput | Event>(
+      event: E,
+    ): Effect.Effect<E, EventMigrationError> =>
+      event.version === currentVersion || String(event.type) !== type
+        ? Effect.succeed(event)
+        : migrate(event).pipe(
+            Effect.map((payload) => {
+              const migrated = { ...event, payload, version: currentVersion };
+              return (
+                event instanceof Event ? Event.make(migrated as Event) : EventInput.make(migrated)
+              ) as E;
+            }),
+          );
+
+    registry.set(type, { type: eventType, payloadSchema, upcast });
+
     return {
       type: eventType,
       typeString: type,
+      version,
       Type: undefined as unknown as TypedEventInput<Type, P>, // phantom type
       make: (payload?: P) =>
         EventInput.make({
           type: eventType,
           payload: payload ?? {},
+          version: currentVersion,
         }) as TypedEventInput<Type, P>,
+      upcast,
       decodeOption: (event) => {
         if (String(event.type) !== type) return Option.none();
-        return decodePayloadOption(event.payload);
+        return Effect.runSync(Effect.option(migrate(event))).pipe(
+          Option.flatMap(decodePayloadOption),
+        );
       },
       decode: (event) => {
         if (String(event.type) !== type) {
@@ -67,25 +170,145 @@ export const EventSchema = {
             }),
           );
         }
-        return decodePayload(event.payload);
+        return migrate(event).pipe(Effect.flatMap(decodePayload));
+      },
+      is: <E extends EventInput | Event>(event: E): event is E & { type: Type; payload: P } => {
+        if (String(event.type) !== type) return false;
+        if (event.version === currentVersion) return isPayload(event.payload);
+        return Option.exists(Effect.runSync(Effect.option(migrate(event))), isPayload);
       },
-      is: <E extends EventInput | Event>(event: E): event is E & { type: Type; payload: P } =>
-        String(event.type) === type && isPayload(event.payload),
     };
   },
 };
 
+// -------------------------------------------------------------------------------------
+// EventRegistry
+// -------------------------------------------------------------------------------------
+
+interface RegisteredEventSchema {
+  readonly type: EventType;
+  readonly payloadSchema: Schema.Schema.AnyNoContext;
+  readonly upcast: <E extends EventInput | Event>(
+    event: E,
+  ) => Effect.Effect<E, EventMigrationError>;
+}
+
+// Filled as modules defining event schemas are loaded - a later definition of the same
+// type replaces the earlier one
+const registry = new Map<string, RegisteredEventSchema>();
+
+/**
+ * An event whose type is unknown (in strict mode), reserved for the server, or whose payload
+ * doesn't match its schema
+ */
+export class EventValidationError extends Schema.TaggedError<EventValidationError>()(
+  "EventValidationError",
+  {
+    type: EventType,
+    reason: Schema.Literal("unknown-type", "reserved-type", "invalid-payload"),
+    issues: Schema.Array(
+      Schema.Struct({
+        path: Schema.Array(Schema.Union(Schema.String, Schema.Number)),
+        message: Schema.String,
+      }),
+    ),
+  },
+) {}
+
+export const EventRegistry = {
+  /** Registered event types, sorted */
+  types: (): ReadonlyArray<EventType> =>
+    Array.from(registry.values(), (entry) => entry.type).sort(),
+
+  isRegistered: (type: string): boolean => registry.has(type),
+
+  /** JSON Schema for the payload of a registered event type */
+  jsonSchema: (type: string): Option.Option<JSONSchema.JsonSchema7Root> =>
+    Option.map(Option.fromNullable(registry.get(type)), (entry) =>
+      JSONSchema.make(entry.payloadSchema),
+    ),
+
+  /** The event migrated to the current version of its type (unregistered types pass as is) */
+  upcast: <E extends EventInput | Event>(event: E): Effect.Effect<E, EventMigrationError> =>
+    registry.get(event.type)?.upcast(event) ?? Effect.succeed(event),
+
+  /**
+   * Check an event's payload, migrated to the current version, against its registered
+   * schema. Unregistered types pass, unless `strict` is set.
+   */
+  validate: (
+    event: EventInput | Event,
+    options?: { strict?: boolean },
+  ): Effect.Effect<void, EventValidationError> => {
+    const entry = registry.get(event.type);
+    if (entry === undefined) {
+      return options?.strict
+        ? EventValidationError.make({
+            type: event.type,
+            reason: "unknown-type",
+            issues: [{ path: [], message: `Unknown event type "${event.type}"` }],
+          })
+        : Effect.void;
+    }
+    return entry.upcast(event).pipe(
+      Effect.mapError((error) =>
+        EventValidationError.make({
+          type: event.type,
+          reason: "invalid-payload",
+          issues: [{ path: [], message: `Version ${error.fromVersion}: ${error.message}` }],
+        }),
+      ),
+      Effect.flatMap((migrated) =>
+        Schema.decodeUnknown(entry.payloadSchema)(migrated.payload, {
+          onExcessProperty: "ignore",
+        }),
+      ),
+      Effect.asVoid,
+      Effect.catchTag("ParseError", (error) =>
+        EventValidationError.make({
+          type: event.type,
+          reason: "invalid-payload",
+          issues: ParseResult.ArrayFormatter.formatErrorSync(error).map((issue) => ({
+            path: issue.path.map((key) => (typeof key === "number" ? key : String(key))),
+            message: issue.message,
+          })),
+        }),
+      ),
+    );
+  },
+};
+
 // -------------------------------------------------------------------------------------
 // Event Definitions
 // -------------------------------------------------------------------------------------
 
+export const ModelProvider = Schema.Literal("openai", "anthropic", "openai-compatible");
+export type ModelProvider = typeof ModelProvider.Type;
+
+/** Which model the LLM loop uses - anything omitted falls back to the server's default */
+export const ModelConfig = Schema.Struct({
+  provider: Schema.optional(ModelProvider),
+  /** Provider's model id, e.g. "gpt-5.2-codex" or "claude-sonnet-4-5" */
+  modelId: Schema.optional(Schema.String),
+  /** Server of the "openai-compatible" provider, e.g. "http://localhost:11434/v1" */
+  baseUrl: Schema.optional(Schema.String),
+  temperature: Schema.optional(Schema.Number.pipe(Schema.between(0, 2))),
+  reasoningEffort: Schema.optional(Schema.Literal("none", "minimal", "low", "medium", "high")),
+  maxTokens: Schema.optional(Schema.Int.pipe(Schema.positive())),
+});
+export type ModelConfig = typeof ModelConfig.Type;
+
 export const ConfigSetEvent = EventSchema.make("iterate:agent:config:set", {
+  /** Agent answering on the path - "openai" is the LLM loop, whatever its provider */
   model: Schema.Literal("openai", "grok"),
+  ...ModelConfig.fields,
 });
 
 export const UserMessageEvent = EventSchema.make("iterate:agent:action:send-user-message:called", {
   content: Schema.String,
   mode: Schema.optional(Schema.Literal("interrupt", "queue", "background")),
+  /** Sent by a processor (e.g. codemode results) rather than a person */
+  automatic: Schema.optional(Schema.Boolean),
 });
 export type UserMessageEvent = typeof UserMessageEvent.Type;
 
@@ -94,6 +317,101 @@ export const CancelRequestEvent = EventSchema.make(
   {},
 );
 
-export const UserAudioEvent = EventSchema.make("iterate:agent:action:send-user-audio:called", {
-  audio: Schema.String,
+/** Media type of the recordings version 1 audio events carried inline */
+export const INLINE_AUDIO_MIME_TYPE = "audio/pcm;rate=48000";
+
+/**
+ * Recorded audio, uploaded with PUT /blobs - the payload is the BlobRef returned. Version 1
+ * events from before the blob store carry the recording inline in `audio` instead; they
+ * upcast to a ref to those bytes, which the server stores when it takes such an event in.
+ */
+export const UserAudioEvent = EventSchema.make(
+  "iterate:agent:action:send-user-audio:called",
+  {
+    blobRef: BlobHash,
+    mimeType: Schema.String,
+    size: Schema.NonNegativeInt,
+  },
+  {
+    version: 2,
+    upcasters: {
+      // Inline audio (base64 PCM s16le at 48kHz) - or already a BlobRef, from clients that
+      // uploaded before version 2
+      1: (payload) => {
+        if (typeof payload.audio !== "string") return payload;
+        const bytes = Buffer.from(payload.audio, "base64");
+        return { blobRef: hashBytes(bytes), mimeType: INLINE_AUDIO_MIME_TYPE, size: bytes.length };
+      },
+    },
+  },
+);
+
+/**
+ * Published (never stored) to live subscribers when a stream is deleted or truncated.
+ * Single-path subscriptions end after it; all-paths subscriptions just pass it along.
+ */
+export const StreamTombstoneEvent = EventSchema.make("iterate:stream:tombstone", {
+  reason: Schema.Literal("deleted", "truncated"),
+  /** Truncation cut-off: events before this offset were removed */
+  before: Schema.optional(Offset),
+});
+export type StreamTombstoneEvent = typeof StreamTombstoneEvent.Type;
+
+/**
+ * First event of a stream forked from `source`. Copies of the source's events up to and
+ * including offset `at` follow it, renumbered from offset 1 but keeping createdAt and trace.
+ * Payload fields ending in `Offset` that named a copied event name its copy instead.
+ */
+export const StreamForkedFromEvent = EventSchema.make("iterate:stream:forked-from", {
+  source: StreamPath,
+  at: Offset,
+  /** How many copies follow */
+  copied: Schema.Int.pipe(Schema.nonNegative()),
+});
+
+/**
+ * `iterate:stream:*` events come from the server alone - a tombstone ends subscriptions and
+ * stops processors, and forked-from resets their state - so clients can't append or import them
+ */
+export const isReservedEventType = (type: string): boolean => type.startsWith("iterate:stream:");
+
+/**
+ * Constrains later events of `eventType` to a JSON Schema (draft-07) on the path it is
+ * appended to - or, with scope "subtree", on that path and every path below it.
+ * A newer registration for the same type on the same path replaces the older one.
+ */
+export const SchemaRegisteredEvent = EventSchema.make("iterate:schema:registered", {
+  eventType: EventType,
+  schema: Schema.Record({ key: Schema.String, value: Schema.Unknown }),
+  scope: Schema.optional(Schema.Literal("path", "subtree")),
+});
+export type SchemaRegisteredEvent = typeof SchemaRegisteredEvent.Type;
+
+/**
+ * Sets how much history streams matching `pattern` keep - events older than `maxAgeMs`, beyond
+ * the newest `maxEvents`, or beyond the newest `maxBytes` of encoded events are dropped.
+ * Appended to the retention config stream; a later policy for the same pattern replaces the
+ * earlier one, and a policy without limits lifts it.
+ */
+export const RetentionPolicySetEvent = EventSchema.make("iterate:retention:policy-set", {
+  pattern: PathPattern,
+  maxAgeMs: Schema.optional(Schema.NonNegativeInt),
+  maxEvents: Schema.optional(Schema.NonNegativeInt),
+  maxBytes: Schema.optional(Schema.NonNegativeInt),
+});
+export type RetentionPolicySetEvent = typeof RetentionPolicySetEvent.Type;
+
+/** Audit record of events a retention policy dropped from a stream */
+export const RetentionAppliedEvent = EventSchema.make("iterate:retention:applied", {
+  path: StreamPath,
+  /** Patterns of the policies that wanted events dropped */
+  patterns: Schema.Array(PathPattern),
+  /** Offsets of the first and last event dropped */
+  from: Offset,
+  to: Offset,
+  count: Schema.NonNegativeInt,
+  bytes: Schema.NonNegativeInt,
+  /** Snapshot key that kept the policies from dropping more */
+  heldBackBy: Schema.optional(Schema.String),
 });
+export type RetentionAppliedEvent = typeof RetentionAppliedEvent.Type;
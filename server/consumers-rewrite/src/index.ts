@@ -5,15 +5,34 @@
  */
 
 // Domain types
-export { Event, Offset, Payload, StreamPath } from "./domain.js";
+export {
+  BlobHash,
+  BlobRef,
+  Event,
+  EventTypeFilter,
+  GlobalOffset,
+  IdempotencyKey,
+  Offset,
+  PathPattern,
+  Payload,
+  Snapshot,
+  StreamMetadata,
+  StreamPath,
+} from "./domain.js";
 
 // Services
 export * as StreamStorage from "./services/stream-storage/index.js";
 export * as StreamManager from "./services/stream-manager/index.js";
 export * as StreamClient from "./services/stream-client/index.js";
+export * as Compaction from "./services/compaction/index.js";
+export * as Retention from "./services/retention/index.js";
+export * as BlobStore from "./services/blob-store/index.js";
 
 // HTTP server
 export { AppLive, ServerLive } from "./server.js";
 
 // SSE utilities
 export * as Sse from "./sse.js";
+
+// NDJSON export/import
+export * as Archive from "./archive.js";
@@ -1,13 +1,30 @@
-import { OpenAiClient, OpenAiLanguageModel } from "@effect/ai-openai";
 import * as Otlp from "@effect/opentelemetry/Otlp";
 import * as OtlpSerialization from "@effect/opentelemetry/OtlpSerialization";
 import { FetchHttpClient } from "@effect/platform";
-import { NodeRuntime } from "@effect/platform-node";
-import { Config, Layer } from "effect";
+import { NodeContext, NodeRuntime } from "@effect/platform-node";
+import { Config, Layer, Option } from "effect";
 
-import { CodemodeProcessorLayer } from "./processors/codemode/index.js";
-import { LlmLoopProcessorLayer } from "./processors/llm-loop/index.js";
+import {
+  CodemodeProcessor,
+  CodemodeProcessorLayer,
+  codemodeToolHandler,
+} from "./processors/codemode/index.js";
+import {
+  collapseTextDeltas,
+  LlmLoopProcessor,
+  LlmLoopProcessorLayer,
+  modelPricesLayer,
+} from "./processors/llm-loop/index.js";
+import {
+  ToolRunnerProcessor,
+  ToolRunnerProcessorLayer,
+  toolHandlersLayer,
+} from "./processors/tool-runner/index.js";
 import { ServerLive } from "./server.js";
+import * as BlobStore from "./services/blob-store/index.js";
+import * as Compaction from "./services/compaction/index.js";
+import * as LanguageModels from "./services/language-models/index.js";
+import * as Retention from "./services/retention/index.js";
 import * as StreamManager from "./services/stream-manager/index.js";
 import * as StreamStorage from "./services/stream-storage/index.js";
 
@@ -18,7 +35,8 @@ const port = parseInt(process.env.PORT ?? "3000", 10);
 // -------------------------------------------------------------------------------------
 // Choose ONE of these storage backends:
 //
-// SQLite (default) - persists to a single .db file, good for production
+// SQLite (default) - persists to a single .db file, good for production. Several server
+// processes may open the same file and see each other's appends.
 // const StorageLive = StreamStorage.sqliteLayer(".data/streams.db");
 //
 // File System - persists as YAML files in .data/streams/, human-readable
@@ -26,40 +44,90 @@ const port = parseInt(process.env.PORT ?? "3000", 10);
 //
 // In-Memory - no persistence, good for testing
 // const StorageLive = StreamStorage.inMemoryLayer;
+//
+// Postgres - shared by several server processes, which see each other's appends
+// const StorageLive = StreamStorage.postgresLayer("postgres://localhost:5432/streams");
 // -------------------------------------------------------------------------------------
 const StorageLive = StreamStorage.sqliteLayer(".data/streams.db");
 
+// Bytes referenced from events (e.g. recorded audio), content-addressed in .data/blobs/
+const BlobStoreLive = BlobStore.fileSystemLayer(".data/blobs").pipe(
+  Layer.provide(NodeContext.layer),
+);
+
 // Jaeger tracing (local OTLP endpoint for debugging)
 const TracingLive = Otlp.layer({
   baseUrl: "http://localhost:4318",
   resource: { serviceName: "kiterate" },
 }).pipe(Layer.provide(FetchHttpClient.layer), Layer.provide(OtlpSerialization.layerJson));
 
-// OpenAI client from OPENAI_API_KEY env var
-const OpenAiClientLive = OpenAiClient.layerConfig({
-  apiKey: Config.redacted("OPENAI_API_KEY"),
+// Language models picked per path by iterate:agent:config:set events, e.g.
+// { "model": "openai", "provider": "anthropic", "modelId": "claude-sonnet-4-5" }. Paths that
+// don't pick one use gpt-5.2-codex with low reasoning effort. API keys are read from
+// OPENAI_API_KEY and ANTHROPIC_API_KEY when a provider's first model is built.
+const LanguageModelsLive = LanguageModels.layer({
+  providers: {
+    openai: LanguageModels.openAi({ apiKey: Config.redacted("OPENAI_API_KEY") }),
+    anthropic: LanguageModels.anthropic({ apiKey: Config.redacted("ANTHROPIC_API_KEY") }),
+    "openai-compatible": LanguageModels.openAiCompatible({
+      apiKey: Config.option(Config.redacted("OPENAI_COMPATIBLE_API_KEY")).pipe(
+        Config.map(Option.getOrUndefined),
+      ),
+    }),
+  },
+  defaults: { provider: "openai", modelId: "gpt-5.2-codex", reasoningEffort: "low" },
 }).pipe(Layer.provide(FetchHttpClient.layer));
 
-// Language model using gpt-5.2-codex with low reasoning effort
-const LanguageModelLive = OpenAiLanguageModel.layer({
-  model: "gpt-5.2-codex",
-  config: { reasoning: { effort: "low" } },
-}).pipe(Layer.provide(OpenAiClientLive));
+// USD per million tokens, used to estimate the cost in iterate:llm-loop:usage-recorded events.
+// Requests to models missing here are recorded without a cost.
+const ModelPricesLive = modelPricesLayer({
+  "gpt-5.2": { input: 1.75, output: 14, cachedInput: 0.175 },
+  "gpt-5.2-codex": { input: 1.75, output: 14, cachedInput: 0.175 },
+  "claude-opus-4-5": { input: 5, output: 25, cachedInput: 0.5 },
+  "claude-sonnet-4-5": { input: 3, output: 15, cachedInput: 0.3 },
+  "claude-haiku-4-5": { input: 1, output: 5, cachedInput: 0.1 },
+});
+
+// Handlers that iterate:llm-loop:tool-registered events can name, e.g. a tool with
+// parameters { code: string } and handler "codemode" runs JavaScript like a <codemode> block
+const ToolHandlersLive = toolHandlersLayer({ codemode: codemodeToolHandler });
 
 // Processors (background processes that run with the server)
-const ProcessorsLive = Layer.mergeAll(LlmLoopProcessorLayer, CodemodeProcessorLayer);
+const ProcessorsLive = Layer.mergeAll(
+  LlmLoopProcessorLayer,
+  CodemodeProcessorLayer,
+  ToolRunnerProcessorLayer,
+);
+
+// Merges finished requests' text deltas in storage
+const CompactionLive = Compaction.layer([collapseTextDeltas]);
+
+// Drops old history per path pattern, set by appending iterate:retention:policy-set events
+// to iterate/retention, e.g. { "pattern": "scratch/**", "maxEvents": 1000 }. Never cuts
+// events the processors' snapshots still need, nor streams a processor has no snapshot of.
+const RetentionLive = Retention.layer({
+  snapshots: [LlmLoopProcessor, CodemodeProcessor, ToolRunnerProcessor].map(({ name, state }) => ({
+    key: name,
+    version: state.version,
+  })),
+});
 
 // StreamManager with processors on top
-const ManagerWithProcessors = ProcessorsLive.pipe(
+const ManagerWithProcessors = Layer.mergeAll(ProcessorsLive, CompactionLive, RetentionLive).pipe(
   Layer.provideMerge(StreamManager.liveLayer),
   Layer.provide(StorageLive),
-  Layer.provide(LanguageModelLive),
+  Layer.provide(LanguageModelsLive),
+  Layer.provide(ModelPricesLive),
+  Layer.provide(ToolHandlersLive),
 );
 
 // Tracing is optional - only enable if ENABLE_TRACING=true (requires Jaeger at localhost:4318)
 const enableTracing = process.env.ENABLE_TRACING === "true";
 
-const ServerWithManager = ServerLive(port).pipe(Layer.provide(ManagerWithProcessors));
+const ServerWithManager = ServerLive(port).pipe(
+  Layer.provide(ManagerWithProcessors),
+  Layer.provide(BlobStoreLive),
+);
 
 const MainLive = enableTracing
   ? ServerWithManager.pipe(Layer.provide(TracingLive))
@@ -3,5 +3,5 @@
  *
  * Evaluates JavaScript code blocks from assistant messages.
  */
-export { CodemodeProcessor, CodemodeProcessorLayer } from "./processor.js";
+export { CodemodeProcessor, CodemodeProcessorLayer, codemodeToolHandler } from "./processor.js";
 export * from "./events.js";
@@ -20,9 +20,16 @@ import { Effect, Option, Schema, Stream } from "effect";
 
 import { Event, Offset } from "../../domain.js";
 import { UserMessageEvent } from "../../events.js";
-import { Processor, toLayer } from "../processor.js";
+import {
+  hydrate,
+  saveSnapshot,
+  StatefulProcessor,
+  toLayer,
+  warnOnRejectedAppend,
+} from "../processor.js";
 import { withSpanFromEvent } from "../../tracing/helpers.js";
 import { RequestEndedEvent, ResponseSseEvent, SystemPromptEditEvent } from "../llm-loop/events.js";
+import type { ToolHandler } from "../tool-runner/index.js";
 import {
   CodeBlockAddedEvent,
   CodeEvalDoneEvent,
@@ -255,6 +262,19 @@ const executeCode = async (code: string): Promise<Result> => {
   }
 };
 
+/**
+ * Tool handler running `params.code` the way <codemode> blocks are run, for tools whose
+ * parameters are `{ code: string }`. Succeeds with the output and console logs, fails with
+ * the error and logs.
+ */
+export const codemodeToolHandler: ToolHandler = (params) =>
+  Effect.gen(function* () {
+    const { code } = yield* Schema.decodeUnknown(Schema.Struct({ code: Schema.String }))(params);
+    const result = yield* Effect.promise(() => executeCode(code));
+    if (!result.success) return yield* Effect.fail({ error: result.error, logs: result.logs });
+    return { data: result.data, logs: result.logs };
+  });
+
 // -------------------------------------------------------------------------------------
 // Reducer
 // -------------------------------------------------------------------------------------
@@ -338,13 +358,21 @@ const reduce = (state: State, event: Event): State => {
 // Processor
 // -------------------------------------------------------------------------------------
 
-export const CodemodeProcessor: Processor<never> = {
+export const CodemodeProcessor: StatefulProcessor<never, State, typeof State.Encoded> = {
   name: "codemode",
 
+  state: {
+    schema: State,
+    version: 1,
+    initial: State.initial,
+    reduce,
+    lastOffset: (state) => state.lastOffset,
+  },
+
   run: (stream) =>
     Effect.gen(function* () {
-      // Phase 1: Hydrate from history
-      let state = yield* stream.read().pipe(Stream.runFold(State.initial, reduce));
+      // Phase 1: Hydrate from the latest snapshot and the history after it
+      let state = yield* hydrate(CodemodeProcessor, stream);
 
       yield* Effect.log(
         `hydrated, lastOffset=${state.lastOffset}, pending=${state.pendingEvaluation.length}, inProgress=${state.inProgress.length}`,
@@ -428,6 +456,7 @@ export const CodemodeProcessor: Processor<never> = {
                   yield* Effect.log(`appending codemode result (${summary.length} chars)`);
                   yield* stream.append(
                     UserMessageEvent.make({
+                      automatic: true,
                       content: dedent`
                         <developer-message>
                           ${summary}
@@ -442,11 +471,23 @@ export const CodemodeProcessor: Processor<never> = {
                   // Append a synthetic user message to inform the LLM of the failure
                   const summary = createResultSummary(result);
                   yield* Effect.log(`appending codemode error result (${summary.length} chars)`);
-                  yield* stream.append(UserMessageEvent.make({ content: summary }));
+                  yield* stream.append(
+                    UserMessageEvent.make({ content: summary, automatic: true }),
+                  );
                 }
               }).pipe(withSpanFromEvent("codemode.eval", event));
             }
-          }),
+
+            // A finished response or evaluation is a checkpoint, so retention can trim the
+            // stream without waiting for a restart
+            if (
+              RequestEndedEvent.is(event) ||
+              CodeEvalDoneEvent.is(event) ||
+              CodeEvalFailedEvent.is(event)
+            ) {
+              yield* saveSnapshot(CodemodeProcessor, stream, state);
+            }
+          }).pipe(warnOnRejectedAppend),
         ),
       );
     }),
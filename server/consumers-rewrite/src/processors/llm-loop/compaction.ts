@@ -0,0 +1,49 @@
+/**
+ * LLM Loop compaction policies
+ */
+import { Response } from "@effect/ai";
+import { Option } from "effect";
+
+import { Event, Payload } from "../../domain.js";
+import { CompactionPolicy } from "../../services/compaction/index.js";
+import { RequestCancelledEvent, RequestEndedEvent, ResponseSseEvent } from "./events.js";
+
+/**
+ * Collapse each finished request's contiguous text deltas (same text part) into one delta.
+ * The merged event takes the offset of the last delta it replaces.
+ */
+export const collapseTextDeltas: CompactionPolicy = {
+  name: "llm-loop/collapse-text-deltas",
+  types: [ResponseSseEvent.type],
+  closedBy: [RequestEndedEvent.type, RequestCancelledEvent.type],
+  group: (event) =>
+    typeof event.payload.requestOffset === "string" ? event.payload.requestOffset : undefined,
+  compact: (run) => {
+    const compacted: Event[] = [];
+    // The current run of deltas for one text part
+    let deltas: Array<{ event: Event; part: Response.TextDeltaPart }> = [];
+
+    const flush = () => {
+      const last = deltas.at(-1)?.event;
+      if (last !== undefined) {
+        const delta = deltas.map(({ part }) => part.delta).join("");
+        const part = { ...(last.payload.part as Payload), delta };
+        compacted.push(Event.make({ ...last, payload: { ...last.payload, part } }));
+      }
+      deltas = [];
+    };
+
+    for (const event of run) {
+      const part = ResponseSseEvent.decodeTextDelta(event.payload.part);
+      if (Option.isNone(part)) {
+        flush();
+        compacted.push(event);
+        continue;
+      }
+      if (deltas[0] !== undefined && deltas[0].part.id !== part.value.id) flush();
+      deltas.push({ event, part: part.value });
+    }
+    flush();
+    return compacted;
+  },
+};
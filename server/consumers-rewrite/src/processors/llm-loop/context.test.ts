@@ -0,0 +1,88 @@
+import { describe, expect, it } from "@effect/vitest";
+import { Option } from "effect";
+
+import { Offset } from "../../domain.js";
+import { buildContext, ContextInput, estimateTokens, Message } from "./context.js";
+
+const offset = (i: number) => Offset.make(String(i).padStart(16, "0"));
+
+// One message per event, each 25 to 50 tokens
+const history: ReadonlyArray<Message> = [
+  { role: "user", content: "a".repeat(80) },
+  { role: "assistant", content: "b".repeat(80) },
+  {
+    role: "assistant",
+    content: [{ type: "tool-call", id: "call1", name: "search", params: {} }],
+  },
+  {
+    role: "tool",
+    content: [
+      {
+        type: "tool-result",
+        id: "call1",
+        name: "search",
+        result: "c".repeat(50),
+        isFailure: false,
+        providerExecuted: false,
+      },
+    ],
+  },
+  { role: "assistant", content: "d".repeat(80) },
+  { role: "user", content: "e".repeat(80) },
+];
+
+const input = (strategy: ContextInput["strategy"]): ContextInput => ({
+  systemPrompt: "You are helpful.",
+  history,
+  spans: history.map((_, i) => ({ from: offset(i + 1), to: offset(i + 1) })),
+  summary: Option.none(),
+  strategy,
+});
+
+describe("buildContext", () => {
+  it("sends the whole history with the full strategy", () => {
+    const { prompt, summarize } = buildContext(input({ type: "full" }));
+    expect(prompt).toEqual([{ role: "system", content: "You are helpful." }, ...history]);
+    expect(summarize).toEqual(Option.none());
+  });
+
+  it("never starts with tool results whose call was cut off", () => {
+    const { prompt } = buildContext(input({ type: "last-messages", count: 3 }));
+    expect(prompt.map((message) => message.role)).toEqual(["system", "assistant", "user"]);
+
+    // Just enough for the last three messages - the tool result is dropped with its call
+    const budget =
+      estimateTokens({ role: "system", content: "You are helpful." }) +
+      history.slice(3).reduce((total, message) => total + estimateTokens(message), 0);
+    const dropped = buildContext(input({ type: "drop-oldest", maxTokens: budget }));
+    expect(dropped.prompt.slice(1)).toEqual(history.slice(4));
+  });
+
+  it("asks to summarize all but the kept messages once over budget", () => {
+    // Keeping three would start with a tool result, so two are kept
+    const strategy = { type: "summarize", maxTokens: 100, keepMessages: 3 } as const;
+    const context = buildContext(input(strategy));
+    expect(Option.map(context.summarize, ({ messages, covers }) => ({ messages, covers }))).toEqual(
+      Option.some({
+        messages: history.slice(0, 4),
+        covers: { fromOffset: offset(1), toOffset: offset(4), messageCount: 4 },
+      }),
+    );
+
+    // With the summary, the rest fits
+    const summary = { text: "They talked.", ...Option.getOrThrow(context.summarize).covers };
+    const summarized = buildContext({
+      ...input(strategy),
+      summary: Option.some(summary),
+    });
+    expect(summarized.summarize).toEqual(Option.none());
+    expect(summarized.prompt).toEqual([
+      {
+        role: "system",
+        content:
+          "You are helpful.\n\n<conversation-summary>\nThey talked.\n</conversation-summary>",
+      },
+      ...history.slice(4),
+    ]);
+  });
+});
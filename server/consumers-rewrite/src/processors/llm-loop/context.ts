@@ -0,0 +1,188 @@
+/**
+ * Context builder
+ *
+ * Fits a path's history into a request following its context strategy. Building is pure:
+ * when older messages need summarizing it says which, and the processor records the
+ * summary as a history-summarized event before building again with it.
+ */
+import { Prompt } from "@effect/ai";
+import { Option, Schema } from "effect";
+
+import { Offset } from "../../domain.js";
+import { ContextStrategy } from "./events.js";
+
+export type Message = Prompt.MessageEncoded;
+
+/** Offsets of the first and last event that make up a history message */
+export const MessageSpan = Schema.Struct({ from: Offset, to: Offset });
+export type MessageSpan = typeof MessageSpan.Type;
+
+export const Summary = Schema.Struct({
+  text: Schema.String,
+  fromOffset: Offset,
+  toOffset: Offset,
+  messageCount: Schema.Number,
+});
+export type Summary = typeof Summary.Type;
+
+export interface ContextInput {
+  readonly systemPrompt: string;
+  readonly history: ReadonlyArray<Message>;
+  /** Span of each history message */
+  readonly spans: ReadonlyArray<MessageSpan>;
+  readonly summary: Option.Option<Summary>;
+  readonly strategy: ContextStrategy;
+}
+
+export interface Context {
+  /** Prompt to send, system prompt first - without summarizing when `summarize` is some */
+  readonly prompt: ReadonlyArray<Message>;
+  /** Messages to summarize (with the summary so far) before sending, if over budget */
+  readonly summarize: Option.Option<{
+    readonly previous: Option.Option<Summary>;
+    readonly messages: ReadonlyArray<Message>;
+    /** What the new summary covers */
+    readonly covers: Omit<Summary, "text">;
+  }>;
+}
+
+/** Messages kept as they are when summarizing, unless the strategy says otherwise */
+const DEFAULT_KEEP_MESSAGES = 4;
+
+/** Rough token count - about four characters per token of the message's JSON */
+export const estimateTokens = (message: Message): number =>
+  Math.ceil(JSON.stringify(message).length / 4);
+
+const totalTokens = (messages: ReadonlyArray<Message>) =>
+  messages.reduce((total, message) => total + estimateTokens(message), 0);
+
+/**
+ * Index to cut the history at so that it starts at `start` or later, never with tool
+ * results whose calls were cut off
+ */
+const cutAt = (history: ReadonlyArray<Message>, start: number): number => {
+  let index = Math.max(0, start);
+  while (history[index]?.role === "tool") index++;
+  return index;
+};
+
+/** Index of the oldest message kept when the newest have to fit in `budget` tokens */
+const fitFrom = (history: ReadonlyArray<Message>, budget: number): number => {
+  let index = history.length;
+  let used = 0;
+  while (index > 0) {
+    used += estimateTokens(history[index - 1]!);
+    // The newest message is always sent, even on its own over budget
+    if (used > budget && index < history.length) break;
+    index--;
+  }
+  return cutAt(history, index);
+};
+
+const withSummary = (systemPrompt: string, summary: Option.Option<Summary>): Message => ({
+  role: "system",
+  content: Option.match(summary, {
+    onNone: () => systemPrompt,
+    onSome: ({ text }) =>
+      `${systemPrompt}\n\n<conversation-summary>\n${text}\n</conversation-summary>`,
+  }),
+});
+
+export const buildContext = (input: ContextInput): Context => {
+  const { systemPrompt, history, spans, strategy } = input;
+  const system: Message = { role: "system", content: systemPrompt };
+  const send = (messages: ReadonlyArray<Message>, first: Message = system): Context => ({
+    prompt: [first, ...messages],
+    summarize: Option.none(),
+  });
+
+  switch (strategy.type) {
+    case "full":
+      return send(history);
+
+    case "last-messages":
+      return send(history.slice(cutAt(history, history.length - strategy.count)));
+
+    case "drop-oldest":
+      return send(history.slice(fitFrom(history, strategy.maxTokens - estimateTokens(system))));
+
+    case "summarize": {
+      const { summary } = input;
+      const summarized = Option.match(summary, {
+        onNone: () => 0,
+        onSome: (s) => s.messageCount,
+      });
+      const first = withSummary(systemPrompt, summary);
+      const rest = history.slice(summarized);
+      if (estimateTokens(first) + totalTokens(rest) <= strategy.maxTokens) return send(rest, first);
+
+      // Summarize all but the last few messages, if there are any older ones
+      const keep = strategy.keepMessages ?? DEFAULT_KEEP_MESSAGES;
+      const split = cutAt(rest, rest.length - keep);
+      if (split === 0 || split >= rest.length) return send(rest, first);
+
+      // Sent as is if summarizing fails
+      const fallback = rest.slice(fitFrom(rest, strategy.maxTokens - estimateTokens(first)));
+      const messageCount = summarized + split;
+      return {
+        prompt: [first, ...fallback],
+        summarize: Option.some({
+          previous: summary,
+          messages: rest.slice(0, split),
+          covers: {
+            fromOffset: Option.match(summary, {
+              onNone: () => spans[0]!.from,
+              onSome: (s) => s.fromOffset,
+            }),
+            toOffset: spans[messageCount - 1]!.to,
+            messageCount,
+          },
+        }),
+      };
+    }
+  }
+};
+
+// -------------------------------------------------------------------------------------
+// Summaries
+// -------------------------------------------------------------------------------------
+
+/** System prompt of the summarization request */
+export const SUMMARY_PROMPT = `You summarize conversations between a user and an AI assistant so the assistant can continue them without the full history. Keep the user's goals, decisions made, facts learned, tool results that still matter and open tasks. Be concise and write the summary only.`;
+
+const partText = (part: Exclude<Message["content"], string>[number]): string => {
+  switch (part.type) {
+    case "text":
+      return part.text;
+    case "tool-call":
+      return `[called ${part.name} with ${JSON.stringify(part.params)}]`;
+    case "tool-result":
+      return `[${part.name} ${part.isFailure ? "failed" : "returned"} ${JSON.stringify(part.result)}]`;
+    case "file":
+      return "[file]";
+    default:
+      return "";
+  }
+};
+
+/** The messages to summarize as a transcript, after the summary so far */
+export const summaryRequest = (
+  previous: Option.Option<Summary>,
+  messages: ReadonlyArray<Message>,
+): Array<Message> => {
+  const transcript = messages.map((message) => {
+    const text =
+      typeof message.content === "string"
+        ? message.content
+        : message.content.map(partText).join("\n");
+    return `${message.role}: ${text}`;
+  });
+  const earlier = Option.match(previous, {
+    onNone: () => [],
+    onSome: ({ text }) => [`Summary of the conversation before this:\n${text}`],
+  });
+  return [
+    { role: "system", content: SUMMARY_PROMPT },
+    { role: "user", content: [...earlier, ...transcript].join("\n\n") },
+  ];
+};
@@ -56,3 +56,138 @@ export const SystemPromptEditEvent = EventSchema.make("iterate:llm-loop:system-p
   /** Optional source identifier for debugging */
   source: Schema.optionalWith(Schema.String, { as: "Option" }),
 });
+
+// -------------------------------------------------------------------------------------
+// Context Events
+// -------------------------------------------------------------------------------------
+
+/**
+ * Which history a request sends. Token counts are estimates, about four characters of
+ * a message's JSON per token.
+ * - full: all of it
+ * - drop-oldest: the newest messages that fit in `maxTokens`, with the system prompt
+ * - last-messages: the last `count` messages
+ * - summarize: once over `maxTokens`, older messages are replaced by a summary from the
+ *   model, keeping the last `keepMessages` as they are
+ */
+export const ContextStrategy = Schema.Union(
+  Schema.Struct({ type: Schema.Literal("full") }),
+  Schema.Struct({
+    type: Schema.Literal("drop-oldest"),
+    maxTokens: Schema.Int.pipe(Schema.positive()),
+  }),
+  Schema.Struct({
+    type: Schema.Literal("last-messages"),
+    count: Schema.Int.pipe(Schema.positive()),
+  }),
+  Schema.Struct({
+    type: Schema.Literal("summarize"),
+    maxTokens: Schema.Int.pipe(Schema.positive()),
+    keepMessages: Schema.optional(Schema.Int.pipe(Schema.nonNegative())),
+  }),
+);
+export type ContextStrategy = typeof ContextStrategy.Type;
+
+/** Set how the path's history is fitted into requests, from the next request on */
+export const ContextStrategySetEvent = EventSchema.make("iterate:llm-loop:context-strategy-set", {
+  strategy: ContextStrategy,
+});
+
+/**
+ * Summary of the path's oldest history messages, which requests send in their place. It
+ * includes any earlier summary, so it covers events from `fromOffset` to `toOffset`, and
+ * replaces the first `messageCount` messages of the history.
+ */
+export const HistorySummarizedEvent = EventSchema.make("iterate:llm-loop:history-summarized", {
+  summary: Schema.String,
+  fromOffset: Offset,
+  toOffset: Offset,
+  messageCount: Schema.Int.pipe(Schema.positive()),
+});
+export type HistorySummarizedEvent = typeof HistorySummarizedEvent.Type;
+
+// -------------------------------------------------------------------------------------
+// Limit Events
+// -------------------------------------------------------------------------------------
+
+/** Limits on a path's LLM requests - omitted ones don't apply */
+export const Limits = Schema.Struct({
+  maxRequestsPerMinute: Schema.optional(Schema.Int.pipe(Schema.positive())),
+  /** Requests in a row without a message from a person, e.g. answering codemode results */
+  maxAutomaticTurns: Schema.optional(Schema.Int.pipe(Schema.nonNegative())),
+  /** Input and output tokens over the path's lifetime */
+  maxTokens: Schema.optional(Schema.Int.pipe(Schema.positive())),
+  /** Estimated cost over the path's lifetime, in USD */
+  maxCostUsd: Schema.optional(Schema.Number.pipe(Schema.positive())),
+});
+export type Limits = typeof Limits.Type;
+
+/** Set the path's limits, replacing any set before */
+export const LimitsSetEvent = EventSchema.make("iterate:llm-loop:limits-set", Limits.fields);
+export type LimitsSetEvent = typeof LimitsSetEvent.Type;
+
+/** A request was refused because a limit was reached - the next message tries again */
+export const BudgetExceededEvent = EventSchema.make("iterate:llm-loop:budget-exceeded", {
+  limit: Schema.Literal("requests-per-minute", "automatic-turns", "tokens", "cost"),
+  message: Schema.String,
+});
+export type BudgetExceededEvent = typeof BudgetExceededEvent.Type;
+
+// -------------------------------------------------------------------------------------
+// Tool Events
+// -------------------------------------------------------------------------------------
+
+/**
+ * Offer a tool to the LLM from the next request on. `parameters` is the JSON Schema of its
+ * arguments object (OpenAI requires strict schemas: every property required, no additional
+ * properties). `handler` names the ToolHandlers entry the tool-runner calls it with.
+ * Registering a name again replaces the tool.
+ */
+export const ToolRegisteredEvent = EventSchema.make("iterate:llm-loop:tool-registered", {
+  name: Schema.String,
+  description: Schema.optional(Schema.String),
+  parameters: Schema.Record({ key: Schema.String, value: Schema.Unknown }),
+  handler: Schema.String,
+});
+export type ToolRegisteredEvent = typeof ToolRegisteredEvent.Type;
+
+/** The LLM called a tool - recorded in place of the tool-call response part */
+export const ToolCalledEvent = EventSchema.make("iterate:llm-loop:tool-called", {
+  requestOffset: Offset,
+  toolCallId: Schema.String,
+  name: Schema.String,
+  params: Schema.Unknown,
+});
+export type ToolCalledEvent = typeof ToolCalledEvent.Type;
+
+/** Outcome of a tool call, appended by the tool-runner and sent back to the LLM */
+export const ToolResultEvent = EventSchema.make("iterate:llm-loop:tool-result", {
+  toolCallId: Schema.String,
+  name: Schema.String,
+  result: Schema.Unknown,
+  isFailure: Schema.Boolean,
+});
+export type ToolResultEvent = typeof ToolResultEvent.Type;
+
+// -------------------------------------------------------------------------------------
+// Usage Events
+// -------------------------------------------------------------------------------------
+
+/** Tokens and latency of a request that finished, with its cost estimated from ModelPrices */
+export const UsageRecordedEvent = EventSchema.make("iterate:llm-loop:usage-recorded", {
+  /** The request-started event, or the history-summarized event of a summary */
+  requestOffset: Offset,
+  provider: Schema.String,
+  modelId: Schema.String,
+  inputTokens: Schema.Number,
+  outputTokens: Schema.Number,
+  /** Part of the output tokens spent reasoning */
+  reasoningTokens: Schema.Number,
+  /** Input tokens read from the provider's prompt cache */
+  cachedInputTokens: Schema.Number,
+  /** From the request starting to the model finishing */
+  latencyMs: Schema.Number,
+  /** Estimated cost in USD - null when the model has no price */
+  costUsd: Schema.NullOr(Schema.Number),
+});
+export type UsageRecordedEvent = typeof UsageRecordedEvent.Type;
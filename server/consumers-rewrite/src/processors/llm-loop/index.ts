@@ -5,3 +5,16 @@
  */
 export { LlmLoopProcessor, LlmLoopProcessorLayer } from "./processor.js";
 export * from "./events.js";
+export { collapseTextDeltas } from "./compaction.js";
+export type { ModelPrice } from "./usage.js";
+export {
+  emptyUsage,
+  emptyUsageReport,
+  estimateCost,
+  ModelPrices,
+  modelPricesLayer,
+  reduceUsage,
+  UsageReport,
+  UsageTotals,
+  withoutForkCopies,
+} from "./usage.js";
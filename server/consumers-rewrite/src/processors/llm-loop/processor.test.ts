@@ -1,20 +1,43 @@
-import { Response } from "@effect/ai";
+import { Response, Tool } from "@effect/ai";
 import { describe, it, expect } from "@effect/vitest";
 import { Option } from "effect";
-import { Duration, Effect, TestClock } from "effect";
+import { Chunk, Duration, Effect, Layer, Stream, TestClock } from "effect";
 
-import { StreamPath } from "../../domain.js";
-import { CancelRequestEvent, ConfigSetEvent, UserMessageEvent } from "../../events.js";
-import { TestLanguageModel, makeTestEventStream } from "../../testing/index.js";
+import { Event, Offset, StreamPath } from "../../domain.js";
 import {
+  CancelRequestEvent,
+  ConfigSetEvent,
+  StreamForkedFromEvent,
+  UserMessageEvent,
+} from "../../events.js";
+import * as Compaction from "../../services/compaction/index.js";
+import * as StreamStorage from "../../services/stream-storage/index.js";
+import {
+  TEST_GENERATED_TEXT,
+  TEST_GENERATED_USAGE,
+  TestLanguageModel,
+  defaultTestModel,
+  makeTestEventStream,
+} from "../../testing/index.js";
+import { collapseTextDeltas } from "./compaction.js";
+import {
+  BudgetExceededEvent,
+  ContextStrategySetEvent,
+  HistorySummarizedEvent,
+  LimitsSetEvent,
   RequestCancelledEvent,
   RequestEndedEvent,
   RequestInterruptedEvent,
   RequestStartedEvent,
   ResponseSseEvent,
   SystemPromptEditEvent,
+  ToolCalledEvent,
+  ToolRegisteredEvent,
+  ToolResultEvent,
+  UsageRecordedEvent,
 } from "./events.js";
 import { LlmLoopProcessor, llmDebounce } from "./processor.js";
+import { modelPricesLayer } from "./usage.js";
 
 // -------------------------------------------------------------------------------------
 // Tests
@@ -405,4 +428,540 @@ describe("LlmLoopProcessor", () => {
       expect(events.filter(RequestStartedEvent.is)).toHaveLength(1);
     }).pipe(Effect.provide(TestLanguageModel.layer)),
   );
+
+  it.scoped("folds to the same state after its text deltas are compacted", () =>
+    Effect.gen(function* () {
+      const lm = yield* TestLanguageModel;
+      const stream = yield* makeTestEventStream(StreamPath.make("test"));
+
+      yield* stream.append(ConfigSetEvent.make({ model: "openai" }));
+      yield* LlmLoopProcessor.run(stream).pipe(Effect.forkScoped);
+      yield* stream.waitForSubscribe();
+
+      yield* stream.append(UserMessageEvent.make({ content: "Hello!" }));
+      yield* Effect.yieldNow();
+      yield* TestClock.adjust(llmDebounce.duration);
+      yield* lm.waitForCall();
+      yield* stream.waitForEvent(RequestStartedEvent);
+      yield* lm.emit(Response.textDeltaPart({ id: "msg1", delta: "Hi " }));
+      yield* lm.emit(Response.textDeltaPart({ id: "msg1", delta: "there" }));
+      yield* lm.emit(Response.textDeltaPart({ id: "msg1", delta: "!" }));
+      yield* lm.complete();
+      yield* stream.waitForEvent(RequestEndedEvent);
+
+      const storage = yield* StreamStorage.StreamStorageManager;
+      yield* storage.appendAll(yield* stream.getEvents());
+      expect(yield* Compaction.make(storage, [collapseTextDeltas]).compactAll).toBe(2);
+
+      const compacted = Chunk.toReadonlyArray(
+        yield* storage.read({ path: StreamPath.make("test") }).pipe(Stream.runCollect),
+      );
+      const fold = (events: ReadonlyArray<Event>) =>
+        events.reduce(LlmLoopProcessor.state.reduce, LlmLoopProcessor.state.initial);
+      expect(fold(compacted).history).toEqual(fold(yield* stream.getEvents()).history);
+      expect(fold(compacted).history.at(-1)).toEqual({ role: "assistant", content: "Hi there!" });
+    }).pipe(Effect.provide([TestLanguageModel.layer, StreamStorage.inMemoryLayer])),
+  );
+
+  it.scoped("rebuilds history from a fork's copies of its source", () =>
+    Effect.gen(function* () {
+      const lm = yield* TestLanguageModel;
+      const sourcePath = StreamPath.make("source");
+      const forkPath = StreamPath.make("fork");
+      const source = yield* makeTestEventStream(sourcePath);
+
+      // A finished exchange, then a second message the fork rewinds to before
+      const turn = (content: string, reply: string) =>
+        Effect.gen(function* () {
+          yield* source.append(UserMessageEvent.make({ content }));
+          const { offset: requestOffset } = yield* source.append(
+            RequestStartedEvent.make({ requestParams: [] }),
+          );
+          yield* source.append(
+            ResponseSseEvent.make({
+              part: Response.textDeltaPart({ id: reply, delta: reply }),
+              requestOffset,
+            }),
+          );
+          return yield* source.append(RequestEndedEvent.make({ requestOffset }));
+        });
+      yield* source.append(ConfigSetEvent.make({ model: "openai" }));
+      const forkPoint = yield* turn("First", "One");
+      yield* turn("Second", "Two");
+
+      const prefix = (yield* source.getEvents()).filter((e) =>
+        Offset.lte(e.offset, forkPoint.offset),
+      );
+      const fork = yield* makeTestEventStream(forkPath);
+      yield* fork.append(
+        StreamForkedFromEvent.make({
+          source: sourcePath,
+          at: forkPoint.offset,
+          copied: prefix.length,
+        }),
+      );
+      yield* fork.appendAll(prefix);
+
+      yield* LlmLoopProcessor.run(fork).pipe(Effect.forkScoped);
+      yield* fork.waitForSubscribe();
+
+      yield* fork.append(UserMessageEvent.make({ content: "Different" }));
+      yield* Effect.yieldNow();
+      yield* TestClock.adjust(llmDebounce.duration);
+
+      const call = yield* lm.waitForCall();
+      const prompt = call.prompt as Array<{ role: string; content: string }>;
+      expect(prompt.filter((m) => m.role !== "system")).toEqual([
+        { role: "user", content: "First" },
+        { role: "assistant", content: "One" },
+        { role: "user", content: "Different" },
+      ]);
+
+      yield* lm.complete();
+    }).pipe(Effect.provide(TestLanguageModel.layer)),
+  );
+
+  it.scoped("offers registered tools and sends their results back in a follow-up request", () =>
+    Effect.gen(function* () {
+      const lm = yield* TestLanguageModel;
+      const stream = yield* makeTestEventStream(StreamPath.make("test"));
+
+      const parameters = {
+        type: "object",
+        properties: { city: { type: "string", description: "City name" } },
+        required: ["city"],
+        additionalProperties: false,
+      };
+      yield* stream.append(ConfigSetEvent.make({ model: "openai" }));
+      yield* stream.append(
+        ToolRegisteredEvent.make({
+          name: "weather",
+          description: "Current weather",
+          parameters,
+          handler: "weather",
+        }),
+      );
+      yield* LlmLoopProcessor.run(stream).pipe(Effect.forkScoped);
+      yield* stream.waitForSubscribe();
+
+      yield* stream.append(UserMessageEvent.make({ content: "Weather in Paris?" }));
+      yield* Effect.yieldNow();
+      yield* TestClock.adjust(llmDebounce.duration);
+
+      // The tool is offered with the registered JSON Schema
+      const first = yield* lm.waitForCall();
+      expect(Object.keys(first.tools)).toEqual(["weather"]);
+      const weather = first.tools.weather as Tool.Tool<"weather", any>;
+      expect(Tool.getDescription(weather)).toBe("Current weather");
+      expect(Tool.getJsonSchema(weather)).toEqual(parameters);
+
+      // The tool-call part is recorded as a tool-called event
+      const request = yield* stream.waitForEvent(RequestStartedEvent);
+      yield* lm.emit(
+        Response.toolCallPart({
+          id: "call1",
+          name: "weather",
+          params: { city: "Paris" },
+          providerExecuted: false,
+        }),
+      );
+      yield* lm.complete();
+      const called = yield* stream.waitForEvent(ToolCalledEvent);
+      expect(called.payload).toEqual({
+        requestOffset: request.offset,
+        toolCallId: "call1",
+        name: "weather",
+        params: { city: "Paris" },
+      });
+      yield* stream.waitForEvent(RequestEndedEvent);
+
+      // The result triggers a follow-up carrying the call and its result
+      yield* stream.append(
+        ToolResultEvent.make({
+          toolCallId: "call1",
+          name: "weather",
+          result: { celsius: 21 },
+          isFailure: false,
+        }),
+      );
+      yield* Effect.yieldNow();
+      yield* TestClock.adjust(llmDebounce.duration);
+
+      const second = yield* lm.waitForCall();
+      const prompt = second.prompt as Array<{ role: string }>;
+      expect(prompt.filter((m) => m.role !== "system")).toEqual([
+        { role: "user", content: "Weather in Paris?" },
+        {
+          role: "assistant",
+          content: [{ type: "tool-call", id: "call1", name: "weather", params: { city: "Paris" } }],
+        },
+        {
+          role: "tool",
+          content: [
+            {
+              type: "tool-result",
+              id: "call1",
+              name: "weather",
+              result: { celsius: 21 },
+              isFailure: false,
+              providerExecuted: false,
+            },
+          ],
+        },
+      ]);
+
+      yield* lm.complete();
+    }).pipe(Effect.provide(TestLanguageModel.layer)),
+  );
+
+  it.scoped("waits for every tool result and the end of the request before continuing", () =>
+    Effect.gen(function* () {
+      const stream = yield* makeTestEventStream(StreamPath.make("test"));
+      const fold = (events: ReadonlyArray<Event>) =>
+        events.reduce(LlmLoopProcessor.state.reduce, LlmLoopProcessor.state.initial);
+      const foldedAfter = (input: Parameters<typeof stream.append>[0]) =>
+        Effect.gen(function* () {
+          yield* stream.append(input);
+          return fold(yield* stream.getEvents());
+        });
+
+      yield* stream.append(UserMessageEvent.make({ content: "Go" }));
+      const { offset: requestOffset } = yield* stream.append(
+        RequestStartedEvent.make({ requestParams: [] }),
+      );
+      for (const toolCallId of ["a", "b"]) {
+        yield* stream.append(
+          ToolCalledEvent.make({ requestOffset, toolCallId, name: "t", params: {} }),
+        );
+      }
+      const result = (toolCallId: string) =>
+        ToolResultEvent.make({ toolCallId, name: "t", result: "ok", isFailure: false });
+
+      // A result while the request is still running
+      expect((yield* foldedAfter(result("a"))).shouldTriggerLlmResponse).toBe(false);
+      // The request ended, but one call has no result yet
+      const ended = yield* foldedAfter(RequestEndedEvent.make({ requestOffset }));
+      expect(ended.shouldTriggerLlmResponse).toBe(false);
+      // The last result
+      const done = yield* foldedAfter(result("b"));
+      expect(done.shouldTriggerLlmResponse).toBe(true);
+      expect(done.history.map((m) => m.role)).toEqual(["user", "assistant", "tool"]);
+    }),
+  );
+
+  it.scoped("uses the model from the latest config from the next request on", () =>
+    Effect.gen(function* () {
+      const lm = yield* TestLanguageModel;
+      const stream = yield* makeTestEventStream(StreamPath.make("test"));
+
+      yield* stream.append(ConfigSetEvent.make({ model: "openai" }));
+      yield* LlmLoopProcessor.run(stream).pipe(Effect.forkScoped);
+      yield* stream.waitForSubscribe();
+
+      const ask = (content: string) =>
+        Effect.gen(function* () {
+          yield* stream.append(UserMessageEvent.make({ content }));
+          yield* Effect.yieldNow();
+          yield* TestClock.adjust(llmDebounce.duration);
+        });
+
+      // No provider or model - the default model
+      yield* ask("First");
+      const first = yield* lm.waitForCall();
+      expect(first.model).toEqual(defaultTestModel);
+      yield* lm.complete();
+      yield* stream.waitForEvent(RequestEndedEvent);
+
+      // Switch models between requests
+      yield* stream.append(
+        ConfigSetEvent.make({
+          model: "openai",
+          provider: "anthropic",
+          modelId: "claude-sonnet-4-5",
+          temperature: 0.2,
+        }),
+      );
+      yield* ask("Second");
+      const second = yield* lm.waitForCall();
+      expect(second.model).toEqual({
+        provider: "anthropic",
+        modelId: "claude-sonnet-4-5",
+        temperature: 0.2,
+      });
+      yield* lm.complete();
+      yield* stream.waitForEvent(RequestEndedEvent);
+
+      // A model that can't be resolved cancels the request
+      yield* stream.append(ConfigSetEvent.make({ model: "openai", provider: "anthropic" }));
+      yield* ask("Third");
+      const cancelled = yield* stream.waitForEvent(RequestCancelledEvent);
+      expect(cancelled.payload.reason).toBe("error");
+      expect(cancelled.payload.message).toContain("Provider anthropic needs a modelId");
+    }).pipe(Effect.provide(TestLanguageModel.layer)),
+  );
+
+  it.scoped("records usage and estimated cost when a request finishes", () =>
+    Effect.gen(function* () {
+      const lm = yield* TestLanguageModel;
+      const stream = yield* makeTestEventStream(StreamPath.make("test"));
+
+      yield* stream.append(ConfigSetEvent.make({ model: "openai" }));
+      yield* LlmLoopProcessor.run(stream).pipe(Effect.forkScoped);
+      yield* stream.waitForSubscribe();
+
+      yield* stream.append(UserMessageEvent.make({ content: "Hello!" }));
+      yield* Effect.yieldNow();
+      yield* TestClock.adjust(llmDebounce.duration);
+      yield* lm.waitForCall();
+      const request = yield* stream.waitForEvent(RequestStartedEvent);
+
+      yield* TestClock.adjust(Duration.millis(1500));
+      yield* lm.emit(
+        Response.finishPart({
+          reason: "stop",
+          usage: new Response.Usage({
+            inputTokens: 2000,
+            outputTokens: 300,
+            totalTokens: 2300,
+            reasoningTokens: 100,
+            cachedInputTokens: 1000,
+          }),
+        }),
+      );
+      yield* lm.complete();
+
+      const usage = yield* stream.waitForEvent(UsageRecordedEvent);
+      expect(usage.payload).toEqual({
+        requestOffset: request.offset,
+        provider: "openai",
+        modelId: "test-model",
+        inputTokens: 2000,
+        outputTokens: 300,
+        reasoningTokens: 100,
+        cachedInputTokens: 1000,
+        latencyMs: 1500,
+        // 1000 uncached input at $2/M, 1000 cached at $0.5/M, 300 output at $10/M
+        costUsd: 0.0055,
+      });
+    }).pipe(
+      Effect.provide(
+        Layer.merge(
+          TestLanguageModel.layer,
+          modelPricesLayer({ "test-model": { input: 2, output: 10, cachedInput: 0.5 } }),
+        ),
+      ),
+    ),
+  );
+
+  it.scoped("refuses requests past a limit with a budget-exceeded event", () =>
+    Effect.gen(function* () {
+      const lm = yield* TestLanguageModel;
+      const stream = yield* makeTestEventStream(StreamPath.make("test"));
+
+      yield* stream.append(ConfigSetEvent.make({ model: "openai" }));
+      yield* stream.append(LimitsSetEvent.make({ maxTokens: 1000 }));
+      yield* stream.append(
+        UsageRecordedEvent.make({
+          requestOffset: Offset.make("0"),
+          provider: "openai",
+          modelId: "test-model",
+          inputTokens: 900,
+          outputTokens: 200,
+          reasoningTokens: 0,
+          cachedInputTokens: 0,
+          latencyMs: 0,
+          costUsd: null,
+        }),
+      );
+      yield* LlmLoopProcessor.run(stream).pipe(Effect.forkScoped);
+      yield* stream.waitForSubscribe();
+
+      yield* stream.append(UserMessageEvent.make({ content: "Hello?" }));
+      const refused = yield* stream.waitForEvent(BudgetExceededEvent);
+      expect(refused.payload).toEqual({ limit: "tokens", message: "Used 1100 of 1000 tokens" });
+
+      // Raising the budget lets the next message through
+      yield* stream.append(LimitsSetEvent.make({ maxTokens: 5000 }));
+      yield* stream.append(UserMessageEvent.make({ content: "Now?" }));
+      yield* Effect.yieldNow();
+      yield* TestClock.adjust(llmDebounce.duration);
+      yield* lm.waitForCall();
+
+      const events = yield* stream.getEvents();
+      expect(events.filter((e) => BudgetExceededEvent.is(e))).toHaveLength(1);
+      expect(events.filter((e) => RequestStartedEvent.is(e))).toHaveLength(1);
+    }).pipe(Effect.provide(TestLanguageModel.layer)),
+  );
+
+  it.scoped("counts a fork's own usage towards its budget, not its copies of the source's", () =>
+    Effect.gen(function* () {
+      const stream = yield* makeTestEventStream(StreamPath.make("fork"));
+      const usage = (inputTokens: number) =>
+        UsageRecordedEvent.make({
+          requestOffset: Offset.make("0"),
+          provider: "openai",
+          modelId: "test-model",
+          inputTokens,
+          outputTokens: 0,
+          reasoningTokens: 0,
+          cachedInputTokens: 0,
+          latencyMs: 0,
+          costUsd: 1,
+        });
+      yield* stream.append(
+        StreamForkedFromEvent.make({
+          source: StreamPath.make("source"),
+          at: Offset.fromNumber(0),
+          copied: 1,
+        }),
+      );
+      yield* stream.append(usage(900));
+      yield* stream.append(usage(50));
+
+      const state = (yield* stream.getEvents()).reduce(
+        LlmLoopProcessor.state.reduce,
+        LlmLoopProcessor.state.initial,
+      );
+      expect(state).toMatchObject({ tokensUsed: 50, costUsd: 1 });
+    }),
+  );
+
+  it.scoped("limits automatic turns and requests per minute", () =>
+    Effect.gen(function* () {
+      const stream = yield* makeTestEventStream(StreamPath.make("test"));
+      const folded = Effect.map(stream.getEvents(), (events) =>
+        events.reduce(LlmLoopProcessor.state.reduce, LlmLoopProcessor.state.initial),
+      );
+      const exceeded = Effect.map(folded, (state) =>
+        Option.map(state.exceededLimit(Date.now()), (payload) => payload.limit),
+      );
+      const turn = stream.append(RequestStartedEvent.make({ requestParams: [] }));
+
+      yield* stream.append(LimitsSetEvent.make({ maxAutomaticTurns: 1, maxRequestsPerMinute: 4 }));
+      yield* stream.append(UserMessageEvent.make({ content: "Run some code" }));
+      yield* turn;
+      // One codemode result may be answered, the second one not
+      yield* stream.append(UserMessageEvent.make({ content: "result", automatic: true }));
+      expect(yield* exceeded).toEqual(Option.none());
+      yield* turn;
+      yield* stream.append(UserMessageEvent.make({ content: "result", automatic: true }));
+      expect(yield* exceeded).toEqual(Option.some("automatic-turns"));
+
+      // A message from a person starts over, until the minute's requests run out
+      yield* stream.append(UserMessageEvent.make({ content: "Try again" }));
+      expect(yield* exceeded).toEqual(Option.none());
+      yield* turn;
+      yield* stream.append(UserMessageEvent.make({ content: "And again" }));
+      yield* turn;
+      expect(yield* exceeded).toEqual(Option.some("requests-per-minute"));
+      expect((yield* folded).exceededLimit(Date.now() + 60_000)).toEqual(Option.none());
+    }),
+  );
+
+  it.scoped("summarizes older messages into a history-summarized event once over budget", () =>
+    Effect.gen(function* () {
+      const lm = yield* TestLanguageModel;
+      const stream = yield* makeTestEventStream(StreamPath.make("test"));
+
+      yield* stream.append(ConfigSetEvent.make({ model: "openai" }));
+      yield* stream.append(
+        ContextStrategySetEvent.make({
+          strategy: { type: "summarize", maxTokens: 200, keepMessages: 1 },
+        }),
+      );
+      const first = yield* stream.append(UserMessageEvent.make({ content: "a".repeat(400) }));
+      const second = yield* stream.append(UserMessageEvent.make({ content: "b".repeat(400) }));
+      yield* LlmLoopProcessor.run(stream).pipe(Effect.forkScoped);
+      yield* stream.waitForSubscribe();
+
+      yield* stream.append(UserMessageEvent.make({ content: "What now?" }));
+      yield* Effect.yieldNow();
+      yield* TestClock.adjust(llmDebounce.duration);
+      const call = yield* lm.waitForCall();
+
+      const summarized = yield* stream.waitForEvent(HistorySummarizedEvent);
+      expect(summarized.payload).toEqual({
+        summary: TEST_GENERATED_TEXT,
+        fromOffset: first.offset,
+        toOffset: second.offset,
+        messageCount: 2,
+      });
+      expect(lm.textPrompts()).toHaveLength(1);
+
+      // The summary's tokens count towards the budget like the request's
+      const usage = yield* stream.waitForEvent(UsageRecordedEvent);
+      expect(usage.payload).toMatchObject({
+        requestOffset: summarized.offset,
+        inputTokens: TEST_GENERATED_USAGE.inputTokens,
+        outputTokens: TEST_GENERATED_USAGE.outputTokens,
+      });
+      expect(call.prompt).toEqual([
+        {
+          role: "system",
+          content: expect.stringContaining(
+            `<conversation-summary>\n${TEST_GENERATED_TEXT}\n</conversation-summary>`,
+          ),
+        },
+        { role: "user", content: "What now?" },
+      ]);
+
+      // Replaying the events sends the same prompt without summarizing again
+      const state = (yield* stream.getEvents()).reduce(
+        LlmLoopProcessor.state.reduce,
+        LlmLoopProcessor.state.initial,
+      );
+      expect(state.history).toHaveLength(3);
+      expect(Option.map(state.summary, (summary) => summary.messageCount)).toEqual(Option.some(2));
+    }).pipe(Effect.provide(TestLanguageModel.layer)),
+  );
+
+  it.scoped("doesn't summarize once a limit is reached while the request waits", () =>
+    Effect.gen(function* () {
+      const lm = yield* TestLanguageModel;
+      const stream = yield* makeTestEventStream(StreamPath.make("test"));
+
+      yield* stream.append(ConfigSetEvent.make({ model: "openai" }));
+      yield* stream.append(LimitsSetEvent.make({ maxTokens: 1000 }));
+      yield* stream.append(
+        ContextStrategySetEvent.make({
+          strategy: { type: "summarize", maxTokens: 200, keepMessages: 1 },
+        }),
+      );
+      yield* stream.append(UserMessageEvent.make({ content: "a".repeat(400) }));
+      yield* stream.append(UserMessageEvent.make({ content: "b".repeat(400) }));
+      yield* LlmLoopProcessor.run(stream).pipe(Effect.forkScoped);
+      yield* stream.waitForSubscribe();
+
+      yield* stream.append(UserMessageEvent.make({ content: "What now?" }));
+      yield* Effect.yieldNow();
+      // Another request's usage arrives during the debounce
+      yield* stream.append(
+        UsageRecordedEvent.make({
+          requestOffset: Offset.make("0"),
+          provider: "openai",
+          modelId: "test-model",
+          inputTokens: 900,
+          outputTokens: 200,
+          reasoningTokens: 0,
+          cachedInputTokens: 0,
+          latencyMs: 0,
+          costUsd: null,
+        }),
+      );
+      yield* stream.waitForEvent(BudgetExceededEvent);
+      yield* TestClock.adjust(llmDebounce.duration);
+
+      // Raising the budget lets the next message through, summarizing once
+      yield* stream.append(LimitsSetEvent.make({ maxTokens: 5000 }));
+      yield* stream.append(UserMessageEvent.make({ content: "Now?" }));
+      yield* Effect.yieldNow();
+      yield* TestClock.adjust(llmDebounce.duration);
+      yield* lm.waitForCall();
+
+      const events = yield* stream.getEvents();
+      expect(lm.textPrompts()).toHaveLength(1);
+      expect(events.filter((e) => BudgetExceededEvent.is(e))).toHaveLength(1);
+      expect(events.filter((e) => RequestStartedEvent.is(e))).toHaveLength(1);
+    }).pipe(Effect.provide(TestLanguageModel.layer)),
+  );
 });
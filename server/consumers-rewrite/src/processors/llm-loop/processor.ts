@@ -5,26 +5,89 @@
  * - The path is configured for "openai" model
  * - A user prompt event is received
  *
- * Maintains conversation history and sends it with each request.
+ * Config-set events also pick the provider, model and parameters. The model is resolved from
+ * LanguageModels for each request, so switching models takes effect on the next request.
+ * Each request that finishes records its tokens, latency and estimated cost in a
+ * usage-recorded event, priced with ModelPrices when they're provided.
+ *
+ * The history a request sends follows the context strategy set with context-strategy-set
+ * events: all of it, the newest messages within a token budget, the last N messages, or a
+ * summary of older messages. Summaries come from a separate call to the path's model and are
+ * recorded as history-summarized events, so replaying them doesn't call the model again.
+ *
+ * Limits set with limits-set events (requests per minute, automatic turns in a row, tokens
+ * and cost) are checked before each request. A request past one is refused with a
+ * budget-exceeded event instead, so an agent answering its own codemode results can't loop
+ * forever.
+ *
+ * Maintains conversation history and sends it with each request. A forked stream starts with
+ * copies of its source's events, so its history is rebuilt from those up to the fork point.
+ *
+ * Tools registered with tool-registered events are offered on every request. Tool calls are
+ * recorded as tool-called events and left to the tool-runner processor; once the request has
+ * ended and every call has a result, the results are sent back in a follow-up request.
  */
-import { LanguageModel, Prompt } from "@effect/ai";
-import { Cause, Duration, Effect, Exit, Option, Schema, Stream } from "effect";
+import { Prompt, Tool, Toolkit } from "@effect/ai";
+import {
+  Cause,
+  Clock,
+  DateTime,
+  Duration,
+  Effect,
+  Equal,
+  Exit,
+  Option,
+  Schema,
+  Stream,
+} from "effect";
 
 import dedent from "dedent";
 import { Event, Offset } from "../../domain.js";
-import { CancelRequestEvent, ConfigSetEvent, UserMessageEvent } from "../../events.js";
-import { Processor, toLayer } from "../processor.js";
+import {
+  CancelRequestEvent,
+  ConfigSetEvent,
+  ModelConfig,
+  StreamForkedFromEvent,
+  UserMessageEvent,
+} from "../../events.js";
+import {
+  hydrate,
+  saveSnapshot,
+  StatefulProcessor,
+  toLayer,
+  warnOnRejectedAppend,
+} from "../processor.js";
+import { LanguageModels } from "../../services/language-models/index.js";
 import { makeDebounced } from "../../utils/debounce.js";
 import { withTraceFromEvent } from "../../tracing/helpers.js";
 import { makeActiveRequestFiber } from "./activeRequestFiber.js";
 import {
+  buildContext,
+  ContextInput,
+  Message,
+  MessageSpan,
+  Summary,
+  summaryRequest,
+} from "./context.js";
+import {
+  BudgetExceededEvent,
+  ContextStrategy,
+  ContextStrategySetEvent,
+  HistorySummarizedEvent,
+  Limits,
+  LimitsSetEvent,
   RequestCancelledEvent,
   RequestEndedEvent,
   RequestInterruptedEvent,
   RequestStartedEvent,
   ResponseSseEvent,
   SystemPromptEditEvent,
+  ToolCalledEvent,
+  ToolRegisteredEvent,
+  ToolResultEvent,
+  UsageRecordedEvent,
 } from "./events.js";
+import { ModelPrices, usageRecorded } from "./usage.js";
 
 // -------------------------------------------------------------------------------------
 // State
@@ -37,10 +100,39 @@ const DEFAULT_SYSTEM_PROMPT = dedent`
   You should aim to "get things done". Be as proactive as possible. If you fail at a task, rather than asking "do you want me to search for XYZ?", you should aim to find a way to just search for XYZ yourself and and see if it does indeed help you complete the task.
 `;
 
+/** A registered tool, as offered to the LLM */
+const ToolDefinition = Schema.Struct({
+  description: Schema.optional(Schema.String),
+  parameters: Schema.Record({ key: Schema.String, value: Schema.Unknown }),
+});
+type ToolDefinition = typeof ToolDefinition.Type;
+
+/** Window of the requests-per-minute limit */
+const RATE_WINDOW_MS = 60_000;
+
+type AssistantContent = Prompt.AssistantMessageEncoded["content"];
+
+/** Add text to an assistant message's content, extending its last text part */
+const appendText = (content: AssistantContent, text: string): AssistantContent => {
+  if (typeof content === "string") return content + text;
+  const last = content.at(-1);
+  return last?.type === "text"
+    ? [...content.slice(0, -1), { ...last, text: last.text + text }]
+    : [...content, { type: "text", text }];
+};
+
 class State extends Schema.Class<State>("LlmLoopProcessor/State")({
   enabled: Schema.Boolean,
+  /** Model requests use, from the latest config-set event */
+  modelConfig: ModelConfig,
   lastOffset: Offset,
   history: Schema.Array(Schema.encodedSchema(Prompt.Message)),
+  /** Events each history message was built from */
+  historySpans: Schema.Array(MessageSpan),
+  /** How requests fit the history in, from the latest context-strategy-set event */
+  contextStrategy: ContextStrategy,
+  /** Latest summary of the oldest history messages */
+  summary: Schema.Option(Summary),
   /** Offset of most recent user message requiring LLM response */
   llmRequestRequiredFrom: Schema.Option(Offset),
   /** Offset of most recent request-started (never cleared, used for trigger comparison) */
@@ -49,15 +141,49 @@ class State extends Schema.Class<State>("LlmLoopProcessor/State")({
   systemPrompt: Schema.String,
   /** Whether there's a queued message waiting for the current response to finish */
   pendingQueuedResponse: Schema.Boolean,
+  /** Registered tools by name */
+  tools: Schema.Record({ key: Schema.String, value: ToolDefinition }),
+  /** Whether a request has started and not yet ended or been cancelled */
+  requestInFlight: Schema.Boolean,
+  /** Ids of tool calls still waiting for a result */
+  pendingToolCalls: Schema.Array(Schema.String),
+  /** Whether the LLM made tool calls whose results haven't been sent back yet */
+  awaitingToolResults: Schema.Boolean,
+  /** Limits from the latest limits-set event */
+  limits: Limits,
+  /** Start times (epoch ms) of the requests in the last minute */
+  recentRequestTimes: Schema.Array(Schema.Number),
+  /** Requests started since the last message from a person */
+  turnsSinceHuman: Schema.Number,
+  /** Input and output tokens used on the path */
+  tokensUsed: Schema.Number,
+  /** Estimated cost of the path's priced requests, in USD */
+  costUsd: Schema.Number,
+  /** Events up to this offset are copies a fork took from its source, whose usage they are */
+  copiedThrough: Offset,
 }) {
   static initial = State.make({
     enabled: false,
+    modelConfig: {},
     lastOffset: Offset.make("-1"),
     history: [],
+    historySpans: [],
+    contextStrategy: { type: "full" },
+    summary: Option.none(),
     llmRequestRequiredFrom: Option.none(),
     llmLastRespondedAt: Option.none(),
     systemPrompt: DEFAULT_SYSTEM_PROMPT,
     pendingQueuedResponse: false,
+    tools: {},
+    requestInFlight: false,
+    pendingToolCalls: [],
+    awaitingToolResults: false,
+    limits: {},
+    recentRequestTimes: [],
+    turnsSinceHuman: 0,
+    tokensUsed: 0,
+    costUsd: 0,
+    copiedThrough: Offset.make("-1"),
   });
 
   /** Create a new State with the given updates */
@@ -72,21 +198,108 @@ class State extends Schema.Class<State>("LlmLoopProcessor/State")({
     return Offset.gt(this.llmRequestRequiredFrom.value, this.llmLastRespondedAt.value);
   }
 
-  /** Append text delta to conversation history, creating or extending assistant message */
-  appendAssistantDelta(delta: string): State {
-    const last = this.history.at(-1);
-    if (last?.role === "assistant") {
-      return this.with({
-        history: [...this.history.slice(0, -1), { ...last, content: last.content + delta }],
+  /** The limit another request at `now` (epoch ms) would go past, if any */
+  exceededLimit(now: number): Option.Option<BudgetExceededEvent["payload"]> {
+    const { maxRequestsPerMinute, maxAutomaticTurns, maxTokens, maxCostUsd } = this.limits;
+    if (maxTokens !== undefined && this.tokensUsed >= maxTokens) {
+      return Option.some({
+        limit: "tokens",
+        message: `Used ${this.tokensUsed} of ${maxTokens} tokens`,
+      });
+    }
+    if (maxCostUsd !== undefined && this.costUsd >= maxCostUsd) {
+      return Option.some({
+        limit: "cost",
+        message: `Spent $${this.costUsd.toFixed(4)} of $${maxCostUsd}`,
+      });
+    }
+    // The first request after a message from a person answers it, the rest are automatic
+    if (maxAutomaticTurns !== undefined && this.turnsSinceHuman > maxAutomaticTurns) {
+      return Option.some({
+        limit: "automatic-turns",
+        message: `${this.turnsSinceHuman - 1} automatic turns since the last message from a person (max ${maxAutomaticTurns})`,
       });
     }
+    const recent = this.recentRequestTimes.filter((time) => time > now - RATE_WINDOW_MS);
+    if (maxRequestsPerMinute !== undefined && recent.length >= maxRequestsPerMinute) {
+      return Option.some({
+        limit: "requests-per-minute",
+        message: `${recent.length} requests in the last minute (max ${maxRequestsPerMinute})`,
+      });
+    }
+    return Option.none();
+  }
+
+  /** Add a message to history, built from the event at `offset` */
+  addMessage(message: Message, offset: Offset): State {
     return this.with({
-      history: [...this.history, { role: "assistant", content: delta }],
+      history: [...this.history, message],
+      historySpans: [...this.historySpans, { from: offset, to: offset }],
     });
   }
-}
 
-type History = State["history"];
+  /** Replace the last message in history, extending its span to the event at `offset` */
+  replaceLastMessage(message: Message, offset: Offset): State {
+    const from = this.historySpans.at(-1)?.from ?? offset;
+    return this.with({
+      history: [...this.history.slice(0, -1), message],
+      historySpans: [...this.historySpans.slice(0, -1), { from, to: offset }],
+    });
+  }
+
+  /** Append text delta to conversation history, creating or extending assistant message */
+  appendAssistantDelta(delta: string, offset: Offset): State {
+    const last = this.history.at(-1);
+    if (last?.role === "assistant") {
+      return this.replaceLastMessage({ ...last, content: appendText(last.content, delta) }, offset);
+    }
+    return this.addMessage({ role: "assistant", content: delta }, offset);
+  }
+
+  /** Append a tool call to the assistant message, creating one if needed */
+  appendToolCall({ toolCallId, name, params }: ToolCalledEvent["payload"], offset: Offset): State {
+    const part = { type: "tool-call", id: toolCallId, name, params } as const;
+    const last = this.history.at(-1);
+    if (last?.role === "assistant") {
+      const content =
+        typeof last.content === "string"
+          ? last.content === ""
+            ? []
+            : [{ type: "text" as const, text: last.content }]
+          : last.content;
+      return this.replaceLastMessage({ ...last, content: [...content, part] }, offset);
+    }
+    return this.addMessage({ role: "assistant", content: [part] }, offset);
+  }
+
+  /** Append a tool result, joining the previous tool message if there is one */
+  appendToolResult(
+    { toolCallId, name, result, isFailure }: ToolResultEvent["payload"],
+    offset: Offset,
+  ): State {
+    const part = {
+      type: "tool-result",
+      id: toolCallId,
+      name,
+      result,
+      isFailure,
+      providerExecuted: false,
+    } as const;
+    const last = this.history.at(-1);
+    if (last?.role === "tool") {
+      return this.replaceLastMessage({ ...last, content: [...last.content, part] }, offset);
+    }
+    return this.addMessage({ role: "tool", content: [part] }, offset);
+  }
+
+  /** Request a follow-up once the request has ended and every tool call has its result */
+  continueAfterTools(offset: Offset): State {
+    if (!this.awaitingToolResults || this.requestInFlight || this.pendingToolCalls.length > 0) {
+      return this;
+    }
+    return this.with({ llmRequestRequiredFrom: Option.some(offset), awaitingToolResults: false });
+  }
+}
 
 // -------------------------------------------------------------------------------------
 // Reducer
@@ -96,10 +309,53 @@ type History = State["history"];
 const reduce = (state: State, event: Event): State => {
   state = state.with({ lastOffset: event.offset });
 
-  // Config change
+  // Forked stream - the source's events up to the fork point follow as copies, so start over
+  if (StreamForkedFromEvent.is(event)) {
+    return State.initial.with({
+      lastOffset: event.offset,
+      copiedThrough: Offset.fromNumber(event.payload.copied),
+    });
+  }
+
+  // Config change - a new model config replaces the previous one
   if (ConfigSetEvent.is(event)) {
-    const nowEnabled = event.payload.model === "openai";
-    return state.with({ enabled: nowEnabled });
+    const { model, ...modelConfig } = event.payload;
+    return state.with({ enabled: model === "openai", modelConfig });
+  }
+
+  // Context strategy - applies from the next request on
+  if (ContextStrategySetEvent.is(event)) {
+    return state.with({ contextStrategy: event.payload.strategy });
+  }
+
+  // Summary of the oldest messages - sent in their place from now on
+  if (HistorySummarizedEvent.is(event)) {
+    const { summary, ...covered } = event.payload;
+    return state.with({ summary: Option.some({ text: summary, ...covered }) });
+  }
+
+  // Limits - replace the previous ones
+  if (LimitsSetEvent.is(event)) {
+    return state.with({ limits: event.payload });
+  }
+
+  // A request was refused - drop what it would have answered until the next message
+  if (BudgetExceededEvent.is(event)) {
+    return state.with({
+      llmRequestRequiredFrom: Option.none(),
+      pendingQueuedResponse: false,
+      awaitingToolResults: false,
+    });
+  }
+
+  // Usage - counts towards the token and cost budgets, unless a fork copied it from its
+  // source (as in usage reports)
+  if (UsageRecordedEvent.is(event) && Offset.gt(event.offset, state.copiedThrough)) {
+    const { inputTokens, outputTokens, costUsd } = event.payload;
+    return state.with({
+      tokensUsed: state.tokensUsed + inputTokens + outputTokens,
+      costUsd: state.costUsd + (costUsd ?? 0),
+    });
   }
 
   // System prompt edit
@@ -123,9 +379,9 @@ const reduce = (state: State, event: Event): State => {
   // User message - add to history and handle mode
   if (UserMessageEvent.is(event)) {
     const mode = event.payload.mode ?? "interrupt";
-    const newState = state.with({
-      history: [...state.history, { role: "user", content: event.payload.content }],
-    });
+    const newState = state
+      .addMessage({ role: "user", content: event.payload.content }, event.offset)
+      .with({ turnsSinceHuman: event.payload.automatic === true ? state.turnsSinceHuman : 0 });
 
     switch (mode) {
       case "interrupt":
@@ -140,43 +396,111 @@ const reduce = (state: State, event: Event): State => {
     }
   }
 
+  // Tool registration - offered from the next request on
+  if (ToolRegisteredEvent.is(event)) {
+    const { name, description, parameters } = event.payload;
+    return state.with({
+      tools: {
+        ...state.tools,
+        [name]: description === undefined ? { parameters } : { description, parameters },
+      },
+    });
+  }
+
   // Request started - track that we've responded to the current user message
   if (RequestStartedEvent.is(event)) {
-    return state.with({ llmLastRespondedAt: Option.some(event.offset) });
+    const startedAt = DateTime.toEpochMillis(event.createdAt);
+    return state.with({
+      llmLastRespondedAt: Option.some(event.offset),
+      requestInFlight: true,
+      recentRequestTimes: [
+        ...state.recentRequestTimes.filter((time) => time > startedAt - RATE_WINDOW_MS),
+        startedAt,
+      ],
+      turnsSinceHuman: state.turnsSinceHuman + 1,
+    });
   }
 
-  // Request ended - trigger queued response if pending
-  if (RequestEndedEvent.is(event) && state.pendingQueuedResponse) {
-    return state.with({
+  // Request ended - trigger queued response if pending, or send back tool results
+  if (RequestEndedEvent.is(event)) {
+    const ended = state.with({ requestInFlight: false });
+    if (!ended.pendingQueuedResponse) return ended.continueAfterTools(event.offset);
+    return ended.with({
       llmRequestRequiredFrom: Option.some(event.offset),
       pendingQueuedResponse: false,
     });
   }
 
-  // Request cancelled due to interrupt - mark the partial response so LLM knows it was cut off
-  if (RequestCancelledEvent.is(event) && event.payload.reason === "interrupted") {
-    const last = state.history.at(-1);
-    if (last?.role === "assistant") {
-      return state.with({
-        history: [
-          ...state.history.slice(0, -1),
-          { ...last, content: last.content + "\n\n[response interrupted by user]" },
-        ],
-      });
+  // Request cancelled - its tool calls' results go into history but aren't sent back on
+  // their own. If interrupted, mark the partial response so the LLM knows it was cut off.
+  if (RequestCancelledEvent.is(event)) {
+    const cancelled = state.with({ requestInFlight: false, awaitingToolResults: false });
+    const last = cancelled.history.at(-1);
+    if (event.payload.reason === "interrupted" && last?.role === "assistant") {
+      return cancelled.replaceLastMessage(
+        { ...last, content: appendText(last.content, "\n\n[response interrupted by user]") },
+        event.offset,
+      );
     }
+    return cancelled;
+  }
+
+  // Tool call - wait for its result before continuing
+  if (ToolCalledEvent.is(event)) {
+    return state.appendToolCall(event.payload, event.offset).with({
+      pendingToolCalls: [...state.pendingToolCalls, event.payload.toolCallId],
+      awaitingToolResults: true,
+    });
+  }
+
+  // Tool result - continue once it was the last one
+  if (ToolResultEvent.is(event)) {
+    return state
+      .appendToolResult(event.payload, event.offset)
+      .with({
+        pendingToolCalls: state.pendingToolCalls.filter((id) => id !== event.payload.toolCallId),
+      })
+      .continueAfterTools(event.offset);
   }
 
   // Assistant response - parse our own emitted SSE events
   if (ResponseSseEvent.is(event)) {
     const textDelta = ResponseSseEvent.decodeTextDelta(event.payload.part);
     if (Option.isSome(textDelta)) {
-      return state.appendAssistantDelta(textDelta.value.delta);
+      return state.appendAssistantDelta(textDelta.value.delta, event.offset);
     }
   }
 
   return state;
 };
 
+// -------------------------------------------------------------------------------------
+// Tools
+// -------------------------------------------------------------------------------------
+
+/** A tool whose arguments are described by a JSON Schema instead of an Effect Schema */
+const toTool = (name: string, { description, parameters }: ToolDefinition) => {
+  const properties = (parameters.properties ?? {}) as Record<string, object>;
+  const required = new Set(Array.isArray(parameters.required) ? parameters.required : []);
+  return Tool.make(name, {
+    description,
+    parameters: Object.fromEntries(
+      Object.entries(properties).map(([key, schema]) => {
+        const field = Schema.Unknown.annotations({ jsonSchema: schema });
+        return [key, required.has(key) ? field : Schema.optional(field)];
+      }),
+    ),
+  });
+};
+
+/** Offers the registered tools without resolving their calls - the tool-runner does that */
+const makeToolkit = (tools: State["tools"]): Toolkit.WithHandler<Record<string, Tool.Any>> => ({
+  tools: Object.fromEntries(
+    Object.entries(tools).map(([name, definition]) => [name, toTool(name, definition)]),
+  ),
+  handle: (name) => Effect.die(`tool ${String(name)} is run by the tool-runner processor`),
+});
+
 /** Debounce settings for LLM requests */
 export const llmDebounce = {
   duration: Duration.millis(200),
@@ -187,15 +511,24 @@ export const llmDebounce = {
 // Processor
 // -------------------------------------------------------------------------------------
 
-export const LlmLoopProcessor: Processor<LanguageModel.LanguageModel> = {
+export const LlmLoopProcessor: StatefulProcessor<LanguageModels, State, typeof State.Encoded> = {
   name: "llm-loop",
 
+  state: {
+    schema: State,
+    version: 6,
+    initial: State.initial,
+    reduce,
+    lastOffset: (state) => state.lastOffset,
+  },
+
   run: (stream) =>
     Effect.gen(function* () {
-      const lm = yield* LanguageModel.LanguageModel;
+      const languageModels = yield* LanguageModels;
+      const prices = Option.getOrElse(yield* Effect.serviceOption(ModelPrices), () => ({}));
 
-      // Phase 1: Hydrate from history
-      let state = yield* stream.read().pipe(Stream.runFold(State.initial, reduce));
+      // Phase 1: Hydrate from the latest snapshot and the history after it
+      let state = yield* hydrate(LlmLoopProcessor, stream);
 
       yield* Effect.log(
         `hydrated, lastOffset=${state.lastOffset}, enabled=${state.enabled}, history=${state.history.length} messages, pending=${Option.getOrNull(state.llmRequestRequiredFrom)}`,
@@ -203,18 +536,91 @@ export const LlmLoopProcessor: Processor<LanguageModel.LanguageModel> = {
 
       const activeRequestFiber = yield* makeActiveRequestFiber();
 
+      // Message a budget-exceeded event was appended for, until it comes back to reduce
+      let refusedFor: Option.Option<Offset> = Option.none();
+
+      /** Refuse the pending message past a limit, once */
+      const refuse = Effect.fn("llm-loop.refuse")(function* (
+        exceeded: BudgetExceededEvent["payload"],
+      ) {
+        if (Option.isNone(state.llmRequestRequiredFrom)) return;
+        if (Equal.equals(refusedFor, state.llmRequestRequiredFrom)) return;
+        refusedFor = state.llmRequestRequiredFrom;
+        yield* Effect.logWarning(`refusing request: ${exceeded.message}`);
+        yield* stream.append(BudgetExceededEvent.make(exceeded));
+      });
+
+      /**
+       * Fit the history in following the strategy, summarizing older messages first if it
+       * says to. A summary that fails falls back to dropping the oldest messages. Summaries
+       * count towards the limits like requests, so none is made past one - and neither is
+       * the request it was for.
+       */
+      const buildPrompt = Effect.fn("llm-loop.build-context")(function* (
+        input: ContextInput,
+        modelConfig: ModelConfig,
+      ) {
+        const context = buildContext(input);
+        if (Option.isNone(context.summarize)) return Option.some(context.prompt);
+
+        const exceeded = state.exceededLimit(yield* Clock.currentTimeMillis);
+        if (Option.isSome(exceeded)) {
+          yield* refuse(exceeded.value);
+          return Option.none();
+        }
+
+        const { previous, messages, covers } = context.summarize.value;
+        yield* Effect.log(`summarizing ${messages.length} messages`);
+        const startedAt = yield* Clock.currentTimeMillis;
+        return yield* languageModels.resolve(modelConfig).pipe(
+          Effect.flatMap(({ selection, languageModel }) =>
+            languageModel.generateText({ prompt: summaryRequest(previous, messages) }).pipe(
+              Effect.tap(({ text, usage }) =>
+                Effect.gen(function* () {
+                  const finishedAt = yield* Clock.currentTimeMillis;
+                  const summarized = yield* stream.append(
+                    HistorySummarizedEvent.make({ summary: text, ...covers }),
+                  );
+                  yield* stream.append(
+                    usageRecorded({
+                      requestOffset: summarized.offset,
+                      selection,
+                      usage,
+                      latencyMs: finishedAt - startedAt,
+                      prices,
+                    }),
+                  );
+                }),
+              ),
+            ),
+          ),
+          Effect.map(({ text }) =>
+            Option.some(
+              buildContext({ ...input, summary: Option.some({ text, ...covers }) }).prompt,
+            ),
+          ),
+          Effect.catchAll((error) =>
+            Effect.logWarning(
+              "summarizing history failed, dropping the oldest messages",
+              error,
+            ).pipe(Effect.as(Option.some(context.prompt))),
+          ),
+        );
+      });
+
       const startRequest = Effect.fn("llm-loop.request")(function* ({
-        history,
-        systemPrompt,
+        context,
+        tools,
+        modelConfig,
       }: {
-        history: History;
-        systemPrompt: string;
+        context: ContextInput;
+        tools: State["tools"];
+        modelConfig: ModelConfig;
       }) {
-        // Build prompt with system message
-        const prompt: Prompt.MessageEncoded[] = [
-          { role: "system", content: systemPrompt },
-          ...history,
-        ];
+        const built = yield* buildPrompt(context, modelConfig);
+        if (Option.isNone(built)) return;
+        const prompt = built.value;
+        const history = context.history;
 
         const { offset: requestOffset } = yield* stream.append(
           RequestStartedEvent.make({ requestParams: prompt }),
@@ -222,18 +628,61 @@ export const LlmLoopProcessor: Processor<LanguageModel.LanguageModel> = {
 
         // Annotate span with request context
         yield* Effect.annotateCurrentSpan("request.offset", requestOffset);
-        yield* Effect.annotateCurrentSpan("request.message_count", history.length + 1);
+        yield* Effect.annotateCurrentSpan("request.message_count", prompt.length);
 
-        yield* Effect.log(`triggering generation, history=${history.length} messages`);
-
-        const requestEffect = lm.streamText({ prompt }).pipe(
-          Stream.runForEach((part) =>
-            stream.append(ResponseSseEvent.make({ part, requestOffset })),
+        yield* Effect.log(
+          `triggering generation, history=${history.length} messages, sending ${prompt.length}`,
+        );
+        const startedAt = yield* Clock.currentTimeMillis;
+
+        // A model that can't be resolved cancels the request like a failed generation
+        const requestEffect = languageModels.resolve(modelConfig).pipe(
+          Effect.tap(({ selection }) =>
+            Effect.annotateCurrentSpan(
+              "request.model",
+              `${selection.provider}/${selection.modelId}`,
+            ),
+          ),
+          Effect.flatMap(({ selection, languageModel }) =>
+            languageModel
+              .streamText({ prompt, toolkit: makeToolkit(tools), disableToolCallResolution: true })
+              .pipe(
+                Stream.runForEach((part) =>
+                  Effect.gen(function* () {
+                    if (part.type === "tool-call") {
+                      yield* stream.append(
+                        ToolCalledEvent.make({
+                          requestOffset,
+                          toolCallId: part.id,
+                          name: part.name,
+                          params: part.params,
+                        }),
+                      );
+                      return;
+                    }
+                    yield* stream.append(ResponseSseEvent.make({ part, requestOffset }));
+                    if (part.type === "finish") {
+                      const finishedAt = yield* Clock.currentTimeMillis;
+                      yield* stream.append(
+                        usageRecorded({
+                          requestOffset,
+                          selection,
+                          usage: part.usage,
+                          latencyMs: finishedAt - startedAt,
+                          prices,
+                        }),
+                      );
+                    }
+                  }),
+                ),
+              ),
           ),
           Effect.onExit((exit) =>
             Exit.match(exit, {
               onSuccess: () =>
-                stream.append(RequestEndedEvent.make({ requestOffset })).pipe(Effect.asVoid),
+                stream
+                  .append(RequestEndedEvent.make({ requestOffset }))
+                  .pipe(Effect.asVoid, warnOnRejectedAppend),
               onFailure: (cause) =>
                 Effect.gen(function* () {
                   yield* Effect.logError("generation failed", cause);
@@ -244,7 +693,7 @@ export const LlmLoopProcessor: Processor<LanguageModel.LanguageModel> = {
                       message: Cause.pretty(cause),
                     }),
                   );
-                }),
+                }).pipe(warnOnRejectedAppend),
             }),
           ),
           Effect.catchAllCause(() => Effect.void),
@@ -258,7 +707,7 @@ export const LlmLoopProcessor: Processor<LanguageModel.LanguageModel> = {
             }),
           );
         }
-      });
+      }, warnOnRejectedAppend);
 
       const debounced = yield* makeDebounced(startRequest, llmDebounce);
 
@@ -282,18 +731,35 @@ export const LlmLoopProcessor: Processor<LanguageModel.LanguageModel> = {
 
             state = reduce(state, event);
 
+            // A finished response is a natural checkpoint - it follows a run of SSE deltas
+            if (RequestEndedEvent.is(event)) yield* saveSnapshot(LlmLoopProcessor, stream, state);
+
             // !enabled only blocks future triggers; pending debounced runs still execute.
             if (!state.enabled) return;
             if (!state.shouldTriggerLlmResponse) return;
 
+            // Refuse past a limit, once per message - the time is the event's, as on replay
+            const exceeded = state.exceededLimit(DateTime.toEpochMillis(event.createdAt));
+            if (Option.isSome(exceeded)) {
+              yield* refuse(exceeded.value);
+              return;
+            }
+
             // Trigger LLM request (debounced) - pass event for trace context
             yield* debounced
               .trigger({
-                history: state.history,
-                systemPrompt: state.systemPrompt,
+                context: {
+                  systemPrompt: state.systemPrompt,
+                  history: state.history,
+                  spans: state.historySpans,
+                  summary: state.summary,
+                  strategy: state.contextStrategy,
+                },
+                tools: state.tools,
+                modelConfig: state.modelConfig,
               })
               .pipe(withTraceFromEvent(event));
-          }),
+          }).pipe(warnOnRejectedAppend),
         ),
       );
     }),
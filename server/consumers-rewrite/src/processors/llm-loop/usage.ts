@@ -0,0 +1,170 @@
+/**
+ * Usage accounting
+ *
+ * The LLM loop records a usage-recorded event for every request and summary that finishes,
+ * pricing its tokens with ModelPrices. `reduceUsage` totals those events per path and per
+ * prefix, so a team's spend is the total of its path prefix.
+ */
+import { Response } from "@effect/ai";
+import { Context, Layer, Schema, Stream } from "effect";
+
+import { Event, Offset } from "../../domain.js";
+import { StreamForkedFromEvent } from "../../events.js";
+import type { ModelSelection } from "../../services/language-models/index.js";
+import { UsageRecordedEvent } from "./events.js";
+
+// -------------------------------------------------------------------------------------
+// Prices
+// -------------------------------------------------------------------------------------
+
+/** USD per million tokens */
+export interface ModelPrice {
+  readonly input: number;
+  readonly output: number;
+  /** Price of input tokens read from the prompt cache, if the provider discounts them */
+  readonly cachedInput?: number;
+}
+
+/** Prices by model id - requests to models without one are recorded without a cost */
+export type ModelPrices = Readonly<Record<string, ModelPrice>>;
+
+export const ModelPrices = Context.GenericTag<ModelPrices>("@app/ModelPrices");
+
+export const modelPricesLayer = (prices: ModelPrices) => Layer.succeed(ModelPrices, prices);
+
+/** Estimated cost in USD of a request's tokens, null without a price */
+export const estimateCost = (
+  price: ModelPrice | undefined,
+  {
+    provider,
+    inputTokens,
+    outputTokens,
+    cachedInputTokens,
+  }: Pick<
+    UsageRecordedEvent["payload"],
+    "provider" | "inputTokens" | "outputTokens" | "cachedInputTokens"
+  >,
+): number | null => {
+  if (price === undefined) return null;
+  // OpenAI counts cached tokens within the input tokens, Anthropic counts them separately
+  const uncachedInput = provider === "anthropic" ? inputTokens : inputTokens - cachedInputTokens;
+  const cached = cachedInputTokens * (price.cachedInput ?? price.input);
+  return (uncachedInput * price.input + cached + outputTokens * price.output) / 1_000_000;
+};
+
+/** The usage-recorded event for a request's finish part */
+export const usageRecorded = ({
+  requestOffset,
+  selection,
+  usage,
+  latencyMs,
+  prices,
+}: {
+  requestOffset: Offset;
+  selection: ModelSelection;
+  usage: Response.Usage;
+  latencyMs: number;
+  prices: ModelPrices;
+}) => {
+  const { provider, modelId } = selection;
+  const tokens = {
+    inputTokens: usage.inputTokens ?? 0,
+    outputTokens: usage.outputTokens ?? 0,
+    reasoningTokens: usage.reasoningTokens ?? 0,
+    cachedInputTokens: usage.cachedInputTokens ?? 0,
+  };
+  const price = Object.hasOwn(prices, modelId) ? prices[modelId] : undefined;
+  return UsageRecordedEvent.make({
+    requestOffset,
+    provider,
+    modelId,
+    ...tokens,
+    latencyMs,
+    costUsd: estimateCost(price, { provider, ...tokens }),
+  });
+};
+
+// -------------------------------------------------------------------------------------
+// Totals
+// -------------------------------------------------------------------------------------
+
+export const UsageTotals = Schema.Struct({
+  requests: Schema.Number,
+  inputTokens: Schema.Number,
+  outputTokens: Schema.Number,
+  reasoningTokens: Schema.Number,
+  cachedInputTokens: Schema.Number,
+  latencyMs: Schema.Number,
+  /** Estimated cost of the priced requests */
+  costUsd: Schema.Number,
+  /** Requests to models without a price, left out of the cost */
+  unpricedRequests: Schema.Number,
+});
+export type UsageTotals = typeof UsageTotals.Type;
+
+export const UsageReport = Schema.Struct({
+  total: UsageTotals,
+  /** Totals of every path and every prefix of one, e.g. `team-a` covers `team-a/bot` */
+  byPath: Schema.Record({ key: Schema.String, value: UsageTotals }),
+});
+export type UsageReport = typeof UsageReport.Type;
+
+export const emptyUsage: UsageTotals = {
+  requests: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  reasoningTokens: 0,
+  cachedInputTokens: 0,
+  latencyMs: 0,
+  costUsd: 0,
+  unpricedRequests: 0,
+};
+
+export const emptyUsageReport: UsageReport = { total: emptyUsage, byPath: {} };
+
+const addUsage = (totals: UsageTotals, usage: UsageRecordedEvent["payload"]): UsageTotals => ({
+  requests: totals.requests + 1,
+  inputTokens: totals.inputTokens + usage.inputTokens,
+  outputTokens: totals.outputTokens + usage.outputTokens,
+  reasoningTokens: totals.reasoningTokens + usage.reasoningTokens,
+  cachedInputTokens: totals.cachedInputTokens + usage.cachedInputTokens,
+  latencyMs: totals.latencyMs + usage.latencyMs,
+  costUsd: totals.costUsd + (usage.costUsd ?? 0),
+  unpricedRequests: totals.unpricedRequests + (usage.costUsd === null ? 1 : 0),
+});
+
+/** A path and each of its prefixes, e.g. `a/b/c` -> `a`, `a/b`, `a/b/c` */
+const pathAndPrefixes = (path: string): ReadonlyArray<string> =>
+  path.split("/").map((_, i, segments) => segments.slice(0, i + 1).join("/"));
+
+/**
+ * Drop the usage events a fork copied from its source, which already counts them. Reads the
+ * forked-from events too, as they say how many copies follow them on their path.
+ */
+export const withoutForkCopies = <E, R>(
+  events: Stream.Stream<Event, E, R>,
+): Stream.Stream<Event, E, R> =>
+  Stream.suspend(() => {
+    const lastCopyByPath = new Map<string, Offset>();
+    return events.pipe(
+      Stream.filter((event) => {
+        if (StreamForkedFromEvent.is(event)) {
+          lastCopyByPath.set(event.path, Offset.fromNumber(event.payload.copied));
+          return false;
+        }
+        const lastCopy = lastCopyByPath.get(event.path);
+        return lastCopy === undefined || Offset.gt(event.offset, lastCopy);
+      }),
+    );
+  });
+
+/** Add a usage-recorded event to the total and to its path and every prefix of it */
+export const reduceUsage = (report: UsageReport, event: Event): UsageReport => {
+  if (!UsageRecordedEvent.is(event)) return report;
+
+  const byPath = { ...report.byPath };
+  for (const key of pathAndPrefixes(event.path)) {
+    byPath[key] = addUsage(Object.hasOwn(byPath, key) ? byPath[key]! : emptyUsage, event.payload);
+  }
+  return { total: addUsage(report.total, event.payload), byPath };
+};
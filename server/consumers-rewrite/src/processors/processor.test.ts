@@ -5,12 +5,19 @@
  * Uses it.live + Effect.scoped to avoid scope interaction issues with Effect.sleep.
  */
 import { describe, it, expect } from "@effect/vitest";
-import { Deferred, Effect, Layer, Ref } from "effect";
+import { Context, Deferred, Effect, Layer, Option, Queue, Ref, Schema, Stream } from "effect";
 
-import { EventInput, EventType, StreamPath } from "../domain.js";
+import { EventInput, EventType, Offset, StreamPath } from "../domain.js";
 import * as StreamManager from "../services/stream-manager/index.js";
 import * as StreamStorage from "../services/stream-storage/index.js";
-import { toLayer, type Processor } from "./processor.js";
+import { makeTestEventStream } from "../testing/index.js";
+import {
+  hydrate,
+  SNAPSHOT_REPLAY_THRESHOLD,
+  toLayer,
+  type Processor,
+  type StatefulProcessor,
+} from "./processor.js";
 
 const TEST_TIMEOUT = "500 millis";
 const streamManagerLayer = StreamManager.liveLayer.pipe(Layer.provide(StreamStorage.inMemoryLayer));
@@ -117,4 +124,149 @@ describe("Processor toLayer", () => {
       }).pipe(withTestLayer(processor));
     }),
   );
+
+  it.live("boots processors for paths that already have history", () =>
+    Effect.gen(function* () {
+      const started = yield* Deferred.make<StreamPath>();
+      const path = StreamPath.make("test/existing");
+
+      const processor: Processor<never> = {
+        name: "boot-test",
+        run: (stream) =>
+          stream.read().pipe(
+            Stream.runHead,
+            Effect.flatMap((event) =>
+              Option.isSome(event) ? Deferred.succeed(started, event.value.path) : Effect.void,
+            ),
+            Effect.zipRight(Effect.never),
+          ),
+      };
+
+      // Storage already holds an event from a previous run; nothing new is appended
+      const seededStorage = StreamStorage.inMemoryLayer.pipe(
+        Layer.tap((context) =>
+          StreamManager.EventStream.make(
+            Context.get(context, StreamStorage.StreamStorageManager).forPath(path),
+            path,
+          ).pipe(Effect.flatMap((stream) => stream.append(makeTestEvent()))),
+        ),
+      );
+      const layer = toLayer(processor).pipe(
+        Layer.provide(StreamManager.liveLayer),
+        Layer.provide(seededStorage),
+      );
+
+      const bootedPath = yield* Deferred.await(started).pipe(
+        Effect.scoped,
+        Effect.provide(layer),
+        Effect.timeout(TEST_TIMEOUT),
+      );
+      expect(bootedPath).toBe(path);
+    }),
+  );
+
+  it.live("restarts the processor on truncation and stops it on deletion", () =>
+    Effect.gen(function* () {
+      const starts = yield* Queue.unbounded<number>();
+      const startCount = yield* Ref.make(0);
+      const interruptCount = yield* Ref.make(0);
+
+      const processor: Processor<never> = {
+        name: "close-test",
+        run: () =>
+          Effect.gen(function* () {
+            yield* Queue.offer(starts, yield* Ref.updateAndGet(startCount, (n) => n + 1));
+            return yield* Effect.never;
+          }).pipe(Effect.onInterrupt(() => Ref.update(interruptCount, (n) => n + 1))),
+      };
+
+      yield* Effect.gen(function* () {
+        const manager = yield* StreamManager.StreamManager;
+        const path = StreamPath.make("test/close");
+
+        yield* manager.append({ path, event: makeTestEvent() });
+        yield* manager.append({ path, event: makeTestEvent() });
+        expect(yield* Queue.take(starts)).toBe(1);
+
+        yield* manager.truncateStream({ path, before: Offset.make("0000000000000001") });
+        expect(yield* Queue.take(starts)).toBe(2);
+        expect(yield* Ref.get(interruptCount)).toBe(1);
+
+        yield* manager.deleteStream(path);
+        yield* Effect.sleep("10 millis");
+        expect(yield* Ref.get(interruptCount)).toBe(2);
+        expect(yield* Ref.get(startCount)).toBe(2);
+      }).pipe(withTestLayer(processor));
+    }),
+  );
+});
+
+// Counts events; snapshots of it are easy to tell apart from a full replay
+const CountState = Schema.Struct({ count: Schema.Number, lastOffset: Offset });
+
+const makeCountingStatefulProcessor = (
+  version: number,
+): StatefulProcessor<never, typeof CountState.Type, typeof CountState.Encoded> => ({
+  name: "count",
+  state: {
+    schema: CountState,
+    version,
+    initial: { count: 0, lastOffset: Offset.make("-1") },
+    reduce: (state, event) => ({ count: state.count + 1, lastOffset: event.offset }),
+    lastOffset: (state) => state.lastOffset,
+  },
+  run: () => Effect.void,
+});
+
+describe("Processor hydrate", () => {
+  it.effect("starts from the latest snapshot and replays only later events", () =>
+    Effect.gen(function* () {
+      const stream = yield* makeTestEventStream(StreamPath.make("test/hydrate"));
+      for (let n = 0; n < 3; n++) yield* stream.appendEvent(makeTestEvent());
+      yield* stream.saveSnapshot({
+        key: "count",
+        version: 1,
+        offset: Offset.make("0000000000000001"),
+        state: { count: 100, lastOffset: "0000000000000001" },
+      });
+
+      const state = yield* hydrate(makeCountingStatefulProcessor(1), stream);
+      expect(state).toEqual({ count: 101, lastOffset: "0000000000000002" });
+    }).pipe(Effect.scoped),
+  );
+
+  it.effect("ignores snapshots of another state version", () =>
+    Effect.gen(function* () {
+      const stream = yield* makeTestEventStream(StreamPath.make("test/hydrate-version"));
+      for (let n = 0; n < 3; n++) yield* stream.appendEvent(makeTestEvent());
+      yield* stream.saveSnapshot({
+        key: "count",
+        version: 1,
+        offset: Offset.make("0000000000000001"),
+        state: { count: 100, lastOffset: "0000000000000001" },
+      });
+
+      const state = yield* hydrate(makeCountingStatefulProcessor(2), stream);
+      expect(state.count).toBe(3);
+    }).pipe(Effect.scoped),
+  );
+
+  it.effect("snapshots after a long replay", () =>
+    Effect.gen(function* () {
+      const stream = yield* makeTestEventStream(StreamPath.make("test/hydrate-save"));
+      for (let n = 0; n < SNAPSHOT_REPLAY_THRESHOLD; n++) {
+        yield* stream.appendEvent(makeTestEvent());
+      }
+
+      const processor = makeCountingStatefulProcessor(1);
+      yield* hydrate(processor, stream);
+
+      const snapshot = Option.getOrThrow(yield* stream.loadSnapshot("count"));
+      expect(snapshot.version).toBe(1);
+      expect(snapshot.state).toEqual({
+        count: SNAPSHOT_REPLAY_THRESHOLD,
+        lastOffset: snapshot.offset,
+      });
+    }).pipe(Effect.scoped),
+  );
 });
@@ -4,13 +4,22 @@
  * A minimal interface for building path-scoped processors. Each processor's `run`
  * is called once per path, with a path-scoped EventStream.
  *
- * Processors are started lazily - when the first event for a path arrives via
+ * Processors are started eagerly for every path that already exists in storage,
+ * and lazily for new paths - when the first event for a path arrives via
  * subscribe({}), a processor is spawned for that path. The processor then uses
  * its EventStream to read history and subscribe to live events.
+ *
+ * When a stream is deleted or truncated, the path's processor is interrupted. A truncated
+ * path gets a fresh processor over what is left; a deleted one waits for its next event.
+ *
+ * A StatefulProcessor declares its `state` (schema, version, initial value and reducer), so it can
+ * `hydrate` from the latest snapshot of that state and replay only the events after it,
+ * and `saveSnapshot` whenever it reaches a good checkpoint.
  */
-import { Deferred, Effect, FiberMap, Layer, Scope, Stream } from "effect";
+import { Deferred, Effect, FiberMap, Layer, Option, Schema, Scope, Stream } from "effect";
 
-import { StreamPath } from "../domain.js";
+import { Event, Offset, StreamPath } from "../domain.js";
+import { EventValidationError, StreamTombstoneEvent } from "../events.js";
 import { EventStream, StreamManager } from "../services/stream-manager/index.js";
 
 // -------------------------------------------------------------------------------------
@@ -25,6 +34,100 @@ export interface Processor<R> {
   readonly run: (stream: EventStream.EventStream) => Effect.Effect<void, never, R | Scope.Scope>;
 }
 
+/** A processor that declares the state it folds from its events, making it snapshottable */
+export interface StatefulProcessor<R, S, I> extends Processor<R> {
+  readonly state: ProcessorState<S, I>;
+}
+
+/**
+ * How a processor folds events into state. Snapshots store the state encoded with
+ * `schema` (as `I`) and are keyed by the processor name.
+ */
+export interface ProcessorState<S, I> {
+  readonly schema: Schema.Schema<S, I>;
+  /** Bump when the schema or reducer changes - snapshots of other versions are ignored */
+  readonly version: number;
+  readonly initial: S;
+  readonly reduce: (state: S, event: Event) => S;
+  /** Offset of the last event folded into the state */
+  readonly lastOffset: (state: S) => Offset;
+}
+
+/**
+ * Drop an append that a registered event schema rejected, with a warning, so one rejected
+ * event doesn't stop the processor
+ */
+export const warnOnRejectedAppend = <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+  effect.pipe(
+    Effect.catchIf(
+      (error): error is Extract<E, EventValidationError> => error instanceof EventValidationError,
+      (error) => Effect.logWarning("append rejected by a registered event schema", error),
+    ),
+  );
+
+// -------------------------------------------------------------------------------------
+// Snapshots
+// -------------------------------------------------------------------------------------
+
+/** Hydration writes a fresh snapshot once it had to replay at least this many events */
+export const SNAPSHOT_REPLAY_THRESHOLD = 100;
+
+/** Persist a processor's state at its last offset, replacing its previous snapshot */
+export const saveSnapshot = <R, S, I>(
+  processor: StatefulProcessor<R, S, I>,
+  stream: EventStream.EventStream,
+  state: S,
+): Effect.Effect<void> =>
+  Effect.gen(function* () {
+    const encoded = yield* Schema.encode(processor.state.schema)(state);
+    yield* stream.saveSnapshot({
+      key: processor.name,
+      version: processor.state.version,
+      offset: processor.state.lastOffset(state),
+      state: encoded,
+    });
+  }).pipe(Effect.catchAllCause((cause) => Effect.logWarning("saving snapshot failed", cause)));
+
+/**
+ * Fold a processor's state from its stream: start from the latest snapshot with the
+ * current version (falling back to `initial` when there is none or it no longer decodes)
+ * and replay the events after it. A long replay is snapshotted so the next boot is short.
+ */
+export const hydrate = <R, S, I>(
+  processor: StatefulProcessor<R, S, I>,
+  stream: EventStream.EventStream,
+): Effect.Effect<S> =>
+  Effect.gen(function* () {
+    const { schema, version, initial, reduce } = processor.state;
+
+    const snapshot = yield* stream.loadSnapshot(processor.name).pipe(
+      Effect.map(Option.filter((snapshot) => snapshot.version === version)),
+      Effect.flatMap(
+        Option.match({
+          onNone: () => Effect.succeed(Option.none<S>()),
+          onSome: (snapshot) =>
+            Schema.decodeUnknown(schema)(snapshot.state).pipe(
+              Effect.map(Option.some),
+              Effect.catchAll((error) =>
+                Effect.logWarning("discarding undecodable snapshot", error).pipe(
+                  Effect.as(Option.none<S>()),
+                ),
+              ),
+            ),
+        }),
+      ),
+    );
+    const from = Option.getOrElse(snapshot, () => initial);
+
+    let replayed = 0;
+    const state = yield* stream
+      .read({ from: processor.state.lastOffset(from) })
+      .pipe(Stream.runFold(from, (state, event) => (replayed++, reduce(state, event))));
+
+    if (replayed >= SNAPSHOT_REPLAY_THRESHOLD) yield* saveSnapshot(processor, stream, state);
+    return state;
+  });
+
 // -------------------------------------------------------------------------------------
 // Layer Construction
 // -------------------------------------------------------------------------------------
@@ -32,8 +135,9 @@ export interface Processor<R> {
 /**
  * Convert a Processor into a Layer.
  *
- * Spawns a processor lazily for each path when the first event arrives.
- * Uses FiberMap to track active processors and prevent duplicates.
+ * Spawns a processor for each existing path on boot, and lazily for each new path
+ * when its first event arrives. Uses FiberMap to track active processors and
+ * prevent duplicates.
  */
 export const toLayer = <R>(
   processor: Processor<R>,
@@ -47,30 +151,49 @@ export const toLayer = <R>(
 
       yield* Effect.log("starting");
 
+      const ensureRunning = (path: StreamPath) =>
+        Effect.gen(function* () {
+          const stream = yield* streamManager.forPath(path);
+          yield* FiberMap.run(
+            processors,
+            path,
+            processor.run(stream).pipe(
+              Effect.provide(context),
+              Effect.catchAllCause((cause) => Effect.logError(`error on path=${path}`, cause)),
+            ),
+            { onlyIfMissing: true },
+          );
+        });
+
+      const onEvent = (event: Event) =>
+        Effect.gen(function* () {
+          if (!StreamTombstoneEvent.is(event)) return yield* ensureRunning(event.path);
+
+          yield* FiberMap.remove(processors, event.path);
+          if (event.payload.reason === "truncated") yield* ensureRunning(event.path);
+        });
+
       // Watch for events and start processors lazily
       yield* streamManager.subscribe({}).pipe(
         Stream.onStart(Deferred.succeed(started, void 0)),
-        Stream.runForEach((event) =>
-          Effect.gen(function* () {
-            const stream = yield* streamManager.forPath(event.path);
-            yield* FiberMap.run(
-              processors,
-              event.path,
-              processor.run(stream).pipe(
-                Effect.provide(context),
-                Effect.catchAllCause((cause) =>
-                  Effect.logError(`error on path=${event.path}`, cause),
-                ),
-              ),
-              { onlyIfMissing: true },
-            );
-          }),
-        ),
+        Stream.runForEach(onEvent),
         Effect.catchAllCause((cause) => Effect.logError("watch failed", cause)),
         Effect.forkScoped,
       );
 
       // Ensure subscription is active before returning (useful for tests)
       yield* Deferred.await(started);
+
+      // Boot processors for paths that already have history - they may never see a new
+      // event, but still need to resume (e.g. a pending LLM request after a restart).
+      // Runs after the watch is active so no path falls between the two.
+      const existingPaths = yield* streamManager
+        .listPaths()
+        .pipe(
+          Effect.catchAllCause((cause) =>
+            Effect.logError("listing existing paths failed", cause).pipe(Effect.as([])),
+          ),
+        );
+      yield* Effect.forEach(existingPaths, ensureRunning, { discard: true });
     }).pipe(Effect.annotateLogs("processor", processor.name)),
   );
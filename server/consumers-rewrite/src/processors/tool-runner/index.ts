@@ -0,0 +1,12 @@
+/**
+ * Tool Runner Processor
+ *
+ * Runs the LLM loop's tool calls with handlers from ToolHandlers.
+ */
+export {
+  ToolHandlers,
+  ToolRunnerProcessor,
+  ToolRunnerProcessorLayer,
+  toolHandlersLayer,
+  type ToolHandler,
+} from "./processor.js";
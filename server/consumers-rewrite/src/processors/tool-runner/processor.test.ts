@@ -0,0 +1,114 @@
+import { describe, it, expect } from "@effect/vitest";
+import { Effect } from "effect";
+
+import { Offset, StreamPath } from "../../domain.js";
+import { StreamForkedFromEvent } from "../../events.js";
+import { makeTestEventStream } from "../../testing/index.js";
+import { ToolCalledEvent, ToolRegisteredEvent, ToolResultEvent } from "../llm-loop/events.js";
+import { ToolRunnerProcessor, toolHandlersLayer } from "./processor.js";
+
+const HandlersLive = toolHandlersLayer({
+  echo: (params) => Effect.succeed({ echoed: params }),
+  broken: () => Effect.fail("out of order"),
+});
+
+const register = (name: string, handler: string) =>
+  ToolRegisteredEvent.make({ name, parameters: { type: "object" }, handler });
+
+const call = (toolCallId: string, name: string, params: unknown = {}) =>
+  ToolCalledEvent.make({ requestOffset: Offset.make("0"), toolCallId, name, params });
+
+// -------------------------------------------------------------------------------------
+// Tests
+// -------------------------------------------------------------------------------------
+
+describe("ToolRunnerProcessor", () => {
+  it.scoped("runs a call with its tool's handler and records the result", () =>
+    Effect.gen(function* () {
+      const stream = yield* makeTestEventStream(StreamPath.make("test"));
+      yield* stream.append(register("say", "echo"));
+
+      yield* ToolRunnerProcessor.run(stream).pipe(Effect.forkScoped);
+      yield* stream.waitForSubscribe();
+
+      yield* stream.append(call("call1", "say", { text: "hi" }));
+      const result = yield* stream.waitForEvent(ToolResultEvent);
+      expect(result.payload).toEqual({
+        toolCallId: "call1",
+        name: "say",
+        result: { echoed: { text: "hi" } },
+        isFailure: false,
+      });
+    }).pipe(Effect.provide(HandlersLive)),
+  );
+
+  it.scoped("records failures, unknown tools and missing handlers as failed results", () =>
+    Effect.gen(function* () {
+      const stream = yield* makeTestEventStream(StreamPath.make("test"));
+      yield* stream.append(register("flaky", "broken"));
+      yield* stream.append(register("ghost", "missing"));
+
+      yield* ToolRunnerProcessor.run(stream).pipe(Effect.forkScoped);
+      yield* stream.waitForSubscribe();
+
+      yield* stream.append(call("call1", "flaky"));
+      yield* stream.append(call("call2", "nope"));
+      yield* stream.append(call("call3", "ghost"));
+      const results = yield* stream.waitForEventCount(ToolResultEvent, 3);
+      expect(results.map((e) => [e.payload.result, e.payload.isFailure])).toEqual([
+        ["out of order", true],
+        ["Unknown tool nope", true],
+        ["No handler missing", true],
+      ]);
+    }).pipe(Effect.provide(HandlersLive)),
+  );
+
+  it.scoped("runs calls left without a result when it resumes", () =>
+    Effect.gen(function* () {
+      const stream = yield* makeTestEventStream(StreamPath.make("test"));
+      yield* stream.append(register("say", "echo"));
+      yield* stream.append(call("done", "say"));
+      yield* stream.append(
+        ToolResultEvent.make({ toolCallId: "done", name: "say", result: null, isFailure: false }),
+      );
+      yield* stream.append(call("pending", "say", "again"));
+
+      yield* ToolRunnerProcessor.run(stream).pipe(Effect.forkScoped);
+
+      const results = yield* stream.waitForEventCount(ToolResultEvent, 2);
+      expect(results[1]!.payload).toMatchObject({
+        toolCallId: "pending",
+        result: { echoed: "again" },
+      });
+      // The call that already had a result isn't run again
+      yield* stream.waitForSubscribe();
+      const events = yield* stream.getEvents();
+      expect(events.filter((e) => ToolResultEvent.is(e))).toHaveLength(2);
+    }).pipe(Effect.provide(HandlersLive)),
+  );
+
+  it.scoped("leaves calls a fork copied from its source to the source", () =>
+    Effect.gen(function* () {
+      const stream = yield* makeTestEventStream(StreamPath.make("test"));
+      yield* stream.append(
+        StreamForkedFromEvent.make({
+          source: StreamPath.make("source"),
+          at: Offset.fromNumber(1),
+          copied: 2,
+        }),
+      );
+      yield* stream.append(register("say", "echo"));
+      yield* stream.append(call("copied", "say"));
+
+      yield* ToolRunnerProcessor.run(stream).pipe(Effect.forkScoped);
+      yield* stream.waitForSubscribe();
+
+      yield* stream.append(call("own", "say"));
+      yield* stream.waitForEvent(ToolResultEvent);
+      const events = yield* stream.getEvents();
+      expect(events.filter((e) => ToolResultEvent.is(e)).map((e) => e.payload.toolCallId)).toEqual([
+        "own",
+      ]);
+    }).pipe(Effect.provide(HandlersLive)),
+  );
+});
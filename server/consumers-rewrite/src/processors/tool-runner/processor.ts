@@ -0,0 +1,206 @@
+/**
+ * Tool Runner Processor
+ *
+ * Runs the tool calls the LLM loop records as tool-called events. Each tool's
+ * tool-registered event names a handler; handlers are looked up in ToolHandlers and their
+ * outcome is appended as a tool-result event, which the LLM loop sends back to the LLM.
+ *
+ * Calls that had no result when the processor stopped are run again when it resumes. A fork's
+ * copies of its source's calls are left to the source.
+ */
+import { Cause, Context, Effect, Exit, Layer, Option, Schema, Stream } from "effect";
+
+import { Event, Offset } from "../../domain.js";
+import {
+  hydrate,
+  saveSnapshot,
+  StatefulProcessor,
+  toLayer,
+  warnOnRejectedAppend,
+} from "../processor.js";
+import { withSpanFromEvent } from "../../tracing/helpers.js";
+import { StreamForkedFromEvent } from "../../events.js";
+import {
+  RequestEndedEvent,
+  ToolCalledEvent,
+  ToolRegisteredEvent,
+  ToolResultEvent,
+} from "../llm-loop/events.js";
+
+// -------------------------------------------------------------------------------------
+// Handlers
+// -------------------------------------------------------------------------------------
+
+/**
+ * Runs a tool call with the params the LLM sent. Its success is sent back as the result;
+ * a failure is sent back as a failed result carrying the error.
+ */
+export type ToolHandler = (params: unknown) => Effect.Effect<unknown, unknown>;
+
+/** Tool handlers by the reference tool-registered events name them with */
+export type ToolHandlers = ReadonlyMap<string, ToolHandler>;
+
+export const ToolHandlers = Context.GenericTag<ToolHandlers>("@app/ToolHandlers");
+
+/** Provide ToolHandlers from a record of references to handlers */
+export const toolHandlersLayer = (handlers: Readonly<Record<string, ToolHandler>>) =>
+  Layer.succeed(ToolHandlers, new Map(Object.entries(handlers)));
+
+// -------------------------------------------------------------------------------------
+// State
+// -------------------------------------------------------------------------------------
+
+const ToolCall = Schema.Struct({
+  toolCallId: Schema.String,
+  name: Schema.String,
+  params: Schema.Unknown,
+});
+type ToolCall = typeof ToolCall.Type;
+
+class State extends Schema.Class<State>("ToolRunnerProcessor/State")({
+  lastOffset: Offset,
+  /** Handler reference of each registered tool, by tool name */
+  handlers: Schema.Record({ key: Schema.String, value: Schema.String }),
+  /** Calls without a result yet, in call order */
+  pending: Schema.Array(ToolCall),
+  /** Calls up to this offset are copies a fork took from its source, which runs them */
+  copiedThrough: Offset,
+}) {
+  static initial = State.make({
+    lastOffset: Offset.make("-1"),
+    handlers: {},
+    pending: [],
+    copiedThrough: Offset.make("-1"),
+  });
+
+  /** Create a new State with the given updates */
+  with(updates: Partial<typeof State.Type>): State {
+    return State.make({ ...this, ...updates });
+  }
+}
+
+// -------------------------------------------------------------------------------------
+// Reducer
+// -------------------------------------------------------------------------------------
+
+const reduce = (state: State, event: Event): State => {
+  state = state.with({ lastOffset: event.offset });
+
+  // Forked stream - the source's events up to the fork point follow as copies, so start over
+  if (StreamForkedFromEvent.is(event)) {
+    return State.initial.with({
+      lastOffset: event.offset,
+      copiedThrough: Offset.fromNumber(event.payload.copied),
+    });
+  }
+
+  if (ToolRegisteredEvent.is(event)) {
+    return state.with({
+      handlers: { ...state.handlers, [event.payload.name]: event.payload.handler },
+    });
+  }
+
+  if (ToolCalledEvent.is(event) && Offset.gt(event.offset, state.copiedThrough)) {
+    const { toolCallId, name, params } = event.payload;
+    return state.with({ pending: [...state.pending, { toolCallId, name, params }] });
+  }
+
+  if (ToolResultEvent.is(event)) {
+    return state.with({
+      pending: state.pending.filter((call) => call.toolCallId !== event.payload.toolCallId),
+    });
+  }
+
+  return state;
+};
+
+/** A handler's failure (or defect), with Errors reduced to their message */
+const failureResult = (cause: Cause.Cause<unknown>): unknown => {
+  const error = Option.getOrElse(Cause.failureOption(cause), () => Cause.squash(cause));
+  return error instanceof Error ? error.message : error;
+};
+
+// -------------------------------------------------------------------------------------
+// Processor
+// -------------------------------------------------------------------------------------
+
+export const ToolRunnerProcessor: StatefulProcessor<ToolHandlers, State, typeof State.Encoded> = {
+  name: "tool-runner",
+
+  state: {
+    schema: State,
+    version: 2,
+    initial: State.initial,
+    reduce,
+    lastOffset: (state) => state.lastOffset,
+  },
+
+  run: (stream) =>
+    Effect.gen(function* () {
+      const handlers = yield* ToolHandlers;
+
+      // Phase 1: Hydrate from the latest snapshot and the history after it
+      let state = yield* hydrate(ToolRunnerProcessor, stream);
+
+      yield* Effect.log(
+        `hydrated, lastOffset=${state.lastOffset}, tools=${Object.keys(state.handlers).length}, pending=${state.pending.length}`,
+      );
+
+      const runCall = ({ toolCallId, name, params }: ToolCall) =>
+        Effect.gen(function* () {
+          const ref = Object.hasOwn(state.handlers, name) ? state.handlers[name] : undefined;
+          const handler = ref === undefined ? undefined : handlers.get(ref);
+          if (handler === undefined) {
+            yield* Effect.logWarning(`no handler for tool ${name} (ref=${ref})`);
+            yield* stream.append(
+              ToolResultEvent.make({
+                toolCallId,
+                name,
+                result: ref === undefined ? `Unknown tool ${name}` : `No handler ${ref}`,
+                isFailure: true,
+              }),
+            );
+            return;
+          }
+
+          yield* Effect.log(`running tool ${name} (${toolCallId})`);
+          const exit = yield* Effect.exit(handler(params));
+          yield* stream.append(
+            ToolResultEvent.make({
+              toolCallId,
+              name,
+              result: Exit.match(exit, { onSuccess: (value) => value, onFailure: failureResult }),
+              isFailure: Exit.isFailure(exit),
+            }),
+          );
+        }).pipe(warnOnRejectedAppend);
+
+      // Resume calls left without a result by a previous run
+      yield* Effect.forEach(state.pending, runCall, { discard: true });
+
+      // Phase 2: Subscribe to live events
+      yield* stream.subscribe({ from: state.lastOffset }).pipe(
+        Stream.runForEach((event) =>
+          Effect.gen(function* () {
+            state = reduce(state, event);
+
+            if (ToolCalledEvent.is(event) && Offset.gt(event.offset, state.copiedThrough)) {
+              yield* runCall(event.payload).pipe(withSpanFromEvent("tool-runner.call", event));
+            }
+
+            // A tool result or a finished response is a checkpoint, so retention can trim
+            // the stream without waiting for a restart
+            if (ToolResultEvent.is(event) || RequestEndedEvent.is(event)) {
+              yield* saveSnapshot(ToolRunnerProcessor, stream, state);
+            }
+          }),
+        ),
+      );
+    }),
+};
+
+// -------------------------------------------------------------------------------------
+// Layer
+// -------------------------------------------------------------------------------------
+
+export const ToolRunnerProcessorLayer = toLayer(ToolRunnerProcessor);
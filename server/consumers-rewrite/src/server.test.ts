@@ -1,10 +1,13 @@
 import { FileSystem } from "@effect/platform";
-import { HttpClient, HttpClientRequest } from "@effect/platform";
+import { HttpClient, HttpClientRequest, HttpClientResponse } from "@effect/platform";
 import { NodeContext, NodeHttpServer } from "@effect/platform-node";
 import { describe, expect, it } from "@effect/vitest";
-import { Chunk, Effect, Layer, Stream } from "effect";
+import { Chunk, ConfigProvider, Effect, Layer, Schema, Stream } from "effect";
 
+import { BlobRef, Event } from "./domain.js";
+import { UsageReport } from "./processors/llm-loop/index.js";
 import { AppLive } from "./server.js";
+import * as BlobStore from "./services/blob-store/index.js";
 import * as StreamManager from "./services/stream-manager/index.js";
 import * as StreamStorage from "./services/stream-storage/index.js";
 
@@ -12,6 +15,7 @@ const inMemoryTestLayer = Layer.merge(
   AppLive.pipe(
     Layer.provide(StreamManager.liveLayer),
     Layer.provide(StreamStorage.inMemoryLayer),
+    Layer.provide(BlobStore.inMemoryLayer),
     Layer.provide(NodeHttpServer.layerTest),
   ),
   NodeHttpServer.layerTest,
@@ -26,6 +30,7 @@ const sqliteTestLayer = Layer.merge(
       return AppLive.pipe(
         Layer.provide(StreamManager.liveLayer),
         Layer.provide(StreamStorage.sqliteLayer(`${tempDir}/test.db`)),
+        Layer.provide(BlobStore.fileSystemLayer(`${tempDir}/blobs`)),
         Layer.provide(NodeHttpServer.layerTest),
       );
     }),
@@ -62,7 +67,7 @@ const post = (path: string, body: unknown) =>
 
 describe("Durable Stream Server", () => {
   test(
-    "POST returns 204",
+    "POST returns the stored event",
     Effect.gen(function* () {
       const client = yield* HttpClient.HttpClient;
       const response = yield* client.execute(
@@ -70,7 +75,12 @@ describe("Durable Stream Server", () => {
           HttpClientRequest.bodyUnsafeJson({ type: "test", payload: { msg: "hello" } }),
         ),
       );
-      expect(response.status).toBe(204);
+      expect(response.status).toBe(200);
+
+      const event = yield* HttpClientResponse.schemaBodyJson(Event)(response);
+      expect(event.path).toBe("test/stream");
+      expect(event.offset).toBe("0000000000000000");
+      expect(event.payload).toEqual({ msg: "hello" });
     }),
   );
 
@@ -126,6 +136,70 @@ describe("Durable Stream Server", () => {
     }),
   );
 
+  test(
+    "POST with stale expectedOffset returns 409 with current head",
+    Effect.gen(function* () {
+      const client = yield* HttpClient.HttpClient;
+      const append = (query: string) =>
+        client.execute(
+          HttpClientRequest.post(`/agents/test/conflict${query}`).pipe(
+            HttpClientRequest.bodyUnsafeJson({ type: "test", payload: {} }),
+          ),
+        );
+
+      expect((yield* append("?expectedOffset=-1")).status).toBe(200);
+      expect((yield* append("?expectedOffset=0000000000000000")).status).toBe(200);
+
+      const conflict = yield* append("?expectedOffset=0000000000000000");
+      expect(conflict.status).toBe(409);
+      const body = (yield* conflict.json) as { currentOffset: string };
+      expect(body.currentOffset).toBe("0000000000000001");
+
+      // Unpadded offsets are read as positions; anything else is a bad request, not a conflict
+      expect((yield* append("?expectedOffset=1")).status).toBe(200);
+      expect((yield* append("?expectedOffset=NaN")).status).toBe(400);
+      expect((yield* append("?expectedOffset=-2")).status).toBe(400);
+    }),
+  );
+
+  test(
+    "POST with an array body appends a batch",
+    Effect.gen(function* () {
+      const client = yield* HttpClient.HttpClient;
+      const response = yield* client.execute(
+        HttpClientRequest.post("/agents/test/batch").pipe(
+          HttpClientRequest.bodyUnsafeJson([
+            { type: "test", payload: { n: 1 } },
+            { type: "test", payload: { n: 2 } },
+          ]),
+        ),
+      );
+      const stored = yield* HttpClientResponse.schemaBodyJson(Schema.Array(Event))(response);
+      expect(stored.map((e) => e.offset)).toEqual(["0000000000000000", "0000000000000001"]);
+    }),
+  );
+
+  test(
+    "POST retried with the same Idempotency-Key stores the event once",
+    Effect.gen(function* () {
+      const client = yield* HttpClient.HttpClient;
+      const send = client.execute(
+        HttpClientRequest.post("/agents/test/idempotent").pipe(
+          HttpClientRequest.setHeader("Idempotency-Key", "send-1"),
+          HttpClientRequest.bodyUnsafeJson({ type: "test", payload: { msg: "once" } }),
+        ),
+      );
+
+      const first = yield* HttpClientResponse.schemaBodyJson(Event)(yield* send);
+      const retry = yield* HttpClientResponse.schemaBodyJson(Event)(yield* send);
+      expect(retry.offset).toBe(first.offset);
+
+      const history = yield* client.execute(HttpClientRequest.get("/agents/test/idempotent"));
+      const text = yield* history.text;
+      expect(text.match(/event: data/g)).toHaveLength(1);
+    }),
+  );
+
   test(
     "POST with invalid body returns 400",
     Effect.gen(function* () {
@@ -138,6 +212,660 @@ describe("Durable Stream Server", () => {
       expect((error as { response: { status: number } }).response.status).toBe(400);
     }),
   );
+
+  test(
+    "glob path streams matching paths, including ones created after subscribing",
+    Effect.gen(function* () {
+      const fiber = yield* subscribe("/agents/glob-live/**");
+      yield* Effect.sleep("10 millis");
+      yield* post("/agents/elsewhere/x", { type: "test", payload: { from: "elsewhere" } });
+      yield* post("/agents/glob-live/new/stream", { type: "test", payload: { from: "match" } });
+
+      const data = Chunk.toReadonlyArray(yield* fiber).join("");
+      expect(data).toContain('"path":"glob-live/new/stream"');
+      expect(data).not.toContain("elsewhere");
+    }),
+  );
+
+  test(
+    "glob path resumes from an unpadded globalOffset cursor",
+    Effect.gen(function* () {
+      const client = yield* HttpClient.HttpClient;
+      const first = yield* client
+        .execute(
+          HttpClientRequest.post("/agents/glob-cursor/a").pipe(
+            HttpClientRequest.bodyUnsafeJson({ type: "test", payload: { n: "first" } }),
+          ),
+        )
+        .pipe(Effect.flatMap(HttpClientResponse.schemaBodyJson(Event)));
+      const cursor = parseInt(first.globalOffset!, 10);
+
+      const fiber = yield* subscribe(`/agents/glob-cursor/**?offset=${cursor}`);
+      yield* Effect.sleep("10 millis");
+      yield* post("/agents/glob-cursor/b", { type: "test", payload: { n: "second" } });
+
+      const data = Chunk.toReadonlyArray(yield* fiber).join("");
+      expect(data).toContain("second");
+      expect(data).not.toContain("first");
+
+      const invalid = yield* client.execute(
+        HttpClientRequest.get("/agents/glob-cursor/**?offset=abc"),
+      );
+      expect(invalid.status).toBe(400);
+    }),
+  );
+
+  test(
+    "glob path without live returns matching history",
+    Effect.gen(function* () {
+      yield* post("/agents/glob-history/a", { type: "test", payload: {} });
+      yield* post("/agents/other/a", { type: "test", payload: {} });
+      yield* post("/agents/glob-history/b/c", { type: "test", payload: {} });
+
+      const client = yield* HttpClient.HttpClient;
+      const response = yield* client.execute(HttpClientRequest.get("/agents/glob-history/**"));
+      const text = yield* response.text;
+      expect(text.match(/event: data/g)).toHaveLength(2);
+      expect(text).toContain('"path":"glob-history/a"');
+      expect(text).toContain('"path":"glob-history/b/c"');
+    }),
+  );
+
+  test(
+    "types and excludeTypes query params filter the response",
+    Effect.gen(function* () {
+      yield* post("/agents/test/filtered", { type: "iterate:codemode:started", payload: {} });
+      yield* post("/agents/test/filtered", { type: "iterate:llm-loop:response:sse", payload: {} });
+      yield* post("/agents/test/filtered", { type: "iterate:codemode:finished", payload: {} });
+
+      const client = yield* HttpClient.HttpClient;
+      const read = (query: string) =>
+        client
+          .execute(HttpClientRequest.get(`/agents/test/filtered?${query}`))
+          .pipe(Effect.flatMap((response) => response.text));
+
+      const included = yield* read("types=iterate:codemode:*");
+      expect(included.match(/event: data/g)).toHaveLength(2);
+      expect(included).not.toContain("response:sse");
+
+      const excluded = yield* read("excludeTypes=iterate:llm-loop:response:sse");
+      expect(excluded.match(/event: data/g)).toHaveLength(2);
+      expect(excluded).not.toContain("response:sse");
+    }),
+  );
+
+  test(
+    "GET /agents lists streams with prefix filter and pagination",
+    Effect.gen(function* () {
+      yield* post("/agents/listing/a", { type: "first", payload: {} });
+      yield* post("/agents/listing/a", { type: "second", payload: {} });
+      yield* post("/agents/listing/b", { type: "only", payload: {} });
+      yield* post("/agents/unlisted/c", { type: "other", payload: {} });
+
+      const client = yield* HttpClient.HttpClient;
+      const list = (query: string) =>
+        client.execute(HttpClientRequest.get(`/agents?${query}`)).pipe(
+          Effect.flatMap((response) => response.json),
+          Effect.map(
+            (body) =>
+              body as {
+                streams: Array<{ path: string; eventCount: number; lastEventType: string }>;
+                nextCursor?: string;
+              },
+          ),
+        );
+
+      const firstPage = yield* list("prefix=listing/&limit=1");
+      expect(firstPage.streams).toMatchObject([
+        { path: "listing/a", eventCount: 2, lastEventType: "second" },
+      ]);
+      expect(firstPage.nextCursor).toBe("listing/a");
+
+      const secondPage = yield* list(`prefix=listing/&limit=1&after=${firstPage.nextCursor}`);
+      expect(secondPage.streams.map((s) => s.path)).toEqual(["listing/b"]);
+      expect(secondPage.nextCursor).toBeUndefined();
+
+      const invalid = yield* client.execute(HttpClientRequest.get("/agents?limit=0"));
+      expect(invalid.status).toBe(400);
+    }),
+  );
+
+  test(
+    "DELETE removes the stream and closes live subscribers",
+    Effect.gen(function* () {
+      yield* post("/agents/test/doomed", { type: "test", payload: {} });
+
+      const client = yield* HttpClient.HttpClient;
+      // The live subscription ends by itself once the tombstone is sent
+      const subscriber = yield* client
+        .execute(HttpClientRequest.get("/agents/test/doomed?live=true"))
+        .pipe(
+          Effect.flatMap((response) => response.text),
+          Effect.fork,
+        );
+      yield* Effect.sleep("10 millis");
+
+      const deleted = yield* client.execute(HttpClientRequest.del("/agents/test/doomed"));
+      expect(yield* deleted.json).toEqual({ removed: 1 });
+
+      const text = yield* subscriber;
+      expect(text).toContain("iterate:stream:tombstone");
+
+      const history = yield* client.execute(HttpClientRequest.get("/agents/test/doomed"));
+      expect(yield* history.text).not.toContain("event: data");
+    }),
+  );
+
+  test(
+    "POST :truncate removes events before the offset",
+    Effect.gen(function* () {
+      yield* post("/agents/test/trim", { type: "test", payload: { n: 0 } });
+      yield* post("/agents/test/trim", { type: "test", payload: { n: 1 } });
+      yield* post("/agents/test/trim", { type: "test", payload: { n: 2 } });
+
+      const client = yield* HttpClient.HttpClient;
+      const truncated = yield* client.execute(
+        HttpClientRequest.post("/agents/test/trim:truncate?before=0000000000000002"),
+      );
+      expect(yield* truncated.json).toEqual({ removed: 2 });
+
+      const history = yield* client.execute(HttpClientRequest.get("/agents/test/trim"));
+      const text = yield* history.text;
+      expect(text.match(/event: data/g)).toHaveLength(1);
+      expect(text).toContain('"n":2');
+
+      const missingBefore = yield* client.execute(
+        HttpClientRequest.post("/agents/test/trim:truncate"),
+      );
+      expect(missingBefore.status).toBe(400);
+
+      // Unpadded offsets mean the same position, not a text comparison against "5"
+      for (const n of [3, 4, 5, 6])
+        yield* post("/agents/test/trim", { type: "test", payload: { n } });
+      const unpadded = yield* client.execute(
+        HttpClientRequest.post("/agents/test/trim:truncate?before=5"),
+      );
+      expect(yield* unpadded.json).toEqual({ removed: 3 });
+      const rest = yield* (yield* client.execute(HttpClientRequest.get("/agents/test/trim"))).text;
+      expect(rest.match(/"n":\d/g)).toEqual(['"n":5', '"n":6']);
+
+      for (const before of ["-1", "1.5", "abc"]) {
+        const invalid = yield* client.execute(
+          HttpClientRequest.post(`/agents/test/trim:truncate?before=${before}`),
+        );
+        expect(invalid.status).toBe(400);
+      }
+    }),
+  );
+
+  test(
+    "GET ?format=ndjson exports history that POST :import restores with createdAt and trace",
+    Effect.gen(function* () {
+      yield* post("/agents/test/export", { type: "test", payload: { n: 0 } });
+      yield* post("/agents/test/export", { type: "test", payload: { n: 1 } });
+
+      const client = yield* HttpClient.HttpClient;
+      const exported = yield* client.execute(
+        HttpClientRequest.get("/agents/test/export?format=ndjson"),
+      );
+      expect(exported.headers["content-type"]).toContain("application/x-ndjson");
+      const archive = yield* exported.text;
+      const original = archive
+        .trim()
+        .split("\n")
+        .map((line) => Schema.decodeUnknownSync(Event)(JSON.parse(line)));
+      expect(original.map((event) => event.payload)).toEqual([{ n: 0 }, { n: 1 }]);
+
+      const importArchive = (path: string) =>
+        client.execute(
+          HttpClientRequest.post(path).pipe(
+            HttpClientRequest.bodyText(archive, "application/x-ndjson"),
+          ),
+        );
+
+      const imported = yield* importArchive("/agents/test/restored:import");
+      expect(yield* imported.json).toEqual({ imported: 2, headOffset: "0000000000000001" });
+
+      const restored = yield* client.execute(
+        HttpClientRequest.get("/agents/test/restored?format=ndjson"),
+      );
+      const copies = (yield* restored.text)
+        .trim()
+        .split("\n")
+        .map((line) => Schema.decodeUnknownSync(Event)(JSON.parse(line)));
+      expect(copies.map((event) => [event.path, event.offset])).toEqual([
+        ["test/restored", "0000000000000000"],
+        ["test/restored", "0000000000000001"],
+      ]);
+      expect(copies.map((event) => [event.createdAt, event.trace])).toEqual(
+        original.map((event) => [event.createdAt, event.trace]),
+      );
+
+      // The path now has events - refused unless offsets are remapped after the head
+      const refused = yield* importArchive("/agents/test/restored:import");
+      expect(refused.status).toBe(409);
+      const remapped = yield* importArchive("/agents/test/restored:import?remap=true");
+      expect(yield* remapped.json).toEqual({ imported: 2, headOffset: "0000000000000003" });
+
+      const malformed = yield* client.execute(
+        HttpClientRequest.post("/agents/test/other:import").pipe(
+          HttpClientRequest.bodyText("{not json}\n", "application/x-ndjson"),
+        ),
+      );
+      expect(yield* malformed.json).toMatchObject({ line: 1 });
+    }),
+  );
+
+  test(
+    "POST :fork starts a stream with lineage and the source's events up to the offset",
+    Effect.gen(function* () {
+      for (const n of [0, 1, 2])
+        yield* post("/agents/test/original", { type: "test", payload: { n } });
+
+      const client = yield* HttpClient.HttpClient;
+      const forkAt = (to: string) =>
+        client.execute(
+          HttpClientRequest.post(
+            `/agents/test/original:fork?at=0000000000000001&to=${encodeURIComponent(to)}`,
+          ),
+        );
+      const forked = yield* forkAt("test/alternate");
+      expect(yield* forked.json).toEqual({
+        path: "test/alternate",
+        copied: 2,
+        headOffset: "0000000000000002",
+      });
+
+      const exported = yield* client.execute(
+        HttpClientRequest.get("/agents/test/alternate?format=ndjson"),
+      );
+      const events = (yield* exported.text)
+        .trim()
+        .split("\n")
+        .map((line) => Schema.decodeUnknownSync(Event)(JSON.parse(line)));
+      expect(events.map((event) => [event.offset, event.type, event.payload])).toEqual([
+        [
+          "0000000000000000",
+          "iterate:stream:forked-from",
+          { source: "test/original", at: "0000000000000001", copied: 2 },
+        ],
+        ["0000000000000001", "test", { n: 0 }],
+        ["0000000000000002", "test", { n: 1 }],
+      ]);
+
+      // The fork carries on independently of its source
+      yield* post("/agents/test/alternate", { type: "test", payload: { n: "other" } });
+      const source = yield* client.execute(HttpClientRequest.get("/agents/test/original"));
+      expect(yield* source.text).not.toContain("other");
+
+      expect((yield* forkAt("test/alternate")).status).toBe(409);
+      const missingTo = yield* client.execute(
+        HttpClientRequest.post("/agents/test/original:fork?at=0000000000000001"),
+      );
+      expect(missingTo.status).toBe(400);
+
+      // An unpadded offset copies up to that position - as text, "1" sorts after every offset
+      const unpadded = yield* client.execute(
+        HttpClientRequest.post("/agents/test/original:fork?at=1&to=test/unpadded"),
+      );
+      expect(yield* unpadded.json).toMatchObject({ copied: 2 });
+      const invalidAt = yield* client.execute(
+        HttpClientRequest.post("/agents/test/original:fork?at=latest&to=test/nowhere"),
+      );
+      expect(invalidAt.status).toBe(400);
+
+      // The source must exist and reach the fork point
+      const beyondHead = yield* client.execute(
+        HttpClientRequest.post("/agents/test/original:fork?at=3&to=test/nowhere"),
+      );
+      expect(beyondHead.status).toBe(400);
+      expect(yield* beyondHead.json).toMatchObject({ headOffset: "0000000000000002" });
+      const missingSource = yield* client.execute(
+        HttpClientRequest.post("/agents/test/never-written:fork?at=0&to=test/nowhere"),
+      );
+      expect(missingSource.status).toBe(404);
+      const nowhere = yield* client.execute(HttpClientRequest.get("/agents/test/nowhere"));
+      expect(yield* nowhere.text).not.toContain("event: data");
+    }),
+  );
+
+  test(
+    "POST :fork renumbers payload offsets that point at copied events",
+    Effect.gen(function* () {
+      yield* post("/agents/test/requests", { type: "test", payload: {} });
+      yield* post("/agents/test/requests", {
+        type: "test",
+        payload: { requestOffset: "0000000000000000", otherOffset: "0000000000000009" },
+      });
+
+      const client = yield* HttpClient.HttpClient;
+      yield* client.execute(
+        HttpClientRequest.post("/agents/test/requests:fork?at=1&to=test/requests-fork"),
+      );
+      const exported = yield* client.execute(
+        HttpClientRequest.get("/agents/test/requests-fork?format=ndjson"),
+      );
+      const events = (yield* exported.text)
+        .trim()
+        .split("\n")
+        .map((line) => Schema.decodeUnknownSync(Event)(JSON.parse(line)));
+      // The request moved from offset 0 to 1; offsets of events not copied stay as they are
+      expect(events[2]!.payload).toEqual({
+        requestOffset: "0000000000000001",
+        otherOffset: "0000000000000009",
+      });
+    }),
+  );
+
+  test(
+    "GET :usage totals recorded usage on the path and below it, per path and prefix",
+    Effect.gen(function* () {
+      const usage = (tokens: number, costUsd: number | null) => ({
+        type: "iterate:llm-loop:usage-recorded",
+        payload: {
+          requestOffset: "0000000000000000",
+          provider: "openai",
+          modelId: "gpt-5.2-codex",
+          inputTokens: tokens,
+          outputTokens: tokens,
+          reasoningTokens: 0,
+          cachedInputTokens: 0,
+          latencyMs: 100,
+          costUsd,
+        },
+      });
+      yield* post("/agents/team-a", usage(1, 0.5));
+      yield* post("/agents/team-a/bot1", usage(10, 1));
+      yield* post("/agents/team-a/bot1", usage(20, null));
+      yield* post("/agents/team-a/bot2", usage(100, 2));
+      yield* post("/agents/team-b", usage(1000, 4));
+
+      const client = yield* HttpClient.HttpClient;
+      const report = (path: string) =>
+        client
+          .execute(HttpClientRequest.get(`/agents/${path}:usage`))
+          .pipe(Effect.flatMap(HttpClientResponse.schemaBodyJson(UsageReport)));
+
+      const teamA = yield* report("team-a");
+      expect(teamA.total).toMatchObject({
+        requests: 4,
+        inputTokens: 131,
+        latencyMs: 400,
+        costUsd: 3.5,
+        unpricedRequests: 1,
+      });
+      expect(Object.keys(teamA.byPath).sort()).toEqual(["team-a", "team-a/bot1", "team-a/bot2"]);
+      expect(teamA.byPath["team-a/bot1"]).toMatchObject({ requests: 2, outputTokens: 30 });
+
+      // A prefix above the requested path would only hold part of its usage
+      const bot = yield* report("team-a/bot2");
+      expect(Object.keys(bot.byPath)).toEqual(["team-a/bot2"]);
+
+      // A glob totals every matching stream
+      const all = yield* report("**");
+      expect(all.total.requests).toBe(5);
+      expect(all.byPath["team-a"]!.requests).toBe(4);
+      expect(all.byPath["team-b"]!.costUsd).toBe(4);
+
+      // A fork's copies count on its source alone, its own usage on both it and the prefix
+      const forked = yield* client.execute(
+        HttpClientRequest.post("/agents/team-a/bot1:fork?at=1&to=team-a/bot3"),
+      );
+      expect(forked.status).toBe(200);
+      yield* post("/agents/team-a/bot3", usage(5, 0.25));
+      const afterFork = yield* report("team-a");
+      expect(afterFork.total).toMatchObject({ requests: 5, inputTokens: 136, costUsd: 3.75 });
+      expect(afterFork.byPath["team-a/bot3"]).toMatchObject({ requests: 1, inputTokens: 5 });
+    }),
+  );
+
+  test(
+    "POST rejects payloads that don't match the registered schema",
+    Effect.gen(function* () {
+      const client = yield* HttpClient.HttpClient;
+      const invalid = yield* client.execute(
+        HttpClientRequest.post("/agents/test/validated").pipe(
+          HttpClientRequest.bodyUnsafeJson({
+            type: "iterate:agent:config:set",
+            payload: { model: "claude" },
+          }),
+        ),
+      );
+      expect(invalid.status).toBe(400);
+      expect(yield* invalid.json).toMatchObject({
+        error: "Invalid event payload",
+        type: "iterate:agent:config:set",
+        issues: expect.arrayContaining([expect.objectContaining({ path: ["model"] })]),
+      });
+
+      // A batch names the offending event and stores none of it
+      const batch = yield* client.execute(
+        HttpClientRequest.post("/agents/test/validated").pipe(
+          HttpClientRequest.bodyUnsafeJson([
+            { type: "unregistered", payload: {} },
+            { type: "iterate:agent:action:send-user-message:called", payload: {} },
+          ]),
+        ),
+      );
+      expect(batch.status).toBe(400);
+      expect(yield* batch.json).toMatchObject({ index: 1, issues: [{ path: ["content"] }] });
+
+      const history = yield* client.execute(HttpClientRequest.get("/agents/test/validated"));
+      expect(yield* history.text).not.toContain("event: data");
+    }),
+  );
+
+  test(
+    "POST and POST :import refuse the server's own iterate:stream:* events",
+    Effect.gen(function* () {
+      const client = yield* HttpClient.HttpClient;
+      const tombstone = { type: "iterate:stream:tombstone", payload: { reason: "deleted" } };
+      const forkedFrom = {
+        type: "iterate:stream:forked-from",
+        payload: { source: "test/elsewhere", at: "0000000000000000", copied: 0 },
+      };
+
+      const single = yield* client.execute(
+        HttpClientRequest.post("/agents/test/reserved").pipe(
+          HttpClientRequest.bodyUnsafeJson(tombstone),
+        ),
+      );
+      expect(single.status).toBe(400);
+      expect(yield* single.json).toMatchObject({
+        error: "Reserved event type",
+        type: "iterate:stream:tombstone",
+      });
+
+      const batch = yield* client.execute(
+        HttpClientRequest.post("/agents/test/reserved").pipe(
+          HttpClientRequest.bodyUnsafeJson([{ type: "test", payload: {} }, forkedFrom]),
+        ),
+      );
+      expect(batch.status).toBe(400);
+      expect(yield* batch.json).toMatchObject({ error: "Reserved event type", index: 1 });
+
+      // An export of a fork starts with its forked-from event
+      yield* post("/agents/test/reserved-source", { type: "test", payload: {} });
+      yield* client.execute(
+        HttpClientRequest.post(
+          "/agents/test/reserved-source:fork?at=0000000000000000&to=test/reserved-fork",
+        ),
+      );
+      const exported = yield* client.execute(
+        HttpClientRequest.get("/agents/test/reserved-fork?format=ndjson"),
+      );
+      const archive = yield* exported.text;
+      const imported = yield* client.execute(
+        HttpClientRequest.post("/agents/test/reserved:import").pipe(
+          HttpClientRequest.bodyText(archive, "application/x-ndjson"),
+        ),
+      );
+      expect(imported.status).toBe(400);
+      expect(yield* imported.json).toMatchObject({ error: "Reserved event type", index: 0 });
+
+      const history = yield* client.execute(HttpClientRequest.get("/agents/test/reserved"));
+      expect(yield* history.text).not.toContain("event: data");
+    }),
+  );
+
+  test(
+    "POST rejects events that break a schema registered on the path",
+    Effect.gen(function* () {
+      yield* post("/agents/test/runtime-schema", {
+        type: "iterate:schema:registered",
+        payload: {
+          eventType: "ticket",
+          schema: { type: "object", required: ["title"] },
+        },
+      });
+
+      const client = yield* HttpClient.HttpClient;
+      const response = yield* client.execute(
+        HttpClientRequest.post("/agents/test/runtime-schema").pipe(
+          HttpClientRequest.bodyUnsafeJson({ type: "ticket", payload: {} }),
+        ),
+      );
+      expect(response.status).toBe(400);
+      expect(yield* response.json).toMatchObject({
+        error: "Invalid event payload",
+        type: "ticket",
+        issues: [{ message: "must have required property 'title'" }],
+      });
+    }),
+  );
+
+  test(
+    "GET /schemas returns JSON Schema for registered event types",
+    Effect.gen(function* () {
+      const client = yield* HttpClient.HttpClient;
+      const response = yield* client.execute(HttpClientRequest.get("/schemas"));
+      const body = (yield* response.json) as {
+        strict: boolean;
+        events: Array<{ type: string; payload: { properties?: Record<string, unknown> } }>;
+      };
+      expect(body.strict).toBe(false);
+      const config = body.events.find((entry) => entry.type === "iterate:agent:config:set");
+      expect(config?.payload.properties?.model).toEqual({
+        type: "string",
+        enum: ["openai", "grok"],
+      });
+    }),
+  );
+
+  test(
+    "PUT /blobs stores bytes that GET /blobs/:hash serves and audio events reference",
+    Effect.gen(function* () {
+      const client = yield* HttpClient.HttpClient;
+      const audio = new Uint8Array([1, 2, 3, 4]);
+      const put = yield* client.execute(
+        HttpClientRequest.put("/blobs").pipe(
+          HttpClientRequest.bodyUint8Array(audio, "audio/pcm;rate=48000"),
+        ),
+      );
+      const ref = yield* HttpClientResponse.schemaBodyJson(BlobRef)(put);
+      expect(ref).toMatchObject({ mimeType: "audio/pcm;rate=48000", size: 4 });
+
+      const get = yield* client.execute(HttpClientRequest.get(`/blobs/${ref.blobRef}`));
+      expect(get.status).toBe(200);
+      expect(get.headers["content-type"]).toBe("audio/pcm;rate=48000");
+      expect(new Uint8Array(yield* get.arrayBuffer)).toEqual(audio);
+
+      const appended = yield* client.execute(
+        HttpClientRequest.post("/agents/test/audio").pipe(
+          HttpClientRequest.bodyUnsafeJson({
+            type: "iterate:agent:action:send-user-audio:called",
+            version: 2,
+            payload: { ...ref },
+          }),
+        ),
+      );
+      expect(appended.status).toBe(200);
+
+      // Inline bytes are only a version 1 payload
+      const inline = yield* client.execute(
+        HttpClientRequest.post("/agents/test/audio").pipe(
+          HttpClientRequest.bodyUnsafeJson({
+            type: "iterate:agent:action:send-user-audio:called",
+            version: 2,
+            payload: { audio: "AQIDBA==" },
+          }),
+        ),
+      );
+      expect(inline.status).toBe(400);
+
+      // A version 1 event's inline bytes are stored, so it reads back as a ref to them
+      yield* client.execute(
+        HttpClientRequest.post("/agents/test/legacy-audio").pipe(
+          HttpClientRequest.bodyUnsafeJson({
+            type: "iterate:agent:action:send-user-audio:called",
+            version: 1,
+            payload: { audio: "BQYHCA==" },
+          }),
+        ),
+      );
+      const history = yield* client.execute(
+        HttpClientRequest.get("/agents/test/legacy-audio?format=ndjson"),
+      );
+      const legacy = yield* Schema.decodeUnknown(Schema.parseJson(Event))(yield* history.text);
+      expect(legacy.payload).toMatchObject({ mimeType: "audio/pcm;rate=48000", size: 4 });
+      const bytes = yield* client.execute(
+        HttpClientRequest.get(`/blobs/${String(legacy.payload.blobRef)}`),
+      );
+      expect(new Uint8Array(yield* bytes.arrayBuffer)).toEqual(new Uint8Array([5, 6, 7, 8]));
+    }),
+  );
+
+  test(
+    "GET /blobs/:hash returns 404 for unknown and 400 for malformed hashes",
+    Effect.gen(function* () {
+      const client = yield* HttpClient.HttpClient;
+      const missing = yield* client.execute(HttpClientRequest.get(`/blobs/${"0".repeat(64)}`));
+      expect(missing.status).toBe(404);
+      const malformed = yield* client.execute(HttpClientRequest.get("/blobs/not-a-hash"));
+      expect(malformed.status).toBe(400);
+    }),
+  );
+});
+
+describe("Durable Stream Server (strict event types)", () => {
+  const strictTestLayer = Layer.merge(
+    AppLive.pipe(
+      Layer.provide(StreamManager.liveLayer),
+      Layer.provide(StreamStorage.inMemoryLayer),
+      Layer.provide(BlobStore.inMemoryLayer),
+      Layer.provide(NodeHttpServer.layerTest),
+      Layer.provide(
+        Layer.setConfigProvider(ConfigProvider.fromMap(new Map([["STRICT_EVENT_TYPES", "true"]]))),
+      ),
+    ),
+    NodeHttpServer.layerTest,
+  );
+
+  it.scopedLive("rejects unregistered event types", () =>
+    Effect.gen(function* () {
+      const client = yield* HttpClient.HttpClient;
+      const unknown = yield* client.execute(
+        HttpClientRequest.post("/agents/test/strict").pipe(
+          HttpClientRequest.bodyUnsafeJson({ type: "made-up", payload: {} }),
+        ),
+      );
+      expect(unknown.status).toBe(400);
+      expect(yield* unknown.json).toMatchObject({ error: "Unknown event type", type: "made-up" });
+
+      const known = yield* client.execute(
+        HttpClientRequest.post("/agents/test/strict").pipe(
+          HttpClientRequest.bodyUnsafeJson({
+            type: "iterate:agent:config:set",
+            payload: { model: "openai" },
+          }),
+        ),
+      );
+      expect(known.status).toBe(200);
+
+      const schemas = yield* client.execute(HttpClientRequest.get("/schemas"));
+      expect(yield* schemas.json).toMatchObject({ strict: true });
+    }).pipe(Effect.timeout("500 millis"), Effect.provide(strictTestLayer)),
+  );
 });
 
 describe("Durable Stream Server (SQLite)", () => {
@@ -147,7 +875,7 @@ describe("Durable Stream Server (SQLite)", () => {
     );
 
   sqliteTest(
-    "POST returns 204 with SQLite storage",
+    "POST returns 200 with SQLite storage",
     Effect.gen(function* () {
       const client = yield* HttpClient.HttpClient;
       const response = yield* client.execute(
@@ -155,7 +883,38 @@ describe("Durable Stream Server (SQLite)", () => {
           HttpClientRequest.bodyUnsafeJson({ type: "test", payload: { msg: "hello" } }),
         ),
       );
-      expect(response.status).toBe(204);
+      expect(response.status).toBe(200);
+    }),
+  );
+
+  sqliteTest(
+    "POST :import keeps the offsets of a truncated stream's archive",
+    Effect.gen(function* () {
+      for (const n of [0, 1, 2])
+        yield* post("/agents/test/trimmed", { type: "test", payload: { n } });
+      const client = yield* HttpClient.HttpClient;
+      yield* client.execute(
+        HttpClientRequest.post("/agents/test/trimmed:truncate?before=0000000000000002"),
+      );
+      const exported = yield* client.execute(
+        HttpClientRequest.get("/agents/test/trimmed?format=ndjson"),
+      );
+      const imported = yield* client.execute(
+        HttpClientRequest.post("/agents/test/copy:import").pipe(
+          HttpClientRequest.bodyText(yield* exported.text, "application/x-ndjson"),
+        ),
+      );
+      expect(yield* imported.json).toEqual({ imported: 1, headOffset: "0000000000000002" });
+
+      // Appends carry on after the imported head
+      const appended = yield* client.execute(
+        HttpClientRequest.post("/agents/test/copy").pipe(
+          HttpClientRequest.bodyUnsafeJson({ type: "test", payload: { n: 3 } }),
+        ),
+      );
+      expect((yield* HttpClientResponse.schemaBodyJson(Event)(appended)).offset).toBe(
+        "0000000000000003",
+      );
     }),
   );
 
@@ -1,3 +1,4 @@
+import { Buffer } from "node:buffer";
 import { createServer } from "node:http";
 
 import {
@@ -8,58 +9,517 @@ import {
   HttpServerResponse,
 } from "@effect/platform";
 import { NodeHttpServer } from "@effect/platform-node";
-import { Effect, Layer, Schema, Stream } from "effect";
+import { Config, Effect, Either, Layer, Option, Schema, Stream } from "effect";
 
-import { EventInput, Offset, StreamPath } from "./domain.js";
+import * as Archive from "./archive.js";
+import {
+  BlobHash,
+  BlobRef,
+  Event,
+  EventInput,
+  EventTypeFilter,
+  GlobalOffset,
+  IdempotencyKey,
+  Offset,
+  PathPattern,
+  StreamMetadata,
+  StreamPath,
+} from "./domain.js";
+import {
+  EventRegistry,
+  EventValidationError,
+  INLINE_AUDIO_MIME_TYPE,
+  isReservedEventType,
+  StreamForkedFromEvent,
+  UserAudioEvent,
+} from "./events.js";
+import {
+  emptyUsageReport,
+  reduceUsage,
+  UsageRecordedEvent,
+  UsageReport,
+  withoutForkCopies,
+} from "./processors/llm-loop/index.js";
+import * as BlobStore from "./services/blob-store/index.js";
 import * as StreamManager from "./services/stream-manager/index.js";
 import * as Sse from "./sse.js";
 
-// GET /agents/* -> SSE stream
-const subscribeHandler = Effect.gen(function* () {
-  const req = yield* HttpServerRequest.HttpServerRequest;
+// Actions address a stream with a suffix, e.g. POST /agents/foo/bar:truncate
+const AGENT_ACTIONS = ["truncate", "import", "fork", "usage"] as const;
+
+const parseAgentUrl = (req: HttpServerRequest.HttpServerRequest) => {
   const url = new URL(req.url, "http://localhost");
   const rawPath = url.pathname.replace(/^\/agents\//, "");
-  const path = StreamPath.make(rawPath);
+  const action = AGENT_ACTIONS.find((name) => rawPath.endsWith(`:${name}`));
+  return {
+    url,
+    rawPath: action === undefined ? rawPath : rawPath.slice(0, -(action.length + 1)),
+    action,
+  };
+};
+
+// Comma-separated and/or repeated query param, e.g. ?types=a,b&types=c
+const listParam = (url: URL, name: string) =>
+  url.searchParams
+    .getAll(name)
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+
+// ?types= keeps matching event types, ?excludeTypes= drops them; `iterate:codemode:*` matches
+// by prefix
+const typeFilterFromQuery = (url: URL): EventTypeFilter | undefined => {
+  const filter = EventTypeFilter.make({
+    types: listParam(url, "types"),
+    excludeTypes: listParam(url, "excludeTypes"),
+  });
+  return EventTypeFilter.isEmpty(filter) ? undefined : filter;
+};
+
+// An offset in a query param is a stream position - storage compares offsets as padded text,
+// so `5` is read as 0000000000000005 rather than compared as is
+const OffsetParam = Schema.NumberFromString.pipe(
+  Schema.int(),
+  Schema.nonNegative(),
+  Schema.transform(Offset, {
+    strict: true,
+    decode: (n) => Offset.fromNumber(n),
+    encode: (offset) => parseInt(offset, 10),
+  }),
+);
+
+// An expected head may also be -1: the stream is still empty
+const ExpectedOffsetParam = Schema.Union(
+  OffsetParam,
+  Schema.Literal("-1").pipe(Schema.compose(Offset)),
+);
+
+// The same for a globalOffset cursor across streams
+const GlobalOffsetParam = Schema.NumberFromString.pipe(
+  Schema.int(),
+  Schema.nonNegative(),
+  Schema.transform(GlobalOffset, {
+    strict: true,
+    decode: (n) => GlobalOffset.fromNumber(n),
+    encode: (offset) => parseInt(offset, 10),
+  }),
+);
+
+// GET /agents/* -> SSE stream
+// A glob path (e.g. /agents/team-a/**) interleaves every matching stream, including ones
+// created while subscribed; `offset` is then a globalOffset cursor (400 if not a number)
+// ?format=ndjson exports history as an archive instead (one encoded event per line, never live)
+const subscribeHandler = Effect.gen(function* () {
+  const { url, rawPath } = parseAgentUrl(yield* HttpServerRequest.HttpServerRequest);
 
   // Parse query params
   const offsetParam = url.searchParams.get("offset");
   const liveParam = url.searchParams.get("live");
+  const ndjson = url.searchParams.get("format") === "ndjson";
+  const live = !ndjson && (liveParam === "sse" || liveParam === "true");
+  const filter = typeFilterFromQuery(url);
+  const respond = (stream: Stream.Stream<Event>) =>
+    ndjson ? Archive.response(stream) : Sse.response(stream.pipe(Stream.map(Sse.data)));
+
+  const manager = yield* StreamManager.StreamManager;
 
+  if (PathPattern.isPattern(rawPath)) {
+    const pattern = PathPattern.make(rawPath);
+    // Start from the beginning unless resuming, matching single-path history-then-live
+    const from =
+      offsetParam === null
+        ? GlobalOffset.fromNumber(0)
+        : yield* Schema.decodeUnknown(GlobalOffsetParam)(offsetParam);
+    const input = { pattern, from, ...(filter && { filter }) };
+    return respond(live ? manager.subscribe(input) : manager.read(input));
+  }
+
+  const path = StreamPath.make(rawPath);
   const from = offsetParam ? Offset.make(offsetParam) : undefined;
-  const live = liveParam === "sse" || liveParam === "true";
+  const input = { path, ...(from && { from }), ...(filter && { filter }) };
+  return respond(live ? manager.subscribe(input) : manager.read(input));
+}).pipe(
+  Effect.catchTag("ParseError", (error) =>
+    HttpServerResponse.json({ error: error.message }, { status: 400 }),
+  ),
+);
 
+// GET /agents/*:usage -> tokens, latency and cost from iterate:llm-loop:usage-recorded events
+// on the path and every path below it, in total and per path and prefix. A glob path (e.g.
+// /agents/team-a/*:usage) totals the matching streams instead.
+const usageHandler = Effect.gen(function* () {
+  const { rawPath } = parseAgentUrl(yield* HttpServerRequest.HttpServerRequest);
   const manager = yield* StreamManager.StreamManager;
-  const stream = live
-    ? manager.subscribe({ path, ...(from && { from }) })
-    : manager.read({ path, ...(from && { from }) });
+  const filter = EventTypeFilter.make({
+    types: [UsageRecordedEvent.typeString, StreamForkedFromEvent.typeString],
+  });
+  const from = GlobalOffset.make(GlobalOffset.fromNumber(0));
+
+  const below = (pattern: string) =>
+    manager.read({ pattern: PathPattern.make(pattern), from, filter });
+  const events = PathPattern.isPattern(rawPath)
+    ? below(rawPath)
+    : Stream.concat(
+        manager.read({ path: StreamPath.make(rawPath), filter }),
+        below(`${rawPath}/**`),
+      );
+  // A fork's copies of its source's usage count on the source alone
+  const report = yield* Stream.runFold(withoutForkCopies(events), emptyUsageReport, reduceUsage);
+
+  // Prefixes above a single path only hold part of their usage, so leave them out
+  const byPath = PathPattern.isPattern(rawPath)
+    ? report.byPath
+    : Object.fromEntries(
+        Object.entries(report.byPath).filter(
+          ([key]) => key === rawPath || key.startsWith(`${rawPath}/`),
+        ),
+      );
+  return yield* HttpServerResponse.schemaJson(UsageReport)({ total: report.total, byPath });
+}).pipe(Effect.withSpan("http.stream-usage"));
 
-  return Sse.response(stream.pipe(Stream.map(Sse.data)));
+const getHandler = Effect.gen(function* () {
+  const { action } = parseAgentUrl(yield* HttpServerRequest.HttpServerRequest);
+  return yield* action === "usage" ? usageHandler : subscribeHandler;
 });
 
-// POST /agents/* -> append event
+const ListStreamsParams = Schema.Struct({
+  prefix: Schema.optional(Schema.String),
+  after: Schema.optional(StreamPath),
+  limit: Schema.optionalWith(Schema.NumberFromString.pipe(Schema.int(), Schema.between(1, 1000)), {
+    default: () => 100,
+  }),
+});
+
+const StreamListing = Schema.Struct({
+  streams: Schema.Array(StreamMetadata),
+  /** Pass as `after` to fetch the next page; absent on the last page */
+  nextCursor: Schema.optional(StreamPath),
+});
+
+// GET /agents -> stream summaries ordered by path
+// ?prefix= narrows to matching paths, ?after=<nextCursor>&limit= pages through them
+const listStreamsHandler = Effect.gen(function* () {
+  const { prefix, after, limit } = yield* HttpServerRequest.schemaSearchParams(ListStreamsParams);
+
+  const manager = yield* StreamManager.StreamManager;
+  // One extra row tells us whether another page exists
+  const page = yield* manager.listStreams({
+    ...(prefix !== undefined && { prefix }),
+    ...(after !== undefined && { after }),
+    limit: limit + 1,
+  });
+  const streams = page.slice(0, limit);
+  const last = streams[streams.length - 1];
+
+  return yield* HttpServerResponse.schemaJson(StreamListing)({
+    streams,
+    ...(page.length > limit && last !== undefined && { nextCursor: last.path }),
+  });
+}).pipe(
+  Effect.withSpan("http.list-streams"),
+  Effect.catchTag("ParseError", (error) =>
+    HttpServerResponse.json({ error: error.message }, { status: 400 }),
+  ),
+);
+
+// Registered event types are always validated; with STRICT_EVENT_TYPES=true, unregistered
+// types are rejected too
+const strictEventTypes = Config.boolean("STRICT_EVENT_TYPES").pipe(
+  Config.withDefault(false),
+  Effect.orDie,
+);
+
+// Check an event sent by a client, which can't use the server's own event types
+const validateClientEvent = (event: EventInput | Event, strict: boolean) =>
+  isReservedEventType(event.type)
+    ? EventValidationError.make({
+        type: event.type,
+        reason: "reserved-type",
+        issues: [{ path: ["type"], message: `Event type "${event.type}" is reserved` }],
+      })
+    : EventRegistry.validate(event, { strict });
+
+// A version 1 audio event carries its recording inline and upcasts to a ref to those bytes, so
+// they go to the blob store before the event is stored
+const storeInlineAudio = (events: ReadonlyArray<EventInput | Event>) =>
+  Effect.gen(function* () {
+    const blobs = yield* BlobStore.BlobStore;
+    for (const event of events) {
+      const { audio } = event.payload;
+      if (
+        event.type === UserAudioEvent.type &&
+        event.version === "1" &&
+        typeof audio === "string"
+      ) {
+        yield* blobs.put(Buffer.from(audio, "base64"), INLINE_AUDIO_MIME_TYPE);
+      }
+    }
+  });
+
+const validationErrors = {
+  "unknown-type": "Unknown event type",
+  "reserved-type": "Reserved event type",
+  "invalid-payload": "Invalid event payload",
+} as const;
+
+// `index` locates the offending event within a batch
+const invalidEventResponse = (error: EventValidationError, index?: number) =>
+  HttpServerResponse.json(
+    {
+      error: validationErrors[error.reason],
+      type: error.type,
+      issues: error.issues,
+      ...(index !== undefined && { index }),
+    },
+    { status: 400 },
+  );
+
+// POST /agents/* -> append event (or batch of events)
+// Optional ?expectedOffset=X rejects the append with 409 if the stream head has moved (400 if X
+// is not an offset or -1)
+// Payloads of registered event types must match their schema, as must events of a type
+// constrained by an `iterate:schema:registered` event on the path (400 otherwise).
+// `iterate:stream:*` types are reserved for the server (400)
 const appendHandler = Effect.gen(function* () {
   const req = yield* HttpServerRequest.HttpServerRequest;
-  const rawPath = req.url.replace(/^\/agents\//, "");
+  const { url, rawPath } = parseAgentUrl(req);
   const path = StreamPath.make(rawPath);
   const body = yield* req.json;
-  const event = yield* Schema.decodeUnknown(EventInput)(body);
+
+  const expectedOffsetParam = url.searchParams.get("expectedOffset");
+  const expectedOffset = expectedOffsetParam
+    ? yield* Schema.decodeUnknown(ExpectedOffsetParam)(expectedOffsetParam)
+    : undefined;
+
+  // An Idempotency-Key header applies to events that don't carry their own key
+  // (batch events get `${key}:${index}` so each stays distinct)
+  const idempotencyKeyHeader = req.headers["idempotency-key"];
+  const withIdempotencyKey = (event: EventInput, suffix: string) =>
+    event.idempotencyKey === undefined && idempotencyKeyHeader
+      ? EventInput.make({
+          ...event,
+          idempotencyKey: IdempotencyKey.make(idempotencyKeyHeader + suffix),
+        })
+      : event;
 
   const manager = yield* StreamManager.StreamManager;
-  yield* manager.append({ path, event });
+  const strict = yield* strictEventTypes;
+
+  // An array body is a batch: all events are stored atomically with consecutive offsets
+  // Respond with the stored event(s) so callers learn offset, createdAt and trace
+  if (Array.isArray(body)) {
+    const decoded = yield* Schema.decodeUnknown(Schema.Array(EventInput))(body);
+    for (const [index, event] of decoded.entries()) {
+      const validated = yield* Effect.either(validateClientEvent(event, strict));
+      if (Either.isLeft(validated)) return yield* invalidEventResponse(validated.left, index);
+    }
+    yield* storeInlineAudio(decoded);
+    const events = decoded.map((event, i) => withIdempotencyKey(event, `:${i}`));
+    const stored = yield* manager.appendAll({ path, events, expectedOffset });
+    return yield* HttpServerResponse.schemaJson(Schema.Array(Event))(stored);
+  }
 
-  return HttpServerResponse.empty({ status: 204 });
+  const decoded = yield* Schema.decodeUnknown(EventInput)(body);
+  const validated = yield* Effect.either(validateClientEvent(decoded, strict));
+  if (Either.isLeft(validated)) return yield* invalidEventResponse(validated.left);
+  yield* storeInlineAudio([decoded]);
+  const event = withIdempotencyKey(decoded, "");
+  const stored = yield* manager.append({ path, event, expectedOffset });
+  return yield* HttpServerResponse.schemaJson(Event)(stored);
 }).pipe(
   Effect.withSpan("http.append-event"),
   Effect.tapError((error) => Effect.logError("Request failed", error)),
   Effect.catchTag("ParseError", (error) =>
     HttpServerResponse.json({ error: error.message }, { status: 400 }),
   ),
+  // Rejected by a schema registered at runtime (iterate:schema:registered)
+  Effect.catchTag("EventValidationError", (error) => invalidEventResponse(error)),
+  Effect.catchTag("OffsetConflictError", (error) =>
+    HttpServerResponse.json(
+      {
+        error: "Offset conflict",
+        expectedOffset: error.expectedOffset,
+        currentOffset: error.currentOffset,
+      },
+      { status: 409 },
+    ),
+  ),
+);
+
+// DELETE /agents/* -> remove the stream; live subscribers receive a tombstone and close
+const deleteHandler = Effect.gen(function* () {
+  const { rawPath } = parseAgentUrl(yield* HttpServerRequest.HttpServerRequest);
+  const manager = yield* StreamManager.StreamManager;
+  const removed = yield* manager.deleteStream(StreamPath.make(rawPath));
+  return yield* HttpServerResponse.json({ removed });
+}).pipe(Effect.withSpan("http.delete-stream"));
+
+// POST /agents/*:truncate?before=OFFSET -> remove events before OFFSET (the head is kept)
+const truncateHandler = Effect.gen(function* () {
+  const { rawPath } = parseAgentUrl(yield* HttpServerRequest.HttpServerRequest);
+  const { before } = yield* HttpServerRequest.schemaSearchParams(
+    Schema.Struct({ before: OffsetParam }),
+  );
+  const manager = yield* StreamManager.StreamManager;
+  const removed = yield* manager.truncateStream({ path: StreamPath.make(rawPath), before });
+  return yield* HttpServerResponse.json({ removed });
+}).pipe(
+  Effect.withSpan("http.truncate-stream"),
+  Effect.catchTag("ParseError", (error) =>
+    HttpServerResponse.json({ error: error.message }, { status: 400 }),
+  ),
+);
+
+// POST /agents/*:import -> store an NDJSON archive (from GET ?format=ndjson) on the path
+// Events keep their offsets, createdAt and trace, so the path must be empty (409 otherwise).
+// ?remap=true renumbers them after the current head instead, which also allows merging an
+// archive of several paths into one. Reserved `iterate:stream:*` events are refused (400).
+const importHandler = Effect.gen(function* () {
+  const req = yield* HttpServerRequest.HttpServerRequest;
+  const { url, rawPath } = parseAgentUrl(req);
+  const path = StreamPath.make(rawPath);
+  const remap = url.searchParams.get("remap") === "true";
+  const events = yield* Archive.decode(yield* req.text);
+
+  if (!remap && Archive.paths(events).length > 1) {
+    return yield* HttpServerResponse.json(
+      { error: "Archive holds several paths, import with ?remap=true to merge them" },
+      { status: 400 },
+    );
+  }
+
+  const strict = yield* strictEventTypes;
+  for (const [index, event] of events.entries()) {
+    const validated = yield* Effect.either(validateClientEvent(event, strict));
+    if (Either.isLeft(validated)) return yield* invalidEventResponse(validated.left, index);
+  }
+  yield* storeInlineAudio(events);
+
+  const manager = yield* StreamManager.StreamManager;
+  const stored = yield* manager.importAll({ path, events, remap });
+  return yield* HttpServerResponse.json({
+    imported: stored.length,
+    ...(stored.length > 0 && { headOffset: stored[stored.length - 1]!.offset }),
+  });
+}).pipe(
+  Effect.withSpan("http.import-stream"),
+  Effect.catchTag("ArchiveError", (error) =>
+    HttpServerResponse.json({ error: error.message, line: error.line }, { status: 400 }),
+  ),
+  Effect.catchTag("EventValidationError", (error) => invalidEventResponse(error)),
+  Effect.catchTag("StreamNotEmptyError", (error) =>
+    HttpServerResponse.json(
+      { error: "Stream not empty", headOffset: error.headOffset },
+      { status: 409 },
+    ),
+  ),
+);
+
+// POST /agents/*:fork?at=OFFSET&to=PATH -> start stream PATH with an iterate:stream:forked-from
+// event and copies of this stream's events up to and including OFFSET (404 if this stream has
+// no events, 400 if OFFSET is past its head, 409 if PATH has events)
+const forkHandler = Effect.gen(function* () {
+  const { rawPath } = parseAgentUrl(yield* HttpServerRequest.HttpServerRequest);
+  const { at, to } = yield* HttpServerRequest.schemaSearchParams(
+    Schema.Struct({ at: OffsetParam, to: StreamPath }),
+  );
+  const manager = yield* StreamManager.StreamManager;
+  const stored = yield* manager.fork({ path: StreamPath.make(rawPath), at, to });
+  return yield* HttpServerResponse.json({
+    path: to,
+    copied: stored.length - 1,
+    headOffset: stored[stored.length - 1]!.offset,
+  });
+}).pipe(
+  Effect.withSpan("http.fork-stream"),
+  Effect.catchTag("ParseError", (error) =>
+    HttpServerResponse.json({ error: error.message }, { status: 400 }),
+  ),
+  Effect.catchTag("StreamNotFoundError", () =>
+    HttpServerResponse.json({ error: "Stream not found" }, { status: 404 }),
+  ),
+  Effect.catchTag("OffsetBeyondHeadError", (error) =>
+    HttpServerResponse.json(
+      { error: "Offset beyond head", headOffset: error.headOffset },
+      { status: 400 },
+    ),
+  ),
+  Effect.catchTag("EventValidationError", (error) => invalidEventResponse(error)),
+  Effect.catchTag("StreamNotEmptyError", (error) =>
+    HttpServerResponse.json(
+      { error: "Stream not empty", headOffset: error.headOffset },
+      { status: 409 },
+    ),
+  ),
+);
+
+const postHandler = Effect.gen(function* () {
+  const { action } = parseAgentUrl(yield* HttpServerRequest.HttpServerRequest);
+  switch (action) {
+    case "truncate":
+      return yield* truncateHandler;
+    case "import":
+      return yield* importHandler;
+    case "fork":
+      return yield* forkHandler;
+    default:
+      return yield* appendHandler;
+  }
+});
+
+// GET /schemas -> JSON Schema of the payload for every registered event type
+const schemasHandler = Effect.gen(function* () {
+  const strict = yield* strictEventTypes;
+  return yield* HttpServerResponse.json({
+    strict,
+    events: EventRegistry.types().flatMap((type) =>
+      Option.toArray(EventRegistry.jsonSchema(type)).map((payload) => ({ type, payload })),
+    ),
+  });
+}).pipe(Effect.withSpan("http.list-schemas"));
+
+// PUT /blobs -> store the request body, respond with the BlobRef events should carry
+// The Content-Type header becomes the ref's mimeType
+const putBlobHandler = Effect.gen(function* () {
+  const req = yield* HttpServerRequest.HttpServerRequest;
+  const body = new Uint8Array(yield* req.arrayBuffer);
+  const blobs = yield* BlobStore.BlobStore;
+  const mimeType = req.headers["content-type"] ?? "application/octet-stream";
+  const { hash, size } = yield* blobs.put(body, mimeType);
+  return yield* HttpServerResponse.schemaJson(BlobRef)(
+    BlobRef.make({ blobRef: hash, mimeType, size }),
+  );
+}).pipe(Effect.withSpan("http.put-blob"));
+
+// GET /blobs/:hash -> the stored bytes, as the media type they were stored with; content never
+// changes, so responses cache forever
+const getBlobHandler = Effect.gen(function* () {
+  const { hash } = yield* HttpRouter.schemaPathParams(Schema.Struct({ hash: BlobHash }));
+  const blobs = yield* BlobStore.BlobStore;
+  const blob = yield* blobs.get(hash);
+  if (Option.isNone(blob)) {
+    return yield* HttpServerResponse.json({ error: "Blob not found" }, { status: 404 });
+  }
+  return HttpServerResponse.uint8Array(blob.value.bytes, {
+    contentType: blob.value.mimeType,
+    headers: { "cache-control": "public, max-age=31536000, immutable" },
+  });
+}).pipe(
+  Effect.withSpan("http.get-blob"),
+  Effect.catchTag("ParseError", (error) =>
+    HttpServerResponse.json({ error: error.message }, { status: 400 }),
+  ),
 );
 
 // Router + serve layer (without Node HTTP - for testing)
 export const AppLive = HttpRouter.empty.pipe(
-  HttpRouter.get("/agents/*", subscribeHandler),
-  HttpRouter.post("/agents/*", appendHandler),
+  HttpRouter.get("/agents", listStreamsHandler),
+  HttpRouter.get("/agents/*", getHandler),
+  HttpRouter.post("/agents/*", postHandler),
+  HttpRouter.del("/agents/*", deleteHandler),
+  HttpRouter.get("/schemas", schemasHandler),
+  HttpRouter.put("/blobs", putBlobHandler),
+  HttpRouter.get("/blobs/:hash", getBlobHandler),
   HttpServer.serve(HttpMiddleware.logger),
   HttpServer.withLogAddress,
 );
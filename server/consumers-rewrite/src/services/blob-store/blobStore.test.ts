@@ -0,0 +1,66 @@
+/**
+ * BlobStore test suite - runs against all implementations
+ */
+import { FileSystem } from "@effect/platform";
+import { NodeContext } from "@effect/platform-node";
+import { describe, expect, it } from "@effect/vitest";
+import { Effect, Layer, Option } from "effect";
+
+import { BlobHash } from "../../domain.js";
+import * as BlobStore from "./index.js";
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+const blobStoreTests = <E>(name: string, makeLayer: () => Layer.Layer<BlobStore.BlobStore, E>) => {
+  describe(name, () => {
+    it.scoped("stores bytes under their sha256 and reads them back with their media type", () =>
+      Effect.gen(function* () {
+        const store = yield* BlobStore.BlobStore;
+        const stored = yield* store.put(bytes("hello"), "text/plain");
+        expect(stored).toEqual({
+          hash: "2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824",
+          size: 5,
+        });
+
+        const read = yield* store.get(stored.hash);
+        expect(
+          Option.map(read, (blob) => [new TextDecoder().decode(blob.bytes), blob.mimeType]),
+        ).toEqual(Option.some(["hello", "text/plain"]));
+      }).pipe(Effect.provide(makeLayer())),
+    );
+
+    it.scoped("keeps one copy of the same bytes", () =>
+      Effect.gen(function* () {
+        const store = yield* BlobStore.BlobStore;
+        const first = yield* store.put(bytes("same"), "text/plain");
+        const second = yield* store.put(bytes("same"), "application/octet-stream");
+        expect(second).toEqual(first);
+        const read = yield* store.get(first.hash);
+        expect(Option.map(read, (blob) => blob.mimeType)).toEqual(Option.some("text/plain"));
+      }).pipe(Effect.provide(makeLayer())),
+    );
+
+    it.scoped("returns none for an unknown hash", () =>
+      Effect.gen(function* () {
+        const store = yield* BlobStore.BlobStore;
+        const missing = yield* store.get(BlobHash.make("0".repeat(64)));
+        expect(Option.isNone(missing)).toBe(true);
+      }).pipe(Effect.provide(makeLayer())),
+    );
+  });
+};
+
+describe("BlobStore", () => {
+  blobStoreTests("InMemory", () => BlobStore.inMemoryLayer);
+
+  // FileSystem implementation - uses scoped temp directory that auto-cleans
+  const fileSystemTestLayer = Layer.unwrapScoped(
+    Effect.gen(function* () {
+      const fs = yield* FileSystem.FileSystem;
+      const tempDir = yield* fs.makeTempDirectoryScoped();
+      return BlobStore.fileSystemLayer(tempDir);
+    }),
+  ).pipe(Layer.provide(NodeContext.layer));
+
+  blobStoreTests("FileSystem", () => fileSystemTestLayer);
+});
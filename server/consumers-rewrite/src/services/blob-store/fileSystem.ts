@@ -0,0 +1,59 @@
+/**
+ * File-system implementation of BlobStore
+ *
+ * Each blob is a file named by its hash: {basePath}/{hash[0..2]}/{hash}, with its media type
+ * beside it in {hash}.type (written first, so a blob never shows up without it)
+ * Blobs are written to a temporary file and renamed into place, so readers never see a
+ * partial blob and concurrent puts of the same bytes are harmless.
+ */
+import { randomUUID } from "node:crypto";
+
+import * as Fs from "@effect/platform/FileSystem";
+import * as Path from "@effect/platform/Path";
+import { Effect, Layer, Option } from "effect";
+
+import { BlobHash } from "../../domain.js";
+import { BlobStore, BlobStoreError, hashBytes } from "./service.js";
+
+export const fileSystemLayer = (
+  basePath: string,
+): Layer.Layer<BlobStore, BlobStoreError, Fs.FileSystem | Path.Path> =>
+  Layer.effect(
+    BlobStore,
+    Effect.gen(function* () {
+      const fs = yield* Fs.FileSystem;
+      const path = yield* Path.Path;
+
+      yield* fs
+        .makeDirectory(basePath, { recursive: true })
+        .pipe(Effect.mapError((cause) => BlobStoreError.make({ cause })));
+
+      const getFilePath = (hash: BlobHash) => path.join(basePath, hash.slice(0, 2), hash);
+
+      const put = (bytes: Uint8Array, mimeType: string) =>
+        Effect.gen(function* () {
+          const hash = hashBytes(bytes);
+          const filePath = getFilePath(hash);
+          if (!(yield* fs.exists(filePath))) {
+            yield* fs.makeDirectory(path.dirname(filePath), { recursive: true });
+            yield* fs.writeFileString(`${filePath}.type`, mimeType);
+            const tempPath = `${filePath}.${randomUUID()}.tmp`;
+            yield* fs.writeFile(tempPath, bytes);
+            yield* fs.rename(tempPath, filePath);
+          }
+          return { hash, size: bytes.length };
+        }).pipe(Effect.mapError((cause) => BlobStoreError.make({ cause })));
+
+      const get = (hash: BlobHash) =>
+        Effect.gen(function* () {
+          const filePath = getFilePath(hash);
+          if (!(yield* fs.exists(filePath))) return Option.none();
+          return Option.some({
+            bytes: yield* fs.readFile(filePath),
+            mimeType: yield* fs.readFileString(`${filePath}.type`),
+          });
+        }).pipe(Effect.mapError((cause) => BlobStoreError.make({ cause })));
+
+      return { put, get };
+    }),
+  );
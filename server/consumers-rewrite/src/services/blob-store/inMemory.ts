@@ -0,0 +1,21 @@
+/**
+ * In-memory implementation of BlobStore
+ */
+import { Effect, Layer, Option } from "effect";
+
+import { BlobHash } from "../../domain.js";
+import { BlobStore, hashBytes, StoredBlob } from "./service.js";
+
+export const inMemoryLayer: Layer.Layer<BlobStore> = Layer.sync(BlobStore, () => {
+  const blobs = new Map<BlobHash, StoredBlob>();
+
+  return {
+    put: (bytes, mimeType) =>
+      Effect.sync(() => {
+        const hash = hashBytes(bytes);
+        if (!blobs.has(hash)) blobs.set(hash, { bytes: bytes.slice(), mimeType });
+        return { hash, size: bytes.length };
+      }),
+    get: (hash) => Effect.sync(() => Option.fromNullable(blobs.get(hash))),
+  };
+});
@@ -0,0 +1,11 @@
+/**
+ * BlobStore - content-addressed bytes referenced from events
+ */
+
+// Re-export service definition
+export { BlobStore, BlobStoreError, hashBytes } from "./service.js";
+export type { StoredBlob } from "./service.js";
+
+// Re-export layers
+export { inMemoryLayer } from "./inMemory.js";
+export { fileSystemLayer } from "./fileSystem.js";
@@ -0,0 +1,47 @@
+/**
+ * BlobStore service definition
+ */
+import { createHash } from "node:crypto";
+
+import { Context, Effect, Option, Schema } from "effect";
+
+import { BlobHash } from "../../domain.js";
+
+// -------------------------------------------------------------------------------------
+// Errors
+// -------------------------------------------------------------------------------------
+
+export class BlobStoreError extends Schema.TaggedError<BlobStoreError>()("BlobStoreError", {
+  cause: Schema.Defect,
+}) {}
+
+// -------------------------------------------------------------------------------------
+// BlobStore
+// -------------------------------------------------------------------------------------
+
+/** Bytes in a BlobStore, with the media type they were first stored as */
+export interface StoredBlob {
+  readonly bytes: Uint8Array;
+  readonly mimeType: string;
+}
+
+/**
+ * Content-addressed store for bytes too large to keep in event payloads. Events carry a
+ * `BlobRef` to the hash instead; storing the same bytes twice keeps one copy.
+ */
+export interface BlobStore {
+  /** Store bytes, returns their hash and size */
+  readonly put: (
+    bytes: Uint8Array,
+    mimeType: string,
+  ) => Effect.Effect<{ hash: BlobHash; size: number }, BlobStoreError>;
+
+  /** Bytes stored under a hash, if any */
+  readonly get: (hash: BlobHash) => Effect.Effect<Option.Option<StoredBlob>, BlobStoreError>;
+}
+
+export const BlobStore = Context.GenericTag<BlobStore>("@app/BlobStore");
+
+/** Address of some bytes in a BlobStore */
+export const hashBytes = (bytes: Uint8Array): BlobHash =>
+  BlobHash.make(createHash("sha256").update(bytes).digest("hex"));
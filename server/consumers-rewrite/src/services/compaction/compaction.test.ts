@@ -0,0 +1,101 @@
+/**
+ * Compaction test suite
+ */
+import { describe, expect, it } from "@effect/vitest";
+import { Chunk, Effect, Stream } from "effect";
+
+import { Event, EventInput, EventType, Offset, StreamPath } from "../../domain.js";
+import { EventStream } from "../stream-manager/index.js";
+import * as StreamStorage from "../stream-storage/index.js";
+import * as Compaction from "./index.js";
+
+const part = (group: string, text: string) =>
+  EventInput.make({ type: EventType.make("test:part"), payload: { group, text } });
+
+const done = (group: string) =>
+  EventInput.make({ type: EventType.make("test:done"), payload: { group } });
+
+const other = () => EventInput.make({ type: EventType.make("test:other"), payload: {} });
+
+/** Joins a run of parts into its last event */
+const joinParts: Compaction.CompactionPolicy = {
+  name: "join-parts",
+  types: [EventType.make("test:part")],
+  closedBy: [EventType.make("test:done")],
+  group: (event) => event.payload.group as string,
+  compact: (run) => {
+    const last = run.at(-1)!;
+    const text = run.map((event) => event.payload.text).join("");
+    return [Event.make({ ...last, payload: { ...last.payload, text } })];
+  },
+};
+
+describe("Compaction", () => {
+  it.effect("merges runs of closed groups in place and picks up groups closed later", () =>
+    Effect.gen(function* () {
+      const storage = yield* StreamStorage.StreamStorageManager;
+      const path = StreamPath.make("test/compaction");
+      const stream = yield* EventStream.make(storage.forPath(path), path);
+      const compactor = Compaction.make(storage, [joinParts]);
+
+      const summary = () =>
+        storage.read({ path }).pipe(
+          Stream.runCollect,
+          Effect.map((events) =>
+            Chunk.toReadonlyArray(events).map((e) => [e.offset.slice(-2), e.type, e.payload.text]),
+          ),
+        );
+
+      yield* stream.appendAll([
+        part("a", "He"),
+        part("a", "ll"),
+        other(),
+        part("a", "o"),
+        part("a", "!"),
+        done("a"),
+        part("b", "Op"),
+        part("b", "en"),
+      ]);
+
+      // Group b is still open - only a's runs are merged, the other event splits them
+      expect(yield* compactor.compactAll).toBe(2);
+      expect(yield* summary()).toEqual([
+        ["01", "test:part", "Hell"],
+        ["02", "test:other", undefined],
+        ["04", "test:part", "o!"],
+        ["05", "test:done", undefined],
+        ["06", "test:part", "Op"],
+        ["07", "test:part", "en"],
+      ]);
+
+      // Nothing changed, nothing to do
+      expect(yield* compactor.compactAll).toBe(0);
+
+      yield* stream.appendAll([part("b", "!"), done("b")]);
+      expect(yield* compactor.compactAll).toBe(2);
+      expect((yield* summary()).slice(4)).toEqual([
+        ["08", "test:part", "Open!"],
+        ["09", "test:done", undefined],
+      ]);
+
+      // Offsets were kept, so appends carry on after the head
+      const next = yield* stream.append(other());
+      expect(next.offset).toBe("0000000000000010");
+    }).pipe(Effect.provide(StreamStorage.inMemoryLayer)),
+  );
+
+  it.effect("skips merges that return offsets outside the run", () =>
+    Effect.gen(function* () {
+      const storage = yield* StreamStorage.StreamStorageManager;
+      const path = StreamPath.make("test/compaction-invalid");
+      const stream = yield* EventStream.make(storage.forPath(path), path);
+      const moving: Compaction.CompactionPolicy = {
+        ...joinParts,
+        compact: (run) => [Event.make({ ...run[0]!, offset: Offset.make("0000000000000009") })],
+      };
+
+      yield* stream.appendAll([part("a", "x"), part("a", "y"), done("a")]);
+      expect(yield* Compaction.make(storage, [moving]).compactStream(path)).toBe(0);
+    }).pipe(Effect.provide(StreamStorage.inMemoryLayer)),
+  );
+});
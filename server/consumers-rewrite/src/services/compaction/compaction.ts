@@ -0,0 +1,176 @@
+/**
+ * Compaction - background merging of transient events
+ *
+ * A CompactionPolicy names the event types it compacts, the event types that close a group of
+ * them, and how to merge a run of them. The job periodically walks every stream, merges the
+ * groups closed since its last pass and swaps them in with `replaceEvents`. Merged events reuse
+ * the offsets of events they replace, so existing cursors stay valid.
+ */
+import { Chunk, Duration, Effect, Layer, Schedule, Stream } from "effect";
+
+import { Event, EventType, Offset, StreamPath } from "../../domain.js";
+import { StreamStorageError, StreamStorageManager } from "../stream-storage/service.js";
+
+// -------------------------------------------------------------------------------------
+// Policy
+// -------------------------------------------------------------------------------------
+
+export interface CompactionPolicy {
+  /** Identifies the policy in logs */
+  readonly name: string;
+  /** Types of the events this policy compacts */
+  readonly types: ReadonlyArray<EventType>;
+  /** Types of the events that close a group - a group is left alone until one is stored */
+  readonly closedBy: ReadonlyArray<EventType>;
+  /** Group an event belongs to (compacted types) or closes (`closedBy` types) */
+  readonly group: (event: Event) => string | undefined;
+  /**
+   * Merge a run of consecutive events from one closed group, in offset order. Each returned
+   * event must reuse the offset and globalOffset of an event in the run, and folding the
+   * result must give the same state as folding the run.
+   */
+  readonly compact: (run: ReadonlyArray<Event>) => ReadonlyArray<Event>;
+}
+
+// -------------------------------------------------------------------------------------
+// Compactor
+// -------------------------------------------------------------------------------------
+
+export interface Compactor {
+  /** Compact one stream, returns the number of events removed */
+  readonly compactStream: (path: StreamPath) => Effect.Effect<number, StreamStorageError>;
+  /** Compact every stream that changed since the last pass, returns the events removed */
+  readonly compactAll: Effect.Effect<number, StreamStorageError>;
+}
+
+/**
+ * Create a compactor over a storage manager. It remembers per stream where the oldest group
+ * that is still open starts, so each pass only reads what may still need compacting.
+ */
+export const make = (
+  storage: StreamStorageManager,
+  policies: ReadonlyArray<CompactionPolicy>,
+): Compactor => {
+  // Offset to read each stream after, and the head it had at the last pass
+  const cursors = new Map<StreamPath, Offset>();
+  const heads = new Map<StreamPath, Offset>();
+
+  const compactPolicy = (
+    path: StreamPath,
+    policy: CompactionPolicy,
+    events: ReadonlyArray<Event>,
+  ) =>
+    Effect.gen(function* () {
+      const closed = new Set<string>();
+      for (const event of events) {
+        const key = policy.closedBy.includes(event.type) ? policy.group(event) : undefined;
+        if (key !== undefined) closed.add(key);
+      }
+
+      // Runs of consecutive events in one closed group - any other event ends a run
+      const runs: Event[][] = [];
+      let run: Event[] = [];
+      let runKey: string | undefined;
+      for (const event of events) {
+        const key = policy.types.includes(event.type) ? policy.group(event) : undefined;
+        if (key === undefined || !closed.has(key) || key !== runKey) {
+          if (run.length > 1) runs.push(run);
+          run = [];
+        }
+        runKey = key;
+        if (key !== undefined && closed.has(key)) run.push(event);
+      }
+      if (run.length > 1) runs.push(run);
+
+      let removed = 0;
+      for (const run of runs) {
+        const replacements = policy.compact(run);
+        if (replacements.length >= run.length) continue;
+        const offsets = new Set(run.map((event) => event.offset));
+        if (!replacements.every((event) => offsets.has(event.offset))) {
+          yield* Effect.logWarning(
+            `compaction policy ${policy.name} returned offsets outside the run, skipping`,
+          );
+          continue;
+        }
+        const replaced = yield* storage.replaceEvents({
+          path,
+          remove: run.map((event) => event.offset),
+          replacements,
+        });
+        removed += replaced - replacements.length;
+      }
+
+      // Index of the first event of a group that is still open, if any
+      const openIndex = events.findIndex((event) => {
+        const key = policy.types.includes(event.type) ? policy.group(event) : undefined;
+        return key !== undefined && !closed.has(key);
+      });
+      return { removed, openIndex: openIndex === -1 ? events.length : openIndex };
+    });
+
+  const compactStream = (path: StreamPath) =>
+    Effect.gen(function* () {
+      const from = cursors.get(path);
+      const events = Chunk.toReadonlyArray(
+        yield* storage.read({ path, ...(from !== undefined && { from }) }).pipe(Stream.runCollect),
+      );
+      const head = events.at(-1)?.offset;
+      if (head === undefined) return 0;
+
+      let removed = 0;
+      let openIndex = events.length;
+      for (const policy of policies) {
+        const result = yield* compactPolicy(path, policy, events);
+        removed += result.removed;
+        openIndex = Math.min(openIndex, result.openIndex);
+      }
+
+      // Next pass reads from just before the oldest open group
+      const cursor = openIndex === 0 ? from : events[openIndex - 1]!.offset;
+      if (cursor === undefined) cursors.delete(path);
+      else cursors.set(path, cursor);
+      return removed;
+    }).pipe(Effect.withSpan("Compaction.compactStream", { attributes: { path } }));
+
+  const compactAll = Effect.gen(function* () {
+    let removed = 0;
+    for (const stream of yield* storage.listStreams({})) {
+      if (heads.get(stream.path) === stream.headOffset) continue;
+      // Deleted and started over since the last pass
+      const cursor = cursors.get(stream.path);
+      if (cursor !== undefined && Offset.gt(cursor, stream.headOffset)) cursors.delete(stream.path);
+      removed += yield* compactStream(stream.path);
+      heads.set(stream.path, stream.headOffset);
+    }
+    return removed;
+  });
+
+  return { compactStream, compactAll };
+};
+
+// -------------------------------------------------------------------------------------
+// Layer
+// -------------------------------------------------------------------------------------
+
+/**
+ * Run compaction in the background, once per `interval` (default 1 minute).
+ * Failed passes are logged and retried on the next one.
+ */
+export const layer = (
+  policies: ReadonlyArray<CompactionPolicy>,
+  options?: { interval?: Duration.DurationInput },
+): Layer.Layer<never, never, StreamStorageManager> =>
+  Layer.scopedDiscard(
+    Effect.gen(function* () {
+      const compactor = make(yield* StreamStorageManager, policies);
+      yield* compactor.compactAll.pipe(
+        Effect.tap((removed) =>
+          removed > 0 ? Effect.logInfo(`compaction removed ${removed} events`) : Effect.void,
+        ),
+        Effect.catchAllCause((cause) => Effect.logError("compaction failed", cause)),
+        Effect.repeat(Schedule.spaced(options?.interval ?? Duration.minutes(1))),
+        Effect.forkScoped,
+      );
+    }),
+  );
@@ -0,0 +1,5 @@
+/**
+ * Compaction - declarative merging of transient events in storage
+ */
+export type { CompactionPolicy, Compactor } from "./compaction.js";
+export { layer, make } from "./compaction.js";
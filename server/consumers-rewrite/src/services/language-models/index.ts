@@ -0,0 +1,12 @@
+/**
+ * LanguageModels - per-path model selection over a registry of providers
+ */
+
+// Re-export service definition
+export type { ModelSelection, ResolvedModel } from "./service.js";
+export { LanguageModels, ModelResolutionError } from "./service.js";
+
+// Re-export layers
+export type { ModelProviderLayer, ModelProviders } from "./live.js";
+export { layer, select } from "./live.js";
+export { anthropic, openAi, openAiCompatible } from "./providers.js";
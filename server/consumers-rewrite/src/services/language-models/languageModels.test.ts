@@ -0,0 +1,91 @@
+/**
+ * LanguageModels test suite - resolution over a registry of stub providers
+ */
+import { LanguageModel } from "@effect/ai";
+import { FetchHttpClient } from "@effect/platform";
+import { describe, expect, it } from "@effect/vitest";
+import { Config, Effect, Layer } from "effect";
+
+import * as LanguageModels from "./index.js";
+
+// Each built model is a distinct object, so tests can tell whether one was reused
+const builds: Array<LanguageModels.ModelSelection> = [];
+const stubProvider: LanguageModels.ModelProviderLayer = (selection) =>
+  Layer.sync(LanguageModel.LanguageModel, () => {
+    builds.push(selection);
+    return {
+      generateText: () => Effect.die("not implemented"),
+      generateObject: () => Effect.die("not implemented"),
+      streamText: () => Effect.die("not implemented"),
+    } as unknown as LanguageModel.Service;
+  });
+
+const makeLayer = () => {
+  builds.length = 0;
+  return LanguageModels.layer({
+    providers: {
+      openai: stubProvider,
+      anthropic: (selection) =>
+        Layer.unwrapEffect(
+          Config.string("TEST_MISSING_ANTHROPIC_KEY").pipe(Effect.as(stubProvider(selection))),
+        ),
+      "openai-compatible": LanguageModels.openAiCompatible(),
+    },
+    defaults: { provider: "openai", modelId: "default-model", reasoningEffort: "low" },
+  }).pipe(Layer.provide(FetchHttpClient.layer));
+};
+
+describe("LanguageModels", () => {
+  it.scoped("fills in the default model when the config doesn't name one", () =>
+    Effect.gen(function* () {
+      const models = yield* LanguageModels.LanguageModels;
+      const { selection } = yield* models.resolve({ temperature: 0.5 });
+      expect(selection).toEqual({
+        provider: "openai",
+        modelId: "default-model",
+        reasoningEffort: "low",
+        temperature: 0.5,
+      });
+    }).pipe(Effect.provide(makeLayer())),
+  );
+
+  it.scoped("takes a named model as is, without the default's parameters", () =>
+    Effect.gen(function* () {
+      const models = yield* LanguageModels.LanguageModels;
+      const { selection } = yield* models.resolve({ modelId: "other-model" });
+      expect(selection).toEqual({ provider: "openai", modelId: "other-model" });
+    }).pipe(Effect.provide(makeLayer())),
+  );
+
+  it.scoped("builds one model per distinct selection", () =>
+    Effect.gen(function* () {
+      const models = yield* LanguageModels.LanguageModels;
+      const first = yield* models.resolve({ modelId: "a", temperature: 1 });
+      const again = yield* models.resolve({ temperature: 1, modelId: "a" });
+      const other = yield* models.resolve({ modelId: "a", temperature: 0 });
+
+      expect(again.languageModel).toBe(first.languageModel);
+      expect(other.languageModel).not.toBe(first.languageModel);
+      expect(builds.map((selection) => selection.temperature)).toEqual([1, 0]);
+    }).pipe(Effect.provide(makeLayer())),
+  );
+
+  it.scoped("fails to resolve models it can't build", () =>
+    Effect.gen(function* () {
+      const models = yield* LanguageModels.LanguageModels;
+      const message = (config: Parameters<typeof models.resolve>[0]) =>
+        models.resolve(config).pipe(
+          Effect.flip,
+          Effect.map((error) => error.message),
+        );
+
+      expect(yield* message({ provider: "anthropic" })).toBe("Provider anthropic needs a modelId");
+      expect(yield* message({ provider: "anthropic", modelId: "claude" })).toContain(
+        "Provider anthropic isn't configured",
+      );
+      expect(yield* message({ provider: "openai-compatible", modelId: "llama" })).toBe(
+        "The openai-compatible provider needs a baseUrl",
+      );
+    }).pipe(Effect.provide(makeLayer())),
+  );
+});
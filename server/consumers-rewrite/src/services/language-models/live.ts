@@ -0,0 +1,95 @@
+/**
+ * LanguageModels built from a registry of provider layers
+ *
+ * A config is filled in from the default selection, then built with its provider's layer.
+ * Built models live as long as this layer, one per distinct selection, so every request with
+ * the same config reuses a model.
+ */
+import { LanguageModel } from "@effect/ai";
+import { HttpClient } from "@effect/platform";
+import { ConfigError, Context, Data, Effect, Layer, MutableHashMap, Option } from "effect";
+
+import { ModelConfig, ModelProvider } from "../../events.js";
+import { LanguageModels, ModelResolutionError, ModelSelection, ResolvedModel } from "./service.js";
+
+/** Builds a provider's LanguageModel for a selection */
+export type ModelProviderLayer = (
+  selection: ModelSelection,
+) => Layer.Layer<
+  LanguageModel.LanguageModel,
+  ConfigError.ConfigError | ModelResolutionError,
+  HttpClient.HttpClient
+>;
+
+export type ModelProviders = Partial<Record<ModelProvider, ModelProviderLayer>>;
+
+/**
+ * Fill in a config from the default selection. Without a modelId it means the default model,
+ * so a different provider needs one.
+ */
+export const select = (
+  config: ModelConfig,
+  defaults: ModelSelection,
+): Effect.Effect<ModelSelection, ModelResolutionError> => {
+  const provider = config.provider ?? defaults.provider;
+  if (config.modelId !== undefined) {
+    return Effect.succeed({ ...config, provider, modelId: config.modelId });
+  }
+  if (provider !== defaults.provider) {
+    return Effect.fail(
+      new ModelResolutionError({ provider, message: `Provider ${provider} needs a modelId` }),
+    );
+  }
+  return Effect.succeed({ ...defaults, ...config, provider, modelId: defaults.modelId });
+};
+
+export const layer = (options: {
+  providers: ModelProviders;
+  defaults: ModelSelection;
+}): Layer.Layer<LanguageModels, never, HttpClient.HttpClient> =>
+  Layer.scoped(
+    LanguageModels,
+    Effect.gen(function* () {
+      const scope = yield* Effect.scope;
+      const context = yield* Effect.context<HttpClient.HttpClient>();
+      const models = MutableHashMap.empty<ModelSelection, LanguageModel.Service>();
+
+      const build = (selection: ModelSelection) => {
+        const { provider } = selection;
+        const providerLayer = options.providers[provider];
+        if (providerLayer === undefined) {
+          return Effect.fail(
+            new ModelResolutionError({ provider, message: `Provider ${provider} isn't available` }),
+          );
+        }
+        return Layer.buildWithScope(providerLayer(selection), scope).pipe(
+          Effect.map((built) => Context.get(built, LanguageModel.LanguageModel)),
+          Effect.provide(context),
+          Effect.catchTag("ConfigError", (error) =>
+            Effect.fail(
+              new ModelResolutionError({
+                provider,
+                message: `Provider ${provider} isn't configured: ${error}`,
+              }),
+            ),
+          ),
+        );
+      };
+
+      return {
+        resolve: (config) =>
+          Effect.gen(function* () {
+            const selection = yield* select(config, options.defaults);
+            // Compared by value, so equal configs from different events share a model
+            const key = Data.struct(selection);
+            const cached = MutableHashMap.get(models, key);
+            if (Option.isSome(cached)) return { selection, languageModel: cached.value };
+
+            yield* Effect.log(`building ${selection.provider} model ${selection.modelId}`);
+            const languageModel = yield* build(selection);
+            MutableHashMap.set(models, key, languageModel);
+            return { selection, languageModel } satisfies ResolvedModel;
+          }),
+      };
+    }),
+  );
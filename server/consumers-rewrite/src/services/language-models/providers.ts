@@ -0,0 +1,80 @@
+/**
+ * Provider layers for the LanguageModels registry
+ *
+ * Each maps a selection's parameters onto its provider's request config.
+ */
+import { AnthropicClient, AnthropicLanguageModel } from "@effect/ai-anthropic";
+import { OpenAiClient, OpenAiLanguageModel } from "@effect/ai-openai";
+import { Config, Layer, Redacted } from "effect";
+
+import type { ModelProviderLayer } from "./live.js";
+import { ModelResolutionError, ModelSelection } from "./service.js";
+
+const openAiConfig = ({ temperature, reasoningEffort, maxTokens }: ModelSelection) => ({
+  ...(temperature !== undefined && { temperature }),
+  ...(reasoningEffort !== undefined && { reasoning: { effort: reasoningEffort } }),
+  ...(maxTokens !== undefined && { max_output_tokens: maxTokens }),
+});
+
+/** OpenAI's Responses API */
+export const openAi =
+  (options: { apiKey: Config.Config<Redacted.Redacted> }): ModelProviderLayer =>
+  (selection) =>
+    OpenAiLanguageModel.layer({ model: selection.modelId, config: openAiConfig(selection) }).pipe(
+      Layer.provide(OpenAiClient.layerConfig({ apiKey: options.apiKey })),
+    );
+
+/**
+ * A server speaking OpenAI's Responses API at the selection's `baseUrl`, e.g. a local model
+ * server. Most of them don't check the API key.
+ */
+export const openAiCompatible =
+  (options: { apiKey?: Config.Config<Redacted.Redacted | undefined> } = {}): ModelProviderLayer =>
+  (selection) => {
+    if (selection.baseUrl === undefined) {
+      return Layer.fail(
+        new ModelResolutionError({
+          provider: selection.provider,
+          message: "The openai-compatible provider needs a baseUrl",
+        }),
+      );
+    }
+    return OpenAiLanguageModel.layer({
+      model: selection.modelId,
+      config: openAiConfig(selection),
+    }).pipe(
+      Layer.provide(
+        OpenAiClient.layerConfig({
+          apiUrl: Config.succeed(selection.baseUrl),
+          ...(options.apiKey !== undefined && { apiKey: options.apiKey }),
+        }),
+      ),
+    );
+  };
+
+/** Thinking budget per reasoning effort - Anthropic takes a token budget rather than a level */
+const thinkingBudgets = { minimal: 1024, low: 2048, medium: 8192, high: 16384 } as const;
+
+/** Anthropic's default max_tokens, which it requires on every request */
+const ANTHROPIC_MAX_TOKENS = 4096;
+
+/**
+ * Anthropic's Messages API. Thinking tokens count towards max_tokens, so the thinking budget
+ * is added on top of `maxTokens` to leave the answer the same room.
+ */
+export const anthropic =
+  (options: { apiKey: Config.Config<Redacted.Redacted> }): ModelProviderLayer =>
+  ({ modelId, temperature, reasoningEffort, maxTokens = ANTHROPIC_MAX_TOKENS }) => {
+    const budget =
+      reasoningEffort === undefined || reasoningEffort === "none"
+        ? 0
+        : thinkingBudgets[reasoningEffort];
+    return AnthropicLanguageModel.layer({
+      model: modelId,
+      config: {
+        max_tokens: maxTokens + budget,
+        ...(temperature !== undefined && { temperature }),
+        ...(budget > 0 && { thinking: { type: "enabled" as const, budget_tokens: budget } }),
+      },
+    }).pipe(Layer.provide(AnthropicClient.layerConfig({ apiKey: options.apiKey })));
+  };
@@ -0,0 +1,45 @@
+/**
+ * LanguageModels service definition
+ */
+import type { LanguageModel } from "@effect/ai";
+import { Context, Effect, Schema } from "effect";
+
+import { ModelConfig, ModelProvider } from "../../events.js";
+
+// -------------------------------------------------------------------------------------
+// Errors
+// -------------------------------------------------------------------------------------
+
+export class ModelResolutionError extends Schema.TaggedError<ModelResolutionError>()(
+  "ModelResolutionError",
+  {
+    provider: Schema.optional(Schema.String),
+    message: Schema.String,
+  },
+) {}
+
+// -------------------------------------------------------------------------------------
+// LanguageModels
+// -------------------------------------------------------------------------------------
+
+/** A model config with the server's defaults filled in */
+export type ModelSelection = ModelConfig & {
+  readonly provider: ModelProvider;
+  readonly modelId: string;
+};
+
+/** A language model and the selection it was built from */
+export interface ResolvedModel {
+  readonly selection: ModelSelection;
+  readonly languageModel: LanguageModel.Service;
+}
+
+/**
+ * Language models by config. Paths pick their model with config-set events, so the LLM loop
+ * resolves one per request rather than depending on a single LanguageModel.
+ */
+export interface LanguageModels {
+  readonly resolve: (config: ModelConfig) => Effect.Effect<ResolvedModel, ModelResolutionError>;
+}
+
+export const LanguageModels = Context.GenericTag<LanguageModels>("@app/LanguageModels");
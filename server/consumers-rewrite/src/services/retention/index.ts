@@ -0,0 +1,5 @@
+/**
+ * Retention - per path pattern limits on how much history streams keep
+ */
+export type { Retention, RetentionPolicy, SnapshotVersion } from "./retention.js";
+export { CONFIG_PATH, layer, make } from "./retention.js";
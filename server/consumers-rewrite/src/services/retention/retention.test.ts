@@ -0,0 +1,225 @@
+/**
+ * Retention test suite
+ */
+import { FileSystem } from "@effect/platform";
+import { NodeContext } from "@effect/platform-node";
+import { describe, expect, it } from "@effect/vitest";
+import { Chunk, Duration, Effect, Layer, Schedule, Stream, TestClock } from "effect";
+
+import { EventInput, EventType, Offset, PathPattern, StreamPath } from "../../domain.js";
+import { RetentionAppliedEvent, RetentionPolicySetEvent } from "../../events.js";
+import { CodemodeProcessor } from "../../processors/codemode/index.js";
+import { RequestEndedEvent } from "../../processors/llm-loop/index.js";
+import { ToolHandlers, ToolRunnerProcessor } from "../../processors/tool-runner/index.js";
+import { StreamManager, liveLayer } from "../stream-manager/index.js";
+import * as StreamStorage from "../stream-storage/index.js";
+import * as Retention from "./index.js";
+
+const testLayer = liveLayer.pipe(Layer.provideMerge(StreamStorage.inMemoryLayer));
+
+const event = (n: number) => EventInput.make({ type: EventType.make("test"), payload: { n } });
+
+/** Append `count` events to a path */
+const fill = (path: StreamPath, count: number) =>
+  Effect.gen(function* () {
+    const stream = yield* (yield* StreamManager).forPath(path);
+    yield* stream.appendAll(Array.from({ length: count }, (_, n) => event(n)));
+  });
+
+/** Offsets (last two digits) left on a path */
+const remaining = (path: StreamPath) =>
+  Effect.gen(function* () {
+    const storage = yield* StreamStorage.StreamStorageManager;
+    const events = yield* storage.read({ path }).pipe(Stream.runCollect);
+    return Chunk.toReadonlyArray(events).map((e) => e.offset.slice(-2));
+  });
+
+/** Payloads of the audit events on the config stream */
+const audits = Effect.gen(function* () {
+  const storage = yield* StreamStorage.StreamStorageManager;
+  const events = yield* storage.read({ path: Retention.CONFIG_PATH }).pipe(Stream.runCollect);
+  return Chunk.toReadonlyArray(events)
+    .filter(RetentionAppliedEvent.is)
+    .map((e) => e.payload);
+});
+
+const makeRetention = (options?: Parameters<typeof Retention.make>[2]) =>
+  Effect.gen(function* () {
+    return Retention.make(yield* StreamStorage.StreamStorageManager, yield* StreamManager, options);
+  });
+
+describe("Retention", () => {
+  it.effect("drops events beyond a count or age limit and records what it dropped", () =>
+    Effect.gen(function* () {
+      const scratch = StreamPath.make("scratch/a");
+      const old = StreamPath.make("test/a");
+      const untouched = StreamPath.make("other/a");
+      const retention = yield* makeRetention({
+        policies: [
+          { pattern: PathPattern.make("scratch/**"), maxEvents: 2 },
+          { pattern: PathPattern.make("test/**"), maxAgeMs: Duration.toMillis("7 days") },
+        ],
+      });
+
+      yield* fill(scratch, 5);
+      yield* fill(old, 2);
+      yield* fill(untouched, 5);
+      yield* TestClock.adjust("8 days");
+      yield* fill(old, 1);
+
+      expect(yield* retention.enforceAll).toBe(5);
+      expect(yield* remaining(scratch)).toEqual(["03", "04"]);
+      expect(yield* remaining(old)).toEqual(["02"]);
+      expect(yield* remaining(untouched)).toHaveLength(5);
+
+      const [first, second] = yield* audits;
+      expect(first).toMatchObject({
+        path: "scratch/a",
+        patterns: ["scratch/**"],
+        from: "0000000000000000",
+        to: "0000000000000002",
+        count: 3,
+      });
+      expect(first!.bytes).toBeGreaterThan(0);
+      expect(second).toMatchObject({ path: "test/a", patterns: ["test/**"], count: 2 });
+
+      // Nothing left to drop
+      expect(yield* retention.enforceAll).toBe(0);
+    }).pipe(Effect.provide(testLayer)),
+  );
+
+  it.effect("takes policies from the config stream over startup ones", () =>
+    Effect.gen(function* () {
+      const manager = yield* StreamManager;
+      const path = StreamPath.make("scratch/b");
+      const retention = yield* makeRetention({
+        policies: [{ pattern: PathPattern.make("scratch/**"), maxEvents: 1 }],
+      });
+      yield* fill(path, 4);
+
+      // A policy without limits lifts the startup one
+      yield* manager.append({
+        path: Retention.CONFIG_PATH,
+        event: RetentionPolicySetEvent.make({ pattern: PathPattern.make("scratch/**") }),
+      });
+      expect(yield* retention.policies).toEqual([]);
+      expect(yield* retention.enforceAll).toBe(0);
+
+      yield* manager.append({
+        path: Retention.CONFIG_PATH,
+        event: RetentionPolicySetEvent.make({
+          pattern: PathPattern.make("scratch/**"),
+          maxBytes: 0,
+        }),
+      });
+      expect(yield* retention.enforceAll).toBe(3);
+      expect(yield* remaining(path)).toEqual(["03"]);
+    }).pipe(Effect.provide(testLayer)),
+  );
+
+  it.effect("keeps the events a registered snapshot has not folded in", () =>
+    Effect.gen(function* () {
+      const path = StreamPath.make("scratch/c");
+      const retention = yield* makeRetention({
+        policies: [{ pattern: PathPattern.make("scratch/**"), maxEvents: 1 }],
+        snapshots: [{ key: "counter", version: 2 }],
+      });
+      yield* fill(path, 5);
+      const stream = yield* (yield* StreamManager).forPath(path);
+      const snapshotAt = (offset: string, version: number) =>
+        stream.saveSnapshot({ key: "counter", version, offset: Offset.make(offset), state: {} });
+
+      // A snapshot of an older version is ignored on hydration, so it doesn't count
+      yield* snapshotAt("0000000000000003", 1);
+      expect(yield* retention.enforceAll).toBe(0);
+
+      yield* snapshotAt("0000000000000001", 2);
+      expect(yield* retention.enforceAll).toBe(2);
+      expect(yield* remaining(path)).toEqual(["02", "03", "04"]);
+      expect((yield* audits)[0]).toMatchObject({ to: "0000000000000001", heldBackBy: "counter" });
+    }).pipe(Effect.provide(testLayer)),
+  );
+
+  it.effect("keeps the whole stream when a registered processor has no snapshot of it", () =>
+    Effect.gen(function* () {
+      const path = StreamPath.make("scratch/d");
+      const retention = yield* makeRetention({
+        policies: [{ pattern: PathPattern.make("scratch/**"), maxEvents: 1 }],
+        snapshots: [{ key: "counter", version: 1 }],
+      });
+      yield* fill(path, 5);
+
+      expect(yield* retention.enforceAll).toBe(0);
+      expect(yield* remaining(path)).toHaveLength(5);
+      expect(yield* audits).toEqual([]);
+    }).pipe(Effect.provide(testLayer)),
+  );
+
+  it.scopedLive("trims streams the processors checkpointed while running, not just at boot", () =>
+    Effect.gen(function* () {
+      const path = StreamPath.make("scratch/e");
+      const processors = [CodemodeProcessor, ToolRunnerProcessor];
+      const retention = yield* makeRetention({
+        policies: [{ pattern: PathPattern.make("scratch/**"), maxEvents: 1 }],
+        snapshots: processors.map(({ name, state }) => ({ key: name, version: state.version })),
+      });
+      const stream = yield* (yield* StreamManager).forPath(path);
+      yield* CodemodeProcessor.run(stream).pipe(Effect.forkScoped);
+      yield* ToolRunnerProcessor.run(stream).pipe(
+        Effect.provideService(ToolHandlers, new Map()),
+        Effect.forkScoped,
+      );
+      // Let them hydrate the empty stream, so the events below only arrive live
+      yield* Effect.sleep("100 millis");
+
+      // Codemode answers the first event with its system prompt, after the whole batch
+      yield* stream.appendAll([
+        event(0),
+        event(1),
+        RequestEndedEvent.make({ requestOffset: Offset.make("0000000000000001") }),
+      ]);
+      const storage = yield* StreamStorage.StreamStorageManager;
+      yield* Effect.forEach(processors, ({ name }) =>
+        storage.readSnapshot({ path, key: name }).pipe(
+          Effect.flatMap((snapshot) => snapshot),
+          Effect.retry(Schedule.spaced("10 millis")),
+          Effect.timeout("2 seconds"),
+        ),
+      );
+
+      expect(yield* retention.enforceAll).toBe(3);
+      expect(yield* remaining(path)).toEqual(["03"]);
+    }).pipe(Effect.provide(testLayer)),
+  );
+
+  it.effect("keeps the config stream whole and listed under its path on the file system", () =>
+    Effect.gen(function* () {
+      const retention = yield* makeRetention({
+        policies: [{ pattern: PathPattern.make("**"), maxEvents: 1 }],
+      });
+      for (const path of ["scratch/f", "scratch/g"]) {
+        yield* fill(StreamPath.make(path), 2);
+        expect(yield* retention.enforceAll).toBe(1);
+      }
+      expect(yield* audits).toHaveLength(2);
+
+      // The file names map `/` to `_`, so the path has to come back the same from a listing
+      const storage = yield* StreamStorage.StreamStorageManager;
+      expect(yield* storage.listPaths()).toContain(Retention.CONFIG_PATH);
+    }).pipe(
+      Effect.provide(
+        liveLayer.pipe(
+          Layer.provideMerge(
+            Layer.unwrapScoped(
+              Effect.gen(function* () {
+                const fs = yield* FileSystem.FileSystem;
+                return StreamStorage.fileSystemLayer(yield* fs.makeTempDirectoryScoped());
+              }),
+            ),
+          ),
+          Layer.provide(NodeContext.layer),
+        ),
+      ),
+    ),
+  );
+});
@@ -0,0 +1,227 @@
+/**
+ * Retention - dropping old history from streams
+ *
+ * A retention policy caps how much history the streams matching a path pattern keep: by age,
+ * by event count or by encoded size. Policies come from startup config and from
+ * `iterate:retention:policy-set` events on the retention config stream, which override startup
+ * policies for the same pattern. A scheduled pass truncates every matching stream through the
+ * storage manager and records what it dropped as an `iterate:retention:applied` event on the
+ * config stream.
+ *
+ * Processors hydrate from their latest snapshot and replay the events after it, so a pass never
+ * drops an event newer than a snapshot registered for one of them. Without a snapshot of the
+ * processor's current version it replays the whole stream, so nothing is dropped at all.
+ */
+import { Buffer } from "node:buffer";
+
+import { Chunk, DateTime, Duration, Effect, Layer, Option, Schedule, Schema, Stream } from "effect";
+
+import {
+  Event,
+  EventTypeFilter,
+  Offset,
+  PathPattern,
+  StreamMetadata,
+  StreamPath,
+} from "../../domain.js";
+import { RetentionAppliedEvent, RetentionPolicySetEvent } from "../../events.js";
+import { StreamManager } from "../stream-manager/service.js";
+import { StreamStorageError, StreamStorageManager } from "../stream-storage/service.js";
+
+/**
+ * Stream holding `iterate:retention:policy-set` events and the audit trail; never truncated.
+ * No `_` in it: the file system backend turns `/` into `_` in file names and back.
+ */
+export const CONFIG_PATH = StreamPath.make("iterate/retention");
+
+/** How much history streams matching `pattern` keep - see RetentionPolicySetEvent */
+export type RetentionPolicy = RetentionPolicySetEvent["payload"];
+
+const hasLimits = (policy: RetentionPolicy) =>
+  policy.maxAgeMs !== undefined || policy.maxEvents !== undefined || policy.maxBytes !== undefined;
+
+const encodeEvent = Schema.encodeSync(Event);
+
+/** Size an event counts for against `maxBytes` */
+const eventBytes = (event: Event) => Buffer.byteLength(JSON.stringify(encodeEvent(event)));
+
+// -------------------------------------------------------------------------------------
+// Retention
+// -------------------------------------------------------------------------------------
+
+export interface Retention {
+  /** Policies in effect: startup policies, overridden per pattern by the config stream */
+  readonly policies: Effect.Effect<ReadonlyArray<RetentionPolicy>, StreamStorageError>;
+  /** Apply the policies to every matching stream, returns the number of events removed */
+  readonly enforceAll: Effect.Effect<number, StreamStorageError>;
+}
+
+/** A processor's snapshot key and the state version it currently hydrates from */
+export interface SnapshotVersion {
+  readonly key: string;
+  readonly version: number;
+}
+
+/**
+ * Create a retention enforcer. `snapshots` names the processor snapshots that bound how far
+ * a stream may be cut.
+ */
+export const make = (
+  storage: StreamStorageManager,
+  manager: StreamManager["Type"],
+  options?: {
+    policies?: ReadonlyArray<RetentionPolicy>;
+    snapshots?: ReadonlyArray<SnapshotVersion>;
+  },
+): Retention => {
+  const policies = Effect.gen(function* () {
+    const byPattern = new Map<PathPattern, RetentionPolicy>();
+    for (const policy of options?.policies ?? []) byPattern.set(policy.pattern, policy);
+
+    const configured = yield* storage
+      .read({
+        path: CONFIG_PATH,
+        filter: EventTypeFilter.make({ types: [RetentionPolicySetEvent.typeString] }),
+      })
+      .pipe(Stream.runCollect);
+    for (const event of configured) {
+      const policy = RetentionPolicySetEvent.decodeOption(event);
+      if (Option.isSome(policy)) byPattern.set(policy.value.pattern, policy.value);
+    }
+    return [...byPattern.values()].filter(hasLimits);
+  });
+
+  /** Number of leading events the policy wants dropped */
+  const dropCount = (
+    policy: RetentionPolicy,
+    events: ReadonlyArray<Event>,
+    sizes: ReadonlyArray<number>,
+    now: DateTime.Utc,
+  ) => {
+    let drop = 0;
+    if (policy.maxEvents !== undefined) drop = Math.max(drop, events.length - policy.maxEvents);
+    if (policy.maxAgeMs !== undefined) {
+      const cutoff = DateTime.subtract(now, { millis: policy.maxAgeMs });
+      const kept = events.findIndex((event) =>
+        DateTime.greaterThanOrEqualTo(event.createdAt, cutoff),
+      );
+      drop = Math.max(drop, kept === -1 ? events.length : kept);
+    }
+    if (policy.maxBytes !== undefined) {
+      let kept = events.length;
+      let bytes = 0;
+      while (kept > 0 && bytes + sizes[kept - 1]! <= policy.maxBytes) bytes += sizes[--kept]!;
+      drop = Math.max(drop, kept);
+    }
+    return drop;
+  };
+
+  /** Whether a policy may drop anything, judged from the listing alone */
+  const mayDrop = (policy: RetentionPolicy, stream: StreamMetadata, now: DateTime.Utc) =>
+    policy.maxBytes !== undefined ||
+    (policy.maxEvents !== undefined && stream.eventCount > policy.maxEvents) ||
+    (policy.maxAgeMs !== undefined &&
+      DateTime.lessThan(
+        stream.firstCreatedAt,
+        DateTime.subtract(now, { millis: policy.maxAgeMs }),
+      ));
+
+  const enforceStream = (stream: StreamMetadata, matching: ReadonlyArray<RetentionPolicy>) =>
+    Effect.gen(function* () {
+      const { path } = stream;
+      const now = yield* DateTime.now;
+      if (!matching.some((policy) => mayDrop(policy, stream, now))) return 0;
+
+      const events = Chunk.toReadonlyArray(yield* storage.read({ path }).pipe(Stream.runCollect));
+      const sizes = events.map(eventBytes);
+
+      const wanted = matching
+        .map((policy) => ({ policy, drop: dropCount(policy, events, sizes, now) }))
+        .filter(({ drop }) => drop > 0);
+      // The head is always kept, so the stream never reuses an offset
+      let drop = Math.min(Math.max(0, ...wanted.map(({ drop }) => drop)), events.length - 1);
+
+      let heldBackBy: string | undefined;
+      for (const { key, version } of options?.snapshots ?? []) {
+        // Hydration ignores snapshots of other versions and replays from the start without one
+        const snapshot = Option.filter(
+          yield* storage.readSnapshot({ path, key }),
+          (snapshot) => snapshot.version === version,
+        );
+        const needed = Option.match(snapshot, {
+          onNone: () => 0,
+          onSome: ({ offset }) => events.findIndex((event) => Offset.gt(event.offset, offset)),
+        });
+        const limit = needed === -1 ? events.length : needed;
+        if (limit < drop) {
+          drop = limit;
+          heldBackBy = key;
+        }
+      }
+      if (heldBackBy !== undefined) {
+        yield* Effect.logWarning(
+          `retention on path=${path} held back by the ${heldBackBy} snapshot`,
+        );
+      }
+      if (drop <= 0) return 0;
+
+      const removed = yield* storage.truncateStream({ path, before: events[drop]!.offset });
+      yield* manager
+        .append({
+          path: CONFIG_PATH,
+          event: RetentionAppliedEvent.make({
+            path,
+            patterns: wanted.map(({ policy }) => policy.pattern),
+            from: events[0]!.offset,
+            to: events[drop - 1]!.offset,
+            count: removed,
+            bytes: sizes.slice(0, drop).reduce((sum, size) => sum + size, 0),
+            ...(heldBackBy !== undefined && { heldBackBy }),
+          }),
+        })
+        .pipe(Effect.orDie);
+      return removed;
+    }).pipe(Effect.withSpan("Retention.enforceStream", { attributes: { path: stream.path } }));
+
+  const enforceAll = Effect.gen(function* () {
+    const active = yield* policies;
+    if (active.length === 0) return 0;
+
+    let removed = 0;
+    for (const stream of yield* storage.listStreams({})) {
+      if (stream.path === CONFIG_PATH) continue;
+      const matching = active.filter((policy) => PathPattern.matcher(policy.pattern)(stream.path));
+      if (matching.length > 0) removed += yield* enforceStream(stream, matching);
+    }
+    return removed;
+  });
+
+  return { policies, enforceAll };
+};
+
+// -------------------------------------------------------------------------------------
+// Layer
+// -------------------------------------------------------------------------------------
+
+/**
+ * Enforce retention in the background, once per `interval` (default 1 hour).
+ * Failed passes are logged and retried on the next one.
+ */
+export const layer = (options?: {
+  policies?: ReadonlyArray<RetentionPolicy>;
+  snapshots?: ReadonlyArray<SnapshotVersion>;
+  interval?: Duration.DurationInput;
+}): Layer.Layer<never, never, StreamStorageManager | StreamManager> =>
+  Layer.scopedDiscard(
+    Effect.gen(function* () {
+      const retention = make(yield* StreamStorageManager, yield* StreamManager, options);
+      yield* retention.enforceAll.pipe(
+        Effect.tap((removed) =>
+          removed > 0 ? Effect.logInfo(`retention removed ${removed} events`) : Effect.void,
+        ),
+        Effect.catchAllCause((cause) => Effect.logError("retention failed", cause)),
+        Effect.repeat(Schedule.spaced(options?.interval ?? Duration.hours(1))),
+        Effect.forkScoped,
+      );
+    }),
+  );
@@ -1,10 +1,18 @@
 /**
  * Live implementation of StreamClient
  */
-import { HttpClient, HttpClientRequest } from "@effect/platform";
+import { HttpClient, HttpClientRequest, HttpClientResponse } from "@effect/platform";
 import { Effect, Layer, Schema, Stream } from "effect";
 
-import { Event, type EventInput, type Offset, type StreamPath } from "../../domain.js";
+import {
+  Event,
+  type EventInput,
+  type EventTypeFilter,
+  type GlobalOffset,
+  type Offset,
+  type PathPattern,
+  type StreamPath,
+} from "../../domain.js";
 import { StreamClient, StreamClientConfig, StreamClientError } from "./service.js";
 
 // -------------------------------------------------------------------------------------
@@ -15,20 +23,25 @@ export const make = (config: StreamClientConfig) =>
   Effect.gen(function* () {
     const client = yield* HttpClient.HttpClient;
 
-    const subscribe = (input: {
-      path: StreamPath;
-      after?: Offset;
-      live?: boolean;
-    }): Stream.Stream<Event, StreamClientError> =>
+    const subscribe = (
+      input:
+        | { path: StreamPath; after?: Offset; live?: boolean; filter?: EventTypeFilter }
+        | { pattern: PathPattern; after?: GlobalOffset; live?: boolean; filter?: EventTypeFilter },
+    ): Stream.Stream<Event, StreamClientError> =>
       Stream.unwrap(
         Effect.gen(function* () {
           const params = new URLSearchParams();
           if (input.after) params.set("offset", input.after);
           if (input.live) params.set("live", "true");
+          if (input.filter?.types?.length) params.set("types", input.filter.types.join(","));
+          if (input.filter?.excludeTypes?.length) {
+            params.set("excludeTypes", input.filter.excludeTypes.join(","));
+          }
           const query = params.toString();
+          const target = "pattern" in input ? input.pattern : input.path;
           const url = query
-            ? `${config.baseUrl}/agents/${input.path}?${query}`
-            : `${config.baseUrl}/agents/${input.path}`;
+            ? `${config.baseUrl}/agents/${target}?${query}`
+            : `${config.baseUrl}/agents/${target}`;
           const response = yield* client.execute(HttpClientRequest.get(url));
 
           return response.stream.pipe(
@@ -49,7 +62,8 @@ export const make = (config: StreamClientConfig) =>
           ),
         )
         .pipe(
-          Effect.asVoid,
+          Effect.flatMap(HttpClientResponse.filterStatusOk),
+          Effect.flatMap(HttpClientResponse.schemaBodyJson(Event)),
           Effect.mapError((cause) => StreamClientError.make({ operation: "append", cause })),
         );
 
@@ -3,7 +3,15 @@
  */
 import { Context, Effect, Schema, Stream } from "effect";
 
-import type { Event, EventInput, Offset, StreamPath } from "../../domain.js";
+import type {
+  Event,
+  EventInput,
+  EventTypeFilter,
+  GlobalOffset,
+  Offset,
+  PathPattern,
+  StreamPath,
+} from "../../domain.js";
 
 // -------------------------------------------------------------------------------------
 // Errors
@@ -33,16 +41,20 @@ export class StreamClient extends Context.Tag("@app/StreamClient")<
      * Subscribe to events on a stream.
      * @param after - Last seen offset (exclusive). Returns events with offset > after.
      * @param live - If true, continues with live events after history. Default: false (history only).
+     * With `pattern` instead of `path`, events from every matching stream are interleaved and
+     * `after` is a globalOffset.
+     * @param filter - Server-side event type filter (`types` / `excludeTypes`, `*` suffix = prefix).
      */
-    readonly subscribe: (input: {
-      path: StreamPath;
-      after?: Offset;
-      live?: boolean;
-    }) => Stream.Stream<Event, StreamClientError>;
+    readonly subscribe: (
+      input:
+        | { path: StreamPath; after?: Offset; live?: boolean; filter?: EventTypeFilter }
+        | { pattern: PathPattern; after?: GlobalOffset; live?: boolean; filter?: EventTypeFilter },
+    ) => Stream.Stream<Event, StreamClientError>;
 
+    /** Append an event, returns the stored event with its assigned offset */
     readonly append: (input: {
       path: StreamPath;
       event: EventInput;
-    }) => Effect.Effect<void, StreamClientError>;
+    }) => Effect.Effect<Event, StreamClientError>;
   }
 >() {}
@@ -2,14 +2,66 @@
  * EventStream - single stream with history and replay
  *
  * Boot: reads history → reduces to derived state (current offset)
- * EventStream owns offset management, storage is dumb (just persists Events)
+ * EventStream owns offset management, storage is dumb (just persists Events). When storage is
+ * shared with other processes it rejects offsets another writer already took, and the stream
+ * catches up from storage before proposing new ones.
  */
-import { DateTime, Effect, PubSub, Schema, Stream } from "effect";
+import { Chunk, DateTime, Effect, Option, PubSub, Schema, Stream } from "effect";
 
-import { Event, EventInput, Offset, StreamPath } from "../../domain.js";
+import {
+  Event,
+  EventInput,
+  EventTypeFilter,
+  IdempotencyKey,
+  Offset,
+  Snapshot,
+  StreamPath,
+} from "../../domain.js";
+import { EventRegistry, EventValidationError, StreamTombstoneEvent } from "../../events.js";
 import { StreamStorage } from "../stream-storage/service.js";
 import { fromCurrentSpan } from "../../tracing/helpers.js";
 
+// -------------------------------------------------------------------------------------
+// Errors
+// -------------------------------------------------------------------------------------
+
+/** The stream head moved past the offset the writer expected to append after */
+export class OffsetConflictError extends Schema.TaggedError<OffsetConflictError>()(
+  "OffsetConflictError",
+  {
+    path: StreamPath,
+    expectedOffset: Offset,
+    currentOffset: Offset,
+  },
+) {}
+
+/** An import without offset remapping targeted a path that already has events */
+export class StreamNotEmptyError extends Schema.TaggedError<StreamNotEmptyError>()(
+  "StreamNotEmptyError",
+  {
+    path: StreamPath,
+    headOffset: Offset,
+  },
+) {}
+
+/** A fork named a source path that has no events */
+export class StreamNotFoundError extends Schema.TaggedError<StreamNotFoundError>()(
+  "StreamNotFoundError",
+  {
+    path: StreamPath,
+  },
+) {}
+
+/** A fork point past the newest event of its source */
+export class OffsetBeyondHeadError extends Schema.TaggedError<OffsetBeyondHeadError>()(
+  "OffsetBeyondHeadError",
+  {
+    path: StreamPath,
+    offset: Offset,
+    headOffset: Offset,
+  },
+) {}
+
 // -------------------------------------------------------------------------------------
 // State (derived from event history)
 // -------------------------------------------------------------------------------------
@@ -22,23 +74,112 @@ class State extends Schema.Class<State>("EventStream/State")({
 
 const reduce = (_state: State, event: Event): State => new State({ lastOffset: event.offset });
 
-const formatOffset = (n: number): Offset => Offset.make(n.toString().padStart(16, "0"));
-
 const offsetToNumber = (offset: Offset): number => parseInt(offset, 10);
 
+/**
+ * Migrate an event read from storage to the current version of its type, so readers and
+ * processors see the current payload shape. An event that fails to migrate is passed on as
+ * stored (and so won't match `EventSchema.is`).
+ */
+export const upcast = (event: Event): Effect.Effect<Event> =>
+  EventRegistry.upcast(event).pipe(
+    Effect.catchAll((error) =>
+      Effect.logWarning("event migration failed", error).pipe(Effect.as(event)),
+    ),
+  );
+
 // -------------------------------------------------------------------------------------
 // EventStream interface
 // -------------------------------------------------------------------------------------
 
 export interface EventStream {
-  /** Subscribe to live events on this path, optionally starting after an offset */
-  readonly subscribe: (options?: { from?: Offset }) => Stream.Stream<Event>;
+  /**
+   * Subscribe to live events on this path, optionally starting after an offset.
+   * A type filter applies to both history (in storage) and live events.
+   */
+  readonly subscribe: (options?: {
+    from?: Offset;
+    filter?: EventTypeFilter;
+  }) => Stream.Stream<Event>;
 
   /** Read historical events on this path, optionally within a range */
-  readonly read: (options?: { from?: Offset; to?: Offset }) => Stream.Stream<Event>;
+  readonly read: (options?: {
+    from?: Offset;
+    to?: Offset;
+    filter?: EventTypeFilter;
+  }) => Stream.Stream<Event>;
+
+  /**
+   * Append an event to this path, returns the stored event with assigned offset.
+   * Fails with EventValidationError if the event breaks a schema registered for its type.
+   * @param expectedOffset - Only append if the current head is still at this offset
+   *   ("-1" for an empty stream). Fails with OffsetConflictError otherwise.
+   */
+  readonly append: {
+    (event: EventInput): Effect.Effect<Event, EventValidationError>;
+    (
+      event: EventInput,
+      options: AppendOptions,
+    ): Effect.Effect<Event, OffsetConflictError | EventValidationError>;
+  };
+
+  /**
+   * Append several events as one atomic unit with consecutive offsets.
+   * Subscribers only see the batch once storage has committed all of it.
+   */
+  readonly appendAll: {
+    (events: ReadonlyArray<EventInput>): Effect.Effect<ReadonlyArray<Event>, EventValidationError>;
+    (
+      events: ReadonlyArray<EventInput>,
+      options: AppendOptions,
+    ): Effect.Effect<ReadonlyArray<Event>, OffsetConflictError | EventValidationError>;
+  };
+
+  /**
+   * Store events exported from another stream (or another server), keeping their createdAt
+   * and trace. Without `remap` the events keep their offsets too, and the import fails with
+   * StreamNotEmptyError unless this path is empty. With `remap` they get consecutive offsets
+   * after the current head, and an idempotency key already stored resolves to that event.
+   */
+  readonly importAll: (
+    events: ReadonlyArray<Event>,
+    options?: { remap?: boolean },
+  ) => Effect.Effect<ReadonlyArray<Event>, StreamNotEmptyError | EventValidationError>;
+
+  /** Latest snapshot stored under a key on this path */
+  readonly loadSnapshot: (key: string) => Effect.Effect<Option.Option<Snapshot>>;
 
-  /** Append an event to this path, returns the stored event with assigned offset */
-  readonly append: (event: EventInput) => Effect.Effect<Event>;
+  /** Store encoded state folded up to `offset`, replacing the previous snapshot for the key */
+  readonly saveSnapshot: (snapshot: Omit<Snapshot, "path" | "createdAt">) => Effect.Effect<void>;
+}
+
+export interface AppendOptions {
+  readonly expectedOffset?: Offset | undefined;
+}
+
+/**
+ * The EventStream as held by StreamManager, which can also close it when the stream is
+ * deleted or truncated.
+ */
+export interface ClosableEventStream extends EventStream {
+  /**
+   * Run a destructive storage operation under the append lock, then publish a tombstone
+   * that ends live subscriptions. The instance rejects appends afterwards.
+   * Returns the operation's result and the tombstone event.
+   */
+  readonly close: <A, E>(
+    tombstone: StreamTombstoneEvent["payload"],
+    operation: Effect.Effect<A, E>,
+  ) => Effect.Effect<readonly [A, Event], E>;
+
+  /**
+   * Take in events another process appended to this path, so later offsets follow them and
+   * live subscribers see them. Events at or below the current head are ignored.
+   */
+  readonly ingest: (events: ReadonlyArray<Event>) => Effect.Effect<void>;
+
+  /** Offset of the newest event on this path ("-1" while it has none) */
+  readonly headOffset: Effect.Effect<Offset>;
 }
 
 // -------------------------------------------------------------------------------------
@@ -51,31 +192,224 @@ export interface EventStream {
  * Mirrors the Processor pattern: State class, reduce function, boot from history.
  * Key difference: Processors react to events via their subscribe loop, but
  * EventStream can't subscribe to itself (circular). Instead, EventStream reacts
- * to events in `append` - after storage.write, we update state and publish.
+ * to events in `appendAll` - after storage commits, we update state and publish.
  *
  * The `subscribe` method here is the inverse - it's "respond to a subscriber",
  * not "subscribe to something". Like Cloudflare Workers' `fetch` handler.
  */
-export const make = (storage: StreamStorage, path: StreamPath): Effect.Effect<EventStream> =>
+export const make = (
+  storage: StreamStorage,
+  path: StreamPath,
+  hooks?: {
+    /** Called with events about to be stored; a failure rejects the whole append */
+    validate?: (events: ReadonlyArray<EventInput>) => Effect.Effect<void, EventValidationError>;
+    /** Called with newly stored events after commit (not with idempotent replays) */
+    onAppend?: (events: ReadonlyArray<Event>) => Effect.Effect<void>;
+  },
+): Effect.Effect<ClosableEventStream> =>
   Effect.gen(function* () {
-    // Boot: hydrate offset from history
-    let state = yield* storage.read().pipe(Stream.runFold(State.initial, reduce));
+    // Stored events by idempotency key, so retried appends resolve to the original
+    const storedByKey = new Map<IdempotencyKey, Event>();
+    const rememberKey = (event: Event) => {
+      if (event.idempotencyKey !== undefined) storedByKey.set(event.idempotencyKey, event);
+    };
+
+    // Boot: hydrate offset and idempotency keys from history
+    let state = yield* storage.read().pipe(
+      Stream.tap((event) => Effect.sync(() => rememberKey(event))),
+      Stream.runFold(State.initial, reduce),
+    );
 
     const pubsub = yield* PubSub.unbounded<Event>();
 
-    const append = (eventInput: EventInput) =>
+    // Appends are serialized so the expectedOffset check and offset assignment are atomic
+    const appendLock = yield* Effect.makeSemaphore(1);
+
+    // Set once the stream is deleted or truncated - a fresh EventStream takes over the path
+    let closed = false;
+
+    // Each input resolves either to an already stored event (idempotent retry, or a key
+    // repeated earlier in this batch) or to an index into the events we're about to write
+    const resolveKeys = <I extends EventInput>(inputs: ReadonlyArray<I>) => {
+      const fresh: I[] = [];
+      const freshIndexByKey = new Map<IdempotencyKey, number>();
+      const slots = inputs.map((input): Event | number => {
+        const key = input.idempotencyKey;
+        if (key !== undefined) {
+          const stored = storedByKey.get(key);
+          if (stored) return stored;
+          const index = freshIndexByKey.get(key);
+          if (index !== undefined) return index;
+          freshIndexByKey.set(key, fresh.length);
+        }
+        fresh.push(input);
+        return fresh.length - 1;
+      });
+      return { fresh, slots };
+    };
+
+    // Must run under the append lock
+    const ingestUnlocked = (events: ReadonlyArray<Event>) =>
+      Effect.suspend(() => {
+        const unseen = events.filter(
+          (event) => offsetToNumber(event.offset) > offsetToNumber(state.lastOffset),
+        );
+        state = unseen.reduce(reduce, state);
+        unseen.forEach(rememberKey);
+        return PubSub.publishAll(pubsub, unseen).pipe(Effect.asVoid);
+      });
+
+    // Offsets are proposed from the local head. If another process appended first, storage
+    // rejects the batch; we catch up on what it wrote and propose again, which reports an
+    // OffsetConflictError when the caller expected the old head.
+    const commit = (
+      fresh: ReadonlyArray<EventInput>,
+      options?: AppendOptions,
+    ): Effect.Effect<ReadonlyArray<Event>, OffsetConflictError> =>
       Effect.gen(function* () {
-        const nextOffset = formatOffset(offsetToNumber(state.lastOffset) + 1);
+        if (
+          options?.expectedOffset !== undefined &&
+          offsetToNumber(options.expectedOffset) !== offsetToNumber(state.lastOffset)
+        ) {
+          return yield* OffsetConflictError.make({
+            path,
+            expectedOffset: options.expectedOffset,
+            currentOffset: state.lastOffset,
+          });
+        }
+
+        const firstOffset = offsetToNumber(state.lastOffset) + 1;
         const createdAt = yield* DateTime.now;
         const trace = yield* fromCurrentSpan;
-        const event = Event.make({ ...eventInput, path, offset: nextOffset, createdAt, trace });
+        const events = fresh.map((eventInput, i) =>
+          Event.make({
+            ...eventInput,
+            path,
+            offset: Offset.fromNumber(firstOffset + i),
+            createdAt,
+            trace,
+          }),
+        );
 
-        yield* storage.append(event);
-        state = reduce(state, event);
-        yield* PubSub.publish(pubsub, event);
-        return event;
+        // Storage returns the events with their globalOffset assigned
+        return yield* storage
+          .appendAll(events)
+          .pipe(
+            Effect.catchTag("OffsetTakenError", (error) =>
+              catchUp(error.headOffset).pipe(Effect.zipRight(commit(fresh, options))),
+            ),
+          );
       });
 
+    // Take in what another process appended up to `headOffset`. Must run under the append lock
+    const catchUp = (headOffset: Offset) =>
+      Effect.gen(function* () {
+        const missed = yield* storage.read({ from: state.lastOffset }).pipe(Stream.runCollect);
+        yield* ingestUnlocked(Chunk.toReadonlyArray(missed));
+        // The head may be gone from reads (truncated concurrently), never reuse it
+        if (offsetToNumber(headOffset) > offsetToNumber(state.lastOffset)) {
+          state = new State({ lastOffset: headOffset });
+        }
+      });
+
+    const store = (
+      events: ReadonlyArray<Event>,
+      remap: boolean,
+    ): Effect.Effect<ReadonlyArray<Event>, StreamNotEmptyError> =>
+      Effect.gen(function* () {
+        if (!remap && offsetToNumber(state.lastOffset) !== -1) {
+          return yield* StreamNotEmptyError.make({ path, headOffset: state.lastOffset });
+        }
+        const firstOffset = offsetToNumber(state.lastOffset) + 1;
+        const imported = events.map((event, i) =>
+          Event.make({
+            ...event,
+            path,
+            offset: remap ? Offset.fromNumber(firstOffset + i) : event.offset,
+            globalOffset: undefined,
+          }),
+        );
+        return yield* storage
+          .appendAll(imported)
+          .pipe(
+            Effect.catchTag("OffsetTakenError", (error) =>
+              catchUp(error.headOffset).pipe(Effect.zipRight(store(events, remap))),
+            ),
+          );
+      });
+
+    const importAll = (events: ReadonlyArray<Event>, options?: { remap?: boolean }) =>
+      Effect.gen(function* () {
+        if (closed) {
+          return yield* Effect.dieMessage(`EventStream for ${path} was closed`);
+        }
+        if (events.length === 0) return [];
+
+        // A remapped import lands after the path's own events, so its keys resolve like an
+        // append's. Otherwise the path is empty and the events keep their offsets.
+        const remap = options?.remap ?? false;
+        const { fresh, slots } = remap
+          ? resolveKeys(events)
+          : { fresh: events, slots: events.map((_, i) => i) };
+        if (fresh.length === 0) return slots as Event[];
+
+        if (hooks?.validate) yield* hooks.validate(fresh);
+
+        const stored = yield* store(fresh, remap);
+        state = stored.reduce(reduce, state);
+        stored.forEach(rememberKey);
+        yield* PubSub.publishAll(pubsub, stored);
+        if (hooks?.onAppend) yield* hooks.onAppend(stored);
+        return slots.map((slot) => (typeof slot === "number" ? stored[slot]! : slot));
+      }).pipe(appendLock.withPermits(1));
+
+    const appendAll = (
+      eventInputs: ReadonlyArray<EventInput>,
+      options?: AppendOptions,
+    ): Effect.Effect<ReadonlyArray<Event>, OffsetConflictError | EventValidationError> =>
+      Effect.gen(function* () {
+        if (closed) {
+          return yield* Effect.dieMessage(`EventStream for ${path} was closed`);
+        }
+
+        const { fresh, slots } = resolveKeys(eventInputs);
+
+        // A pure replay succeeds even though the head has moved since the original append
+        if (eventInputs.length > 0 && fresh.length === 0) {
+          return slots as Event[];
+        }
+
+        if (hooks?.validate) yield* hooks.validate(fresh);
+
+        const stored = yield* commit(fresh, options);
+        state = stored.reduce(reduce, state);
+        stored.forEach(rememberKey);
+        yield* PubSub.publishAll(pubsub, stored);
+        if (hooks?.onAppend) yield* hooks.onAppend(stored);
+        return slots.map((slot) => (typeof slot === "number" ? stored[slot] : slot));
+      }).pipe(appendLock.withPermits(1));
+
+    const append = (eventInput: EventInput, options?: AppendOptions) =>
+      appendAll([eventInput], options ?? {}).pipe(Effect.map((events) => events[0]));
+
+    const close = <A, E>(
+      tombstone: StreamTombstoneEvent["payload"],
+      operation: Effect.Effect<A, E>,
+    ) =>
+      Effect.gen(function* () {
+        const result = yield* operation;
+        closed = true;
+        const event = Event.make({
+          ...StreamTombstoneEvent.make(tombstone),
+          path,
+          offset: state.lastOffset,
+          createdAt: yield* DateTime.now,
+          trace: yield* fromCurrentSpan,
+        });
+        yield* PubSub.publish(pubsub, event);
+        return [result, event] as const;
+      }).pipe(appendLock.withPermits(1));
+
     // Handle subscription requests by combining historical + live events.
     //
     // Race condition we're avoiding: while reading historical events, new events
@@ -85,28 +419,62 @@ export const make = (storage: StreamStorage, path: StreamPath): Effect.Effect<Ev
     // Solution: subscribe to pubsub FIRST (so we don't miss anything), read
     // historical while tracking the last offset seen, then dropWhile on live
     // to skip any events we already emitted from historical.
-    const beSubscribedTo = (options?: { from?: Offset }) =>
+    //
+    // A type filter is pushed into the storage read and applied to live events in memory.
+    // Filtered-out history never advances lastOffset, but those events are also filtered
+    // out of live, so the dedup stays correct.
+    //
+    // A tombstone bypasses both the filter and the dedup (it reuses the head offset) and
+    // ends the subscription after being emitted.
+    const beSubscribedTo = (options?: { from?: Offset; filter?: EventTypeFilter }) =>
       Stream.unwrapScoped(
         Effect.gen(function* () {
           let lastOffset = options?.from ?? Offset.make("-1");
+          const filter = options?.filter;
+          const matches = EventTypeFilter.matcher(filter);
 
           const queue = yield* PubSub.subscribe(pubsub);
           const liveStream = Stream.fromQueue(queue);
 
           const trackedHistorical = storage
-            .read({ from: lastOffset })
+            .read({ from: lastOffset, ...(filter !== undefined && { filter }) })
             .pipe(Stream.tap((event) => Effect.sync(() => (lastOffset = event.offset))));
 
           const dedupedLive = liveStream.pipe(
-            Stream.dropWhile((event) => Offset.lte(event.offset, lastOffset)),
+            Stream.filter((event) => StreamTombstoneEvent.is(event) || matches(event.type)),
+            Stream.dropWhile(
+              (event) => !StreamTombstoneEvent.is(event) && Offset.lte(event.offset, lastOffset),
+            ),
+            Stream.takeUntil((event) => StreamTombstoneEvent.is(event)),
           );
 
-          return Stream.concat(trackedHistorical, dedupedLive);
+          return Stream.concat(trackedHistorical, dedupedLive).pipe(Stream.mapEffect(upcast));
         }),
       ).pipe(Stream.catchAllCause(() => Stream.empty));
 
-    const read = (options?: { from?: Offset; to?: Offset }) =>
-      storage.read(options).pipe(Stream.catchAllCause(() => Stream.empty));
+    const read = (options?: { from?: Offset; to?: Offset; filter?: EventTypeFilter }) =>
+      storage.read(options).pipe(
+        Stream.mapEffect(upcast),
+        Stream.catchAllCause(() => Stream.empty),
+      );
+
+    const saveSnapshot = (snapshot: Omit<Snapshot, "path" | "createdAt">) =>
+      DateTime.now.pipe(
+        Effect.flatMap((createdAt) =>
+          storage.writeSnapshot(new Snapshot({ ...snapshot, path, createdAt })),
+        ),
+      );
 
-    return { append, subscribe: beSubscribedTo, read };
+    return {
+      append: append as EventStream["append"],
+      appendAll: appendAll as EventStream["appendAll"],
+      importAll,
+      subscribe: beSubscribedTo,
+      read,
+      loadSnapshot: storage.readSnapshot,
+      saveSnapshot,
+      close,
+      ingest: (events) => ingestUnlocked(events).pipe(appendLock.withPermits(1)),
+      headOffset: Effect.sync(() => state.lastOffset),
+    };
   });
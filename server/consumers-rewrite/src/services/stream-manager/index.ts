@@ -7,6 +7,12 @@ export { StreamManager } from "./service.js";
 
 // Re-export EventStream namespace
 export * as EventStream from "./eventStream.js";
+export {
+  OffsetBeyondHeadError,
+  OffsetConflictError,
+  StreamNotEmptyError,
+  StreamNotFoundError,
+} from "./eventStream.js";
 
 // Re-export layers
 export { liveLayer } from "./live.js";
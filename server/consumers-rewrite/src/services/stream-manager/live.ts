@@ -1,85 +1,333 @@
 /**
  * Live implementation of StreamManager
  */
-import { Effect, Layer, PubSub, Stream } from "effect";
+import { Chunk, DateTime, Effect, Layer, PubSub, Stream } from "effect";
 
-import { Event, EventInput, Offset, StreamPath } from "../../domain.js";
-import { StreamStorageManager } from "../stream-storage/service.js";
+import {
+  Event,
+  EventInput,
+  EventTypeFilter,
+  GlobalOffset,
+  Offset,
+  PathPattern,
+  Payload,
+  StreamPath,
+} from "../../domain.js";
+import {
+  SchemaRegisteredEvent,
+  StreamForkedFromEvent,
+  StreamTombstoneEvent,
+} from "../../events.js";
+import { fromCurrentSpan } from "../../tracing/helpers.js";
+import { StreamStorageError, StreamStorageManager } from "../stream-storage/service.js";
 import * as EventStream from "./eventStream.js";
+import * as SchemaRegistrations from "./schemaRegistrations.js";
 import { StreamManager } from "./service.js";
 
 // -------------------------------------------------------------------------------------
 // StreamManager layer
 // -------------------------------------------------------------------------------------
 
-export const liveLayer: Layer.Layer<StreamManager, never, StreamStorageManager> = Layer.effect(
+export const liveLayer: Layer.Layer<StreamManager, never, StreamStorageManager> = Layer.scoped(
   StreamManager,
   Effect.gen(function* () {
     const storageManager = yield* StreamStorageManager;
-    const streams = new Map<StreamPath, EventStream.EventStream>();
+    const streams = new Map<StreamPath, EventStream.ClosableEventStream>();
 
     // Global PubSub for all events (used for "all paths" subscriptions)
     const globalPubSub = yield* PubSub.unbounded<Event>();
 
+    // Creation is serialized so concurrent callers never hydrate two EventStreams for one path
+    const createLock = yield* Effect.makeSemaphore(1);
+
+    // Schemas registered with events apply across paths (subtree scope), so they are
+    // tracked here rather than per EventStream
+    const registrationFilter = { types: [SchemaRegisteredEvent.type] };
+    const schemaRegistrations = SchemaRegistrations.make();
+    yield* storageManager.readAll({ filter: registrationFilter }).pipe(
+      Stream.runForEach((event) => Effect.sync(() => schemaRegistrations.add([event]))),
+      Effect.catchAllCause((cause) =>
+        Effect.logError("loading schema registrations failed", cause),
+      ),
+    );
+
+    const makeStream = (path: StreamPath) =>
+      EventStream.make(storageManager.forPath(path), path, {
+        validate: (events) => schemaRegistrations.validate(path, events),
+        onAppend: (events) =>
+          Effect.gen(function* () {
+            schemaRegistrations.add(events);
+            // Fan out to "all paths" subscribers
+            yield* PubSub.publishAll(globalPubSub, events);
+          }),
+      });
+
+    // Appends committed by other processes sharing the storage reach this process's
+    // subscribers the same way local ones do. Paths without a cached EventStream hydrate
+    // from storage when first used, so only cached ones need to take the events in.
+    yield* storageManager.externalAppends.pipe(
+      Stream.runForEach((event) =>
+        Effect.gen(function* () {
+          schemaRegistrations.add([event]);
+          const stream = streams.get(event.path);
+          if (stream) yield* stream.ingest([event]);
+          yield* PubSub.publish(globalPubSub, event);
+        }),
+      ),
+      Effect.catchAllCause((cause) => Effect.logError("receiving external appends failed", cause)),
+      Effect.forkScoped,
+    );
+
     const getOrCreateStream = Effect.fn("StreamManager.getOrCreateStream")(function* (
       path: StreamPath,
     ) {
       const existing = streams.get(path);
       if (existing) return existing;
 
-      const storage = storageManager.forPath(path);
-      const stream = yield* EventStream.make(storage, path);
-      streams.set(path, stream);
-      return stream;
+      return yield* Effect.gen(function* () {
+        const created = streams.get(path);
+        if (created) return created;
+
+        const stream = yield* makeStream(path);
+        streams.set(path, stream);
+        return stream;
+      }).pipe(createLock.withPermits(1));
     });
 
+    // Removes events in storage, then evicts the cached EventStream so the next caller
+    // hydrates from what is left. The tombstone closes the path's live subscriptions and is
+    // fanned out to "all paths" subscribers (processors use it to restart).
+    const closeStream = <A>(
+      path: StreamPath,
+      tombstone: StreamTombstoneEvent["payload"],
+      operation: Effect.Effect<A, StreamStorageError>,
+    ) =>
+      Effect.gen(function* () {
+        const stream = streams.get(path) ?? (yield* makeStream(path));
+        const [result, event] = yield* stream.close(tombstone, operation);
+        streams.delete(path);
+        const remaining = yield* storageManager
+          .read({ path, filter: registrationFilter })
+          .pipe(Stream.runCollect);
+        schemaRegistrations.reset(path, Chunk.toReadonlyArray(remaining));
+        yield* PubSub.publish(globalPubSub, event);
+        return result;
+      }).pipe(createLock.withPermits(1));
+
+    const deleteStream = (path: StreamPath) =>
+      closeStream(path, { reason: "deleted" }, storageManager.deleteStream(path)).pipe(
+        Effect.withSpan("StreamManager.deleteStream"),
+      );
+
+    const truncateStream = ({ path, before }: { path: StreamPath; before: Offset }) =>
+      closeStream(
+        path,
+        { reason: "truncated", before },
+        storageManager.truncateStream({ path, before }),
+      ).pipe(Effect.withSpan("StreamManager.truncateStream"));
+
     const forPath = (path: StreamPath) => getOrCreateStream(path);
 
     const append = Effect.fn("StreamManager.append")(function* ({
       path,
       event,
+      expectedOffset,
     }: {
       path: StreamPath;
       event: EventInput;
+      expectedOffset?: Offset | undefined;
     }) {
       const stream = yield* getOrCreateStream(path);
-      const storedEvent = yield* stream.append(event);
+      return yield* stream.append(event, { expectedOffset });
+    });
 
-      // Also publish to global PubSub for "all paths" subscribers
-      yield* PubSub.publish(globalPubSub, storedEvent);
+    const appendAll = Effect.fn("StreamManager.appendAll")(function* ({
+      path,
+      events,
+      expectedOffset,
+    }: {
+      path: StreamPath;
+      events: ReadonlyArray<EventInput>;
+      expectedOffset?: Offset | undefined;
+    }) {
+      const stream = yield* getOrCreateStream(path);
+      return yield* stream.appendAll(events, { expectedOffset });
+    });
 
-      return storedEvent;
+    const importAll = Effect.fn("StreamManager.importAll")(function* ({
+      path,
+      events,
+      remap,
+    }: {
+      path: StreamPath;
+      events: ReadonlyArray<Event>;
+      remap?: boolean;
+    }) {
+      const stream = yield* getOrCreateStream(path);
+      return yield* stream.importAll(events, { ...(remap !== undefined && { remap }) });
+    });
+
+    // The fork is written as one import, so its processors only ever see the whole prefix
+    const fork = Effect.fn("StreamManager.fork")(function* ({
+      path,
+      at,
+      to,
+    }: {
+      path: StreamPath;
+      at: Offset;
+      to: StreamPath;
+    }) {
+      const source = yield* getOrCreateStream(path);
+      const headOffset = yield* source.headOffset;
+      if (headOffset === Offset.make("-1"))
+        return yield* EventStream.StreamNotFoundError.make({ path });
+      if (Offset.gt(at, headOffset)) {
+        return yield* EventStream.OffsetBeyondHeadError.make({ path, offset: at, headOffset });
+      }
+
+      const prefix = Chunk.toReadonlyArray(yield* source.read({ to: at }).pipe(Stream.runCollect));
+      // Copies follow the forked-from event, so payload fields pointing at a copied event
+      // (e.g. requestOffset) move with it
+      const renumbered = new Map(
+        prefix.map((event, i) => [event.offset, Offset.fromNumber(i + 1)]),
+      );
+      const renumber = (payload: Payload) =>
+        Object.fromEntries(
+          Object.entries(payload).map(([key, value]) => [
+            key,
+            key.endsWith("Offset") ? (renumbered.get(value as Offset) ?? value) : value,
+          ]),
+        );
+      const copies = prefix.map((event) =>
+        Event.make({
+          ...event,
+          payload: renumber(event.payload),
+          offset: renumbered.get(event.offset)!,
+        }),
+      );
+      const forkedFrom = Event.make({
+        ...StreamForkedFromEvent.make({ source: path, at, copied: copies.length }),
+        path: to,
+        offset: Offset.fromNumber(0),
+        createdAt: yield* DateTime.now,
+        trace: yield* fromCurrentSpan,
+      });
+      const target = yield* getOrCreateStream(to);
+      return yield* target.importAll([forkedFrom, ...copies]);
     });
 
-    const beSubscribedTo = ({ path, from }: { path?: StreamPath; from?: Offset }) => {
-      if (path !== undefined) {
+    // Events pass through unless a pattern is given and their path doesn't match it
+    const filterPattern = (pattern: PathPattern | undefined) => {
+      if (pattern === undefined) return <E>(stream: Stream.Stream<Event, E>) => stream;
+      const matches = PathPattern.matcher(pattern);
+      return <E>(stream: Stream.Stream<Event, E>) =>
+        stream.pipe(Stream.filter((event) => matches(event.path)));
+    };
+
+    const beSubscribedTo = (
+      input:
+        | { path: StreamPath; from?: Offset; filter?: EventTypeFilter }
+        | { path?: never; pattern?: PathPattern; from?: GlobalOffset; filter?: EventTypeFilter },
+    ) => {
+      if (input.path !== undefined) {
+        const { path, from, filter } = input;
         // Single path subscription
         return Stream.unwrap(
           Effect.gen(function* () {
             const stream = yield* getOrCreateStream(path);
-            return stream.subscribe({ ...(from !== undefined && { from }) });
+            return stream.subscribe({
+              ...(from !== undefined && { from }),
+              ...(filter !== undefined && { filter }),
+            });
           }).pipe(Effect.withSpan("StreamManager.subscribe")),
         ).pipe(Stream.catchAllCause(() => Stream.empty));
       }
 
-      // All paths subscription - live events only (use read({}) for historical)
-      // Use scoped: true to eagerly create the subscription when the stream is unwrapped
-      return Stream.unwrapScoped(Stream.fromPubSub(globalPubSub, { scoped: true })).pipe(
+      // All paths subscription - same catch-up-then-live pattern as EventStream.subscribe,
+      // keyed on globalOffset instead of the per-path offset. Paths commit independently, so
+      // live events from different paths may arrive slightly out of globalOffset order: every
+      // live event is checked against the last one history emitted, not just the first few.
+      // A pattern filters both phases, so streams created later are picked up as they appear.
+      const { from, pattern, filter } = input;
+      const matching = filterPattern(pattern);
+      const matchesType = EventTypeFilter.matcher(filter);
+      return Stream.unwrapScoped(
+        Effect.gen(function* () {
+          const live = matching(yield* Stream.fromPubSub(globalPubSub, { scoped: true })).pipe(
+            Stream.filter((event) => matchesType(event.type)),
+          );
+
+          // No cursor means live-only
+          if (from === undefined) return live;
+
+          let lastGlobalOffset = from;
+          const trackedHistorical = matching(
+            storageManager.readAll({ from, ...(filter !== undefined && { filter }) }),
+          ).pipe(
+            Stream.tap((event) =>
+              Effect.sync(() => (lastGlobalOffset = event.globalOffset ?? lastGlobalOffset)),
+            ),
+          );
+          // Runs once history has ended, so the high-water mark no longer moves
+          const dedupedLive = Stream.suspend(() => {
+            const highWaterMark = lastGlobalOffset;
+            return live.pipe(
+              Stream.filter(
+                (event) => event.globalOffset === undefined || event.globalOffset > highWaterMark,
+              ),
+            );
+          });
+          return Stream.concat(trackedHistorical, dedupedLive);
+        }),
+      ).pipe(
+        Stream.mapEffect(EventStream.upcast),
         Stream.catchAllCause(() => Stream.empty),
       );
     };
 
-    const read = ({ path, from, to }: { path: StreamPath; from?: Offset; to?: Offset }) =>
-      Stream.unwrap(
+    const read = (
+      input:
+        | { path: StreamPath; from?: Offset; to?: Offset; filter?: EventTypeFilter }
+        | { path?: never; pattern: PathPattern; from?: GlobalOffset; filter?: EventTypeFilter },
+    ) => {
+      if (input.path === undefined) {
+        const { pattern, from, filter } = input;
+        return filterPattern(pattern)(
+          storageManager.readAll({
+            ...(from !== undefined && { from }),
+            ...(filter !== undefined && { filter }),
+          }),
+        ).pipe(
+          Stream.mapEffect(EventStream.upcast),
+          Stream.catchAllCause(() => Stream.empty),
+        );
+      }
+
+      const { path, from, to, filter } = input;
+      return Stream.unwrap(
         Effect.gen(function* () {
           const stream = yield* getOrCreateStream(path);
           return stream.read({
             ...(from !== undefined && { from }),
             ...(to !== undefined && { to }),
+            ...(filter !== undefined && { filter }),
           });
         }).pipe(Effect.withSpan("StreamManager.read")),
       ).pipe(Stream.catchAllCause(() => Stream.empty));
+    };
 
-    return StreamManager.of({ forPath, append, subscribe: beSubscribedTo, read });
+    return StreamManager.of({
+      forPath,
+      listPaths: () => storageManager.listPaths(),
+      listStreams: (input) => storageManager.listStreams(input),
+      deleteStream,
+      truncateStream,
+      append: append as StreamManager["Type"]["append"],
+      appendAll: appendAll as StreamManager["Type"]["appendAll"],
+      importAll,
+      fork,
+      subscribe: beSubscribedTo,
+      read,
+    });
   }),
 );
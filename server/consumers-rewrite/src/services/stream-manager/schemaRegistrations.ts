@@ -0,0 +1,129 @@
+/**
+ * Event schemas registered at runtime with `iterate:schema:registered` events
+ *
+ * Registrations are folded from stored events and consulted by EventStream before an
+ * append: a registration must carry a compilable JSON Schema, and events of a registered
+ * type must match every schema that applies to their path.
+ */
+import { Ajv, type ErrorObject, type ValidateFunction } from "ajv";
+import { Effect } from "effect";
+
+import { Event, EventInput, EventType, StreamPath } from "../../domain.js";
+import { EventRegistry, EventValidationError, SchemaRegisteredEvent } from "../../events.js";
+
+interface Registration {
+  readonly scope: "path" | "subtree";
+  readonly validate: ValidateFunction;
+}
+
+export interface SchemaRegistrations {
+  /** Record the registrations among newly stored events */
+  readonly add: (events: ReadonlyArray<Event>) => void;
+
+  /** Replace a path's registrations with those among its remaining events */
+  readonly reset: (path: StreamPath, events: ReadonlyArray<Event>) => void;
+
+  /**
+   * Check events about to be appended to a path. Registrations in the same batch only
+   * apply to later appends.
+   */
+  readonly validate: (
+    path: StreamPath,
+    events: ReadonlyArray<EventInput>,
+  ) => Effect.Effect<void, EventValidationError>;
+}
+
+// "/items/0/name" -> ["items", 0, "name"]
+const toIssue = (error: ErrorObject) => ({
+  path: error.instancePath
+    .split("/")
+    .filter((segment) => segment.length > 0)
+    .map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment)),
+  message: error.message ?? error.keyword,
+});
+
+// The path itself and each of its ancestors, e.g. a/b/c -> a/b/c, a/b, a
+const selfAndAncestors = (path: StreamPath): ReadonlyArray<string> =>
+  path.split("/").map((_, i, segments) => segments.slice(0, segments.length - i).join("/"));
+
+export const make = (): SchemaRegistrations => {
+  const ajv = new Ajv({ allErrors: true, strict: false });
+  // Registrations by the path they were appended to, then by constrained event type
+  const byPath = new Map<string, Map<EventType, Registration>>();
+
+  const compile = (event: EventInput) =>
+    Effect.gen(function* () {
+      yield* EventRegistry.validate(event);
+      const { eventType, schema, scope } = yield* SchemaRegisteredEvent.decode(event).pipe(
+        Effect.orDie,
+      );
+      const validate = yield* Effect.try({
+        // The compiled function is all we keep, so nothing is left in ajv's cache - a
+        // re-registered `$id` would otherwise be rejected as a duplicate
+        try: () => {
+          try {
+            return ajv.compile(schema);
+          } finally {
+            ajv.removeSchema(schema);
+          }
+        },
+        catch: (error) =>
+          EventValidationError.make({
+            type: event.type,
+            reason: "invalid-payload",
+            issues: [{ path: ["schema"], message: String(error) }],
+          }),
+      });
+      return { eventType, registration: { scope: scope ?? "path", validate } };
+    });
+
+  const add = (events: ReadonlyArray<Event>) => {
+    for (const event of events) {
+      if (!SchemaRegisteredEvent.is(event)) continue;
+      // Stored registrations were validated on append; skip any that no longer compile
+      Effect.runSync(
+        compile(event).pipe(
+          Effect.map(({ eventType, registration }) => {
+            const registrations = byPath.get(event.path) ?? new Map();
+            registrations.set(eventType, registration);
+            byPath.set(event.path, registrations);
+          }),
+          Effect.catchAll(() => Effect.void),
+        ),
+      );
+    }
+  };
+
+  const reset = (path: StreamPath, events: ReadonlyArray<Event>) => {
+    byPath.delete(path);
+    add(events);
+  };
+
+  const applicable = (path: StreamPath, type: EventType) =>
+    selfAndAncestors(path).flatMap((registeredAt) => {
+      const registration = byPath.get(registeredAt)?.get(type);
+      if (registration === undefined) return [];
+      return registeredAt === path || registration.scope === "subtree" ? [registration] : [];
+    });
+
+  const validate = (path: StreamPath, events: ReadonlyArray<EventInput>) =>
+    Effect.forEach(
+      events,
+      (event) =>
+        Effect.gen(function* () {
+          if (event.type === SchemaRegisteredEvent.type) yield* compile(event);
+          for (const { validate } of applicable(path, event.type)) {
+            if (!validate(event.payload)) {
+              return yield* EventValidationError.make({
+                type: event.type,
+                reason: "invalid-payload",
+                issues: (validate.errors ?? []).map(toIssue),
+              });
+            }
+          }
+        }),
+      { discard: true },
+    );
+
+  return { add, reset, validate };
+};
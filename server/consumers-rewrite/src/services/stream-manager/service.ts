@@ -3,8 +3,25 @@
  */
 import { Context, Effect, Stream } from "effect";
 
-import { Event, EventInput, Offset, StreamPath } from "../../domain.js";
-import { EventStream } from "./eventStream.js";
+import {
+  Event,
+  EventInput,
+  EventTypeFilter,
+  GlobalOffset,
+  Offset,
+  PathPattern,
+  StreamMetadata,
+  StreamPath,
+} from "../../domain.js";
+import { EventValidationError } from "../../events.js";
+import { StreamStorageError } from "../stream-storage/service.js";
+import {
+  EventStream,
+  OffsetBeyondHeadError,
+  OffsetConflictError,
+  StreamNotEmptyError,
+  StreamNotFoundError,
+} from "./eventStream.js";
 
 // -------------------------------------------------------------------------------------
 // StreamManager service
@@ -16,18 +33,109 @@ export class StreamManager extends Context.Tag("@app/StreamManager")<
     /** Get a path-scoped EventStream */
     readonly forPath: (path: StreamPath) => Effect.Effect<EventStream>;
 
+    /** List all paths that have a stream in storage */
+    readonly listPaths: () => Effect.Effect<ReadonlyArray<StreamPath>, StreamStorageError>;
+
+    /** Summaries of non-empty streams ordered by path, paged by an exclusive `after` cursor */
+    readonly listStreams: (input: {
+      prefix?: string;
+      after?: StreamPath;
+      limit?: number;
+    }) => Effect.Effect<ReadonlyArray<StreamMetadata>, StreamStorageError>;
+
+    /**
+     * Remove a stream. Live subscribers on the path receive a tombstone and end.
+     * Returns the number of events removed.
+     */
+    readonly deleteStream: (path: StreamPath) => Effect.Effect<number, StreamStorageError>;
+
+    /**
+     * Remove events with offset < before (the head is always kept). Live subscribers on the
+     * path receive a tombstone and end. Returns the number of events removed.
+     */
+    readonly truncateStream: (input: {
+      path: StreamPath;
+      before: Offset;
+    }) => Effect.Effect<number, StreamStorageError>;
+
     // TODO: Add errors
-    /** Subscribe to live events, optionally starting after an offset */
-    readonly subscribe: (input: { path?: StreamPath; from?: Offset }) => Stream.Stream<Event>;
+    /**
+     * Subscribe to history then live events, optionally starting after an offset.
+     * Without a path, subscribes to all paths (or those matching `pattern`, including streams
+     * created later) and `from` is a GlobalOffset cursor.
+     * A type filter is applied by storage for history and in memory for live events.
+     */
+    readonly subscribe: (
+      input:
+        | { path: StreamPath; from?: Offset; filter?: EventTypeFilter }
+        | { path?: never; pattern?: PathPattern; from?: GlobalOffset; filter?: EventTypeFilter },
+    ) => Stream.Stream<Event>;
 
-    /** Read historical events, optionally within a range */
-    readonly read: (input: {
+    /**
+     * Read historical events, optionally within a range.
+     * With a pattern, reads every matching path in globalOffset order.
+     */
+    readonly read: (
+      input:
+        | { path: StreamPath; from?: Offset; to?: Offset; filter?: EventTypeFilter }
+        | { path?: never; pattern: PathPattern; from?: GlobalOffset; filter?: EventTypeFilter },
+    ) => Stream.Stream<Event>;
+
+    /**
+     * Append an event, returns the stored event with assigned offset.
+     * With `expectedOffset`, fails with OffsetConflictError if the head has moved.
+     * Fails with EventValidationError if the event breaks a schema registered for its type.
+     */
+    readonly append: {
+      (input: { path: StreamPath; event: EventInput }): Effect.Effect<Event, EventValidationError>;
+      (input: {
+        path: StreamPath;
+        event: EventInput;
+        expectedOffset: Offset | undefined;
+      }): Effect.Effect<Event, OffsetConflictError | EventValidationError>;
+    };
+
+    /** Append events atomically with consecutive offsets, returns the stored events */
+    readonly appendAll: {
+      (input: {
+        path: StreamPath;
+        events: ReadonlyArray<EventInput>;
+      }): Effect.Effect<ReadonlyArray<Event>, EventValidationError>;
+      (input: {
+        path: StreamPath;
+        events: ReadonlyArray<EventInput>;
+        expectedOffset: Offset | undefined;
+      }): Effect.Effect<ReadonlyArray<Event>, OffsetConflictError | EventValidationError>;
+    };
+
+    /**
+     * Store exported events on a path, keeping their createdAt and trace. Keeps their offsets
+     * and refuses a non-empty path with StreamNotEmptyError, unless `remap` renumbers them
+     * after the head - resolving idempotency keys already stored like an append. Returns the
+     * stored events.
+     */
+    readonly importAll: (input: {
       path: StreamPath;
-      from?: Offset;
-      to?: Offset;
-    }) => Stream.Stream<Event>;
+      events: ReadonlyArray<Event>;
+      remap?: boolean;
+    }) => Effect.Effect<ReadonlyArray<Event>, StreamNotEmptyError | EventValidationError>;
 
-    /** Append an event, returns the stored event with assigned offset */
-    readonly append: (input: { path: StreamPath; event: EventInput }) => Effect.Effect<Event>;
+    /**
+     * Create stream `to` from the events of `path` up to and including `at`: an
+     * `iterate:stream:forked-from` event, then copies of those events renumbered after it.
+     * Payload fields naming the offset of a copied event (`requestOffset`, `toOffset`, ...)
+     * are renumbered with it.
+     * Fails with StreamNotFoundError if `path` has no events, OffsetBeyondHeadError if `at`
+     * is past its head, and StreamNotEmptyError if `to` already has events. Returns the
+     * stored events.
+     */
+    readonly fork: (input: {
+      path: StreamPath;
+      at: Offset;
+      to: StreamPath;
+    }) => Effect.Effect<
+      ReadonlyArray<Event>,
+      StreamNotFoundError | OffsetBeyondHeadError | StreamNotEmptyError | EventValidationError
+    >;
   }
 >() {}
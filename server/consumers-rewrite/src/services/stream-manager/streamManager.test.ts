@@ -1,10 +1,37 @@
 /**
  * StreamManager test suite
  */
+import { FileSystem } from "@effect/platform";
+import { NodeContext } from "@effect/platform-node";
+import { PgClient } from "@effect/sql-pg";
 import { describe, expect, it } from "@effect/vitest";
-import { Chunk, Deferred, Effect, Fiber, Layer, Ref, Stream } from "effect";
-
-import { EventInput, EventType, Offset, StreamPath } from "../../domain.js";
+import {
+  Chunk,
+  Context,
+  Deferred,
+  Effect,
+  Fiber,
+  Layer,
+  Queue,
+  Redacted,
+  Ref,
+  Schema,
+  Scope,
+  Stream,
+} from "effect";
+
+import {
+  Event,
+  EventInput,
+  EventType,
+  GlobalOffset,
+  IdempotencyKey,
+  Offset,
+  PathPattern,
+  StreamPath,
+  Version,
+} from "../../domain.js";
+import { EventSchema, SchemaRegisteredEvent } from "../../events.js";
 import * as StreamStorage from "../stream-storage/index.js";
 import { liveLayer } from "./live.js";
 import * as StreamManager from "./index.js";
@@ -211,4 +238,710 @@ describe("StreamManager", () => {
       expect(arr[1].payload).toEqual({ kind: "live" });
     }).pipe(Effect.provide(testLayer)),
   );
+
+  it.effect("append with expectedOffset succeeds when head matches", () =>
+    Effect.gen(function* () {
+      const manager = yield* StreamManager.StreamManager;
+      const path = StreamPath.make("test/expected-offset");
+      const event = EventInput.make({ type: EventType.make("test"), payload: {} });
+
+      // "-1" is the head of an empty stream
+      const first = yield* manager.append({ path, event, expectedOffset: Offset.make("-1") });
+      const second = yield* manager.append({ path, event, expectedOffset: first.offset });
+
+      expect(first.offset).toBe("0000000000000000");
+      expect(second.offset).toBe("0000000000000001");
+    }).pipe(Effect.provide(testLayer)),
+  );
+
+  it.effect("append with stale expectedOffset fails with OffsetConflictError", () =>
+    Effect.gen(function* () {
+      const manager = yield* StreamManager.StreamManager;
+      const path = StreamPath.make("test/expected-offset-conflict");
+      const event = EventInput.make({ type: EventType.make("test"), payload: {} });
+
+      yield* manager.append({ path, event });
+      yield* manager.append({ path, event });
+
+      const error = yield* manager
+        .append({ path, event, expectedOffset: Offset.make("0000000000000000") })
+        .pipe(Effect.flip);
+
+      expect(error).toMatchObject({
+        _tag: "OffsetConflictError",
+        currentOffset: "0000000000000001",
+      });
+
+      // Nothing was written
+      const events = yield* manager.read({ path }).pipe(Stream.runCollect);
+      expect(Chunk.size(events)).toBe(2);
+    }).pipe(Effect.provide(testLayer)),
+  );
+
+  it.effect("concurrent appends with the same expectedOffset admit exactly one", () =>
+    Effect.gen(function* () {
+      const manager = yield* StreamManager.StreamManager;
+      const path = StreamPath.make("test/expected-offset-race");
+      const event = EventInput.make({ type: EventType.make("test"), payload: {} });
+      const expectedOffset = Offset.make("-1");
+
+      const results = yield* Effect.all(
+        Array.from({ length: 5 }, () =>
+          manager.append({ path, event, expectedOffset }).pipe(Effect.either),
+        ),
+        { concurrency: "unbounded" },
+      );
+
+      expect(results.filter((r) => r._tag === "Right")).toHaveLength(1);
+      expect(results.filter((r) => r._tag === "Left")).toHaveLength(4);
+    }).pipe(Effect.provide(testLayer)),
+  );
+
+  it.effect("appendAll assigns consecutive offsets and subscribers see the whole batch", () =>
+    Effect.gen(function* () {
+      const manager = yield* StreamManager.StreamManager;
+      const path = StreamPath.make("test/batch");
+
+      yield* manager.append({
+        path,
+        event: EventInput.make({ type: EventType.make("test"), payload: { idx: 0 } }),
+      });
+
+      const subscriber = yield* manager
+        .subscribe({ path })
+        .pipe(Stream.take(4), Stream.runCollect, Effect.fork);
+
+      const stored = yield* manager.appendAll({
+        path,
+        events: [1, 2, 3].map((idx) =>
+          EventInput.make({ type: EventType.make("test"), payload: { idx } }),
+        ),
+      });
+      expect(stored.map((e) => e.offset)).toEqual([
+        "0000000000000001",
+        "0000000000000002",
+        "0000000000000003",
+      ]);
+
+      const events = Chunk.toReadonlyArray(yield* Fiber.join(subscriber));
+      expect(events.map((e) => e.payload["idx"])).toEqual([0, 1, 2, 3]);
+    }).pipe(Effect.provide(testLayer)),
+  );
+
+  it.effect("appendAll with stale expectedOffset writes nothing", () =>
+    Effect.gen(function* () {
+      const manager = yield* StreamManager.StreamManager;
+      const path = StreamPath.make("test/batch-conflict");
+      const event = EventInput.make({ type: EventType.make("test"), payload: {} });
+
+      yield* manager.append({ path, event });
+
+      const error = yield* manager
+        .appendAll({ path, events: [event, event], expectedOffset: Offset.make("-1") })
+        .pipe(Effect.flip);
+      expect(error._tag).toBe("OffsetConflictError");
+
+      const events = yield* manager.read({ path }).pipe(Stream.runCollect);
+      expect(Chunk.size(events)).toBe(1);
+    }).pipe(Effect.provide(testLayer)),
+  );
+
+  it.effect("append with a repeated idempotency key returns the original event", () =>
+    Effect.gen(function* () {
+      const manager = yield* StreamManager.StreamManager;
+      const path = StreamPath.make("test/idempotent");
+      const event = EventInput.make({
+        type: EventType.make("test"),
+        payload: { n: 1 },
+        idempotencyKey: IdempotencyKey.make("retry-me"),
+      });
+
+      const first = yield* manager.append({ path, event });
+      yield* manager.append({
+        path,
+        event: EventInput.make({ type: EventType.make("test"), payload: { n: 2 } }),
+      });
+
+      // A retry with a stale expectedOffset still resolves to the stored event
+      const retry = yield* manager.append({ path, event, expectedOffset: Offset.make("-1") });
+
+      expect(retry.offset).toBe(first.offset);
+      expect(retry.createdAt).toEqual(first.createdAt);
+      const events = yield* manager.read({ path }).pipe(Stream.runCollect);
+      expect(Chunk.size(events)).toBe(2);
+    }).pipe(Effect.provide(testLayer)),
+  );
+
+  it.effect("appendAll dedupes keys against history and within the batch", () =>
+    Effect.gen(function* () {
+      const manager = yield* StreamManager.StreamManager;
+      const path = StreamPath.make("test/idempotent-batch");
+      const keyed = (key: string, n: number) =>
+        EventInput.make({
+          type: EventType.make("test"),
+          payload: { n },
+          idempotencyKey: IdempotencyKey.make(key),
+        });
+
+      yield* manager.append({ path, event: keyed("a", 0) });
+      const stored = yield* manager.appendAll({
+        path,
+        events: [keyed("a", 0), keyed("b", 1), keyed("b", 1)],
+      });
+
+      expect(stored.map((e) => e.offset)).toEqual([
+        "0000000000000000",
+        "0000000000000001",
+        "0000000000000001",
+      ]);
+    }).pipe(Effect.provide(testLayer)),
+  );
+
+  it.effect("idempotency keys survive re-hydrating the stream from storage", () =>
+    Effect.gen(function* () {
+      const storageManager = yield* StreamStorage.StreamStorageManager;
+      const path = StreamPath.make("test/idempotent-restart");
+      const event = EventInput.make({
+        type: EventType.make("test"),
+        payload: {},
+        idempotencyKey: IdempotencyKey.make("once"),
+      });
+
+      const before = yield* StreamManager.EventStream.make(storageManager.forPath(path), path);
+      const first = yield* before.append(event);
+
+      // A fresh EventStream boots from storage, like after a server restart
+      const after = yield* StreamManager.EventStream.make(storageManager.forPath(path), path);
+      const retry = yield* after.append(event);
+
+      expect(retry.offset).toBe(first.offset);
+      const events = yield* storageManager.read({ path }).pipe(Stream.runCollect);
+      expect(Chunk.size(events)).toBe(1);
+    }).pipe(Effect.provide(StreamStorage.inMemoryLayer)),
+  );
+
+  it.effect("all-paths subscribe with from replays history across paths then goes live", () =>
+    Effect.gen(function* () {
+      const manager = yield* StreamManager.StreamManager;
+      const event = (n: number) =>
+        EventInput.make({ type: EventType.make("test"), payload: { n } });
+
+      const first = yield* manager.append({
+        path: StreamPath.make("test/global/a"),
+        event: event(0),
+      });
+      yield* manager.append({ path: StreamPath.make("test/global/b"), event: event(1) });
+      yield* manager.append({ path: StreamPath.make("test/global/a"), event: event(2) });
+
+      const subscriber = yield* manager
+        .subscribe({ from: first.globalOffset! })
+        .pipe(Stream.take(3), Stream.runCollect, Effect.fork);
+
+      yield* manager.append({ path: StreamPath.make("test/global/c"), event: event(3) });
+
+      const events = Chunk.toReadonlyArray(yield* Fiber.join(subscriber));
+      expect(events.map((e) => e.payload["n"])).toEqual([1, 2, 3]);
+      expect(events.map((e) => e.path)).toEqual([
+        "test/global/b",
+        "test/global/a",
+        "test/global/c",
+      ]);
+    }).pipe(Effect.provide(testLayer)),
+  );
+
+  it.effect("pattern subscribe interleaves matching paths, including new ones", () =>
+    Effect.gen(function* () {
+      const manager = yield* StreamManager.StreamManager;
+      const event = (n: number) =>
+        EventInput.make({ type: EventType.make("test"), payload: { n } });
+
+      yield* manager.append({ path: StreamPath.make("team-a/one"), event: event(0) });
+      yield* manager.append({ path: StreamPath.make("team-b/one"), event: event(1) });
+
+      const subscriber = yield* manager
+        .subscribe({ pattern: PathPattern.make("team-a/**"), from: GlobalOffset.fromNumber(0) })
+        .pipe(Stream.take(3), Stream.runCollect, Effect.fork);
+
+      yield* manager.append({ path: StreamPath.make("team-b/two"), event: event(2) });
+      yield* manager.append({ path: StreamPath.make("team-a/two/nested"), event: event(3) });
+      yield* manager.append({ path: StreamPath.make("team-a/one"), event: event(4) });
+
+      const events = Chunk.toReadonlyArray(yield* Fiber.join(subscriber));
+      expect(events.map((e) => e.payload["n"])).toEqual([0, 3, 4]);
+      expect(events.map((e) => e.path)).toEqual(["team-a/one", "team-a/two/nested", "team-a/one"]);
+    }).pipe(Effect.provide(testLayer)),
+  );
+
+  it.effect("pattern read returns only matching history", () =>
+    Effect.gen(function* () {
+      const manager = yield* StreamManager.StreamManager;
+      const event = EventInput.make({ type: EventType.make("test"), payload: {} });
+
+      yield* manager.append({ path: StreamPath.make("team-a/one"), event });
+      yield* manager.append({ path: StreamPath.make("team-b/one"), event });
+      yield* manager.append({ path: StreamPath.make("team-a/two"), event });
+
+      const events = yield* manager
+        .read({ pattern: PathPattern.make("team-a/*") })
+        .pipe(Stream.runCollect);
+      expect(Chunk.toReadonlyArray(events).map((e) => e.path)).toEqual([
+        "team-a/one",
+        "team-a/two",
+      ]);
+    }).pipe(Effect.provide(testLayer)),
+  );
+
+  it.effect("subscribe with a type filter applies to history and live events", () =>
+    Effect.gen(function* () {
+      const manager = yield* StreamManager.StreamManager;
+      const path = StreamPath.make("test/type-filter");
+      const event = (type: string) => EventInput.make({ type: EventType.make(type), payload: {} });
+
+      yield* manager.append({ path, event: event("lifecycle:started") });
+      yield* manager.append({ path, event: event("delta") });
+
+      const subscriber = yield* manager
+        .subscribe({ path, filter: { excludeTypes: ["delta"] } })
+        .pipe(Stream.take(2), Stream.runCollect, Effect.fork);
+
+      yield* manager.append({ path, event: event("delta") });
+      yield* manager.append({ path, event: event("lifecycle:ended") });
+
+      const events = Chunk.toReadonlyArray(yield* Fiber.join(subscriber));
+      expect(events.map((e) => e.type)).toEqual(["lifecycle:started", "lifecycle:ended"]);
+    }).pipe(Effect.provide(testLayer)),
+  );
+
+  it.effect("deleteStream ends live subscriptions with a tombstone and resets the path", () =>
+    Effect.gen(function* () {
+      const manager = yield* StreamManager.StreamManager;
+      const path = StreamPath.make("test/delete");
+      const event = EventInput.make({ type: EventType.make("test"), payload: {} });
+
+      yield* manager.append({ path, event });
+      const historyReady = yield* Deferred.make<void>();
+      const subscriber = yield* manager.subscribe({ path }).pipe(
+        Stream.tap(() => Deferred.succeed(historyReady, void 0)),
+        Stream.runCollect,
+        Effect.fork,
+      );
+      yield* Deferred.await(historyReady);
+
+      expect(yield* manager.deleteStream(path)).toBe(1);
+
+      // The subscription completes on its own, ending with the tombstone
+      const events = Chunk.toReadonlyArray(yield* Fiber.join(subscriber));
+      expect(events.map((e) => e.type)).toEqual(["test", "iterate:stream:tombstone"]);
+      expect(events[1]?.payload).toEqual({ reason: "deleted" });
+
+      // A fresh EventStream takes over, starting from an empty stream
+      const next = yield* manager.append({ path, event });
+      expect(next.offset).toBe("0000000000000000");
+    }).pipe(Effect.provide(testLayer)),
+  );
+
+  it.effect("truncateStream keeps offsets increasing after the cut", () =>
+    Effect.gen(function* () {
+      const manager = yield* StreamManager.StreamManager;
+      const path = StreamPath.make("test/truncate");
+      const event = EventInput.make({ type: EventType.make("test"), payload: {} });
+
+      yield* manager.appendAll({ path, events: [event, event, event] });
+      const removed = yield* manager.truncateStream({
+        path,
+        before: Offset.make("0000000000000002"),
+      });
+      expect(removed).toBe(2);
+
+      const next = yield* manager.append({ path, event });
+      expect(next.offset).toBe("0000000000000003");
+      const remaining = yield* manager.read({ path }).pipe(Stream.runCollect);
+      expect(Chunk.toReadonlyArray(remaining).map((e) => e.offset)).toEqual([
+        "0000000000000002",
+        "0000000000000003",
+      ]);
+    }).pipe(Effect.provide(testLayer)),
+  );
+
+  describe("schemas registered with events", () => {
+    const note = (payload: Record<string, unknown>) =>
+      EventInput.make({ type: EventType.make("note"), payload });
+    const registerNote = (scope?: "path" | "subtree") =>
+      SchemaRegisteredEvent.make({
+        eventType: EventType.make("note"),
+        schema: {
+          type: "object",
+          required: ["text"],
+          properties: { text: { type: "string" } },
+        },
+        ...(scope !== undefined && { scope }),
+      });
+
+    it.effect("constrain later events of the type on the path", () =>
+      Effect.gen(function* () {
+        const manager = yield* StreamManager.StreamManager;
+        const path = StreamPath.make("schemas/path");
+
+        yield* manager.append({ path, event: note({}) });
+        yield* manager.append({ path, event: registerNote() });
+
+        yield* manager.append({ path, event: note({ text: "fine" }) });
+        const error = yield* manager.append({ path, event: note({ text: 1 }) }).pipe(Effect.flip);
+        expect(error).toMatchObject({
+          _tag: "EventValidationError",
+          type: "note",
+          issues: [{ path: ["text"] }],
+        });
+
+        // Other types and other paths are unaffected
+        yield* manager.append({
+          path,
+          event: EventInput.make({ type: EventType.make("test"), payload: {} }),
+        });
+        yield* manager.append({ path: StreamPath.make("schemas/path/child"), event: note({}) });
+
+        const events = yield* manager.read({ path }).pipe(Stream.runCollect);
+        expect(Chunk.size(events)).toBe(4);
+      }).pipe(Effect.provide(testLayer)),
+    );
+
+    it.effect("with subtree scope constrain paths below the registering path", () =>
+      Effect.gen(function* () {
+        const manager = yield* StreamManager.StreamManager;
+        const root = StreamPath.make("schemas/tree");
+
+        yield* manager.append({ path: root, event: registerNote("subtree") });
+
+        const error = yield* manager
+          .append({ path: StreamPath.make("schemas/tree/a/b"), event: note({}) })
+          .pipe(Effect.flip);
+        expect(error._tag).toBe("EventValidationError");
+        yield* manager.append({ path: StreamPath.make("schemas/treeish"), event: note({}) });
+      }).pipe(Effect.provide(testLayer)),
+    );
+
+    it.effect("reject registrations whose schema does not compile", () =>
+      Effect.gen(function* () {
+        const manager = yield* StreamManager.StreamManager;
+        const path = StreamPath.make("schemas/invalid");
+
+        const error = yield* manager
+          .append({
+            path,
+            event: SchemaRegisteredEvent.make({
+              eventType: EventType.make("note"),
+              schema: { type: "not-a-type" },
+            }),
+          })
+          .pipe(Effect.flip);
+        expect(error).toMatchObject({
+          type: "iterate:schema:registered",
+          issues: [{ path: ["schema"] }],
+        });
+
+        const malformed = yield* manager
+          .append({
+            path,
+            event: EventInput.make({ type: SchemaRegisteredEvent.type, payload: { schema: {} } }),
+          })
+          .pipe(Effect.flip);
+        expect(malformed._tag).toBe("EventValidationError");
+      }).pipe(Effect.provide(testLayer)),
+    );
+
+    it.effect("are loaded from storage on boot and dropped with their stream", () =>
+      Effect.gen(function* () {
+        const storage = yield* StreamStorage.StreamStorageManager;
+        const path = StreamPath.make("schemas/boot");
+        const managerLayer = liveLayer.pipe(
+          Layer.provide(Layer.succeed(StreamStorage.StreamStorageManager, storage)),
+        );
+        const withManager = <A, E>(
+          f: (manager: StreamManager.StreamManager["Type"]) => Effect.Effect<A, E>,
+        ) =>
+          Layer.build(managerLayer).pipe(
+            Effect.flatMap((context) => f(Context.get(context, StreamManager.StreamManager))),
+            Effect.scoped,
+          );
+
+        yield* withManager((manager) => manager.append({ path, event: registerNote() }));
+
+        // A fresh manager over the same storage, like after a restart
+        yield* withManager((manager) =>
+          Effect.gen(function* () {
+            const error = yield* manager.append({ path, event: note({}) }).pipe(Effect.flip);
+            expect(error._tag).toBe("EventValidationError");
+
+            yield* manager.deleteStream(path);
+            yield* manager.append({ path, event: note({}) });
+          }),
+        );
+      }).pipe(Effect.provide(StreamStorage.inMemoryLayer)),
+    );
+  });
+
+  it.effect("reads and subscriptions deliver older events migrated to the current version", () =>
+    Effect.gen(function* () {
+      const RenamedEvent = EventSchema.make(
+        "test:stream-manager:renamed",
+        { name: Schema.String },
+        { version: 2, upcasters: { 1: ({ title, ...rest }) => ({ ...rest, name: title }) } },
+      );
+      const manager = yield* StreamManager.StreamManager;
+      const path = StreamPath.make("test/upcast");
+
+      yield* manager.append({
+        path,
+        event: EventInput.make({
+          type: RenamedEvent.type,
+          payload: { title: "old" },
+          version: Version.make("1"),
+        }),
+      });
+
+      const [read] = yield* manager.read({ path }).pipe(Stream.runCollect);
+      expect(read).toMatchObject({ version: "2", payload: { name: "old" } });
+
+      const [subscribed] = yield* manager
+        .subscribe({ path })
+        .pipe(Stream.take(1), Stream.runCollect);
+      expect(subscribed?.payload).toEqual({ name: "old" });
+
+      const [globbed] = yield* manager
+        .read({ pattern: PathPattern.make("test/upcast") })
+        .pipe(Stream.runCollect);
+      expect(globbed?.version).toBe("2");
+    }).pipe(Effect.provide(testLayer)),
+  );
+
+  describe("remapped imports", () => {
+    const keyed = (key: string, n: number) =>
+      EventInput.make({
+        type: EventType.make("test"),
+        payload: { n },
+        idempotencyKey: IdempotencyKey.make(key),
+      });
+
+    const remappedImportTest = <E>(
+      name: string,
+      storage: Layer.Layer<StreamStorage.StreamStorageManager, E>,
+    ) =>
+      it.effect(`resolve stored idempotency keys instead of storing them again on ${name}`, () =>
+        Effect.gen(function* () {
+          const manager = yield* StreamManager.StreamManager;
+          const path = StreamPath.make("test/reimport");
+          const original = yield* manager.append({ path, event: keyed("k1", 0) });
+
+          // Re-importing its own export returns the stored event
+          const reimported = yield* manager.importAll({ path, events: [original], remap: true });
+          expect(reimported.map((e) => e.offset)).toEqual([original.offset]);
+
+          // Keys the import does store resolve later appends to the imported event
+          const other = Event.make({
+            ...original,
+            path: StreamPath.make("test/elsewhere"),
+            idempotencyKey: IdempotencyKey.make("k2"),
+            payload: { n: 1 },
+          });
+          const [imported] = yield* manager.importAll({ path, events: [other], remap: true });
+          const retried = yield* manager.append({ path, event: keyed("k2", 1) });
+          expect(retried.offset).toBe(imported!.offset);
+
+          const events = yield* manager.read({ path }).pipe(Stream.runCollect);
+          expect(Chunk.toReadonlyArray(events).map((e) => e.idempotencyKey)).toEqual(["k1", "k2"]);
+        }).pipe(Effect.provide(liveLayer.pipe(Layer.provide(storage)))),
+      );
+
+    remappedImportTest("InMemory", StreamStorage.inMemoryLayer);
+
+    const inTempDirectory = <E>(
+      makeLayer: (
+        dir: string,
+      ) => Layer.Layer<StreamStorage.StreamStorageManager, E, NodeContext.NodeContext>,
+    ) =>
+      Layer.unwrapScoped(
+        Effect.gen(function* () {
+          const fs = yield* FileSystem.FileSystem;
+          return makeLayer(yield* fs.makeTempDirectoryScoped());
+        }),
+      ).pipe(Layer.provide(NodeContext.layer));
+
+    remappedImportTest("FileSystem", inTempDirectory(StreamStorage.fileSystemLayer));
+    remappedImportTest(
+      "SQLite",
+      inTempDirectory((dir) => StreamStorage.sqliteLayer(`${dir}/test.db`)),
+    );
+
+    // Needs a server, e.g. POSTGRES_URL=postgres://postgres@localhost:5432/postgres pnpm test
+    const postgresUrl = process.env.POSTGRES_URL;
+    if (postgresUrl !== undefined) {
+      remappedImportTest(
+        "Postgres",
+        Layer.unwrapScoped(
+          Effect.gen(function* () {
+            const sql = yield* PgClient.PgClient;
+            yield* sql`DROP TABLE IF EXISTS events, sequences, snapshots`;
+            return StreamStorage.postgresLayer(postgresUrl);
+          }),
+        ).pipe(Layer.provide(PgClient.layer({ url: Redacted.make(postgresUrl) }))),
+      );
+    }
+  });
+
+  describe("appends from other processes", () => {
+    const note = (n: number) => EventInput.make({ type: EventType.make("note"), payload: { n } });
+
+    const managerOver = (storage: StreamStorage.StreamStorageManager) =>
+      Layer.build(
+        liveLayer.pipe(Layer.provide(Layer.succeed(StreamStorage.StreamStorageManager, storage))),
+      ).pipe(Effect.map((context) => Context.get(context, StreamManager.StreamManager)));
+
+    it.scopedLive("reach subscribers and move the head of cached streams", () =>
+      Effect.gen(function* () {
+        const storage = yield* StreamStorage.StreamStorageManager;
+        // Stands in for a shared backend's notifications
+        const external = yield* Queue.unbounded<Event>();
+        const manager = yield* managerOver({
+          ...storage,
+          externalAppends: Stream.fromQueue(external),
+        });
+        const path = StreamPath.make("shared/notes");
+
+        const [first] = yield* manager.appendAll({ path, events: [note(0)] });
+        const onPath = yield* manager
+          .subscribe({ path })
+          .pipe(Stream.take(2), Stream.runCollect, Effect.fork);
+        const onAll = yield* manager
+          .subscribe({ pattern: PathPattern.make("shared/**") })
+          .pipe(Stream.take(1), Stream.runCollect, Effect.fork);
+        yield* Effect.sleep("10 millis");
+
+        // Another process writes straight to the shared storage
+        const foreign = yield* storage.append(
+          Event.make({ ...first!, offset: Offset.make("0000000000000001"), payload: { n: 1 } }),
+        );
+        yield* Queue.offer(external, foreign);
+
+        const pathEvents = Chunk.toReadonlyArray(yield* Fiber.join(onPath));
+        expect(pathEvents.map((e) => e.payload)).toEqual([{ n: 0 }, { n: 1 }]);
+        const allEvents = Chunk.toReadonlyArray(yield* Fiber.join(onAll));
+        expect(allEvents.map((e) => e.payload)).toEqual([{ n: 1 }]);
+
+        const next = yield* manager.append({ path, event: note(2) });
+        expect(next.offset).toBe("0000000000000002");
+      }).pipe(Effect.provide(StreamStorage.inMemoryLayer)),
+    );
+
+    it.scopedLive("reach all-paths subscribers once, even when published out of order", () =>
+      Effect.gen(function* () {
+        const storage = yield* StreamStorage.StreamStorageManager;
+        const external = yield* Queue.unbounded<Event>();
+        const manager = yield* managerOver({
+          ...storage,
+          externalAppends: Stream.fromQueue(external),
+        });
+        const [first] = yield* manager.appendAll({
+          path: StreamPath.make("shared/a"),
+          events: [note(0)],
+        });
+        const foreign = (path: string, n: number) =>
+          storage.append(
+            Event.make({
+              ...first!,
+              path: StreamPath.make(path),
+              offset: Offset.make("0000000000000000"),
+              payload: { n },
+            }),
+          );
+
+        // Committed before the subscription reads history, but published only after a later one
+        const late = yield* foreign("shared/late", 1);
+        const subscriber = yield* manager
+          .subscribe({ pattern: PathPattern.make("shared/**"), from: first!.globalOffset! })
+          .pipe(Stream.take(3), Stream.runCollect, Effect.fork);
+        yield* Effect.sleep("10 millis");
+
+        yield* Queue.offer(external, yield* foreign("shared/other", 2));
+        yield* Queue.offer(external, late);
+        yield* Queue.offer(external, yield* foreign("shared/other", 3));
+
+        const events = Chunk.toReadonlyArray(yield* Fiber.join(subscriber));
+        expect(events.map((e) => e.payload)).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+      }).pipe(Effect.provide(StreamStorage.inMemoryLayer)),
+    );
+
+    const openStorage = <E>(layer: Layer.Layer<StreamStorage.StreamStorageManager, E>) =>
+      Layer.build(layer).pipe(
+        Effect.map((context) => Context.get(context, StreamStorage.StreamStorageManager)),
+      );
+
+    // Two managers over one database, like two server processes
+    const sharedStorageTest = <E>(
+      name: string,
+      openStorages: Effect.Effect<
+        readonly [StreamStorage.StreamStorageManager, StreamStorage.StreamStorageManager],
+        E,
+        Scope.Scope
+      >,
+    ) =>
+      it.scopedLive(`are ordered after local appends when two managers share ${name}`, () =>
+        Effect.gen(function* () {
+          const [firstStorage, secondStorage] = yield* openStorages;
+          const first = yield* managerOver(firstStorage);
+          const second = yield* managerOver(secondStorage);
+          const path = StreamPath.make("shared/notes");
+
+          // Cache the stream in the second manager while it is still empty
+          const seen = yield* second
+            .subscribe({ path })
+            .pipe(Stream.take(3), Stream.runCollect, Effect.fork);
+          yield* Effect.sleep("200 millis");
+
+          yield* first.appendAll({ path, events: [note(0), note(1)] });
+          // Whether or not the second manager heard of them yet, the offsets must not collide
+          const appended = yield* second.append({ path, event: note(2) });
+          expect(appended.offset).toBe("0000000000000002");
+
+          const events = Chunk.toReadonlyArray(yield* Fiber.join(seen));
+          expect(events.map((e) => e.offset)).toEqual([
+            "0000000000000000",
+            "0000000000000001",
+            "0000000000000002",
+          ]);
+
+          const conflict = yield* second
+            .append({ path, event: note(3), expectedOffset: Offset.make("0000000000000001") })
+            .pipe(Effect.flip);
+          expect(conflict).toMatchObject({
+            _tag: "OffsetConflictError",
+            currentOffset: "0000000000000002",
+          });
+        }),
+      );
+
+    // A slow poll means the second manager appends before it has seen the first one's events
+    sharedStorageTest(
+      "SQLite",
+      Effect.gen(function* () {
+        const fs = yield* FileSystem.FileSystem;
+        const filename = `${yield* fs.makeTempDirectoryScoped()}/shared.db`;
+        const open = openStorage(StreamStorage.sqliteLayer(filename, { pollInterval: "1 second" }));
+        return [yield* open, yield* open] as const;
+      }).pipe(Effect.provide(NodeContext.layer)),
+    );
+
+    // Needs a server, e.g. POSTGRES_URL=postgres://postgres@localhost:5432/postgres pnpm test
+    const postgresUrl = process.env.POSTGRES_URL;
+    if (postgresUrl !== undefined) {
+      sharedStorageTest(
+        "Postgres",
+        Effect.gen(function* () {
+          const sql = yield* PgClient.PgClient;
+          yield* sql`DROP TABLE IF EXISTS events, sequences, snapshots`;
+          const open = openStorage(StreamStorage.postgresLayer(postgresUrl));
+          return [yield* open, yield* open] as const;
+        }).pipe(Effect.provide(PgClient.layer({ url: Redacted.make(postgresUrl) }))),
+      );
+    }
+  });
 });
@@ -3,13 +3,28 @@
  *
  * Stores events as YAML documents separated by `---`.
  * Each stream path maps to a file: {basePath}/{streamPath}.yaml
+ *
+ * The global sequence is kept in {basePath}/.sequence, so globalOffsets of deleted or truncated
+ * events are never handed out again. Directories from before it was kept start from the
+ * highest globalOffset on disk.
+ * Snapshots are JSON files under {basePath}/.snapshots/{key}/{streamPath}.json
+ *
+ * Writes are serialized, as truncating and replacing events rewrite whole files.
  */
 import * as Fs from "@effect/platform/FileSystem";
 import * as Path from "@effect/platform/Path";
-import { Effect, Layer, Schema, Stream } from "effect";
+import { Effect, Layer, Option, Schema, Stream } from "effect";
 import * as YAML from "yaml";
 
-import { Event, Offset, StreamPath } from "../../domain.js";
+import {
+  Event,
+  EventTypeFilter,
+  GlobalOffset,
+  Offset,
+  Snapshot,
+  StreamMetadata,
+  StreamPath,
+} from "../../domain.js";
 import {
   StreamStorage,
   StreamStorageError,
@@ -32,39 +47,130 @@ export const fileSystemLayer = (
       const getFilePath = (streamPath: StreamPath) =>
         path.join(basePath, `${streamPath.replace(/\//g, "_")}.yaml`);
 
+      const snapshotsPath = path.join(basePath, ".snapshots");
+      const sequencePath = path.join(basePath, ".sequence");
+
+      const getSnapshotFilePath = (streamPath: StreamPath, key: string) =>
+        path.join(snapshotsPath, key, `${streamPath.replace(/\//g, "_")}.json`);
+
+      const listPaths = () =>
+        Effect.gen(function* () {
+          const entries = yield* fs.readDirectory(basePath);
+          const paths: StreamPath[] = [];
+          for (const entry of entries) {
+            if (entry.endsWith(".yaml") && !entry.endsWith(".offset")) {
+              // Convert filename back to path: foo_bar.yaml → foo/bar
+              const name = entry.slice(0, -5).replace(/_/g, "/");
+              paths.push(StreamPath.make(name));
+            }
+          }
+          return paths;
+        }).pipe(Effect.mapError((cause) => StreamStorageError.make({ cause })));
+
+      const readFile = (streamPath: StreamPath) =>
+        Effect.gen(function* () {
+          const filePath = getFilePath(streamPath);
+          const exists = yield* fs.exists(filePath);
+
+          if (!exists) {
+            return [];
+          }
+
+          const content = yield* fs.readFileString(filePath);
+          const docs = YAML.parseAllDocuments(content).map((doc) => doc.toJS());
+
+          // Decode YAML objects to Events
+          return yield* Effect.all(docs.map((doc) => Schema.decodeUnknown(Event)(doc)));
+        }).pipe(Effect.mapError((cause) => StreamStorageError.make({ cause })));
+
+      // Events across all files in globalOffset order. Events written before globalOffset
+      // existed sort first, by createdAt, so they sit before the first assigned globalOffset.
+      const readAllEvents = Effect.gen(function* () {
+        const paths = yield* listPaths();
+        const perPath = yield* Effect.forEach(paths, readFile);
+        return perPath.flat().sort((a, b) => {
+          if (a.globalOffset !== b.globalOffset) {
+            return (a.globalOffset ?? "") < (b.globalOffset ?? "") ? -1 : 1;
+          }
+          return a.createdAt.epochMillis - b.createdAt.epochMillis;
+        });
+      });
+
+      const storedSequence = (yield* fs.exists(sequencePath))
+        ? Number(yield* fs.readFileString(sequencePath))
+        : 0;
+      let lastGlobalOffset = (yield* readAllEvents).reduce(
+        (max, event) =>
+          event.globalOffset === undefined
+            ? max
+            : Math.max(max, GlobalOffset.toNumber(event.globalOffset)),
+        storedSequence,
+      );
+
+      const writeLock = yield* Effect.makeSemaphore(1);
+
+      const withNextGlobalOffset = (event: Event) =>
+        Event.make({ ...event, globalOffset: GlobalOffset.fromNumber(++lastGlobalOffset) });
+
+      // Saved before the events are written, so a failed write skips globalOffsets rather
+      // than reusing them
+      const saveSequence = Effect.suspend(() =>
+        fs.writeFileString(sequencePath, String(lastGlobalOffset)),
+      );
+
       const append = (event: Event) =>
         Effect.gen(function* () {
-          const filePath = getFilePath(event.path);
-          const encoded = yield* Schema.encode(Event)(event);
+          const stored = withNextGlobalOffset(event);
+          yield* saveSequence;
+          const filePath = getFilePath(stored.path);
+          const encoded = yield* Schema.encode(Event)(stored);
           const yaml = YAML.stringify(encoded);
           const doc = "---\n" + yaml;
           yield* fs.writeFile(filePath, new TextEncoder().encode(doc), { flag: "a" });
-          return event;
-        }).pipe(Effect.mapError((cause) => StreamStorageError.make({ cause, context: { event } })));
+          return stored;
+        }).pipe(
+          writeLock.withPermits(1),
+          Effect.mapError((cause) => StreamStorageError.make({ cause, context: { event } })),
+        );
+
+      // Events are grouped per file and each file gets a single write, so a batch for one
+      // path lands in one append rather than one document at a time
+      const appendAll = (events: ReadonlyArray<Event>) =>
+        Effect.gen(function* () {
+          const stored = events.map(withNextGlobalOffset);
+          yield* saveSequence;
+          const docsByFile = new Map<string, string>();
+          for (const event of stored) {
+            const filePath = getFilePath(event.path);
+            const encoded = yield* Schema.encode(Event)(event);
+            docsByFile.set(
+              filePath,
+              (docsByFile.get(filePath) ?? "") + "---\n" + YAML.stringify(encoded),
+            );
+          }
+          for (const [filePath, docs] of docsByFile) {
+            yield* fs.writeFile(filePath, new TextEncoder().encode(docs), { flag: "a" });
+          }
+          return stored;
+        }).pipe(
+          writeLock.withPermits(1),
+          Effect.mapError((cause) => StreamStorageError.make({ cause, context: { events } })),
+        );
 
       const read = ({
         path: streamPath,
         from,
         to,
+        filter,
       }: {
         path: StreamPath;
         from?: Offset;
         to?: Offset;
+        filter?: EventTypeFilter;
       }) =>
         Stream.unwrap(
           Effect.gen(function* () {
-            const filePath = getFilePath(streamPath);
-            const exists = yield* fs.exists(filePath);
-
-            if (!exists) {
-              return Stream.empty;
-            }
-
-            const content = yield* fs.readFileString(filePath);
-            const docs = YAML.parseAllDocuments(content).map((doc) => doc.toJS());
-
-            // Decode YAML objects to Events
-            let events = yield* Effect.all(docs.map((doc) => Schema.decodeUnknown(Event)(doc)));
+            let events = yield* readFile(streamPath);
 
             if (from !== undefined) {
               events = events.filter((e) => e.offset > from);
@@ -72,9 +178,146 @@ export const fileSystemLayer = (
             if (to !== undefined) {
               events = events.filter((e) => e.offset <= to);
             }
+            if (!EventTypeFilter.isEmpty(filter)) {
+              const matches = EventTypeFilter.matcher(filter);
+              events = events.filter((e) => matches(e.type));
+            }
 
             return Stream.fromIterable(events);
-          }).pipe(Effect.mapError((cause) => StreamStorageError.make({ cause }))),
+          }),
+        );
+
+      const readAll = ({ from, filter }: { from?: GlobalOffset; filter?: EventTypeFilter }) =>
+        Stream.unwrap(
+          Effect.gen(function* () {
+            const events = yield* readAllEvents;
+            const matches = EventTypeFilter.matcher(filter);
+            // Events without a globalOffset come before 1, the first one ever assigned
+            const fromStart = from === undefined || GlobalOffset.toNumber(from) < 1;
+            const isAfterFrom = (e: Event) =>
+              e.globalOffset === undefined
+                ? fromStart
+                : from === undefined || e.globalOffset > from;
+            return Stream.fromIterable(events.filter((e) => isAfterFrom(e) && matches(e.type)));
+          }),
+        );
+
+      // Only the files on the requested page are read
+      const listStreams = ({
+        prefix,
+        after,
+        limit,
+      }: {
+        prefix?: string;
+        after?: StreamPath;
+        limit?: number;
+      }) =>
+        Effect.gen(function* () {
+          const paths = (yield* listPaths())
+            .filter((streamPath) => prefix === undefined || streamPath.startsWith(prefix))
+            .filter((streamPath) => after === undefined || streamPath > after)
+            .sort();
+          const summaries: StreamMetadata[] = [];
+          for (const streamPath of paths) {
+            if (limit !== undefined && summaries.length >= limit) break;
+            const summary = StreamMetadata.fromEvents(yield* readFile(streamPath));
+            if (summary !== undefined) summaries.push(summary);
+          }
+          return summaries;
+        });
+
+      const deleteStream = (streamPath: StreamPath) =>
+        Effect.gen(function* () {
+          const events = yield* readFile(streamPath);
+          if (events.length > 0) yield* fs.remove(getFilePath(streamPath));
+          if (yield* fs.exists(snapshotsPath)) {
+            for (const key of yield* fs.readDirectory(snapshotsPath)) {
+              yield* fs.remove(getSnapshotFilePath(streamPath, key), { force: true });
+            }
+          }
+          return events.length;
+        }).pipe(
+          writeLock.withPermits(1),
+          Effect.mapError((cause) =>
+            StreamStorageError.make({ cause, context: { path: streamPath } }),
+          ),
+        );
+
+      const writeEvents = (streamPath: StreamPath, events: ReadonlyArray<Event>) =>
+        Effect.gen(function* () {
+          let docs = "";
+          for (const event of events) {
+            docs += "---\n" + YAML.stringify(yield* Schema.encode(Event)(event));
+          }
+          yield* fs.writeFile(getFilePath(streamPath), new TextEncoder().encode(docs));
+        });
+
+      // Rewrites the whole file with the kept events
+      const truncateStream = ({ path: streamPath, before }: { path: StreamPath; before: Offset }) =>
+        Effect.gen(function* () {
+          const events = yield* readFile(streamPath);
+          const kept = events.filter((e, i) => e.offset >= before || i === events.length - 1);
+          if (kept.length === events.length) return 0;
+
+          yield* writeEvents(streamPath, kept);
+          return events.length - kept.length;
+        }).pipe(
+          writeLock.withPermits(1),
+          Effect.mapError((cause) =>
+            StreamStorageError.make({ cause, context: { path: streamPath, before } }),
+          ),
+        );
+
+      const replaceEvents = ({
+        path: streamPath,
+        remove,
+        replacements,
+      }: {
+        path: StreamPath;
+        remove: ReadonlyArray<Offset>;
+        replacements: ReadonlyArray<Event>;
+      }) =>
+        Effect.gen(function* () {
+          const removed = new Set(remove);
+          const events = yield* readFile(streamPath);
+          const kept = events.filter((e) => !removed.has(e.offset));
+          yield* writeEvents(
+            streamPath,
+            [...kept, ...replacements].sort((a, b) => (a.offset < b.offset ? -1 : 1)),
+          );
+          return events.length - kept.length;
+        }).pipe(
+          writeLock.withPermits(1),
+          Effect.mapError((cause) =>
+            StreamStorageError.make({ cause, context: { path: streamPath, remove } }),
+          ),
+        );
+
+      const readSnapshot = ({ path: streamPath, key }: { path: StreamPath; key: string }) =>
+        Effect.gen(function* () {
+          const filePath = getSnapshotFilePath(streamPath, key);
+          if (!(yield* fs.exists(filePath))) return Option.none<Snapshot>();
+          const content = yield* fs.readFileString(filePath);
+          return Option.some(yield* Schema.decodeUnknown(Schema.parseJson(Snapshot))(content));
+        }).pipe(
+          Effect.mapError((cause) =>
+            StreamStorageError.make({ cause, context: { path: streamPath, key } }),
+          ),
+        );
+
+      const writeSnapshot = (snapshot: Snapshot) =>
+        Effect.gen(function* () {
+          const filePath = getSnapshotFilePath(snapshot.path, snapshot.key);
+          yield* fs.makeDirectory(path.dirname(filePath), { recursive: true });
+          const content = yield* Schema.encode(Schema.parseJson(Snapshot))(snapshot);
+          yield* fs.writeFileString(filePath, content);
+        }).pipe(
+          Effect.mapError((cause) =>
+            StreamStorageError.make({
+              cause,
+              context: { path: snapshot.path, key: snapshot.key },
+            }),
+          ),
         );
 
       const forPath = (streamPath: StreamPath): StreamStorage => ({
@@ -83,28 +326,32 @@ export const fileSystemLayer = (
             path: streamPath,
             ...(options?.from !== undefined && { from: options.from }),
             ...(options?.to !== undefined && { to: options.to }),
+            ...(options?.filter !== undefined && { filter: options.filter }),
           }).pipe(Stream.catchAllCause(() => Stream.empty)),
         append: (event) => append(event).pipe(Effect.orDie),
+        appendAll: (events) => appendAll(events).pipe(Effect.orDie),
+        readSnapshot: (key) =>
+          readSnapshot({ path: streamPath, key }).pipe(
+            Effect.orElseSucceed(() => Option.none<Snapshot>()),
+          ),
+        writeSnapshot: (snapshot) => writeSnapshot(snapshot).pipe(Effect.orDie),
       });
 
       return StreamStorageManager.of({
         [StreamStorageManagerTypeId]: StreamStorageManagerTypeId,
-        listPaths: () =>
-          Effect.gen(function* () {
-            const entries = yield* fs.readDirectory(basePath);
-            const paths: StreamPath[] = [];
-            for (const entry of entries) {
-              if (entry.endsWith(".yaml") && !entry.endsWith(".offset")) {
-                // Convert filename back to path: foo_bar.yaml → foo/bar
-                const name = entry.slice(0, -5).replace(/_/g, "/");
-                paths.push(StreamPath.make(name));
-              }
-            }
-            return paths;
-          }).pipe(Effect.mapError((cause) => StreamStorageError.make({ cause }))),
+        listPaths,
+        listStreams,
+        deleteStream,
+        truncateStream,
+        replaceEvents,
+        readSnapshot,
+        writeSnapshot,
         forPath,
         append,
+        appendAll,
         read,
+        readAll,
+        externalAppends: Stream.never,
       });
     }).pipe(Effect.mapError((cause) => StreamStorageError.make({ cause }))),
   );
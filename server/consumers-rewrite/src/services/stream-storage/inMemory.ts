@@ -1,15 +1,28 @@
 /**
  * In-memory implementation of StreamStorageManager
  */
-import { Effect, Layer, Stream } from "effect";
+import { Effect, Layer, Option, Stream } from "effect";
 
-import { Event, Offset, StreamPath } from "../../domain.js";
+import {
+  Event,
+  EventTypeFilter,
+  GlobalOffset,
+  Offset,
+  Snapshot,
+  StreamMetadata,
+  StreamPath,
+} from "../../domain.js";
 import { StreamStorage, StreamStorageManager, StreamStorageManagerTypeId } from "./service.js";
 
 export const inMemoryLayer: Layer.Layer<StreamStorageManager> = Layer.sync(
   StreamStorageManager,
   () => {
     const streams = new Map<StreamPath, Event[]>();
+    // All events across paths in globalOffset order
+    let log: Event[] = [];
+    let lastGlobalOffset = 0;
+    // Latest snapshot per path, by key
+    const snapshots = new Map<StreamPath, Map<string, Snapshot>>();
 
     const getOrCreateStream = (path: StreamPath) => {
       let stream = streams.get(path);
@@ -20,14 +33,31 @@ export const inMemoryLayer: Layer.Layer<StreamStorageManager> = Layer.sync(
       return stream;
     };
 
-    const append = (event: Event) =>
-      Effect.sync(() => {
-        const stream = getOrCreateStream(event.path);
-        stream.push(event);
-        return event;
+    const store = (event: Event) => {
+      const stored = Event.make({
+        ...event,
+        globalOffset: GlobalOffset.fromNumber(++lastGlobalOffset),
       });
+      getOrCreateStream(stored.path).push(stored);
+      log.push(stored);
+      return stored;
+    };
+
+    const append = (event: Event) => Effect.sync(() => store(event));
 
-    const read = ({ path, from, to }: { path: StreamPath; from?: Offset; to?: Offset }) =>
+    const appendAll = (events: ReadonlyArray<Event>) => Effect.sync(() => events.map(store));
+
+    const read = ({
+      path,
+      from,
+      to,
+      filter,
+    }: {
+      path: StreamPath;
+      from?: Offset;
+      to?: Offset;
+      filter?: EventTypeFilter;
+    }) =>
       Stream.suspend(() => {
         const stream = getOrCreateStream(path);
         let events = stream;
@@ -37,25 +67,126 @@ export const inMemoryLayer: Layer.Layer<StreamStorageManager> = Layer.sync(
         if (to !== undefined) {
           events = events.filter((e) => e.offset <= to);
         }
+        if (!EventTypeFilter.isEmpty(filter)) {
+          const matches = EventTypeFilter.matcher(filter);
+          events = events.filter((e) => matches(e.type));
+        }
         return Stream.fromIterable(events);
       });
 
+    const readAll = ({ from, filter }: { from?: GlobalOffset; filter?: EventTypeFilter }) =>
+      Stream.suspend(() => {
+        const matches = EventTypeFilter.matcher(filter);
+        return Stream.fromIterable(
+          log.filter(
+            (e) =>
+              (from === undefined || (e.globalOffset !== undefined && e.globalOffset > from)) &&
+              matches(e.type),
+          ),
+        );
+      });
+
+    const listStreams = ({
+      prefix,
+      after,
+      limit,
+    }: {
+      prefix?: string;
+      after?: StreamPath;
+      limit?: number;
+    }) =>
+      Effect.sync(() =>
+        Array.from(streams.keys())
+          .filter((path) => prefix === undefined || path.startsWith(prefix))
+          .filter((path) => after === undefined || path > after)
+          .sort()
+          .flatMap((path) => StreamMetadata.fromEvents(streams.get(path) ?? []) ?? [])
+          .slice(0, limit),
+      );
+
+    const deleteStream = (path: StreamPath) =>
+      Effect.sync(() => {
+        const removed = streams.get(path)?.length ?? 0;
+        streams.delete(path);
+        snapshots.delete(path);
+        log = log.filter((e) => e.path !== path);
+        return removed;
+      });
+
+    const truncateStream = ({ path, before }: { path: StreamPath; before: Offset }) =>
+      Effect.sync(() => {
+        const events = streams.get(path) ?? [];
+        const head = events[events.length - 1];
+        const isRemoved = (e: Event) => e.path === path && e.offset < before && e !== head;
+        const kept = events.filter((e) => !isRemoved(e));
+        streams.set(path, kept);
+        log = log.filter((e) => !isRemoved(e));
+        return events.length - kept.length;
+      });
+
+    const replaceEvents = ({
+      path,
+      remove,
+      replacements,
+    }: {
+      path: StreamPath;
+      remove: ReadonlyArray<Offset>;
+      replacements: ReadonlyArray<Event>;
+    }) =>
+      Effect.sync(() => {
+        const removed = new Set(remove);
+        const isRemoved = (e: Event) => e.path === path && removed.has(e.offset);
+        const events = streams.get(path) ?? [];
+        const kept = events.filter((e) => !isRemoved(e));
+        streams.set(
+          path,
+          [...kept, ...replacements].sort((a, b) => (a.offset < b.offset ? -1 : 1)),
+        );
+        log = [...log.filter((e) => !isRemoved(e)), ...replacements].sort((a, b) =>
+          (a.globalOffset ?? "") < (b.globalOffset ?? "") ? -1 : 1,
+        );
+        return events.length - kept.length;
+      });
+
+    const readSnapshot = ({ path, key }: { path: StreamPath; key: string }) =>
+      Effect.sync(() => Option.fromNullable(snapshots.get(path)?.get(key)));
+
+    const writeSnapshot = (snapshot: Snapshot) =>
+      Effect.sync(() => {
+        const byKey = snapshots.get(snapshot.path) ?? new Map<string, Snapshot>();
+        byKey.set(snapshot.key, snapshot);
+        snapshots.set(snapshot.path, byKey);
+      });
+
     const forPath = (path: StreamPath): StreamStorage => ({
       read: (options) =>
         read({
           path,
           ...(options?.from !== undefined && { from: options.from }),
           ...(options?.to !== undefined && { to: options.to }),
+          ...(options?.filter !== undefined && { filter: options.filter }),
         }).pipe(Stream.catchAllCause(() => Stream.empty)),
       append: (event) => append(event).pipe(Effect.orDie),
+      appendAll: (events) => appendAll(events).pipe(Effect.orDie),
+      readSnapshot: (key) => readSnapshot({ path, key }),
+      writeSnapshot,
     });
 
     return StreamStorageManager.of({
       [StreamStorageManagerTypeId]: StreamStorageManagerTypeId,
       listPaths: () => Effect.succeed(Array.from(streams.keys())),
+      listStreams,
+      deleteStream,
+      truncateStream,
+      replaceEvents,
+      readSnapshot,
+      writeSnapshot,
       forPath,
       append,
+      appendAll,
       read,
+      readAll,
+      externalAppends: Stream.never,
     });
   },
 );
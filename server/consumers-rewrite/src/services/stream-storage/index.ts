@@ -4,7 +4,12 @@
 
 // Re-export service definition
 export type { StreamStorage } from "./service.js";
-export { StreamStorageManager, StreamStorageError, StreamStorageManagerTypeId } from "./service.js";
+export {
+  OffsetTakenError,
+  StreamStorageManager,
+  StreamStorageError,
+  StreamStorageManagerTypeId,
+} from "./service.js";
 export type { StreamStorageManagerTypeId as StreamStorageManagerTypeIdType } from "./service.js";
 
 // Re-export layers
@@ -12,3 +17,4 @@ export { inMemoryLayer } from "./inMemory.js";
 export { fileSystemLayer } from "./fileSystem.js";
 export { sqliteLayer } from "./sqlite.js";
 export type { EventRow } from "./sqlite.js";
+export { postgresLayer } from "./postgres.js";
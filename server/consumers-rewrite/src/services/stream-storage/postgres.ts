@@ -0,0 +1,489 @@
+/**
+ * Postgres implementation of StreamStorageManager
+ *
+ * Same tables as the SQLite backend, but the database is meant to be shared by several
+ * server processes:
+ * - Appends lock the global sequence row, so they commit one at a time across processes and
+ *   a batch whose first offset no longer follows the path head fails with OffsetTakenError.
+ * - Each append sends a NOTIFY (delivered on commit) with its seq range. Other processes
+ *   LISTEN and read those rows back, which feeds `externalAppends`.
+ *
+ * Text columns that are compared or sorted use the "C" collation, so offsets and paths order
+ * bytewise as they do in the other backends.
+ */
+import { PgClient } from "@effect/sql-pg";
+import { DateTime, Effect, Layer, Option, Redacted, Schema, Stream } from "effect";
+
+import {
+  Event,
+  EventType,
+  EventTypeFilter,
+  GlobalOffset,
+  Offset,
+  Snapshot,
+  StreamMetadata,
+  StreamPath,
+} from "../../domain.js";
+import { EventRow, eventToRow, rowToEvent } from "./rows.js";
+import {
+  OffsetTakenError,
+  StreamStorage,
+  StreamStorageError,
+  StreamStorageManager,
+  StreamStorageManagerTypeId,
+} from "./service.js";
+
+// -------------------------------------------------------------------------------------
+// Notifications
+// -------------------------------------------------------------------------------------
+
+const appendsChannel = "stream_appends";
+
+/**
+ * NOTIFY payload for one committed append. Payloads are capped at 8000 bytes, so only the
+ * seq range is sent and listeners read the rows.
+ */
+const AppendNotification = Schema.parseJson(
+  Schema.Struct({
+    instance: Schema.String,
+    fromSeq: Schema.Number,
+    toSeq: Schema.Number,
+  }),
+);
+
+// BIGINT columns come back from pg as strings
+type PgEventRow = Omit<EventRow, "seq"> & { seq: string };
+
+const pgRowToEvent = (row: PgEventRow): Event => rowToEvent({ ...row, seq: Number(row.seq) });
+
+// -------------------------------------------------------------------------------------
+// Layer factory
+// -------------------------------------------------------------------------------------
+
+/**
+ * Create a Postgres-backed StreamStorageManager layer. Tables are created on first use.
+ *
+ * @param url - Connection string (e.g., `postgres://localhost:5432/streams`)
+ */
+export const postgresLayer = (url: string): Layer.Layer<StreamStorageManager, StreamStorageError> =>
+  Layer.scoped(
+    StreamStorageManager,
+    Effect.gen(function* () {
+      const sql = yield* PgClient.PgClient;
+
+      // Identifies this process's own notifications
+      const instance = crypto.randomUUID();
+
+      // Initialize schema - serialized, as concurrent CREATE ... IF NOT EXISTS can still
+      // collide when several processes boot at once
+      yield* Effect.gen(function* () {
+        yield* sql`SELECT pg_advisory_xact_lock(hashtext('stream_storage_schema'))`;
+        yield* sql`
+          CREATE TABLE IF NOT EXISTS events (
+            path TEXT COLLATE "C" NOT NULL,
+            "offset" TEXT COLLATE "C" NOT NULL,
+            type TEXT COLLATE "C" NOT NULL,
+            payload TEXT NOT NULL,
+            version TEXT NOT NULL DEFAULT '1',
+            created_at TEXT COLLATE "C" NOT NULL,
+            trace_id TEXT NOT NULL,
+            span_id TEXT NOT NULL,
+            parent_span_id TEXT,
+            idempotency_key TEXT,
+            seq BIGINT NOT NULL,
+            PRIMARY KEY (path, "offset")
+          )
+        `;
+
+        // Monotonic counter for seq - its row lock is what serializes appends
+        yield* sql`
+          CREATE TABLE IF NOT EXISTS sequences (
+            name TEXT PRIMARY KEY,
+            value BIGINT NOT NULL
+          )
+        `;
+        yield* sql`
+          INSERT INTO sequences (name, value)
+          SELECT 'events', COALESCE(MAX(seq), 0) FROM events
+          ON CONFLICT (name) DO NOTHING
+        `;
+
+        yield* sql`
+          CREATE UNIQUE INDEX IF NOT EXISTS idx_events_seq ON events(seq)
+        `;
+
+        yield* sql`
+          CREATE UNIQUE INDEX IF NOT EXISTS idx_events_path_idempotency_key
+          ON events(path, idempotency_key) WHERE idempotency_key IS NOT NULL
+        `;
+
+        yield* sql`
+          CREATE TABLE IF NOT EXISTS snapshots (
+            path TEXT COLLATE "C" NOT NULL,
+            key TEXT NOT NULL,
+            version INTEGER NOT NULL,
+            "offset" TEXT COLLATE "C" NOT NULL,
+            state TEXT NOT NULL,
+            created_at TEXT NOT NULL,
+            PRIMARY KEY (path, key)
+          )
+        `;
+      }).pipe(sql.withTransaction);
+
+      const insertRow = (event: Event, seq: number) => {
+        const row = eventToRow(event);
+        return sql`
+          INSERT INTO events (path, "offset", type, payload, version, created_at, trace_id, span_id, parent_span_id, idempotency_key, seq)
+          VALUES (${row.path}, ${row.offset}, ${row.type}, ${row.payload}, ${row.version}, ${row.created_at}, ${row.trace_id}, ${row.span_id}, ${row.parent_span_id}, ${row.idempotency_key}, ${seq})
+        `;
+      };
+
+      // Must run inside a transaction so the seq bump and insert commit together
+      const insert = (event: Event) =>
+        Effect.gen(function* () {
+          const [{ value }] = yield* sql<{ value: string }>`
+            UPDATE sequences SET value = value + 1 WHERE name = 'events' RETURNING value
+          `;
+          const seq = Number(value);
+          yield* insertRow(event, seq);
+          return Event.make({ ...event, globalOffset: GlobalOffset.fromNumber(seq) });
+        });
+
+      // Sent inside the transaction, so listeners are only told once the rows are visible
+      const notifyAppended = (stored: ReadonlyArray<Event>) =>
+        Effect.gen(function* () {
+          const seqs = stored.map((event) => GlobalOffset.toNumber(event.globalOffset!));
+          const payload = yield* Schema.encode(AppendNotification)({
+            instance,
+            fromSeq: Math.min(...seqs),
+            toSeq: Math.max(...seqs),
+          });
+          yield* sql`SELECT pg_notify(${appendsChannel}, ${payload})`;
+        });
+
+      const append = (event: Event) =>
+        Effect.gen(function* () {
+          const stored = yield* insert(event);
+          yield* notifyAppended([stored]);
+          return stored;
+        }).pipe(
+          sql.withTransaction,
+          Effect.mapError((cause) => StreamStorageError.make({ cause, context: { event } })),
+        );
+
+      // Single transaction: a failed insert rolls back the whole batch. The sequence row is
+      // locked before the heads are checked, so no other process can append in between.
+      const appendAll = (events: ReadonlyArray<Event>) =>
+        Effect.gen(function* () {
+          if (events.length === 0) return [];
+          yield* sql`SELECT value FROM sequences WHERE name = 'events' FOR UPDATE`;
+
+          const firstByPath = new Map<StreamPath, Event>();
+          for (const event of events) {
+            if (!firstByPath.has(event.path)) firstByPath.set(event.path, event);
+          }
+          for (const [path, first] of firstByPath) {
+            const [{ head }] = yield* sql<{ head: string | null }>`
+              SELECT MAX("offset") AS head FROM events WHERE path = ${path}
+            `;
+            const headOffset = Offset.make(head ?? "-1");
+            if (parseInt(first.offset, 10) <= parseInt(headOffset, 10)) {
+              return yield* OffsetTakenError.make({ path, headOffset });
+            }
+          }
+
+          const stored = yield* Effect.forEach(events, insert);
+          yield* notifyAppended(stored);
+          return stored;
+        }).pipe(
+          sql.withTransaction,
+          Effect.catchTag("SqlError", (cause) =>
+            StreamStorageError.make({ cause, context: { events } }),
+          ),
+          Effect.catchTag("ParseError", (cause) =>
+            StreamStorageError.make({ cause, context: { events } }),
+          ),
+        );
+
+      // Same filter translation as the SQLite backend - substr rather than LIKE so `_` and
+      // `%` in prefixes are literal
+      const typeConditions = (filter: EventTypeFilter | undefined) => {
+        const matching = (entries: ReadonlyArray<string>) =>
+          sql.or(
+            entries.map((entry) => {
+              const prefix = EventTypeFilter.typePrefix(entry);
+              return prefix === undefined
+                ? sql`type = ${entry}`
+                : sql`substr(type, 1, ${prefix.length}) = ${prefix}`;
+            }),
+          );
+        const conditions = [];
+        if (filter?.types !== undefined && filter.types.length > 0) {
+          conditions.push(matching(filter.types));
+        }
+        if (filter?.excludeTypes !== undefined && filter.excludeTypes.length > 0) {
+          conditions.push(sql`NOT ${matching(filter.excludeTypes)}`);
+        }
+        return conditions;
+      };
+
+      const read = ({
+        path,
+        from,
+        to,
+        filter,
+      }: {
+        path: StreamPath;
+        from?: Offset;
+        to?: Offset;
+        filter?: EventTypeFilter;
+      }) =>
+        Stream.unwrap(
+          Effect.gen(function* () {
+            const conditions = [sql`path = ${path}`, ...typeConditions(filter)];
+            if (from !== undefined) conditions.push(sql`"offset" > ${from}`);
+            if (to !== undefined) conditions.push(sql`"offset" <= ${to}`);
+
+            const rows = yield* sql<PgEventRow>`
+              SELECT * FROM events
+              WHERE ${sql.and(conditions)}
+              ORDER BY "offset" ASC
+            `;
+            return Stream.fromIterable(rows.map(pgRowToEvent));
+          }).pipe(Effect.mapError((cause) => StreamStorageError.make({ cause }))),
+        );
+
+      const readAll = ({ from, filter }: { from?: GlobalOffset; filter?: EventTypeFilter }) =>
+        Stream.unwrap(
+          Effect.gen(function* () {
+            const conditions = [
+              sql`seq > ${from === undefined ? 0 : GlobalOffset.toNumber(from)}`,
+              ...typeConditions(filter),
+            ];
+            const rows = yield* sql<PgEventRow>`
+              SELECT * FROM events
+              WHERE ${sql.and(conditions)}
+              ORDER BY seq ASC
+            `;
+            return Stream.fromIterable(rows.map(pgRowToEvent));
+          }).pipe(Effect.mapError((cause) => StreamStorageError.make({ cause }))),
+        );
+
+      // Rows named in other processes' notifications. Our own appends are already published
+      // locally by the EventStream that made them.
+      const externalAppends = sql.listen(appendsChannel).pipe(
+        Stream.filterMap(Schema.decodeUnknownOption(AppendNotification)),
+        Stream.filter((notification) => notification.instance !== instance),
+        Stream.mapEffect(
+          ({ fromSeq, toSeq }) => sql<PgEventRow>`
+            SELECT * FROM events
+            WHERE seq >= ${fromSeq} AND seq <= ${toSeq}
+            ORDER BY seq ASC
+          `,
+        ),
+        Stream.flatMap((rows) => Stream.fromIterable(rows.map(pgRowToEvent))),
+        Stream.mapError((cause) => StreamStorageError.make({ cause })),
+      );
+
+      // One aggregate per path; the last event's type comes from the head row
+      const listStreams = ({
+        prefix,
+        after,
+        limit,
+      }: {
+        prefix?: string;
+        after?: StreamPath;
+        limit?: number;
+      }) =>
+        Effect.gen(function* () {
+          const conditions = [];
+          if (prefix !== undefined) {
+            conditions.push(sql`substr(path, 1, ${prefix.length}) = ${prefix}`);
+          }
+          if (after !== undefined) conditions.push(sql`path > ${after}`);
+
+          const rows = yield* sql<{
+            path: string;
+            event_count: string;
+            head_offset: string;
+            first_created_at: string;
+            last_created_at: string;
+            last_event_type: string;
+          }>`
+            SELECT
+              path,
+              COUNT(*) AS event_count,
+              MAX("offset") AS head_offset,
+              MIN(created_at) AS first_created_at,
+              MAX(created_at) AS last_created_at,
+              (
+                SELECT type FROM events AS head
+                WHERE head.path = events.path
+                ORDER BY head."offset" DESC
+                LIMIT 1
+              ) AS last_event_type
+            FROM events
+            WHERE ${sql.and(conditions)}
+            GROUP BY path
+            ORDER BY path ASC
+            LIMIT ${limit ?? null}
+          `;
+
+          return rows.map(
+            (row) =>
+              new StreamMetadata({
+                path: StreamPath.make(row.path),
+                eventCount: Number(row.event_count),
+                headOffset: Offset.make(row.head_offset),
+                firstCreatedAt: DateTime.unsafeFromDate(new Date(row.first_created_at)),
+                lastCreatedAt: DateTime.unsafeFromDate(new Date(row.last_created_at)),
+                lastEventType: EventType.make(row.last_event_type),
+              }),
+          );
+        }).pipe(Effect.mapError((cause) => StreamStorageError.make({ cause })));
+
+      const deleteStream = (path: StreamPath) =>
+        Effect.gen(function* () {
+          const removed = yield* sql<{ offset: string }>`
+            DELETE FROM events WHERE path = ${path} RETURNING "offset"
+          `;
+          yield* sql`DELETE FROM snapshots WHERE path = ${path}`;
+          return removed.length;
+        }).pipe(
+          sql.withTransaction,
+          Effect.mapError((cause) => StreamStorageError.make({ cause, context: { path } })),
+        );
+
+      const truncateStream = ({ path, before }: { path: StreamPath; before: Offset }) =>
+        Effect.gen(function* () {
+          const removed = yield* sql<{ offset: string }>`
+            DELETE FROM events
+            WHERE path = ${path}
+              AND "offset" < ${before}
+              AND "offset" < (SELECT MAX("offset") FROM events WHERE path = ${path})
+            RETURNING "offset"
+          `;
+          return removed.length;
+        }).pipe(
+          Effect.mapError((cause) => StreamStorageError.make({ cause, context: { path, before } })),
+        );
+
+      // Replacements keep the seq of the events they stand in for, and are not reported to
+      // other processes - their subscribers have already seen the originals
+      const replaceEvents = ({
+        path,
+        remove,
+        replacements,
+      }: {
+        path: StreamPath;
+        remove: ReadonlyArray<Offset>;
+        replacements: ReadonlyArray<Event>;
+      }) =>
+        Effect.gen(function* () {
+          if (remove.length === 0) return 0;
+          const removed = yield* sql<{ offset: string }>`
+            DELETE FROM events WHERE path = ${path} AND ${sql.in("offset", remove)}
+            RETURNING "offset"
+          `;
+          for (const event of replacements) {
+            yield* insertRow(event, GlobalOffset.toNumber(event.globalOffset!));
+          }
+          return removed.length;
+        }).pipe(
+          sql.withTransaction,
+          Effect.mapError((cause) => StreamStorageError.make({ cause, context: { path, remove } })),
+        );
+
+      const readSnapshot = ({ path, key }: { path: StreamPath; key: string }) =>
+        Effect.gen(function* () {
+          const rows = yield* sql<{
+            version: number;
+            offset: string;
+            state: string;
+            created_at: string;
+          }>`
+            SELECT version, "offset", state, created_at FROM snapshots
+            WHERE path = ${path} AND key = ${key}
+          `;
+          return Option.map(
+            Option.fromNullable(rows[0]),
+            (row) =>
+              new Snapshot({
+                path,
+                key,
+                version: row.version,
+                offset: Offset.make(row.offset),
+                state: JSON.parse(row.state) as unknown,
+                createdAt: DateTime.unsafeFromDate(new Date(row.created_at)),
+              }),
+          );
+        }).pipe(
+          Effect.mapError((cause) => StreamStorageError.make({ cause, context: { path, key } })),
+        );
+
+      const writeSnapshot = (snapshot: Snapshot) =>
+        Effect.gen(function* () {
+          const state = yield* Schema.encode(Schema.parseJson())(snapshot.state);
+          yield* sql`
+            INSERT INTO snapshots (path, key, version, "offset", state, created_at)
+            VALUES (${snapshot.path}, ${snapshot.key}, ${snapshot.version}, ${snapshot.offset}, ${state}, ${DateTime.formatIso(snapshot.createdAt)})
+            ON CONFLICT (path, key) DO UPDATE SET
+              version = EXCLUDED.version,
+              "offset" = EXCLUDED."offset",
+              state = EXCLUDED.state,
+              created_at = EXCLUDED.created_at
+          `;
+        }).pipe(
+          Effect.mapError((cause) =>
+            StreamStorageError.make({
+              cause,
+              context: { path: snapshot.path, key: snapshot.key },
+            }),
+          ),
+        );
+
+      const forPath = (streamPath: StreamPath): StreamStorage => ({
+        read: (options) =>
+          read({
+            path: streamPath,
+            ...(options?.from !== undefined && { from: options.from }),
+            ...(options?.to !== undefined && { to: options.to }),
+            ...(options?.filter !== undefined && { filter: options.filter }),
+          }).pipe(Stream.catchAllCause(() => Stream.empty)),
+        append: (event) => append(event).pipe(Effect.orDie),
+        appendAll: (events) =>
+          appendAll(events).pipe(Effect.catchTag("StreamStorageError", Effect.die)),
+        readSnapshot: (key) =>
+          readSnapshot({ path: streamPath, key }).pipe(
+            Effect.orElseSucceed(() => Option.none<Snapshot>()),
+          ),
+        writeSnapshot: (snapshot) => writeSnapshot(snapshot).pipe(Effect.orDie),
+      });
+
+      return StreamStorageManager.of({
+        [StreamStorageManagerTypeId]: StreamStorageManagerTypeId,
+        listPaths: () =>
+          Effect.gen(function* () {
+            const rows = yield* sql<{ path: string }>`
+              SELECT DISTINCT path FROM events ORDER BY path ASC
+            `;
+            return rows.map((row) => StreamPath.make(row.path));
+          }).pipe(Effect.mapError((cause) => StreamStorageError.make({ cause }))),
+        listStreams,
+        deleteStream,
+        truncateStream,
+        replaceEvents,
+        readSnapshot,
+        writeSnapshot,
+        forPath,
+        append,
+        appendAll,
+        read,
+        readAll,
+        externalAppends,
+      });
+    }).pipe(Effect.mapError((cause) => StreamStorageError.make({ cause }))),
+  ).pipe(
+    Layer.provide(PgClient.layer({ url: Redacted.make(url) })),
+    Layer.mapError((cause) => StreamStorageError.make({ cause })),
+  );
@@ -0,0 +1,77 @@
+/**
+ * Row shape shared by the SQL backends (SQLite and Postgres)
+ */
+import { DateTime, Option } from "effect";
+
+import {
+  Event,
+  EventType,
+  GlobalOffset,
+  IdempotencyKey,
+  Offset,
+  Payload,
+  StreamPath,
+  Version,
+} from "../../domain.js";
+import { SpanId, TraceContext, TraceId } from "../../tracing/traceContext.js";
+
+// -------------------------------------------------------------------------------------
+// Row types (exported for tooling)
+// -------------------------------------------------------------------------------------
+
+/**
+ * Raw database row shape for events table.
+ * Exported for use by debug/CLI tools that need direct DB access.
+ */
+export interface EventRow {
+  path: string;
+  offset: string;
+  type: string;
+  payload: string;
+  version: string;
+  created_at: string;
+  trace_id: string;
+  span_id: string;
+  parent_span_id: string | null;
+  idempotency_key: string | null;
+  /** Global sequence across all paths (exposed as Event.globalOffset) */
+  seq: number | null;
+}
+
+// -------------------------------------------------------------------------------------
+// Row conversion
+// -------------------------------------------------------------------------------------
+
+export const eventToRow = (event: Event): Omit<EventRow, "seq"> => ({
+  path: event.path,
+  offset: event.offset,
+  type: event.type,
+  payload: JSON.stringify(event.payload),
+  version: event.version,
+  created_at: DateTime.formatIso(event.createdAt),
+  trace_id: event.trace.traceId,
+  span_id: event.trace.spanId,
+  parent_span_id: Option.getOrNull(event.trace.parentSpanId),
+  idempotency_key: event.idempotencyKey ?? null,
+});
+
+export const rowToEvent = (row: EventRow): Event =>
+  Event.make({
+    path: StreamPath.make(row.path),
+    offset: Offset.make(row.offset),
+    type: EventType.make(row.type),
+    payload: JSON.parse(row.payload) as Payload,
+    version: Version.make(row.version),
+    createdAt: DateTime.unsafeFromDate(new Date(row.created_at)),
+    trace: TraceContext.make({
+      traceId: TraceId.make(row.trace_id),
+      spanId: SpanId.make(row.span_id),
+      parentSpanId: row.parent_span_id
+        ? Option.some(SpanId.make(row.parent_span_id))
+        : Option.none(),
+    }),
+    ...(row.idempotency_key !== null && {
+      idempotencyKey: IdempotencyKey.make(row.idempotency_key),
+    }),
+    ...(row.seq !== null && { globalOffset: GlobalOffset.fromNumber(row.seq) }),
+  });
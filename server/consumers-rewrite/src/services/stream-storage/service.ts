@@ -1,9 +1,17 @@
 /**
  * StreamStorage service definition
  */
-import { Context, Effect, Schema, Stream } from "effect";
+import { Context, Effect, Option, Schema, Stream } from "effect";
 
-import { Event, Offset, StreamPath } from "../../domain.js";
+import {
+  Event,
+  EventTypeFilter,
+  GlobalOffset,
+  Offset,
+  Snapshot,
+  StreamMetadata,
+  StreamPath,
+} from "../../domain.js";
 
 // -------------------------------------------------------------------------------------
 // Type ID (for nominal uniqueness)
@@ -24,6 +32,15 @@ export class StreamStorageError extends Schema.TaggedError<StreamStorageError>()
   },
 ) {}
 
+/**
+ * Another writer sharing the storage appended to the path first, so the proposed offsets are
+ * taken. Only backends shared between processes fail with it.
+ */
+export class OffsetTakenError extends Schema.TaggedError<OffsetTakenError>()("OffsetTakenError", {
+  path: StreamPath,
+  headOffset: Offset,
+}) {}
+
 // -------------------------------------------------------------------------------------
 // StreamStorage (path-scoped data type)
 // -------------------------------------------------------------------------------------
@@ -33,10 +50,32 @@ export class StreamStorageError extends Schema.TaggedError<StreamStorageError>()
  */
 export interface StreamStorage {
   /** Read events from this stream */
-  readonly read: (options?: { from?: Offset; to?: Offset }) => Stream.Stream<Event>;
+  readonly read: (options?: {
+    from?: Offset;
+    to?: Offset;
+    filter?: EventTypeFilter;
+  }) => Stream.Stream<Event>;
 
-  /** Append an event to this stream (already has offset/createdAt assigned) */
+  /**
+   * Append an event to this stream (already has offset/createdAt assigned).
+   * Returns the stored event with its globalOffset assigned.
+   */
   readonly append: (event: Event) => Effect.Effect<Event>;
+
+  /**
+   * Append several events as one atomic unit - either all are persisted or none are.
+   * Fails with OffsetTakenError (persisting nothing) if the first offset is not past the
+   * stored head. Offsets may skip ahead, e.g. when importing an archive of a truncated stream.
+   */
+  readonly appendAll: (
+    events: ReadonlyArray<Event>,
+  ) => Effect.Effect<ReadonlyArray<Event>, OffsetTakenError>;
+
+  /** Latest snapshot stored under a key for this stream */
+  readonly readSnapshot: (key: string) => Effect.Effect<Option.Option<Snapshot>>;
+
+  /** Store a snapshot, replacing the previous one for its key */
+  readonly writeSnapshot: (snapshot: Snapshot) => Effect.Effect<void>;
 }
 
 // -------------------------------------------------------------------------------------
@@ -52,6 +91,18 @@ export interface StreamStorageManager {
   /** List all existing stream paths */
   readonly listPaths: () => Effect.Effect<StreamPath[], StreamStorageError>;
 
+  /**
+   * Summaries of non-empty streams, ordered by path.
+   * @param prefix - Only paths starting with this string.
+   * @param after - Exclusive cursor. Returns paths sorting after it.
+   * @param limit - Maximum number of streams returned.
+   */
+  readonly listStreams: (input: {
+    prefix?: string;
+    after?: StreamPath;
+    limit?: number;
+  }) => Effect.Effect<ReadonlyArray<StreamMetadata>, StreamStorageError>;
+
   /** Get a path-scoped StreamStorage */
   readonly forPath: (path: StreamPath) => StreamStorage;
 
@@ -59,15 +110,73 @@ export interface StreamStorageManager {
    * Read events from stream.
    * @param from - Exclusive start offset. Returns events with offset > from.
    * @param to - Inclusive end offset. Returns events with offset <= to.
+   * @param filter - Only events whose type passes the filter (applied by the backend).
    */
   readonly read: (input: {
     path: StreamPath;
     from?: Offset;
     to?: Offset;
+    filter?: EventTypeFilter;
+  }) => Stream.Stream<Event, StreamStorageError>;
+
+  /**
+   * Read events across all paths in globalOffset order.
+   * @param from - Exclusive start. Returns events with globalOffset > from.
+   * @param filter - Only events whose type passes the filter.
+   */
+  readonly readAll: (input: {
+    from?: GlobalOffset;
+    filter?: EventTypeFilter;
   }) => Stream.Stream<Event, StreamStorageError>;
 
-  /** Append event to stream (path is taken from event.path) */
+  /** Latest snapshot stored under a key for a path */
+  readonly readSnapshot: (input: {
+    path: StreamPath;
+    key: string;
+  }) => Effect.Effect<Option.Option<Snapshot>, StreamStorageError>;
+
+  /** Store a snapshot, replacing the previous one for its path and key */
+  readonly writeSnapshot: (snapshot: Snapshot) => Effect.Effect<void, StreamStorageError>;
+
+  /** Remove every event (and snapshot) on a path, returns the number of events removed */
+  readonly deleteStream: (path: StreamPath) => Effect.Effect<number, StreamStorageError>;
+
+  /**
+   * Remove events with offset < before, returns the number of events removed.
+   * The head event is always kept so the stream never reuses an offset.
+   */
+  readonly truncateStream: (input: {
+    path: StreamPath;
+    before: Offset;
+  }) => Effect.Effect<number, StreamStorageError>;
+
+  /**
+   * Swap events in place: removes the events at `remove` and stores `replacements`, each of
+   * which reuses the offset and globalOffset of a removed event, so cursors stay valid.
+   * Atomic where the backend supports it. Returns the number of events removed.
+   */
+  readonly replaceEvents: (input: {
+    path: StreamPath;
+    remove: ReadonlyArray<Offset>;
+    replacements: ReadonlyArray<Event>;
+  }) => Effect.Effect<number, StreamStorageError>;
+
+  /**
+   * Append event to stream (path is taken from event.path).
+   * Storage assigns the next globalOffset and returns the stored event.
+   */
   readonly append: (event: Event) => Effect.Effect<Event, StreamStorageError>;
+
+  /** Append events atomically - either all are persisted or none are */
+  readonly appendAll: (
+    events: ReadonlyArray<Event>,
+  ) => Effect.Effect<ReadonlyArray<Event>, StreamStorageError | OffsetTakenError>;
+
+  /**
+   * Events committed by other processes sharing this storage, in commit order. Backends
+   * owned by a single process never emit.
+   */
+  readonly externalAppends: Stream.Stream<Event, StreamStorageError>;
 }
 
 export const StreamStorageManager = Context.GenericTag<StreamStorageManager>(
@@ -3,72 +3,36 @@
  *
  * Stores events in a SQLite database with a single `events` table.
  * Each row represents one event, with path + offset as the composite primary key.
+ * Processor snapshots live in a `snapshots` table keyed by path + key.
+ *
+ * Several processes may open the same file. Appends take the write lock before checking the
+ * path head, so a batch built on a stale head fails with OffsetTakenError, and each process
+ * polls for rows with a higher seq written by someone else to feed `externalAppends`.
  */
 import { Reactivity } from "@effect/experimental";
 import { SqliteClient } from "@effect/sql-sqlite-node";
-import { DateTime, Effect, Layer, Option, Stream } from "effect";
+import { Chunk, DateTime, Duration, Effect, Layer, Option, Schema, Stream } from "effect";
 
-import { Event, EventType, Offset, Payload, StreamPath, Version } from "../../domain.js";
-import { SpanId, TraceContext, TraceId } from "../../tracing/traceContext.js";
 import {
+  Event,
+  EventType,
+  EventTypeFilter,
+  GlobalOffset,
+  Offset,
+  Snapshot,
+  StreamMetadata,
+  StreamPath,
+} from "../../domain.js";
+import { EventRow, eventToRow, rowToEvent } from "./rows.js";
+import {
+  OffsetTakenError,
   StreamStorage,
   StreamStorageError,
   StreamStorageManager,
   StreamStorageManagerTypeId,
 } from "./service.js";
 
-// -------------------------------------------------------------------------------------
-// Row types (exported for tooling)
-// -------------------------------------------------------------------------------------
-
-/**
- * Raw database row shape for events table.
- * Exported for use by debug/CLI tools that need direct DB access.
- */
-export interface EventRow {
-  path: string;
-  offset: string;
-  type: string;
-  payload: string;
-  version: string;
-  created_at: string;
-  trace_id: string;
-  span_id: string;
-  parent_span_id: string | null;
-}
-
-// -------------------------------------------------------------------------------------
-// Row conversion
-// -------------------------------------------------------------------------------------
-
-const eventToRow = (event: Event): EventRow => ({
-  path: event.path,
-  offset: event.offset,
-  type: event.type,
-  payload: JSON.stringify(event.payload),
-  version: event.version,
-  created_at: DateTime.formatIso(event.createdAt),
-  trace_id: event.trace.traceId,
-  span_id: event.trace.spanId,
-  parent_span_id: Option.getOrNull(event.trace.parentSpanId),
-});
-
-const rowToEvent = (row: EventRow): Event =>
-  Event.make({
-    path: StreamPath.make(row.path),
-    offset: Offset.make(row.offset),
-    type: EventType.make(row.type),
-    payload: JSON.parse(row.payload) as Payload,
-    version: Version.make(row.version),
-    createdAt: DateTime.unsafeFromDate(new Date(row.created_at)),
-    trace: TraceContext.make({
-      traceId: TraceId.make(row.trace_id),
-      spanId: SpanId.make(row.span_id),
-      parentSpanId: row.parent_span_id
-        ? Option.some(SpanId.make(row.parent_span_id))
-        : Option.none(),
-    }),
-  });
+export type { EventRow } from "./rows.js";
 
 // -------------------------------------------------------------------------------------
 // Layer factory
@@ -78,15 +42,21 @@ const rowToEvent = (row: EventRow): Event =>
  * Create a SQLite-backed StreamStorageManager layer.
  *
  * @param filename - Path to the SQLite database file (e.g., `.data/streams.db`)
+ * @param options.pollInterval - How often to look for rows other processes appended
+ *   (default 200ms)
  */
 export const sqliteLayer = (
   filename: string,
+  options?: { pollInterval?: Duration.DurationInput },
 ): Layer.Layer<StreamStorageManager, StreamStorageError> =>
   Layer.scoped(
     StreamStorageManager,
     Effect.gen(function* () {
       const sql = yield* SqliteClient.SqliteClient;
 
+      // Stamped on the rows this process writes, so polling can skip them
+      const instance = crypto.randomUUID();
+
       // Initialize schema
       yield* sql`
         CREATE TABLE IF NOT EXISTS events (
@@ -99,69 +69,377 @@ export const sqliteLayer = (
           trace_id TEXT NOT NULL,
           span_id TEXT NOT NULL,
           parent_span_id TEXT,
+          idempotency_key TEXT,
+          seq INTEGER,
+          writer_id TEXT,
           PRIMARY KEY (path, offset)
         )
       `;
 
+      // Databases created before these columns existed lack them
+      const columns = yield* sql<{ name: string }>`PRAGMA table_info(events)`;
+      if (!columns.some((column) => column.name === "idempotency_key")) {
+        yield* sql`ALTER TABLE events ADD COLUMN idempotency_key TEXT`;
+      }
+      if (!columns.some((column) => column.name === "seq")) {
+        yield* sql`ALTER TABLE events ADD COLUMN seq INTEGER`;
+        // rowid preserves insertion order for existing rows
+        yield* sql`UPDATE events SET seq = rowid`;
+      }
+      if (!columns.some((column) => column.name === "writer_id")) {
+        yield* sql`ALTER TABLE events ADD COLUMN writer_id TEXT`;
+      }
+
+      // Monotonic counter for seq - unlike MAX(seq) + 1 it never reuses values after deletes
+      yield* sql`
+        CREATE TABLE IF NOT EXISTS sequences (
+          name TEXT PRIMARY KEY,
+          value INTEGER NOT NULL
+        )
+      `;
+      yield* sql`
+        INSERT OR IGNORE INTO sequences (name, value)
+        SELECT 'events', COALESCE(MAX(seq), 0) FROM events
+      `;
+
+      yield* sql`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_events_seq ON events(seq)
+      `;
+
       yield* sql`
         CREATE INDEX IF NOT EXISTS idx_events_path_offset ON events(path, offset)
       `;
 
-      const append = (event: Event) =>
+      yield* sql`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_events_path_idempotency_key
+        ON events(path, idempotency_key) WHERE idempotency_key IS NOT NULL
+      `;
+
+      yield* sql`
+        CREATE TABLE IF NOT EXISTS snapshots (
+          path TEXT NOT NULL,
+          key TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          offset TEXT NOT NULL,
+          state TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          PRIMARY KEY (path, key)
+        )
+      `;
+
+      const insertRow = (event: Event, seq: number) => {
+        const row = eventToRow(event);
+        return sql`
+          INSERT INTO events (path, offset, type, payload, version, created_at, trace_id, span_id, parent_span_id, idempotency_key, seq, writer_id)
+          VALUES (${row.path}, ${row.offset}, ${row.type}, ${row.payload}, ${row.version}, ${row.created_at}, ${row.trace_id}, ${row.span_id}, ${row.parent_span_id}, ${row.idempotency_key}, ${seq}, ${instance})
+        `;
+      };
+
+      // Must run inside a transaction so the seq bump and insert commit together
+      const insert = (event: Event) =>
         Effect.gen(function* () {
-          const row = eventToRow(event);
-          yield* sql`
-            INSERT INTO events (path, offset, type, payload, version, created_at, trace_id, span_id, parent_span_id)
-            VALUES (${row.path}, ${row.offset}, ${row.type}, ${row.payload}, ${row.version}, ${row.created_at}, ${row.trace_id}, ${row.span_id}, ${row.parent_span_id})
+          const [{ value: seq }] = yield* sql<{ value: number }>`
+            UPDATE sequences SET value = value + 1 WHERE name = 'events' RETURNING value
           `;
-          return event;
-        }).pipe(Effect.mapError((cause) => StreamStorageError.make({ cause, context: { event } })));
+          yield* insertRow(event, seq);
+          return Event.make({ ...event, globalOffset: GlobalOffset.fromNumber(seq) });
+        });
+
+      const append = (event: Event) =>
+        insert(event).pipe(
+          sql.withTransaction,
+          Effect.mapError((cause) => StreamStorageError.make({ cause, context: { event } })),
+        );
+
+      // Single transaction: a failed insert rolls back the whole batch. The no-op update takes
+      // the write lock before the heads are checked, so no other process can append in between
+      // (and a read lock is never upgraded, which could fail with SQLITE_BUSY).
+      const appendAll = (events: ReadonlyArray<Event>) =>
+        Effect.gen(function* () {
+          if (events.length === 0) return [];
+          yield* sql`UPDATE sequences SET value = value WHERE name = 'events'`;
+
+          const firstByPath = new Map<StreamPath, Event>();
+          for (const event of events) {
+            if (!firstByPath.has(event.path)) firstByPath.set(event.path, event);
+          }
+          for (const [path, first] of firstByPath) {
+            const [{ head }] = yield* sql<{ head: string | null }>`
+              SELECT MAX(offset) AS head FROM events WHERE path = ${path}
+            `;
+            const headOffset = Offset.make(head ?? "-1");
+            if (parseInt(first.offset, 10) <= parseInt(headOffset, 10)) {
+              return yield* OffsetTakenError.make({ path, headOffset });
+            }
+          }
 
-      const read = ({ path, from, to }: { path: StreamPath; from?: Offset; to?: Offset }) =>
+          return yield* Effect.forEach(events, insert);
+        }).pipe(
+          sql.withTransaction,
+          Effect.catchTag("SqlError", (cause) =>
+            StreamStorageError.make({ cause, context: { events } }),
+          ),
+        );
+
+      // Type filter as SQL, so excluded events never leave the database. Prefix entries
+      // compare with substr rather than LIKE, which is case-insensitive and treats `_` as a
+      // wildcard.
+      const typeConditions = (filter: EventTypeFilter | undefined) => {
+        const matching = (entries: ReadonlyArray<string>) =>
+          sql.or(
+            entries.map((entry) => {
+              const prefix = EventTypeFilter.typePrefix(entry);
+              return prefix === undefined
+                ? sql`type = ${entry}`
+                : sql`substr(type, 1, ${prefix.length}) = ${prefix}`;
+            }),
+          );
+        const conditions = [];
+        if (filter?.types !== undefined && filter.types.length > 0) {
+          conditions.push(matching(filter.types));
+        }
+        if (filter?.excludeTypes !== undefined && filter.excludeTypes.length > 0) {
+          conditions.push(sql`NOT ${matching(filter.excludeTypes)}`);
+        }
+        return conditions;
+      };
+
+      const read = ({
+        path,
+        from,
+        to,
+        filter,
+      }: {
+        path: StreamPath;
+        from?: Offset;
+        to?: Offset;
+        filter?: EventTypeFilter;
+      }) =>
         Stream.unwrap(
           Effect.gen(function* () {
             // Build query based on provided bounds
-            let rows: readonly EventRow[];
-
-            if (from !== undefined && to !== undefined) {
-              rows = yield* sql<EventRow>`
-                SELECT * FROM events
-                WHERE path = ${path} AND offset > ${from} AND offset <= ${to}
-                ORDER BY offset ASC
-              `;
-            } else if (from !== undefined) {
-              rows = yield* sql<EventRow>`
-                SELECT * FROM events
-                WHERE path = ${path} AND offset > ${from}
-                ORDER BY offset ASC
-              `;
-            } else if (to !== undefined) {
-              rows = yield* sql<EventRow>`
-                SELECT * FROM events
-                WHERE path = ${path} AND offset <= ${to}
-                ORDER BY offset ASC
-              `;
-            } else {
-              rows = yield* sql<EventRow>`
-                SELECT * FROM events
-                WHERE path = ${path}
-                ORDER BY offset ASC
-              `;
-            }
+            const conditions = [sql`path = ${path}`, ...typeConditions(filter)];
+            if (from !== undefined) conditions.push(sql`offset > ${from}`);
+            if (to !== undefined) conditions.push(sql`offset <= ${to}`);
+
+            const rows = yield* sql<EventRow>`
+              SELECT * FROM events
+              WHERE ${sql.and(conditions)}
+              ORDER BY offset ASC
+            `;
 
             const events = rows.map(rowToEvent);
             return Stream.fromIterable(events);
           }).pipe(Effect.mapError((cause) => StreamStorageError.make({ cause }))),
         );
 
+      const readAll = ({ from, filter }: { from?: GlobalOffset; filter?: EventTypeFilter }) =>
+        Stream.unwrap(
+          Effect.gen(function* () {
+            const conditions = [
+              sql`seq > ${from === undefined ? 0 : GlobalOffset.toNumber(from)}`,
+              ...typeConditions(filter),
+            ];
+            const rows = yield* sql<EventRow>`
+              SELECT * FROM events
+              WHERE ${sql.and(conditions)}
+              ORDER BY seq ASC
+            `;
+            return Stream.fromIterable(rows.map(rowToEvent));
+          }).pipe(Effect.mapError((cause) => StreamStorageError.make({ cause }))),
+        );
+
+      // Writers are serialized, so seq order is commit order and a cursor on the highest seq
+      // seen never skips a row. Rows without a writer_id (older databases) count as foreign.
+      const externalAppends = Stream.unwrap(
+        Effect.gen(function* () {
+          const [{ last }] = yield* sql<{ last: number }>`
+            SELECT COALESCE(MAX(seq), 0) AS last FROM events
+          `;
+          let lastSeq = last;
+          const poll = Effect.gen(function* () {
+            const rows = yield* sql<EventRow & { writer_id: string | null }>`
+              SELECT * FROM events WHERE seq > ${lastSeq} ORDER BY seq ASC
+            `;
+            lastSeq = rows[rows.length - 1]?.seq ?? lastSeq;
+            return Chunk.fromIterable(
+              rows.filter((row) => row.writer_id !== instance).map(rowToEvent),
+            );
+          });
+          return Stream.repeatEffectChunk(
+            poll.pipe(Effect.delay(options?.pollInterval ?? Duration.millis(200))),
+          );
+        }),
+      ).pipe(Stream.mapError((cause) => StreamStorageError.make({ cause })));
+
+      // One aggregate per path; the last event's type comes from the head row
+      const listStreams = ({
+        prefix,
+        after,
+        limit,
+      }: {
+        prefix?: string;
+        after?: StreamPath;
+        limit?: number;
+      }) =>
+        Effect.gen(function* () {
+          const conditions = [];
+          if (prefix !== undefined) {
+            conditions.push(sql`substr(path, 1, ${prefix.length}) = ${prefix}`);
+          }
+          if (after !== undefined) conditions.push(sql`path > ${after}`);
+
+          const rows = yield* sql<{
+            path: string;
+            event_count: number;
+            head_offset: string;
+            first_created_at: string;
+            last_created_at: string;
+            last_event_type: string;
+          }>`
+            SELECT
+              path,
+              COUNT(*) AS event_count,
+              MAX(offset) AS head_offset,
+              MIN(created_at) AS first_created_at,
+              MAX(created_at) AS last_created_at,
+              (
+                SELECT type FROM events AS head
+                WHERE head.path = events.path
+                ORDER BY head.offset DESC
+                LIMIT 1
+              ) AS last_event_type
+            FROM events
+            WHERE ${sql.and(conditions)}
+            GROUP BY path
+            ORDER BY path ASC
+            LIMIT ${limit ?? -1}
+          `;
+
+          return rows.map(
+            (row) =>
+              new StreamMetadata({
+                path: StreamPath.make(row.path),
+                eventCount: row.event_count,
+                headOffset: Offset.make(row.head_offset),
+                firstCreatedAt: DateTime.unsafeFromDate(new Date(row.first_created_at)),
+                lastCreatedAt: DateTime.unsafeFromDate(new Date(row.last_created_at)),
+                lastEventType: EventType.make(row.last_event_type),
+              }),
+          );
+        }).pipe(Effect.mapError((cause) => StreamStorageError.make({ cause })));
+
+      const deleteStream = (path: StreamPath) =>
+        Effect.gen(function* () {
+          const removed = yield* sql<{ offset: string }>`
+            DELETE FROM events WHERE path = ${path} RETURNING offset
+          `;
+          yield* sql`DELETE FROM snapshots WHERE path = ${path}`;
+          return removed.length;
+        }).pipe(
+          sql.withTransaction,
+          Effect.mapError((cause) => StreamStorageError.make({ cause, context: { path } })),
+        );
+
+      const truncateStream = ({ path, before }: { path: StreamPath; before: Offset }) =>
+        Effect.gen(function* () {
+          const removed = yield* sql<{ offset: string }>`
+            DELETE FROM events
+            WHERE path = ${path}
+              AND offset < ${before}
+              AND offset < (SELECT MAX(offset) FROM events WHERE path = ${path})
+            RETURNING offset
+          `;
+          return removed.length;
+        }).pipe(
+          Effect.mapError((cause) => StreamStorageError.make({ cause, context: { path, before } })),
+        );
+
+      // Replacements keep the seq of the events they stand in for, and are not reported to
+      // other processes - their subscribers have already seen the originals
+      const replaceEvents = ({
+        path,
+        remove,
+        replacements,
+      }: {
+        path: StreamPath;
+        remove: ReadonlyArray<Offset>;
+        replacements: ReadonlyArray<Event>;
+      }) =>
+        Effect.gen(function* () {
+          if (remove.length === 0) return 0;
+          const removed = yield* sql<{ offset: string }>`
+            DELETE FROM events WHERE path = ${path} AND ${sql.in("offset", remove)}
+            RETURNING offset
+          `;
+          for (const event of replacements) {
+            yield* insertRow(event, GlobalOffset.toNumber(event.globalOffset!));
+          }
+          return removed.length;
+        }).pipe(
+          sql.withTransaction,
+          Effect.mapError((cause) => StreamStorageError.make({ cause, context: { path, remove } })),
+        );
+
+      const readSnapshot = ({ path, key }: { path: StreamPath; key: string }) =>
+        Effect.gen(function* () {
+          const rows = yield* sql<{
+            version: number;
+            offset: string;
+            state: string;
+            created_at: string;
+          }>`
+            SELECT version, offset, state, created_at FROM snapshots
+            WHERE path = ${path} AND key = ${key}
+          `;
+          return Option.map(
+            Option.fromNullable(rows[0]),
+            (row) =>
+              new Snapshot({
+                path,
+                key,
+                version: row.version,
+                offset: Offset.make(row.offset),
+                state: JSON.parse(row.state) as unknown,
+                createdAt: DateTime.unsafeFromDate(new Date(row.created_at)),
+              }),
+          );
+        }).pipe(
+          Effect.mapError((cause) => StreamStorageError.make({ cause, context: { path, key } })),
+        );
+
+      const writeSnapshot = (snapshot: Snapshot) =>
+        Effect.gen(function* () {
+          const state = yield* Schema.encode(Schema.parseJson())(snapshot.state);
+          yield* sql`
+            INSERT OR REPLACE INTO snapshots (path, key, version, offset, state, created_at)
+            VALUES (${snapshot.path}, ${snapshot.key}, ${snapshot.version}, ${snapshot.offset}, ${state}, ${DateTime.formatIso(snapshot.createdAt)})
+          `;
+        }).pipe(
+          Effect.mapError((cause) =>
+            StreamStorageError.make({
+              cause,
+              context: { path: snapshot.path, key: snapshot.key },
+            }),
+          ),
+        );
+
       const forPath = (streamPath: StreamPath): StreamStorage => ({
         read: (options) =>
           read({
             path: streamPath,
             ...(options?.from !== undefined && { from: options.from }),
             ...(options?.to !== undefined && { to: options.to }),
+            ...(options?.filter !== undefined && { filter: options.filter }),
           }).pipe(Stream.catchAllCause(() => Stream.empty)),
         append: (event) => append(event).pipe(Effect.orDie),
+        appendAll: (events) =>
+          appendAll(events).pipe(Effect.catchTag("StreamStorageError", Effect.die)),
+        readSnapshot: (key) =>
+          readSnapshot({ path: streamPath, key }).pipe(
+            Effect.orElseSucceed(() => Option.none<Snapshot>()),
+          ),
+        writeSnapshot: (snapshot) => writeSnapshot(snapshot).pipe(Effect.orDie),
       });
 
       return StreamStorageManager.of({
@@ -173,9 +451,18 @@ export const sqliteLayer = (
             `;
             return rows.map((row) => StreamPath.make(row.path));
           }).pipe(Effect.mapError((cause) => StreamStorageError.make({ cause }))),
+        listStreams,
+        deleteStream,
+        truncateStream,
+        replaceEvents,
+        readSnapshot,
+        writeSnapshot,
         forPath,
         append,
+        appendAll,
         read,
+        readAll,
+        externalAppends,
       });
     }).pipe(Effect.mapError((cause) => StreamStorageError.make({ cause }))),
   ).pipe(
@@ -6,10 +6,32 @@
  */
 import { FileSystem } from "@effect/platform";
 import { NodeContext } from "@effect/platform-node";
+import { PgClient } from "@effect/sql-pg";
 import { describe, expect, it } from "@effect/vitest";
-import { Chunk, DateTime, Effect, Layer, Option, Stream } from "effect";
-
-import { Event, EventType, Offset, StreamPath } from "../../domain.js";
+import {
+  Chunk,
+  Context,
+  DateTime,
+  Effect,
+  Fiber,
+  Layer,
+  Option,
+  Redacted,
+  Scope,
+  Schema,
+  Stream,
+} from "effect";
+import * as YAML from "yaml";
+
+import {
+  Event,
+  EventType,
+  GlobalOffset,
+  IdempotencyKey,
+  Offset,
+  Snapshot,
+  StreamPath,
+} from "../../domain.js";
 import { SpanId, TraceContext, TraceId } from "../../tracing/traceContext.js";
 import * as StreamStorage from "./index.js";
 
@@ -78,6 +100,305 @@ const streamStorageTests = <E>(
       }).pipe(Effect.provide(makeLayer())),
     );
 
+    it.effect("appendAll stores a batch in order", () =>
+      Effect.gen(function* () {
+        const storage = yield* StreamStorage.StreamStorageManager;
+        const path = StreamPath.make("test/batch");
+
+        yield* storage.append(yield* makeEvent(path, 0, { n: 0 }));
+        const batch = [
+          yield* makeEvent(path, 1, { n: 1 }),
+          yield* makeEvent(path, 2, { n: 2 }),
+          yield* makeEvent(path, 3, { n: 3 }),
+        ];
+        const stored = yield* storage.appendAll(batch);
+
+        expect(stored.map((e) => e.offset)).toEqual([
+          "0000000000000001",
+          "0000000000000002",
+          "0000000000000003",
+        ]);
+
+        const events = yield* storage.read({ path }).pipe(Stream.runCollect);
+        expect(Chunk.toReadonlyArray(events).map((e) => e.payload)).toEqual([
+          { n: 0 },
+          { n: 1 },
+          { n: 2 },
+          { n: 3 },
+        ]);
+      }).pipe(Effect.provide(makeLayer())),
+    );
+
+    it.effect("preserves idempotency keys", () =>
+      Effect.gen(function* () {
+        const storage = yield* StreamStorage.StreamStorageManager;
+        const path = StreamPath.make("test/idempotency");
+
+        const keyed = Event.make({
+          ...(yield* makeEvent(path, 0, { n: 0 })),
+          idempotencyKey: IdempotencyKey.make("key-0"),
+        });
+        yield* storage.append(keyed);
+        yield* storage.append(yield* makeEvent(path, 1, { n: 1 }));
+
+        const events = yield* storage.read({ path }).pipe(Stream.runCollect);
+        expect(Chunk.toReadonlyArray(events).map((e) => e.idempotencyKey)).toEqual([
+          "key-0",
+          undefined,
+        ]);
+      }).pipe(Effect.provide(makeLayer())),
+    );
+
+    it.effect("assigns increasing globalOffsets across paths", () =>
+      Effect.gen(function* () {
+        const storage = yield* StreamStorage.StreamStorageManager;
+        const pathA = StreamPath.make("test/global/a");
+        const pathB = StreamPath.make("test/global/b");
+
+        const a0 = yield* storage.append(yield* makeEvent(pathA, 0, { n: 0 }));
+        const [b0, b1] = yield* storage.appendAll([
+          yield* makeEvent(pathB, 0, { n: 1 }),
+          yield* makeEvent(pathB, 1, { n: 2 }),
+        ]);
+        const a1 = yield* storage.append(yield* makeEvent(pathA, 1, { n: 3 }));
+
+        expect([a0, b0, b1, a1].map((e) => e.globalOffset)).toEqual([
+          "0000000000000001",
+          "0000000000000002",
+          "0000000000000003",
+          "0000000000000004",
+        ]);
+
+        // Per-path reads carry the globalOffset too
+        const events = yield* storage.read({ path: pathA }).pipe(Stream.runCollect);
+        expect(Chunk.toReadonlyArray(events).map((e) => e.globalOffset)).toEqual([
+          "0000000000000001",
+          "0000000000000004",
+        ]);
+      }).pipe(Effect.provide(makeLayer())),
+    );
+
+    it.effect("readAll returns events across paths in globalOffset order", () =>
+      Effect.gen(function* () {
+        const storage = yield* StreamStorage.StreamStorageManager;
+        const pathA = StreamPath.make("test/read-all/a");
+        const pathB = StreamPath.make("test/read-all/b");
+
+        yield* storage.append(yield* makeEvent(pathA, 0, { n: 0 }));
+        const b0 = yield* storage.append(yield* makeEvent(pathB, 0, { n: 1 }));
+        yield* storage.append(yield* makeEvent(pathA, 1, { n: 2 }));
+
+        const all = yield* storage.readAll({}).pipe(Stream.runCollect);
+        expect(Chunk.toReadonlyArray(all).map((e) => e.payload)).toEqual([
+          { n: 0 },
+          { n: 1 },
+          { n: 2 },
+        ]);
+
+        // from is exclusive
+        const after = yield* storage.readAll({ from: b0.globalOffset! }).pipe(Stream.runCollect);
+        expect(Chunk.toReadonlyArray(after).map((e) => e.payload)).toEqual([{ n: 2 }]);
+      }).pipe(Effect.provide(makeLayer())),
+    );
+
+    it.effect("read and readAll filter by event type, with prefix entries", () =>
+      Effect.gen(function* () {
+        const storage = yield* StreamStorage.StreamStorageManager;
+        const path = StreamPath.make("test/type-filter");
+        const typed = (offset: number, type: string) =>
+          makeEvent(path, offset, { type }).pipe(
+            Effect.map((event) => Event.make({ ...event, type: EventType.make(type) })),
+          );
+
+        yield* storage.appendAll([
+          yield* typed(0, "iterate:codemode:started"),
+          yield* typed(1, "iterate:llm-loop:response:sse"),
+          yield* typed(2, "iterate:codemode:finished"),
+          yield* typed(3, "a_b:c"),
+          yield* typed(4, "aXb:c"),
+        ]);
+
+        const types = (events: Chunk.Chunk<Event>) =>
+          Chunk.toReadonlyArray(events).map((e) => e.type);
+
+        const included = yield* storage
+          .read({ path, filter: { types: ["iterate:codemode:*", "aXb:c"] } })
+          .pipe(Stream.runCollect);
+        expect(types(included)).toEqual([
+          "iterate:codemode:started",
+          "iterate:codemode:finished",
+          "aXb:c",
+        ]);
+
+        // `_` and case are literal, not wildcards
+        const excluded = yield* storage
+          .read({ path, filter: { excludeTypes: ["iterate:*", "a_b:*"] } })
+          .pipe(Stream.runCollect);
+        expect(types(excluded)).toEqual(["aXb:c"]);
+
+        const both = yield* storage
+          .readAll({
+            filter: { types: ["iterate:*"], excludeTypes: ["iterate:llm-loop:response:sse"] },
+          })
+          .pipe(Stream.runCollect);
+        expect(types(both)).toEqual(["iterate:codemode:started", "iterate:codemode:finished"]);
+      }).pipe(Effect.provide(makeLayer())),
+    );
+
+    it.effect("listStreams summarizes streams with prefix and paging", () =>
+      Effect.gen(function* () {
+        const storage = yield* StreamStorage.StreamStorageManager;
+        const pathA = StreamPath.make("team/a");
+        const pathB = StreamPath.make("team/b");
+
+        const a0 = yield* storage.append(yield* makeEvent(pathA, 0, { n: 0 }));
+        const a1 = yield* storage.append(
+          Event.make({ ...(yield* makeEvent(pathA, 1, { n: 1 })), type: EventType.make("last") }),
+        );
+        yield* storage.append(yield* makeEvent(pathB, 0, { n: 2 }));
+        yield* storage.append(yield* makeEvent(StreamPath.make("other/c"), 0, { n: 3 }));
+
+        const team = yield* storage.listStreams({ prefix: "team/" });
+        expect(team.map((s) => s.path)).toEqual(["team/a", "team/b"]);
+        expect(team[0]).toMatchObject({
+          eventCount: 2,
+          headOffset: "0000000000000001",
+          lastEventType: "last",
+        });
+        expect(DateTime.toEpochMillis(team[0]!.firstCreatedAt)).toBe(
+          DateTime.toEpochMillis(a0.createdAt),
+        );
+        expect(DateTime.toEpochMillis(team[0]!.lastCreatedAt)).toBe(
+          DateTime.toEpochMillis(a1.createdAt),
+        );
+
+        const firstPage = yield* storage.listStreams({ limit: 2 });
+        expect(firstPage.map((s) => s.path)).toEqual(["other/c", "team/a"]);
+        const secondPage = yield* storage.listStreams({ after: pathA, limit: 2 });
+        expect(secondPage.map((s) => s.path)).toEqual(["team/b"]);
+      }).pipe(Effect.provide(makeLayer())),
+    );
+
+    it.effect("deleteStream removes only the given path", () =>
+      Effect.gen(function* () {
+        const storage = yield* StreamStorage.StreamStorageManager;
+        const path = StreamPath.make("test/delete");
+        const other = StreamPath.make("test/keep");
+
+        yield* storage.append(yield* makeEvent(path, 0, { n: 0 }));
+        yield* storage.append(yield* makeEvent(path, 1, { n: 1 }));
+        yield* storage.append(yield* makeEvent(other, 0, { n: 2 }));
+
+        expect(yield* storage.deleteStream(path)).toBe(2);
+        expect(Chunk.size(yield* storage.read({ path }).pipe(Stream.runCollect))).toBe(0);
+        const all = yield* storage.readAll({}).pipe(Stream.runCollect);
+        expect(Chunk.toReadonlyArray(all).map((e) => e.path)).toEqual([other]);
+        expect(yield* storage.deleteStream(path)).toBe(0);
+      }).pipe(Effect.provide(makeLayer())),
+    );
+
+    it.effect("replaceEvents swaps events in place, keeping offsets and globalOffsets", () =>
+      Effect.gen(function* () {
+        const storage = yield* StreamStorage.StreamStorageManager;
+        const path = StreamPath.make("test/replace");
+        const other = StreamPath.make("test/replace-other");
+
+        const stored = yield* storage.appendAll([
+          yield* makeEvent(path, 0, { n: 0 }),
+          yield* makeEvent(path, 1, { n: 1 }),
+          yield* makeEvent(path, 2, { n: 2 }),
+          yield* makeEvent(path, 3, { n: 3 }),
+        ]);
+        yield* storage.append(yield* makeEvent(other, 1, { n: 4 }));
+
+        const merged = Event.make({ ...stored[2]!, payload: { n: 12 } });
+        const removed = yield* storage.replaceEvents({
+          path,
+          remove: [stored[1]!.offset, stored[2]!.offset],
+          replacements: [merged],
+        });
+        expect(removed).toBe(2);
+
+        const events = Chunk.toReadonlyArray(yield* storage.read({ path }).pipe(Stream.runCollect));
+        expect(events.map((e) => [e.offset, e.payload])).toEqual([
+          ["0000000000000000", { n: 0 }],
+          ["0000000000000002", { n: 12 }],
+          ["0000000000000003", { n: 3 }],
+        ]);
+        expect(events[1]!.globalOffset).toBe(stored[2]!.globalOffset);
+
+        const all = Chunk.toReadonlyArray(yield* storage.readAll({}).pipe(Stream.runCollect));
+        expect(all.map((e) => e.payload)).toEqual([{ n: 0 }, { n: 12 }, { n: 3 }, { n: 4 }]);
+
+        // Cursors into the gap still work
+        const after = yield* storage
+          .read({ path, from: stored[1]!.offset })
+          .pipe(Stream.runCollect);
+        expect(Chunk.toReadonlyArray(after).map((e) => e.payload)).toEqual([{ n: 12 }, { n: 3 }]);
+      }).pipe(Effect.provide(makeLayer())),
+    );
+
+    it.effect("truncateStream removes events before the offset but keeps the head", () =>
+      Effect.gen(function* () {
+        const storage = yield* StreamStorage.StreamStorageManager;
+        const path = StreamPath.make("test/truncate");
+
+        for (let n = 0; n < 4; n++) {
+          yield* storage.append(yield* makeEvent(path, n, { n }));
+        }
+        const offsets = () =>
+          storage.read({ path }).pipe(
+            Stream.runCollect,
+            Effect.map((events) => Chunk.toReadonlyArray(events).map((e) => e.offset)),
+          );
+
+        expect(
+          yield* storage.truncateStream({ path, before: Offset.make("0000000000000002") }),
+        ).toBe(2);
+        expect(yield* offsets()).toEqual(["0000000000000002", "0000000000000003"]);
+
+        // Cutting past the head still leaves the head in place
+        expect(
+          yield* storage.truncateStream({ path, before: Offset.make("0000000000000009") }),
+        ).toBe(1);
+        expect(yield* offsets()).toEqual(["0000000000000003"]);
+      }).pipe(Effect.provide(makeLayer())),
+    );
+
+    it.effect("snapshots keep the latest per key and are removed with the stream", () =>
+      Effect.gen(function* () {
+        const storage = yield* StreamStorage.StreamStorageManager;
+        const path = StreamPath.make("test/snapshot");
+        const createdAt = yield* DateTime.now;
+        const snapshot = (key: string, offset: number, state: unknown) =>
+          new Snapshot({
+            path,
+            key,
+            version: 1,
+            offset: Offset.make(offset.toString().padStart(16, "0")),
+            state,
+            createdAt,
+          });
+
+        yield* storage.append(yield* makeEvent(path, 0, { n: 0 }));
+        expect(Option.isNone(yield* storage.readSnapshot({ path, key: "a" }))).toBe(true);
+
+        yield* storage.writeSnapshot(snapshot("a", 0, { count: 1 }));
+        yield* storage.writeSnapshot(snapshot("a", 3, { count: 4, nested: ["x"] }));
+        yield* storage.writeSnapshot(snapshot("b", 2, { count: 3 }));
+
+        const latest = Option.getOrThrow(yield* storage.readSnapshot({ path, key: "a" }));
+        expect(latest.offset).toBe("0000000000000003");
+        expect(latest.state).toEqual({ count: 4, nested: ["x"] });
+        const other = yield* storage.forPath(path).readSnapshot("b");
+        expect(Option.map(other, (s) => s.state)).toEqual(Option.some({ count: 3 }));
+
+        yield* storage.deleteStream(path);
+        expect(Option.isNone(yield* storage.readSnapshot({ path, key: "a" }))).toBe(true);
+        expect(Option.isNone(yield* storage.readSnapshot({ path, key: "b" }))).toBe(true);
+      }).pipe(Effect.provide(makeLayer())),
+    );
+
     it.effect("listPaths returns empty when no streams", () =>
       Effect.gen(function* () {
         const storage = yield* StreamStorage.StreamStorageManager;
@@ -208,6 +529,57 @@ const streamStorageTests = <E>(
   });
 };
 
+const openStorage = <E>(layer: Layer.Layer<StreamStorage.StreamStorageManager, E>) =>
+  Layer.build(layer).pipe(
+    Effect.map((context) => Context.get(context, StreamStorage.StreamStorageManager)),
+  );
+
+/**
+ * Tests for backends several processes can share - `open` returns two storages over the same
+ * database, standing in for two server processes
+ */
+const sharedStorageTests = <E>(
+  name: string,
+  open: Effect.Effect<
+    readonly [StreamStorage.StreamStorageManager, StreamStorage.StreamStorageManager],
+    E,
+    Scope.Scope
+  >,
+) => {
+  it.live(`${name} storages on one database see each other's appends`, () =>
+    Effect.gen(function* () {
+      const [first, second] = yield* open;
+      const path = StreamPath.make("test/shared");
+
+      const received = yield* second.externalAppends.pipe(
+        Stream.take(2),
+        Stream.runCollect,
+        Effect.fork,
+      );
+      // Give the listener time to start
+      yield* Effect.sleep("200 millis");
+
+      const [e0, e1] = yield* first.appendAll([
+        yield* makeEvent(path, 0, { n: 0 }),
+        yield* makeEvent(path, 1, { n: 1 }),
+      ]);
+      const events = Chunk.toReadonlyArray(yield* Fiber.join(received));
+      expect(events.map((e) => e.payload)).toEqual([{ n: 0 }, { n: 1 }]);
+      expect(events.map((e) => e.globalOffset)).toEqual([e0?.globalOffset, e1?.globalOffset]);
+
+      // Offsets the first storage took are refused
+      const error = yield* second
+        .appendAll([yield* makeEvent(path, 1, { n: 2 })])
+        .pipe(Effect.flip);
+      expect(error).toMatchObject({ _tag: "OffsetTakenError", headOffset: "0000000000000001" });
+
+      const [stored] = yield* second.appendAll([yield* makeEvent(path, 2, { n: 2 })]);
+      expect(stored?.offset).toBe("0000000000000002");
+      expect(stored?.globalOffset).not.toBe(e1?.globalOffset);
+    }).pipe(Effect.scoped),
+  );
+};
+
 // -------------------------------------------------------------------------------------
 // Run tests for each implementation
 // -------------------------------------------------------------------------------------
@@ -227,6 +599,66 @@ describe("StreamStorage", () => {
 
   streamStorageTests("FileSystem", () => fileSystemTestLayer);
 
+  it.effect("FileSystem readAll from the start includes events written before globalOffset", () =>
+    Effect.gen(function* () {
+      const fs = yield* FileSystem.FileSystem;
+      const tempDir = yield* fs.makeTempDirectoryScoped();
+      const legacy = yield* makeEvent(StreamPath.make("test/legacy"), 0, { n: 0 });
+      yield* fs.writeFileString(
+        `${tempDir}/test_legacy.yaml`,
+        "---\n" + YAML.stringify(yield* Schema.encode(Event)(legacy)),
+      );
+
+      yield* Effect.gen(function* () {
+        const storage = yield* StreamStorage.StreamStorageManager;
+        const current = yield* storage.append(
+          yield* makeEvent(StreamPath.make("test/current"), 0, { n: 1 }),
+        );
+
+        const payloads = (from: GlobalOffset) =>
+          storage.readAll({ from }).pipe(
+            Stream.runCollect,
+            Effect.map((events) => Chunk.toReadonlyArray(events).map((e) => e.payload)),
+          );
+        expect(yield* payloads(GlobalOffset.fromNumber(0))).toEqual([{ n: 0 }, { n: 1 }]);
+        expect(yield* payloads(current.globalOffset!)).toEqual([]);
+      }).pipe(Effect.provide(StreamStorage.fileSystemLayer(tempDir)));
+    }).pipe(Effect.scoped, Effect.provide(NodeContext.layer)),
+  );
+
+  it.effect("FileSystem doesn't reuse the globalOffsets of removed events after a restart", () =>
+    Effect.gen(function* () {
+      const fs = yield* FileSystem.FileSystem;
+      const tempDir = yield* fs.makeTempDirectoryScoped();
+      const boot = <A, E>(effect: Effect.Effect<A, E, StreamStorage.StreamStorageManager>) =>
+        effect.pipe(Effect.provide(StreamStorage.fileSystemLayer(tempDir)));
+
+      const removed = yield* boot(
+        Effect.gen(function* () {
+          const storage = yield* StreamStorage.StreamStorageManager;
+          const path = StreamPath.make("test/removed");
+          yield* storage.append(yield* makeEvent(StreamPath.make("test/kept"), 0, { n: 0 }));
+          const stored = yield* storage.appendAll([
+            yield* makeEvent(path, 0, { n: 1 }),
+            yield* makeEvent(path, 1, { n: 2 }),
+          ]);
+          yield* storage.deleteStream(path);
+          return stored[1]!.globalOffset!;
+        }),
+      );
+
+      const next = yield* boot(
+        Effect.gen(function* () {
+          const storage = yield* StreamStorage.StreamStorageManager;
+          return yield* storage.append(
+            yield* makeEvent(StreamPath.make("test/after-restart"), 0, { n: 3 }),
+          );
+        }),
+      );
+      expect(GlobalOffset.toNumber(next.globalOffset!)).toBe(GlobalOffset.toNumber(removed) + 1);
+    }).pipe(Effect.scoped, Effect.provide(NodeContext.layer)),
+  );
+
   // SQLite implementation - uses scoped temp file that auto-cleans
   const sqliteTestLayer = Layer.unwrapScoped(
     Effect.gen(function* () {
@@ -237,4 +669,60 @@ describe("StreamStorage", () => {
   ).pipe(Layer.provide(NodeContext.layer));
 
   streamStorageTests("SQLite", () => sqliteTestLayer);
+
+  sharedStorageTests(
+    "SQLite",
+    Effect.gen(function* () {
+      const fs = yield* FileSystem.FileSystem;
+      const filename = `${yield* fs.makeTempDirectoryScoped()}/shared.db`;
+      const open = openStorage(StreamStorage.sqliteLayer(filename, { pollInterval: "20 millis" }));
+      return [yield* open, yield* open] as const;
+    }).pipe(Effect.provide(NodeContext.layer)),
+  );
+
+  it.effect("SQLite appendAll rolls back the whole batch on failure", () =>
+    Effect.gen(function* () {
+      const storage = yield* StreamStorage.StreamStorageManager;
+      const path = StreamPath.make("test/batch-rollback");
+
+      yield* storage.append(yield* makeEvent(path, 0, { n: 0 }));
+
+      // Second event collides with the existing offset 0 primary key
+      const result = yield* storage
+        .appendAll([yield* makeEvent(path, 1, { n: 1 }), yield* makeEvent(path, 0, { n: 2 })])
+        .pipe(Effect.either);
+      expect(result._tag).toBe("Left");
+
+      const events = yield* storage.read({ path }).pipe(Stream.runCollect);
+      expect(Chunk.toReadonlyArray(events).map((e) => e.payload)).toEqual([{ n: 0 }]);
+    }).pipe(Effect.provide(sqliteTestLayer)),
+  );
+
+  // Postgres implementation - needs a server, so only runs when one is given, e.g.
+  // POSTGRES_URL=postgres://postgres@localhost:5432/postgres pnpm test
+  const postgresUrl = process.env.POSTGRES_URL;
+  if (postgresUrl !== undefined) {
+    // Every layer starts from empty tables
+    const postgresTestLayer = Layer.unwrapScoped(
+      Effect.gen(function* () {
+        const sql = yield* PgClient.PgClient;
+        yield* sql`DROP TABLE IF EXISTS events, sequences, snapshots`;
+        return StreamStorage.postgresLayer(postgresUrl);
+      }),
+    ).pipe(Layer.provide(PgClient.layer({ url: Redacted.make(postgresUrl) })));
+
+    streamStorageTests("Postgres", () => postgresTestLayer);
+
+    sharedStorageTests(
+      "Postgres",
+      Effect.gen(function* () {
+        const sql = yield* PgClient.PgClient;
+        yield* sql`DROP TABLE IF EXISTS events, sequences, snapshots`;
+        return [
+          yield* openStorage(StreamStorage.postgresLayer(postgresUrl)),
+          yield* openStorage(StreamStorage.postgresLayer(postgresUrl)),
+        ] as const;
+      }).pipe(Effect.provide(PgClient.layer({ url: Redacted.make(postgresUrl) }))),
+    );
+  }
 });
@@ -9,7 +9,15 @@
  */
 import { DateTime, Deferred, Duration, Effect, Option, Queue, Scope, Stream } from "effect";
 
-import { Event, EventInput, EventType, Offset, StreamPath } from "../domain.js";
+import {
+  Event,
+  EventInput,
+  EventType,
+  EventTypeFilter,
+  Offset,
+  Snapshot,
+  StreamPath,
+} from "../domain.js";
 import { EventStream } from "../services/stream-manager/index.js";
 import { SpanId, TraceContext, TraceId } from "../tracing/traceContext.js";
 
@@ -74,6 +82,8 @@ export const makeTestEventStream = (
       Array<{ needed: number; deferred: Deferred.Deferred<readonly Event[]>; collected: Event[] }>
     >();
 
+    const snapshots = new Map<string, Snapshot>();
+
     let nextOffset = 0;
     let nextSpanId = 0;
 
@@ -116,15 +126,59 @@ export const makeTestEventStream = (
         }
       });
 
-    const appendImpl = (input: EventInput) =>
+    const appendAllImpl = (
+      inputs: ReadonlyArray<EventInput>,
+      options?: EventStream.AppendOptions,
+    ): Effect.Effect<ReadonlyArray<Event>, EventStream.OffsetConflictError> =>
+      Effect.gen(function* () {
+        if (
+          options?.expectedOffset !== undefined &&
+          parseInt(options.expectedOffset, 10) !== nextOffset - 1
+        ) {
+          return yield* EventStream.OffsetConflictError.make({
+            path,
+            expectedOffset: options.expectedOffset,
+            currentOffset: events.at(-1)?.offset ?? Offset.make("-1"),
+          });
+        }
+        const appended = inputs.map(makeEvent);
+        events.push(...appended);
+        yield* Queue.offerAll(subscribers, appended);
+        for (const event of appended) {
+          yield* notifyWaiters(event);
+        }
+        return appended;
+      });
+
+    const importAllImpl = (
+      imported: ReadonlyArray<Event>,
+      options?: { remap?: boolean },
+    ): Effect.Effect<ReadonlyArray<Event>, EventStream.StreamNotEmptyError> =>
       Effect.gen(function* () {
-        const event = makeEvent(input);
-        events.push(event);
-        yield* Queue.offer(subscribers, event);
-        yield* notifyWaiters(event);
-        return event;
+        if (!options?.remap && events.length > 0) {
+          return yield* EventStream.StreamNotEmptyError.make({
+            path,
+            headOffset: events.at(-1)!.offset,
+          });
+        }
+        const appended = imported.map((event) => {
+          const offset = options?.remap
+            ? Offset.make(String(nextOffset++).padStart(16, "0"))
+            : event.offset;
+          if (!options?.remap) nextOffset = parseInt(event.offset, 10) + 1;
+          return Event.make({ ...event, path, offset });
+        });
+        events.push(...appended);
+        yield* Queue.offerAll(subscribers, appended);
+        for (const event of appended) {
+          yield* notifyWaiters(event);
+        }
+        return appended;
       });
 
+    const appendImpl = (input: EventInput, options?: EventStream.AppendOptions) =>
+      appendAllImpl([input], options).pipe(Effect.map((appended) => appended[0]));
+
     const withTimeout = <A, E>(
       effect: Effect.Effect<A, E>,
       options?: WaitOptions,
@@ -186,29 +240,40 @@ export const makeTestEventStream = (
 
     return {
       // EventStream interface
-      read: (options?: { from?: Offset; to?: Offset }) => {
+      read: (options?: { from?: Offset; to?: Offset; filter?: EventTypeFilter }) => {
         const snapshot = [...events];
+        const matches = EventTypeFilter.matcher(options?.filter);
         return Stream.fromIterable(snapshot).pipe(
           Stream.filter((e) => (options?.from ? Offset.gt(e.offset, options.from) : true)),
+          Stream.filter((e) => matches(e.type)),
         );
       },
 
-      subscribe: (options?: { from?: Offset }) =>
+      subscribe: (options?: { from?: Offset; filter?: EventTypeFilter }) =>
         Effect.gen(function* () {
           const snapshot = [...events];
+          const matches = EventTypeFilter.matcher(options?.filter);
           yield* Deferred.succeed(subscribed, void 0);
           return Stream.fromIterable(snapshot).pipe(
+            Stream.concat(Stream.fromQueue(subscribers)),
             Stream.filter((e) => (options?.from ? Offset.gt(e.offset, options.from) : true)),
-            Stream.concat(
-              Stream.fromQueue(subscribers).pipe(
-                Stream.filter((e) => (options?.from ? Offset.gt(e.offset, options.from) : true)),
-              ),
-            ),
+            Stream.filter((e) => matches(e.type)),
           );
         }).pipe(Stream.unwrap),
 
-      append: appendImpl,
-      appendEvent: appendImpl,
+      append: appendImpl as EventStream.EventStream["append"],
+      appendAll: appendAllImpl as EventStream.EventStream["appendAll"],
+      importAll: importAllImpl,
+      appendEvent: (input: EventInput) => appendImpl(input).pipe(Effect.orDie),
+
+      loadSnapshot: (key) => Effect.sync(() => Option.fromNullable(snapshots.get(key))),
+      saveSnapshot: (snapshot) =>
+        Effect.sync(() => {
+          snapshots.set(
+            snapshot.key,
+            new Snapshot({ ...snapshot, path, createdAt: DateTime.unsafeNow() }),
+          );
+        }),
 
       // Test control methods
       getEvents: () => Effect.sync(() => events),
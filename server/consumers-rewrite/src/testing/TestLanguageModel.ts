@@ -2,15 +2,39 @@
  * TestLanguageModel - a mock LanguageModel for testing
  *
  * Provides both the LanguageModel.LanguageModel service and test control methods
- * (emit, complete, fail, waitForCall) under a single Context.Tag.
+ * (emit, complete, fail, waitForCall) under a single Context.Tag. LanguageModels resolves
+ * every config to this model, recording the selection in the call info. generateText answers
+ * straight away with TEST_GENERATED_TEXT and TEST_GENERATED_USAGE, recording the prompt in
+ * textPrompts.
  */
-import { LanguageModel, Response } from "@effect/ai";
+import { LanguageModel, Response, Tool } from "@effect/ai";
 import { Context, Deferred, Effect, Layer, Queue, Stream } from "effect";
 
-type StreamPart = Response.StreamPart<{}>;
+import { LanguageModels, ModelSelection, select } from "../services/language-models/index.js";
+
+/** Selection a config without a provider or model resolves to */
+export const defaultTestModel: ModelSelection = { provider: "openai", modelId: "test-model" };
+
+/** What generateText answers with */
+export const TEST_GENERATED_TEXT = "Summary of the conversation so far";
+
+/** Usage of every generateText answer */
+export const TEST_GENERATED_USAGE = new Response.Usage({
+  inputTokens: 500,
+  outputTokens: 50,
+  totalTokens: 550,
+  reasoningTokens: undefined,
+  cachedInputTokens: undefined,
+});
+
+type StreamPart = Response.StreamPart<Record<string, Tool.Any>>;
 
 export interface CallInfo {
   readonly prompt: unknown;
+  /** Tools offered to the model, by name */
+  readonly tools: Readonly<Record<string, Tool.Any>>;
+  /** Model the call was resolved for */
+  readonly model: ModelSelection;
 }
 
 export interface TestLanguageModelService extends LanguageModel.Service {
@@ -22,73 +46,103 @@ export interface TestLanguageModelService extends LanguageModel.Service {
   readonly fail: (error: Error) => Effect.Effect<void>;
   /** Wait for the next LLM call to be made, returns call info including prompt */
   readonly waitForCall: () => Effect.Effect<CallInfo>;
+  /** Prompts of the generateText calls made so far */
+  readonly textPrompts: () => ReadonlyArray<unknown>;
 }
 
 export class TestLanguageModel extends Context.Tag("TestLanguageModel")<
   TestLanguageModel,
   TestLanguageModelService
 >() {
-  static readonly layer: Layer.Layer<TestLanguageModel | LanguageModel.LanguageModel> =
-    Layer.scopedContext(
-      Effect.gen(function* () {
-        // Mutable state - using let since we're in a closure
-        let callCount = 0;
-        const callWaiters: Deferred.Deferred<CallInfo>[] = [];
-        let currentQueue: Queue.Queue<StreamPart> | null = null;
-        let currentCompletion: Deferred.Deferred<void> | null = null;
-        let lastCallInfo: CallInfo | null = null;
+  static readonly layer: Layer.Layer<
+    TestLanguageModel | LanguageModel.LanguageModel | LanguageModels
+  > = Layer.scopedContext(
+    Effect.gen(function* () {
+      // Mutable state - using let since we're in a closure
+      let callCount = 0;
+      const callWaiters: Deferred.Deferred<CallInfo>[] = [];
+      let currentQueue: Queue.Queue<StreamPart> | null = null;
+      let currentCompletion: Deferred.Deferred<void> | null = null;
+      let lastCallInfo: CallInfo | null = null;
+      let lastSelection = defaultTestModel;
+      const textPrompts: unknown[] = [];
 
-        const service: TestLanguageModelService = {
-          // Test control methods
-          emit: (part) => (currentQueue ? Queue.offer(currentQueue, part) : Effect.void),
-          complete: () =>
-            currentCompletion ? Deferred.succeed(currentCompletion, void 0) : Effect.void,
-          fail: (_error) =>
-            currentCompletion ? Deferred.succeed(currentCompletion, void 0) : Effect.void, // TODO: proper stream failure
-          waitForCall: () =>
-            Effect.gen(function* () {
-              // If we've already had more calls than waiters, return immediately with last call info
-              if (callCount > callWaiters.length) {
-                return lastCallInfo!;
-              }
-              // Otherwise create a waiter for the next call
-              const deferred = yield* Deferred.make<CallInfo>();
-              callWaiters.push(deferred);
-              return yield* Deferred.await(deferred);
-            }),
+      const service: TestLanguageModelService = {
+        // Test control methods
+        emit: (part) => (currentQueue ? Queue.offer(currentQueue, part) : Effect.void),
+        complete: () =>
+          currentCompletion ? Deferred.succeed(currentCompletion, void 0) : Effect.void,
+        fail: (_error) =>
+          currentCompletion ? Deferred.succeed(currentCompletion, void 0) : Effect.void, // TODO: proper stream failure
+        waitForCall: () =>
+          Effect.gen(function* () {
+            // If we've already had more calls than waiters, return immediately with last call info
+            if (callCount > callWaiters.length) {
+              return lastCallInfo!;
+            }
+            // Otherwise create a waiter for the next call
+            const deferred = yield* Deferred.make<CallInfo>();
+            callWaiters.push(deferred);
+            return yield* Deferred.await(deferred);
+          }),
+        textPrompts: () => textPrompts,
+
+        // LanguageModel.Service implementation
+        streamText: (options) =>
+          Effect.gen(function* () {
+            // Set up fresh queue and completion for this call
+            const queue = yield* Queue.unbounded<StreamPart>();
+            const completion = yield* Deferred.make<void>();
+            currentQueue = queue;
+            currentCompletion = completion;
 
-          // LanguageModel.Service implementation
-          streamText: (options) =>
-            Effect.gen(function* () {
-              // Set up fresh queue and completion for this call
-              const queue = yield* Queue.unbounded<StreamPart>();
-              const completion = yield* Deferred.make<void>();
-              currentQueue = queue;
-              currentCompletion = completion;
+            // Capture call info
+            const toolkit = Effect.isEffect(options.toolkit) ? undefined : options.toolkit;
+            const callInfo: CallInfo = {
+              prompt: options.prompt,
+              tools: toolkit?.tools ?? {},
+              model: lastSelection,
+            };
+            lastCallInfo = callInfo;
 
-              // Capture call info
-              const callInfo: CallInfo = { prompt: options.prompt };
-              lastCallInfo = callInfo;
+            // Increment call count and notify waiters
+            callCount++;
+            const waiter = callWaiters[callCount - 1];
+            if (waiter) yield* Deferred.succeed(waiter, callInfo);
 
-              // Increment call count and notify waiters
-              callCount++;
-              const waiter = callWaiters[callCount - 1];
-              if (waiter) yield* Deferred.succeed(waiter, callInfo);
+            // Parts are emitted untyped - a tool-call part is whatever the test emits
+            return Stream.fromQueue(queue).pipe(
+              Stream.interruptWhen(Deferred.await(completion)),
+              Stream.onDone(() => Queue.shutdown(queue)),
+            ) as Stream.Stream<Response.StreamPart<{}>>;
+          }).pipe(Stream.unwrap),
+        generateText: (options) =>
+          Effect.sync(() => {
+            textPrompts.push(options.prompt);
+            return new LanguageModel.GenerateTextResponse([
+              Response.makePart("text", { text: TEST_GENERATED_TEXT }),
+              Response.makePart("finish", { reason: "stop", usage: TEST_GENERATED_USAGE }),
+            ]);
+          }),
+        generateObject: () => Effect.die("not implemented"),
+      };
 
-              return Stream.fromQueue(queue).pipe(
-                Stream.interruptWhen(Deferred.await(completion)),
-                Stream.onDone(() => Queue.shutdown(queue)),
-              );
-            }).pipe(Stream.unwrap),
-          generateText: () => Effect.die("not implemented"),
-          generateObject: () => Effect.die("not implemented"),
-        };
+      const languageModels: LanguageModels = {
+        resolve: (config) =>
+          select(config, defaultTestModel).pipe(
+            Effect.tap((selection) => {
+              lastSelection = selection;
+            }),
+            Effect.map((selection) => ({ selection, languageModel: service })),
+          ),
+      };
 
-        // Return context with same service under both tags
-        return Context.empty().pipe(
-          Context.add(TestLanguageModel, service),
-          Context.add(LanguageModel.LanguageModel, service),
-        );
-      }),
-    );
+      // Return context with same service under both tags
+      return Context.empty().pipe(
+        Context.add(TestLanguageModel, service),
+        Context.add(LanguageModel.LanguageModel, service),
+        Context.add(LanguageModels, languageModels),
+      );
+    }),
+  );
 }
@@ -5,7 +5,7 @@ import * as path from "node:path";
 import { fileURLToPath } from "node:url";
 import { serve } from "@hono/node-server";
 import { Hono } from "hono";
-import { createApp, EventStore } from "@kiterate/server-basic";
+import { BlobStore, createApp, EventStore } from "@kiterate/server-basic";
 import { PiAdapter } from "./pi.js";
 import { ClaudeAdapter } from "./claude.js";
 import { OpenCodeAdapter } from "./opencode.js";
@@ -14,6 +14,7 @@ const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const PORT = parseInt(process.env.PORT ?? "3001", 10);
 const HOST = process.env.HOST ?? "127.0.0.1";
 const DATA_DIR = process.env.DATA_DIR ?? path.resolve(__dirname, "../.iterate/agents");
+const BLOB_DIR = process.env.BLOB_DIR ?? path.resolve(__dirname, "../.iterate/blobs");
 const PI_SESSIONS_FILE =
   process.env.PI_SESSIONS_FILE ?? path.resolve(__dirname, "../.iterate/pi-sessions.yaml");
 const CLAUDE_SESSIONS_FILE =
@@ -24,7 +25,7 @@ const OPENCODE_SESSIONS_FILE =
 
 async function main() {
   const store = new EventStore(DATA_DIR);
-  const basicApp = createApp({ store });
+  const basicApp = createApp({ store, blobs: new BlobStore(BLOB_DIR) });
 
   // Initialize PI Adapter
   const piAdapter = new PiAdapter({
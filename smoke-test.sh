@@ -395,11 +395,50 @@ else
     fail "Events missing offset field"
 fi
 
+# ─────────────────────────────────────────────────────────────────────────────
+# Test: Idempotency key
+# ─────────────────────────────────────────────────────────────────────────────
+
+section "8. Testing Idempotency Key"
+
+test_header "POST the same event twice with one Idempotency-Key"
+IDEMPOTENCY_KEY="smoke-$(date +%s)"
+post_with_key() {
+    curl -s -X POST "$STREAM_URL" \
+        -H "Content-Type: application/json" \
+        -H "Idempotency-Key: $IDEMPOTENCY_KEY" \
+        -d '{"type":"message","from":"retry","seq":1,"text":"Sent twice"}'
+}
+FIRST_POST=$(post_with_key)
+SECOND_POST=$(post_with_key)
+get_json_field() {
+    python3 -c "import sys,json; print(json.load(sys.stdin).get('$1', ''))" 2>/dev/null || echo ""
+}
+FIRST_KEY_OFFSET=$(echo "$FIRST_POST" | get_json_field offset)
+SECOND_KEY_OFFSET=$(echo "$SECOND_POST" | get_json_field offset)
+echo "    Offsets: $FIRST_KEY_OFFSET, $SECOND_KEY_OFFSET"
+if [ -n "$FIRST_KEY_OFFSET" ] && [ "$FIRST_KEY_OFFSET" = "$SECOND_KEY_OFFSET" ]; then
+    pass "Second POST returned the first one's offset"
+else
+    fail "Second POST with the same key got a different offset"
+fi
+if [ "$(echo "$SECOND_POST" | get_json_field duplicate)" = "True" ]; then
+    pass "Second POST was reported as a duplicate"
+else
+    fail "Second POST wasn't reported as a duplicate: $SECOND_POST"
+fi
+RETRY_COUNT=$(curl -s "$STREAM_URL?offset=-1" | grep -c '"from":"retry"' || echo "0")
+if [ "$RETRY_COUNT" -eq 1 ]; then
+    pass "Event stored once"
+else
+    fail "Event stored $RETRY_COUNT times (expected 1)"
+fi
+
 # ─────────────────────────────────────────────────────────────────────────────
 # Final Summary
 # ─────────────────────────────────────────────────────────────────────────────
 
-section "8. Final Verification"
+section "9. Final Verification"
 
 test_header "Reading all events"
 FINAL_RESULT=$(curl -s "$STREAM_URL?offset=-1")
@@ -413,10 +452,10 @@ echo "$FINAL_RESULT" | grep '^data: ' | sed 's/^data: //' | while read -r line;
     echo "$line" | python3 -m json.tool 2>/dev/null | head -10 | sed 's/^/    /'
 done | head -40
 
-if [ "$FINAL_COUNT" -eq 5 ]; then
-    pass "Stream contains all 5 events"
+if [ "$FINAL_COUNT" -eq 6 ]; then
+    pass "Stream contains all 6 events"
 else
-    fail "Expected 5 events, got $FINAL_COUNT"
+    fail "Expected 6 events, got $FINAL_COUNT"
 fi
 
 # ─────────────────────────────────────────────────────────────────────────────
@@ -435,4 +474,5 @@ echo "  • 2 concurrent SSE consumers received all events"
 echo "  • 2 writers successfully appended events"
 echo "  • offset=-1 and offset=<specific> work correctly"
 echo "  • Events contain offset field"
+echo "  • A repeated Idempotency-Key stores the event once"
 echo ""
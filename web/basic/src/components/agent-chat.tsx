@@ -15,7 +15,7 @@ import {
 import { useDurableStream } from "@/hooks/use-durable-stream";
 import { useRawMode, type DisplayMode } from "@/hooks/use-raw-mode";
 import { useJsonInput } from "@/hooks/use-json-input";
-import { useAudioRecorder } from "@/hooks/use-audio-recorder";
+import { AUDIO_MIME_TYPE, useAudioRecorder } from "@/hooks/use-audio-recorder";
 import {
   buildAgentURL,
   createMessageEvent,
@@ -24,6 +24,7 @@ import {
   sendAudio,
   sendConfigEvent,
   sendCancelRequest,
+  forkStream,
   type AiModelType,
   type UserMessageMode,
 } from "@/lib/agent-api";
@@ -153,6 +154,32 @@ function createGroupedOrSingleEvent(events: EventFeedItem[]): FeedItem {
   return grouped;
 }
 
+/** Offset of the stream event behind a feed item, read from the raw event */
+function eventOffset(item: FeedItem): string | undefined {
+  if (item.kind === "event") return (item.raw as { offset?: string }).offset;
+  if (item.kind === "grouped-event") return eventOffset(item.events[item.events.length - 1]);
+  return undefined;
+}
+
+/**
+ * Offset to fork at so the fork includes `item`. Messages and tools are built up by several
+ * events, so take the last event before the next non-event item (which started that item).
+ */
+function forkOffset(feed: FeedItem[], item: FeedItem): string | undefined {
+  const own = eventOffset(item);
+  if (own !== undefined) return own;
+
+  const index = feed.indexOf(item);
+  if (index === -1) return undefined;
+  const next = feed.findIndex((other, i) => i > index && other.kind !== "event");
+  const end = next === -1 ? feed.length : next - 1;
+  for (let i = end - 1; i >= 0; i--) {
+    const offset = eventOffset(feed[i]);
+    if (offset !== undefined) return offset;
+  }
+  return undefined;
+}
+
 export function AgentChat({ agentPath, apiURL, onConnectionStatusChange }: AgentChatProps) {
   const [sending, setSending] = useState(false);
   const [sendError, setSendError] = useState<string | null>(null);
@@ -178,10 +205,10 @@ export function AgentChat({ agentPath, apiURL, onConnectionStatusChange }: Agent
   }, [audioControls]);
 
   const handleMicMouseUp = useCallback(async () => {
-    const audioBase64 = await audioControls.stopRecording();
-    if (audioBase64) {
-      console.log(`[audio] Sending ${audioBase64.length} bytes of audio`);
-      const result = await sendAudio(apiURL, agentPath, audioBase64);
+    const audio = await audioControls.stopRecording();
+    if (audio) {
+      console.log(`[audio] Uploading ${audio.length} bytes of audio`);
+      const result = await sendAudio(apiURL, agentPath, audio, AUDIO_MIME_TYPE);
       if (!result.ok) {
         setSendError(result.error ?? "Failed to send audio");
       }
@@ -278,6 +305,25 @@ export function AgentChat({ agentPath, apiURL, onConnectionStatusChange }: Agent
     }
   };
 
+  // Fork the stream at a feed item and switch to the fork
+  const handleFork = useCallback(
+    async (item: FeedItem) => {
+      setSendError(null);
+      const at = forkOffset(feed, item);
+      if (at === undefined) {
+        setSendError("No event to fork from");
+        return;
+      }
+      const result = await forkStream(apiURL, agentPath, at, `${agentPath}-fork-${Date.now()}`);
+      if (!result.ok || !result.path) {
+        setSendError(result.error ?? "Failed to fork stream");
+        return;
+      }
+      window.location.hash = result.path;
+    },
+    [feed, apiURL, agentPath],
+  );
+
   // Handle stop button - sends cancel request
   const handleStop = async () => {
     setSendError(null);
@@ -358,7 +404,11 @@ export function AgentChat({ agentPath, apiURL, onConnectionStatusChange }: Agent
           ) : (
             <>
               {displayFeed?.map((item, index) => (
-                <FeedItemRenderer key={getFeedItemKey(item, index)} item={item} />
+                <FeedItemRenderer
+                  key={getFeedItemKey(item, index)}
+                  item={item}
+                  onFork={handleFork}
+                />
               ))}
               {streamingMessage && (
                 <FeedItemRenderer key="streaming" item={streamingMessage} isStreaming />
@@ -1,6 +1,6 @@
 import { useState, memo, useCallback, useRef, useMemo } from "react";
 import { useLocalStorage } from "usehooks-ts";
-import { PlayIcon, PauseIcon, CodeIcon, TypeIcon } from "lucide-react";
+import { PlayIcon, PauseIcon, CodeIcon, TypeIcon, GitForkIcon } from "lucide-react";
 import { HarnessErrorAlert } from "./harness-error-alert.tsx";
 import { SerializedObjectCodeBlock } from "./serialized-object-code-block.tsx";
 import { Button } from "@/components/ui/button.tsx";
@@ -47,15 +47,20 @@ const MessageBubble = memo(function MessageBubble({
 }) {
   const text = getMessageText(msg.content);
   const timeStr = new Date(msg.timestamp).toLocaleTimeString();
-  const hasAudio = !!msg.audioData;
+  const hasAudio = !!msg.audioData || !!msg.audioBlob;
 
   const [isPlaying, setIsPlaying] = useState(false);
   const [showRaw, setShowRaw] = useLocalStorage("kiterate:showRawMessages", false);
   const playbackRef = useRef<AudioPlaybackHandle | null>(null);
 
   const duration = useMemo(
-    () => (msg.audioData ? grokGetAudioDuration(msg.audioData) : 0),
-    [msg.audioData],
+    () =>
+      msg.audioBlob
+        ? msg.audioBlob.size / 2 / 48000 // PCM s16le at 48kHz
+        : msg.audioData
+          ? grokGetAudioDuration(msg.audioData)
+          : 0,
+    [msg.audioData, msg.audioBlob],
   );
 
   const handlePlayPause = useCallback(() => {
@@ -64,17 +69,30 @@ const MessageBubble = memo(function MessageBubble({
       playbackRef.current?.stop();
       playbackRef.current = null;
       setIsPlaying(false);
-    } else if (msg.audioData) {
-      // Start playback
-      playbackRef.current = grokPlayAudio(msg.audioData, () => {
-        setIsPlaying(false);
-        playbackRef.current = null;
-      });
-      if (playbackRef.current) {
-        setIsPlaying(true);
+    } else {
+      // Start playback - recorded audio is fetched from the blob store first
+      const play = (audio: string | Uint8Array) => {
+        playbackRef.current = grokPlayAudio(audio, () => {
+          setIsPlaying(false);
+          playbackRef.current = null;
+        });
+        if (playbackRef.current) {
+          setIsPlaying(true);
+        }
+      };
+      if (msg.audioBlob) {
+        fetch(msg.audioBlob.url)
+          .then((res) => {
+            if (!res.ok) throw new Error(`Server error: ${res.status} ${res.statusText}`);
+            return res.arrayBuffer();
+          })
+          .then((buffer) => play(new Uint8Array(buffer)))
+          .catch((err) => console.error("[audio] Failed to load recording:", err));
+      } else if (msg.audioData) {
+        play(msg.audioData);
       }
     }
-  }, [isPlaying, msg.audioData]);
+  }, [isPlaying, msg.audioData, msg.audioBlob]);
 
   return (
     <Message from={msg.role}>
@@ -252,16 +270,10 @@ function ToolExecution({ tool }: { tool: ToolFeedItem }) {
   );
 }
 
-export const FeedItemRenderer = memo(function FeedItemRenderer({
-  item,
-  isStreaming,
-}: {
-  item: FeedItem;
-  isStreaming?: boolean;
-}) {
+function FeedItemContent({ item, isStreaming }: { item: FeedItem; isStreaming: boolean }) {
   switch (item.kind) {
     case "message":
-      return <MessageBubble msg={item} isStreaming={isStreaming ?? false} />;
+      return <MessageBubble msg={item} isStreaming={isStreaming} />;
     case "error":
       return <HarnessErrorAlert error={item} />;
     case "event":
@@ -274,4 +286,32 @@ export const FeedItemRenderer = memo(function FeedItemRenderer({
       // Unknown feed item type - skip
       return null;
   }
+}
+
+export const FeedItemRenderer = memo(function FeedItemRenderer({
+  item,
+  isStreaming,
+  onFork,
+}: {
+  item: FeedItem;
+  isStreaming?: boolean;
+  /** Shows a "fork from here" button on hover */
+  onFork?: (item: FeedItem) => void;
+}) {
+  if (!onFork) return <FeedItemContent item={item} isStreaming={isStreaming ?? false} />;
+
+  return (
+    <div className="group relative">
+      <FeedItemContent item={item} isStreaming={isStreaming ?? false} />
+      <Button
+        variant="ghost"
+        size="icon"
+        className="absolute -left-5 top-0 size-5 opacity-0 group-hover:opacity-100 text-muted-foreground"
+        title="Fork from here"
+        onClick={() => onFork(item)}
+      >
+        <GitForkIcon className="size-3" />
+      </Button>
+    </div>
+  );
 });
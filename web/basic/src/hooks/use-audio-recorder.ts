@@ -9,6 +9,9 @@ import { useState, useRef, useCallback, useEffect } from "react";
 
 const SAMPLE_RATE = 48000;
 
+/** MIME type of the recorded bytes, as uploaded to the blob store */
+export const AUDIO_MIME_TYPE = `audio/pcm;rate=${SAMPLE_RATE}`;
+
 export interface AudioDevice {
   deviceId: string;
   label: string;
@@ -25,8 +28,8 @@ export interface AudioRecorderState {
 export interface AudioRecorderControls {
   /** Start recording - call on mousedown/touchstart */
   startRecording: () => Promise<void>;
-  /** Stop recording and return PCM audio as base64 - call on mouseup/touchend */
-  stopRecording: () => Promise<string | null>;
+  /** Stop recording and return the PCM audio bytes - call on mouseup/touchend */
+  stopRecording: () => Promise<Uint8Array<ArrayBuffer> | null>;
   /** Refresh available audio devices */
   refreshDevices: () => Promise<void>;
   /** Select audio input device */
@@ -134,7 +137,7 @@ export function useAudioRecorder(): [AudioRecorderState, AudioRecorderControls]
     }
   }, [isSupported, selectedDeviceId]);
 
-  const stopRecording = useCallback(async (): Promise<string | null> => {
+  const stopRecording = useCallback(async (): Promise<Uint8Array<ArrayBuffer> | null> => {
     if (!isRecording) return null;
 
     try {
@@ -179,13 +182,7 @@ export function useAudioRecorder(): [AudioRecorderState, AudioRecorderControls]
         pcmData[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
       }
 
-      // Convert to base64
-      const uint8Array = new Uint8Array(pcmData.buffer);
-      let binary = "";
-      for (let i = 0; i < uint8Array.length; i++) {
-        binary += String.fromCharCode(uint8Array[i]);
-      }
-      return btoa(binary);
+      return new Uint8Array(pcmData.buffer);
     } catch (err) {
       const message = err instanceof Error ? err.message : "Failed to stop recording";
       setError(message);
@@ -14,7 +14,10 @@ import type { ConnectionStatus, StreamEvent } from "@/reducers";
 // ─────────────────────────────────────────────────────────────────────────────
 
 export interface DurableStreamConfig<TState, TEvent extends StreamEvent> {
-  /** SSE endpoint URL. Pass null to disable. */
+  /**
+   * SSE endpoint URL. Pass null to disable.
+   * Query params are kept, so `?excludeTypes=iterate:llm-loop:response:sse` filters server-side.
+   */
   url: string | null;
 
   /** Reducer: (state, event) => newState */
@@ -63,26 +63,38 @@ export function createCancelEvent(agentPath: string): CancelRequestEvent {
   };
 }
 
-/** Send raw JSON to an agent endpoint */
+/** Attempts per send - network failures are retried with the same idempotency key */
+const MAX_SEND_ATTEMPTS = 3;
+
+/**
+ * Send raw JSON to an agent endpoint.
+ * Retries on network failure; the Idempotency-Key header stops retries from duplicating the event.
+ */
 export async function sendRawJson(
   apiURL: string,
   agentPath: string,
   jsonString: string,
 ): Promise<ApiResult> {
-  try {
-    const res = await fetch(buildAgentURL(apiURL, agentPath), {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: jsonString,
-    });
-    if (!res.ok) {
-      return { ok: false, error: `Server error: ${res.status} ${res.statusText}` };
+  const idempotencyKey = crypto.randomUUID();
+  let lastError = "Network request failed";
+
+  for (let attempt = 0; attempt < MAX_SEND_ATTEMPTS; attempt++) {
+    try {
+      const res = await fetch(buildAgentURL(apiURL, agentPath), {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Idempotency-Key": idempotencyKey },
+        body: jsonString,
+      });
+      if (!res.ok) {
+        return { ok: false, error: `Server error: ${res.status} ${res.statusText}` };
+      }
+      return { ok: true };
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : "Network request failed";
     }
-    return { ok: true };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : "Network request failed";
-    return { ok: false, error: message };
   }
+
+  return { ok: false, error: lastError };
 }
 
 /** Send a user message to an agent (wrapped in event envelope) */
@@ -102,31 +114,81 @@ export async function sendCancelRequest(apiURL: string, agentPath: string): Prom
   return sendRawJson(apiURL, agentPath, JSON.stringify(event));
 }
 
-/** Audio input event for voice agents */
+/** Reference to bytes uploaded with PUT /blobs - events carry it instead of the bytes */
+export interface BlobRef {
+  blobRef: string;
+  mimeType: string;
+  size: number;
+}
+
+/** Result of a blob upload */
+export interface UploadResult extends ApiResult {
+  blob?: BlobRef;
+}
+
+/**
+ * Upload bytes to the blob store.
+ * Retries on network failure; blobs are content-addressed, so a repeated upload is harmless.
+ */
+export async function uploadBlob(
+  apiURL: string,
+  bytes: Uint8Array<ArrayBuffer>,
+  mimeType: string,
+): Promise<UploadResult> {
+  let lastError = "Network request failed";
+
+  for (let attempt = 0; attempt < MAX_SEND_ATTEMPTS; attempt++) {
+    try {
+      const res = await fetch(new URL("/blobs", apiURL), {
+        method: "PUT",
+        headers: { "Content-Type": mimeType },
+        body: bytes,
+      });
+      if (!res.ok) {
+        return { ok: false, error: `Server error: ${res.status} ${res.statusText}` };
+      }
+      return { ok: true, blob: (await res.json()) as BlobRef };
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : "Network request failed";
+    }
+  }
+
+  return { ok: false, error: lastError };
+}
+
+/**
+ * Audio input event for voice agents - the audio itself lives in the blob store.
+ * Version 1 carried it inline as base64.
+ */
 export interface AudioInputEvent {
   type: "iterate:agent:action:send-user-audio:called";
-  version: 1;
+  version: 2;
   eventStreamId: string;
-  payload: { audio: string }; // base64 PCM s16le 48kHz
+  payload: BlobRef;
 }
 
 /** Create an audio input event envelope */
-export function createAudioEvent(agentPath: string, audioBase64: string): AudioInputEvent {
+export function createAudioEvent(agentPath: string, blob: BlobRef): AudioInputEvent {
   return {
     type: "iterate:agent:action:send-user-audio:called",
-    version: 1,
+    version: 2,
     eventStreamId: agentPath,
-    payload: { audio: audioBase64 },
+    payload: blob,
   };
 }
 
-/** Send audio to an agent (wrapped in event envelope) */
+/** Upload recorded audio, then send an event referencing it to an agent */
 export async function sendAudio(
   apiURL: string,
   agentPath: string,
-  audioBase64: string,
+  audio: Uint8Array<ArrayBuffer>,
+  mimeType: string,
 ): Promise<ApiResult> {
-  const event = createAudioEvent(agentPath, audioBase64);
+  const upload = await uploadBlob(apiURL, audio, mimeType);
+  if (!upload.blob) {
+    return { ok: false, error: upload.error ?? "Failed to upload audio" };
+  }
+  const event = createAudioEvent(agentPath, upload.blob);
   return sendRawJson(apiURL, agentPath, JSON.stringify(event));
 }
 
@@ -197,6 +259,35 @@ export async function sendConfigEvent(
   return sendRawJson(apiURL, agentPath, JSON.stringify(event));
 }
 
+/** Result of forking a stream */
+export interface ForkResult extends ApiResult {
+  path?: string;
+}
+
+/**
+ * Start stream `to` with a copy of `agentPath`'s events up to and including offset `at`.
+ * Fails with 409 if `to` already has events.
+ */
+export async function forkStream(
+  apiURL: string,
+  agentPath: string,
+  at: string,
+  to: string,
+): Promise<ForkResult> {
+  try {
+    const url = new URL(`${buildAgentURL(apiURL, agentPath)}:fork`);
+    url.searchParams.set("at", at);
+    url.searchParams.set("to", to);
+    const res = await fetch(url, { method: "POST" });
+    if (!res.ok) {
+      return { ok: false, error: `Server error: ${res.status} ${res.statusText}` };
+    }
+    return { ok: true, path: ((await res.json()) as { path: string }).path };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : "Network request failed" };
+  }
+}
+
 /** Check if an agent path is a PI agent path */
 export function isPiAgentPath(agentPath: string): boolean {
   return agentPath.startsWith("/pi/");
@@ -66,27 +66,29 @@ export function getAudioDuration(audioInput: string | string[]): number {
   return numSamples / 48000;
 }
 
+/** Decode base64 audio (a single string or an array of chunks) to bytes */
+function decodeBase64(audioInput: string | string[]): Uint8Array {
+  const binary = atob(Array.isArray(audioInput) ? audioInput.join("") : audioInput);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
 /**
- * Play audio from PCM s16le base64 data (48kHz, mono).
- * Accepts either an array of base64 chunks or a single base64 string.
+ * Play audio from PCM s16le data (48kHz, mono).
+ * Accepts an array of base64 chunks, a single base64 string or the raw bytes.
  * Returns a handle to stop playback and get duration, or null if no audio.
  */
 export function playAudio(
-  audioInput: string | string[],
+  audioInput: string | string[] | Uint8Array,
   onEnded?: () => void,
 ): AudioPlaybackHandle | null {
   if (!audioInput || (Array.isArray(audioInput) && audioInput.length === 0)) return null;
 
-  // Normalize to single base64 string
-  const base64Data = Array.isArray(audioInput) ? audioInput.join("") : audioInput;
-  if (!base64Data) return null;
-
-  // Decode base64 to bytes
-  const binary = atob(base64Data);
-  const audioData = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i++) {
-    audioData[i] = binary.charCodeAt(i);
-  }
+  const audioData = audioInput instanceof Uint8Array ? audioInput : decodeBase64(audioInput);
+  if (audioData.length === 0) return null;
 
   // Convert PCM s16le to AudioBuffer and play
   const sampleRate = 48000;
@@ -96,7 +98,7 @@ export function playAudio(
   const channelData = audioBuffer.getChannelData(0);
 
   // Convert s16le to float32
-  const dataView = new DataView(audioData.buffer);
+  const dataView = new DataView(audioData.buffer, audioData.byteOffset, audioData.byteLength);
   for (let i = 0; i < numSamples; i++) {
     const sample = dataView.getInt16(i * 2, true); // little-endian
     channelData[i] = sample / 32768; // normalize to [-1, 1]
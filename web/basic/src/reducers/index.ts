@@ -99,6 +99,7 @@ export interface WrapperState {
   grokAudioChunks: string[];
   /** Pending user audio (waiting for transcript from Grok) */
   pendingUserAudio?: string | undefined;
+  pendingUserAudioBlob?: MessageFeedItem["audioBlob"] | undefined;
   pendingUserAudioTimestamp?: number | undefined;
   /** Currently configured AI model (from config events) */
   configuredModel?: AiModelType | undefined;
@@ -314,12 +315,14 @@ export function wrapperReducer(state: WrapperState, event: unknown): WrapperStat
           content: [{ type: "text", text: transcript.trim() }],
           timestamp: state.pendingUserAudioTimestamp ?? t,
           ...(state.pendingUserAudio ? { audioData: state.pendingUserAudio } : {}),
+          ...(state.pendingUserAudioBlob ? { audioBlob: state.pendingUserAudioBlob } : {}),
         };
         return {
           ...state,
           feed: [...state.feed, evtItem, msgItem],
           rawEvents,
           pendingUserAudio: undefined,
+          pendingUserAudioBlob: undefined,
           pendingUserAudioTimestamp: undefined,
         };
       }
@@ -370,14 +373,27 @@ export function wrapperReducer(state: WrapperState, event: unknown): WrapperStat
   }
 
   // User audio action → store pending audio (message created when transcript arrives)
+  // The audio is in the blob store; events recorded before it carry inline base64
   if (type === USER_AUDIO) {
-    const audio = (e.payload as { audio?: string })?.audio;
+    const p = e.payload as { blobRef?: string; size?: number; audio?: string } | undefined;
+    if (p?.blobRef) {
+      return {
+        ...state,
+        feed: [...state.feed, evtItem],
+        rawEvents,
+        pendingUserAudio: undefined,
+        pendingUserAudioBlob: { url: `/blobs/${p.blobRef}`, size: p.size ?? 0 },
+        pendingUserAudioTimestamp: t,
+      };
+    }
+    const audio = p?.audio;
     if (audio) {
       return {
         ...state,
         feed: [...state.feed, evtItem],
         rawEvents,
         pendingUserAudio: audio,
+        pendingUserAudioBlob: undefined,
         pendingUserAudioTimestamp: t,
       };
     }
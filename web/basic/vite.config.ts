@@ -33,6 +33,11 @@ const config = defineConfig({
           });
         },
       },
+      // Recorded audio is uploaded to and played back from the blob store
+      "/blobs": {
+        target: `http://localhost:${backendPort}`,
+        changeOrigin: true,
+      },
     },
   },
 });